@@ -29,7 +29,22 @@ declare global {
       S3_OUTPUT_BUCKET?: string
       SQS_QUEUE_URL?: string
       SEGMENT_DURATION?: string
-      FRAME_INTERVAL?: string
+      SEGMENT_TARGET_COUNT?: string
+      SEGMENT_MIN_DURATION_MS?: string
+      SEGMENT_MAX_DURATION_MS?: string
+      SEGMENT_ALIGN_TO_KEYFRAMES?: 'true' | 'false'
+      FRAMES_ARCHIVE_URL_EXPIRES_IN?: string
+      FRAMES_UPLOAD_CONCURRENCY?: string
+      PRINT_FRAMES_OUTPUT?: 'disk' | 'stream'
+      EMAIL_TRANSPORT?: 'smtp' | 'file'
+      EMAIL_FROM?: string
+      EMAIL_DROP_DIR?: string
+      SMTP_HOST?: string
+      SMTP_PORT?: string
+      SMTP_SECURE?: string
+      SMTP_STARTTLS?: string
+      SMTP_USER?: string
+      SMTP_PASSWORD?: string
     }
   }
 }
@@ -5,6 +5,7 @@ export type VideoStatus =
   | 'PRINTING'
   | 'COMPLETED'
   | 'FAILED'
+  | 'CANCELLED'
 
 export interface VideoStatusChangedEvent {
   videoId: string
@@ -18,6 +19,8 @@ export interface VideoStatusChangedEvent {
   downloadUrl?: string
   errorReason?: string
   traceId?: string
+  /** Processing run the status belongs to; absent for the upload's own run */
+  runId?: string
 }
 
 export interface EventBusEmitter {
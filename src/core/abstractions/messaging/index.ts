@@ -5,3 +5,8 @@ export type {
   VideoStatusChangedEvent,
   VideoStatus,
 } from './event-bus-emitter.interface'
+export type {
+  OutboxRepository,
+  OutboxPublisher,
+  OutboxPendingEntry,
+} from './outbox.interface'
@@ -0,0 +1,51 @@
+import type { Result } from '@core/domain/result'
+import type { OutboxMessage, StoredOutboxMessage } from '@core/messaging'
+
+/** A pending message as listed by the relay, oldest first within a bucket */
+export type OutboxPendingEntry = {
+  bucket: number
+  createdAt: Date
+  messageId: string
+}
+
+export interface OutboxRepository {
+  /** Pending messages are spread over this many buckets (by aggregate) */
+  readonly bucketCount: number
+
+  /**
+   * Writes messages on their own. Aggregates write theirs in the batch of the
+   * aggregate update instead; this is for re-recording a known event.
+   */
+  add(messages: OutboxMessage[]): Promise<Result<void, Error>>
+  findPending(
+    bucket: number,
+    limit: number,
+  ): Promise<Result<OutboxPendingEntry[], Error>>
+  findById(
+    messageId: string,
+  ): Promise<Result<StoredOutboxMessage | null, Error>>
+  /** Every message written for the aggregate, newest first */
+  findByAggregate(
+    aggregateId: string,
+  ): Promise<Result<StoredOutboxMessage[], Error>>
+
+  /** Records the publication and removes the entry from the pending index */
+  markPublished(
+    entry: OutboxPendingEntry,
+    publishedAt: Date,
+  ): Promise<Result<void, Error>>
+  /** Keeps the entry pending and records why the publication failed */
+  recordFailure(
+    entry: OutboxPendingEntry,
+    attempts: number,
+    error: string,
+  ): Promise<Result<void, Error>>
+  /** Removes an entry whose message is gone or was already published */
+  dropPending(entry: OutboxPendingEntry): Promise<Result<void, Error>>
+  /** Clears the publication and puts the message back in the pending index */
+  requeue(message: OutboxMessage): Promise<Result<void, Error>>
+}
+
+export interface OutboxPublisher {
+  publish(message: OutboxMessage): Promise<Result<void, Error>>
+}
@@ -0,0 +1,184 @@
+import { AggregateRoot } from '@core/domain/aggregate'
+import { DomainEvent } from '@core/domain/events/domain-event'
+import {
+  DomainEventDispatcher,
+  type DispatchedDomainEvent,
+} from '@core/domain/events/domain-event-dispatcher'
+import { Result } from '@core/domain/result'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import { beforeEach, describe, expect, it } from 'bun:test'
+import { z } from 'zod'
+
+class Order extends AggregateRoot<Order> {
+  constructor(public total: number) {
+    super(UniqueEntityID.create())
+  }
+
+  place(): void {
+    this.addDomainEvent(new OrderPlacedEvent(this))
+  }
+
+  ship(): void {
+    this.addDomainEvent(new OrderShippedEvent(this))
+  }
+
+  refund(): void {
+    this.addDomainEvent(new OrderRefundedEvent(this))
+  }
+}
+
+class OrderPlacedEvent extends DomainEvent<Order> {}
+
+class OrderShippedEvent extends DomainEvent<Order> {}
+
+class OrderRefundedEvent extends DomainEvent<Order> {}
+
+const OrderPayloadSchema = z.object({
+  orderId: z.string().min(1),
+  state: z.enum(['PLACED', 'SHIPPED']),
+  total: z.number().positive(),
+})
+
+type OrderPayload = z.infer<typeof OrderPayloadSchema>
+type DispatchedOrderEvent = DispatchedDomainEvent<
+  DomainEvent<Order>,
+  OrderPayload
+>
+
+function orderMapping(state: OrderPayload['state']) {
+  return {
+    eventType: 'Order Changed',
+    schema: OrderPayloadSchema,
+    toPayload: (event: DomainEvent<Order>) => ({
+      orderId: event.data.id.value,
+      state,
+      total: event.data.total,
+    }),
+  }
+}
+
+describe('DomainEventDispatcher', () => {
+  let dispatcher: DomainEventDispatcher<Order, OrderPayload>
+  let received: string[]
+
+  beforeEach(() => {
+    received = []
+    dispatcher = new DomainEventDispatcher<Order, OrderPayload>()
+      .register(OrderPlacedEvent, orderMapping('PLACED'))
+      .register(OrderShippedEvent, orderMapping('SHIPPED'))
+  })
+
+  function record(label: string) {
+    return async (dispatched: DispatchedOrderEvent) => {
+      received.push(`${label}:${dispatched.payload.state}`)
+      return Result.ok(undefined)
+    }
+  }
+
+  it('should map each event to its event type and payload', () => {
+    const order = new Order(10)
+    order.place()
+    order.ship()
+
+    const result = dispatcher.describe(order.domainEvents)
+
+    expect(result.isSuccess).toBe(true)
+    expect(
+      result.value.map(({ eventName, eventType, payload }) => ({
+        eventName,
+        eventType,
+        payload,
+      })),
+    ).toEqual([
+      {
+        eventName: 'OrderPlacedEvent',
+        eventType: 'Order Changed',
+        payload: { orderId: order.id.value, state: 'PLACED', total: 10 },
+      },
+      {
+        eventName: 'OrderShippedEvent',
+        eventType: 'Order Changed',
+        payload: { orderId: order.id.value, state: 'SHIPPED', total: 10 },
+      },
+    ])
+  })
+
+  it('should run only the handlers of each event, in order, and clear the events', async () => {
+    dispatcher.on(OrderPlacedEvent, record('first'))
+    dispatcher.on(OrderPlacedEvent, record('second'))
+    dispatcher.on(OrderShippedEvent, record('shipping'))
+    const order = new Order(10)
+    order.place()
+    order.ship()
+
+    const result = await dispatcher.dispatch(order)
+
+    expect(result.isSuccess).toBe(true)
+    expect(received).toEqual([
+      'first:PLACED',
+      'second:PLACED',
+      'shipping:SHIPPED',
+    ])
+    expect(order.domainEvents).toHaveLength(0)
+  })
+
+  it('should keep the events when a handler fails', async () => {
+    dispatcher.on(OrderPlacedEvent, record('placed'))
+    dispatcher.on(OrderShippedEvent, async () =>
+      Result.fail(new Error('broker unavailable')),
+    )
+    const order = new Order(10)
+    order.place()
+    order.ship()
+
+    const result = await dispatcher.dispatch(order)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toBe('broker unavailable')
+    expect(order.domainEvents).toHaveLength(2)
+  })
+
+  it('should stop calling a handler once it is removed', async () => {
+    const off = dispatcher.on(OrderPlacedEvent, record('placed'))
+    off()
+    const order = new Order(10)
+    order.place()
+
+    await dispatcher.dispatch(order)
+
+    expect(received).toEqual([])
+  })
+
+  it('should fail without running handlers when an event is not registered', async () => {
+    dispatcher.on(OrderPlacedEvent, record('placed'))
+    const order = new Order(10)
+    order.place()
+    order.refund()
+
+    const result = await dispatcher.dispatch(order)
+
+    expect(result.error).toBeInstanceOf(NonRetryableError)
+    expect(result.error.message).toBe(
+      'No mapping registered for domain event OrderRefundedEvent',
+    )
+    expect(received).toEqual([])
+    expect(order.domainEvents).toHaveLength(2)
+  })
+
+  it('should fail when the payload does not match the schema', () => {
+    const order = new Order(0)
+    order.place()
+
+    const result = dispatcher.describe(order.domainEvents)
+
+    expect(result.error).toBeInstanceOf(NonRetryableError)
+    expect(result.error.message).toStartWith('Invalid OrderPlacedEvent payload')
+  })
+
+  it('should reject handlers for events that are not registered', () => {
+    expect(() => dispatcher.on(OrderRefundedEvent, record('refund'))).toThrow(
+      'Domain event OrderRefundedEvent is not registered',
+    )
+  })
+})
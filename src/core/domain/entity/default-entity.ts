@@ -1,9 +1,20 @@
 import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
 
+export type EntityTimestamps = {
+  createdAt?: Date
+  updatedAt?: Date
+}
+
 export abstract class DefaultEntity {
-  public readonly createdAt: Date = new Date()
-  public readonly updatedAt: Date = new Date()
+  public readonly createdAt: Date
+  public readonly updatedAt: Date
   public readonly deletedAt: Date | null = null
 
-  constructor(public readonly id: UniqueEntityID) {}
+  constructor(
+    public readonly id: UniqueEntityID,
+    timestamps: EntityTimestamps = {},
+  ) {
+    this.createdAt = timestamps.createdAt ?? new Date()
+    this.updatedAt = timestamps.updatedAt ?? this.createdAt
+  }
 }
@@ -0,0 +1,146 @@
+import { AggregateRoot } from '@core/domain/aggregate'
+import { DefaultEntity } from '@core/domain/entity/default-entity'
+import { DomainEvent } from '@core/domain/events/domain-event'
+import { Result } from '@core/domain/result'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import type { ZodType } from 'zod'
+
+export type DomainEventClass<E extends DomainEvent<DefaultEntity>> =
+  abstract new (
+    ...args: never[]
+  ) => E
+
+/** How an event of one DomainEvent subclass leaves the aggregate */
+export type DomainEventMapping<E, TPayload> = {
+  /** Event type of the envelope (EventBridge `detail-type`) */
+  eventType: string
+  /** Validates the payload before any handler sees it */
+  schema: ZodType<TPayload>
+  toPayload(event: E): TPayload
+}
+
+export type DispatchedDomainEvent<E, TPayload> = {
+  event: E
+  eventName: string
+  eventType: string
+  payload: TPayload
+}
+
+export type DomainEventHandler<E, TPayload> = (
+  dispatched: DispatchedDomainEvent<E, TPayload>,
+) => Promise<Result<void, Error>>
+
+type Registration<T extends DefaultEntity, TPayload> = {
+  mapping: DomainEventMapping<DomainEvent<T>, TPayload>
+  handlers: DomainEventHandler<DomainEvent<T>, TPayload>[]
+}
+
+/**
+ * DomainEventDispatcher - Turns the events raised by an aggregate into typed
+ * payloads and hands them to the handlers registered for each event class.
+ *
+ * Every event class must be registered with its mapping: an event without one
+ * fails the dispatch instead of being published with a guessed payload.
+ */
+export class DomainEventDispatcher<T extends DefaultEntity, TPayload> {
+  private readonly registrations = new Map<
+    DomainEventClass<DomainEvent<T>>,
+    Registration<T, TPayload>
+  >()
+
+  register<E extends DomainEvent<T>>(
+    eventClass: DomainEventClass<E>,
+    mapping: DomainEventMapping<E, TPayload>,
+  ): this {
+    this.registrations.set(eventClass, {
+      mapping: mapping as DomainEventMapping<DomainEvent<T>, TPayload>,
+      handlers: [],
+    })
+    return this
+  }
+
+  /** Handlers run in registration order; returns the function that removes it */
+  on<E extends DomainEvent<T>>(
+    eventClass: DomainEventClass<E>,
+    handler: DomainEventHandler<E, TPayload>,
+  ): () => void {
+    const registration = this.registrations.get(eventClass)
+    if (!registration) {
+      throw new Error(`Domain event ${eventClass.name} is not registered`)
+    }
+
+    const entry = handler as DomainEventHandler<DomainEvent<T>, TPayload>
+    registration.handlers.push(entry)
+    return () => {
+      registration.handlers = registration.handlers.filter((h) => h !== entry)
+    }
+  }
+
+  /** Maps and validates the events without running any handler */
+  describe(
+    events: readonly DomainEvent<T>[],
+  ): Result<DispatchedDomainEvent<DomainEvent<T>, TPayload>[], Error> {
+    const dispatched: DispatchedDomainEvent<DomainEvent<T>, TPayload>[] = []
+
+    for (const event of events) {
+      const registration = this.registrationFor(event)
+      if (!registration) {
+        return Result.fail(
+          new NonRetryableError(
+            `No mapping registered for domain event ${event.eventName}`,
+          ),
+        )
+      }
+
+      const { mapping } = registration
+      const parsed = mapping.schema.safeParse(mapping.toPayload(event))
+      if (!parsed.success) {
+        return Result.fail(
+          new NonRetryableError(
+            `Invalid ${event.eventName} payload: ${parsed.error.message}`,
+          ),
+        )
+      }
+
+      dispatched.push({
+        event,
+        eventName: event.eventName,
+        eventType: mapping.eventType,
+        payload: parsed.data,
+      })
+    }
+
+    return Result.ok(dispatched)
+  }
+
+  /**
+   * Runs the handlers of each event in the order the aggregate raised them and
+   * clears the aggregate's events once all of them succeed. On failure the
+   * events are kept, so dispatching again delivers them at least once.
+   */
+  async dispatch(
+    aggregate: AggregateRoot<T>,
+  ): Promise<Result<DispatchedDomainEvent<DomainEvent<T>, TPayload>[], Error>> {
+    const described = this.describe(aggregate.domainEvents)
+    if (described.isFailure) return Result.fail(described.error)
+
+    for (const dispatched of described.value) {
+      const registration = this.registrationFor(dispatched.event)
+      for (const handler of registration?.handlers ?? []) {
+        const result = await handler(dispatched)
+        if (result.isFailure) return Result.fail(result.error)
+      }
+    }
+
+    aggregate.clearDomainEvents()
+    return Result.ok(described.value)
+  }
+
+  private registrationFor(
+    event: DomainEvent<T>,
+  ): Registration<T, TPayload> | undefined {
+    return this.registrations.get(
+      event.constructor as DomainEventClass<DomainEvent<T>>,
+    )
+  }
+}
@@ -0,0 +1,9 @@
+import { BaseError } from '@core/errors/base.error'
+
+export class InvalidCursorError extends BaseError {
+  readonly code = 'INVALID_CURSOR_ERROR'
+
+  static create(message = 'Invalid pagination cursor') {
+    return new InvalidCursorError(message)
+  }
+}
@@ -0,0 +1,9 @@
+import { BaseError } from '@core/errors/base.error'
+
+export class InvalidProcessingProfileError extends BaseError {
+  readonly code = 'INVALID_PROCESSING_PROFILE_ERROR'
+
+  static create(message: string) {
+    return new InvalidProcessingProfileError(message)
+  }
+}
@@ -0,0 +1,9 @@
+import { BaseError } from '@core/errors/base.error'
+
+export class NotFoundError extends BaseError {
+  readonly code = 'NOT_FOUND_ERROR'
+
+  static create(resource: string, id: string) {
+    return new NotFoundError(`${resource} not found: ${id}`)
+  }
+}
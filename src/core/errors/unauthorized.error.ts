@@ -0,0 +1,9 @@
+import { BaseError } from '@core/errors/base.error'
+
+export class UnauthorizedError extends BaseError {
+  readonly code = 'UNAUTHORIZED_ERROR'
+
+  static create(message = 'Unauthorized') {
+    return new UnauthorizedError(message)
+  }
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'bun:test'
+import {
+  decodePageCursor,
+  encodePageCursor,
+} from '@core/libs/database/page-cursor'
+import { InvalidCursorError } from '@core/errors/invalid-cursor.error'
+
+describe('page cursor', () => {
+  it('should round-trip a Cassandra paging state', () => {
+    const pageState = '0a1b2c3d4e5f00ff'
+
+    const cursor = encodePageCursor(pageState)
+    const result = decodePageCursor(cursor)
+
+    expect(cursor).not.toBe(pageState)
+    expect(result.isSuccess).toBe(true)
+    expect(result.value).toBe(pageState)
+  })
+
+  it.each([
+    ['empty', ''],
+    ['non base64url characters', 'abc+/=='],
+    ['whitespace', 'abc def'],
+  ])('should reject %s cursor', (_, cursor) => {
+    const result = decodePageCursor(cursor)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(InvalidCursorError)
+  })
+})
@@ -6,6 +6,22 @@ import {
 } from '@core/errors/database.error'
 import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
 import cassandra from 'cassandra-driver'
+
+export type QueryPageOptions = {
+  fetchSize: number
+  pageState?: string
+}
+
+export type QueryPage<T> = {
+  rows: T[]
+  pageState?: string
+}
+
+export type BatchStatement = {
+  query: string
+  params: unknown[]
+}
+
 export class DataSource {
   private static instance: DataSource
   private readonly client: cassandra.Client
@@ -167,6 +183,72 @@ export class DataSource {
     }
   }
 
+  /**
+   * Runs the statements as one logged batch: either all of them are applied
+   * or none is. Statements without conditions only (Cassandra rejects LWTs
+   * spanning several tables).
+   */
+  async executeBatch(
+    statements: BatchStatement[],
+  ): Promise<Result<void, DatabaseExecutionError>> {
+    try {
+      await this.client.batch(statements, {
+        prepare: true,
+        logged: true,
+        consistency: cassandra.types.consistencies.one,
+      })
+      this.logger.log('Batch executed successfully', {
+        statementCount: statements.length,
+      })
+      return Result.ok(undefined)
+    } catch (error) {
+      this.logger.error('Error executing batch', { error })
+      return Result.fail(
+        DatabaseExecutionError.create(
+          error instanceof Error ? error.message : 'Batch error',
+        ),
+      )
+    }
+  }
+
+  /**
+   * Executes a single page of a query using Cassandra paging state.
+   * `pageState` is undefined on the last page.
+   */
+  async queryPage<T>(
+    query: string,
+    params: unknown[],
+    options: QueryPageOptions,
+  ): Promise<Result<QueryPage<T>, DatabaseExecutionError>> {
+    try {
+      const result = await this.client.execute(query, params, {
+        prepare: true,
+        consistency: cassandra.types.consistencies.one,
+        fetchSize: options.fetchSize,
+        pageState: options.pageState,
+      })
+      this.logger.log('Query page executed successfully', {
+        rowCount: result.rowLength,
+        hasMorePages: !!result.pageState,
+      })
+      const rows = result.rows.map((row) => {
+        const obj: Record<string, unknown> = {}
+        for (const key of Object.keys(row)) {
+          obj[key] = row[key]
+        }
+        return obj as T
+      })
+      return Result.ok({ rows, pageState: result.pageState ?? undefined })
+    } catch (error) {
+      this.logger.error('Error executing query page', { error })
+      return Result.fail(
+        DatabaseExecutionError.create(
+          error instanceof Error ? error.message : 'Query error',
+        ),
+      )
+    }
+  }
+
   async query<T>(
     query: string,
     params: unknown[],
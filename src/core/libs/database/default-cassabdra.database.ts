@@ -1,6 +1,10 @@
 import { Result } from '@core/domain/result'
 import { DatabaseExecutionError } from '@core/errors/database.error'
-import { DataSource } from '@core/libs/database/datasource'
+import {
+  DataSource,
+  type QueryPage,
+  type QueryPageOptions,
+} from '@core/libs/database/datasource'
 import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
 
 export type InsertEntity<T> = {
@@ -98,4 +102,13 @@ export abstract class DefaultDatabase {
       ? Result.ok(result.value)
       : Result.fail(result.error)
   }
+
+  async selectPage<T>(
+    entity: SelectEntity<T>,
+    options: QueryPageOptions,
+  ): Promise<Result<QueryPage<T>, DatabaseExecutionError>> {
+    this.logger.log('Selecting page of entities', { entity, options })
+    const { query, values } = this.prepareSelect(entity)
+    return this.datasource.queryPage<T>(query, values, options)
+  }
 }
@@ -0,0 +1,27 @@
+import { Result } from '@core/domain/result'
+import { InvalidCursorError } from '@core/errors/invalid-cursor.error'
+
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+$/
+
+/**
+ * Opaque cursor for Cassandra paging state, so clients never depend on
+ * the driver's hex representation.
+ */
+export function encodePageCursor(pageState: string): string {
+  return Buffer.from(pageState, 'hex').toString('base64url')
+}
+
+export function decodePageCursor(
+  cursor: string,
+): Result<string, InvalidCursorError> {
+  if (!BASE64URL_PATTERN.test(cursor)) {
+    return Result.fail(InvalidCursorError.create())
+  }
+
+  const pageState = Buffer.from(cursor, 'base64url').toString('hex')
+  if (pageState.length === 0) {
+    return Result.fail(InvalidCursorError.create())
+  }
+
+  return Result.ok(pageState)
+}
@@ -1,3 +1,4 @@
+import { authPlugin } from '@modules/auth'
 import { loggerPlugin } from '@modules/logging/elysia'
 import { correlationMiddleware } from '@modules/telemetry/correlation-context'
 import { Elysia } from 'elysia'
@@ -6,4 +7,14 @@ export class BaseElysia {
   static create(options: ConstructorParameters<typeof Elysia>[0] = {}) {
     return new Elysia(options).use(loggerPlugin).use(correlationMiddleware)
   }
+
+  /**
+   * Same as `create`, but every route requires a valid bearer JWT (ADR 015)
+   * and receives the authenticated `user` in its context.
+   */
+  static createAuthenticated(
+    options: ConstructorParameters<typeof Elysia>[0] = {},
+  ) {
+    return BaseElysia.create(options).use(authPlugin)
+  }
 }
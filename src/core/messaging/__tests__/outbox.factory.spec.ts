@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'bun:test'
+import { EnvelopeFactory } from '../envelope.factory'
+import { createOutboxMessage } from '../outbox.factory'
+
+const envelope = new EnvelopeFactory().createEnvelope(
+  { videoId: 'video-1' },
+  {
+    correlationId: 'corr-1',
+    source: 'fiapx.video',
+    eventType: 'Video Status Changed',
+  },
+)
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+
+describe('createOutboxMessage', () => {
+  const options = {
+    aggregateType: 'Video',
+    aggregateId: 'video-1',
+    eventName: 'VideoUploaded',
+    destination: 'eventbridge' as const,
+    envelope,
+  }
+
+  it('should use the messageId as the envelope messageId', () => {
+    const message = createOutboxMessage(options)
+
+    expect(message.messageId).toMatch(UUID_PATTERN)
+    expect(message.envelope.metadata.messageId).toBe(message.messageId)
+    expect(message.envelope.payload).toEqual({ videoId: 'video-1' })
+    expect(message.createdAt).toBeDate()
+  })
+
+  it('should derive the same messageId from the same deduplication key', () => {
+    const first = createOutboxMessage({
+      ...options,
+      deduplicationKey: 'Video:video-1:VideoUploaded',
+    })
+    const second = createOutboxMessage({
+      ...options,
+      deduplicationKey: 'Video:video-1:VideoUploaded',
+    })
+    const other = createOutboxMessage({
+      ...options,
+      deduplicationKey: 'Video:video-2:VideoUploaded',
+    })
+
+    expect(first.messageId).toMatch(UUID_PATTERN)
+    expect(first.messageId.charAt(14)).toBe('5')
+    expect(second.messageId).toBe(first.messageId)
+    expect(other.messageId).not.toBe(first.messageId)
+  })
+
+  it('should generate random ids without a deduplication key', () => {
+    expect(createOutboxMessage(options).messageId).not.toBe(
+      createOutboxMessage(options).messageId,
+    )
+  })
+})
@@ -43,4 +43,6 @@ export interface PublishOptions {
   source?: string
   traceId?: string
   spanId?: string
+  /** Postpones delivery of the message (SQS accepts up to 900 seconds) */
+  delaySeconds?: number
 }
@@ -7,6 +7,12 @@ export type {
   CreateMetadataOptions,
   PublishOptions,
 } from './envelope.types'
+export type {
+  OutboxDestination,
+  OutboxMessage,
+  StoredOutboxMessage,
+  CreateOutboxMessageOptions,
+} from './outbox.types'
 
 // Schemas
 export {
@@ -17,6 +23,7 @@ export {
 
 // Factory
 export { EnvelopeFactory, defaultEnvelopeFactory } from './envelope.factory'
+export { createOutboxMessage } from './outbox.factory'
 
 // Tracing
 export type { TracingProvider } from './tracing-provider'
@@ -0,0 +1,34 @@
+import { createHash } from 'node:crypto'
+import type { CreateOutboxMessageOptions, OutboxMessage } from './outbox.types'
+
+/** Name-based UUID (version 5 layout over a SHA-1 of the key) */
+function uuidFromKey(key: string): string {
+  const bytes = createHash('sha1').update(key).digest().subarray(0, 16)
+  bytes[6] = ((bytes[6] ?? 0) & 0x0f) | 0x50
+  bytes[8] = ((bytes[8] ?? 0) & 0x3f) | 0x80
+
+  const hex = bytes.toString('hex')
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20),
+  ].join('-')
+}
+
+export function createOutboxMessage(
+  options: CreateOutboxMessageOptions,
+): OutboxMessage {
+  const { deduplicationKey, envelope, ...message } = options
+  const messageId = deduplicationKey
+    ? uuidFromKey(deduplicationKey)
+    : crypto.randomUUID()
+
+  return {
+    ...message,
+    messageId,
+    envelope: { ...envelope, metadata: { ...envelope.metadata, messageId } },
+    createdAt: new Date(),
+  }
+}
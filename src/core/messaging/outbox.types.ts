@@ -0,0 +1,39 @@
+import type { MessageEnvelope } from './envelope.types'
+
+export type OutboxDestination = 'eventbridge' | 'sqs'
+
+/** An envelope waiting to be published by the outbox relay */
+export interface OutboxMessage {
+  /** Same value as `envelope.metadata.messageId`, stable across republishes */
+  messageId: string
+  aggregateType: string
+  aggregateId: string
+  /** Domain event that produced the message (e.g. VideoUploaded) */
+  eventName: string
+  destination: OutboxDestination
+  /** Target queue when destination is `sqs` */
+  queueUrl?: string
+  envelope: MessageEnvelope<unknown>
+  createdAt: Date
+}
+
+export interface StoredOutboxMessage extends OutboxMessage {
+  /** Absent while the message is pending */
+  publishedAt?: Date
+  attempts: number
+  lastError?: string
+}
+
+export interface CreateOutboxMessageOptions {
+  aggregateType: string
+  aggregateId: string
+  eventName: string
+  destination: OutboxDestination
+  queueUrl?: string
+  envelope: MessageEnvelope<unknown>
+  /**
+   * Derives the messageId from this key instead of generating a random one,
+   * so writing the same event twice targets the same outbox row.
+   */
+  deduplicationKey?: string
+}
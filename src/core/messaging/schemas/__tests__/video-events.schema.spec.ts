@@ -185,7 +185,14 @@ describe('VideoStatusChangedEventSchema', () => {
       expect(result.success).toBe(true)
     })
 
-    for (const status of ['UPLOADED', 'PROCESSING', 'COMPLETED', 'FAILED']) {
+    for (const status of [
+      'UPLOADED',
+      'PROCESSING',
+      'SPLITTING',
+      'PRINTING',
+      'COMPLETED',
+      'FAILED',
+    ]) {
       it(`should accept status ${status}`, () => {
         const result = VideoStatusChangedEventSchema.safeParse({
           ...validEvent,
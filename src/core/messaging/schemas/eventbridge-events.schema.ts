@@ -1,10 +1,14 @@
 import { z } from 'zod'
+import { ProcessingProfileSchema } from './video-events.schema'
 
 export const VideoStatusEnum = z.enum([
   'UPLOADED',
   'PROCESSING',
+  'SPLITTING',
+  'PRINTING',
   'COMPLETED',
   'FAILED',
+  'CANCELLED',
 ])
 
 export const VideoStatusChangedEventSchema = z.object({
@@ -19,8 +23,45 @@ export const VideoStatusChangedEventSchema = z.object({
   downloadUrl: z.string().url().optional(),
   errorReason: z.string().optional(),
   traceId: z.string().optional(),
+  /** Set once the video is reprocessed: the run the status belongs to */
+  runId: z.string().optional(),
+  /** Profile the frames of the run are extracted with */
+  processingProfile: ProcessingProfileSchema.optional(),
 })
 
 export type VideoStatusChangedEventPayload = z.infer<
   typeof VideoStatusChangedEventSchema
 >
+
+export const VideoStatusChangedMessageSchema = z.object({
+  detail: VideoStatusChangedEventSchema,
+})
+
+export type VideoStatusChangedMessage = z.infer<
+  typeof VideoStatusChangedMessageSchema
+>
+
+/**
+ * Status events as seen by the notification worker, which also receives the
+ * ones emitted by the API (cancellation, upload expiry) whose payload carries
+ * no correlationId.
+ */
+export const VideoNotificationMessageSchema = z.object({
+  detail: VideoStatusChangedEventSchema.partial({ correlationId: true }),
+})
+
+export type VideoNotificationMessage = z.infer<
+  typeof VideoNotificationMessageSchema
+>
+
+/**
+ * `Video Status Changed` as published by the API for the Video aggregate's
+ * domain events, where correlation and trace travel in the envelope metadata.
+ */
+export const VideoDomainEventPayloadSchema = VideoStatusChangedEventSchema.omit(
+  { correlationId: true, traceId: true },
+)
+
+export type VideoDomainEventPayload = z.infer<
+  typeof VideoDomainEventPayloadSchema
+>
@@ -1,2 +1,3 @@
 export * from './video-events.schema'
 export * from './eventbridge-events.schema'
+export * from './webhook-events.schema'
@@ -1,5 +1,21 @@
 import { z } from 'zod'
 
+/** How the print worker extracts frames; see ProcessingProfileVO */
+export const ProcessingProfileSchema = z.object({
+  mode: z.enum(['interval', 'scene']).optional(),
+  frameInterval: z.number().positive().optional(),
+  fps: z.number().positive().optional(),
+  sceneThreshold: z.number().gt(0).lt(1).optional(),
+  minFrames: z.number().int().positive().optional(),
+  maxFrames: z.number().int().positive().optional(),
+  format: z.enum(['jpg', 'png', 'webp']),
+  maxWidth: z.number().int().positive().optional(),
+  maxHeight: z.number().int().positive().optional(),
+  quality: z.number().int().min(1).max(100).optional(),
+})
+
+export type ProcessingProfileMessage = z.infer<typeof ProcessingProfileSchema>
+
 export const VideoEventDetailSchema = z.object({
   videoId: z.string().min(1),
   videoPath: z.string().optional(),
@@ -8,6 +24,8 @@ export const VideoEventDetailSchema = z.object({
   videoName: z.string().optional(),
   correlationId: z.string().optional(),
   traceId: z.string().optional(),
+  runId: z.string().optional(),
+  processingProfile: ProcessingProfileSchema.optional(),
 })
 
 export const VideoEventSchema = z.object({
@@ -44,6 +62,10 @@ export const SegmentMessageSchema = z.object({
   endTime: z.number().positive(),
   userEmail: z.string().email().optional(),
   videoName: z.string().optional(),
+  /** Processing run started by a reprocess; its frames go to the run's prefix */
+  runId: z.string().optional(),
+  /** The default profile when absent (messages published before profiles) */
+  processingProfile: ProcessingProfileSchema.optional(),
 })
 
 export type SegmentMessage = z.infer<typeof SegmentMessageSchema>
@@ -0,0 +1,32 @@
+import { z } from 'zod'
+import { VideoStatusEnum } from './eventbridge-events.schema'
+
+/**
+ * `Video Status Changed` as forwarded to webhooks: only the routing fields are
+ * checked and the rest of the payload is passed through untouched.
+ */
+export const WebhookVideoStatusChangedMessageSchema = z.object({
+  detail: z
+    .object({
+      videoId: z.string().min(1),
+      status: VideoStatusEnum,
+    })
+    .passthrough(),
+})
+
+export type WebhookVideoStatusChangedMessage = z.infer<
+  typeof WebhookVideoStatusChangedMessageSchema
+>
+
+export const WebhookDeliveryAttemptSchema = z.object({
+  webhookId: z.string().min(1),
+  deliveryId: z.string().min(1),
+})
+
+export type WebhookDeliveryAttemptMessage = z.infer<
+  typeof WebhookDeliveryAttemptSchema
+>
+
+export const WEBHOOK_EVENT_TYPES = {
+  DELIVERY_ATTEMPT: 'webhook.delivery.attempt',
+} as const
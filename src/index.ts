@@ -10,11 +10,21 @@ import {
   startConsumers,
   stopConsumers,
 } from '@modules/video-processor/infra/consumers'
+import { startJobs, stopJobs } from '@modules/video-processor/infra/jobs'
+import { startOutboxRelay, stopOutboxRelay } from '@modules/messaging/outbox'
+import { webhookRoutes } from '@modules/webhooks/presentation/routes'
+import {
+  startWebhookConsumers,
+  stopWebhookConsumers,
+} from '@modules/webhooks/infra/consumers'
 
 const datasource = DataSource.getInstance(logger)
 
 const shutdown = async () => {
   stopConsumers()
+  stopWebhookConsumers()
+  await stopJobs()
+  await stopOutboxRelay()
   await datasource.disconnect()
 }
 
@@ -41,6 +51,7 @@ const app = BaseElysia.create()
     }),
   )
   .use(videoProcessorRoutes)
+  .use(webhookRoutes)
   .use(healthRoutes)
 
 app.listen(3010, () => {
@@ -50,6 +61,9 @@ app.listen(3010, () => {
 
   // Start SQS consumers for background processing
   startConsumers()
+  startWebhookConsumers()
+  startJobs()
+  startOutboxRelay()
 })
 
 process.on('SIGINT', shutdown)
@@ -0,0 +1,170 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { exportJWK, generateKeyPair, SignJWT } from 'jose'
+import { UnauthorizedError } from '@core/errors/unauthorized.error'
+import { JwtVerifier } from '../jwt-verifier'
+
+const SECRET = 'test-secret-with-enough-entropy-123'
+const secretKey = new TextEncoder().encode(SECRET)
+
+function signHs256(claims: Record<string, unknown> = {}, subject = 'user-1') {
+  const jwt = new SignJWT(claims)
+    .setProtectedHeader({ alg: 'HS256' })
+    .setIssuedAt()
+    .setExpirationTime('5m')
+  if (subject) jwt.setSubject(subject)
+  return jwt.sign(secretKey)
+}
+
+describe('JwtVerifier', () => {
+  describe('create', () => {
+    it('should throw when no key source is configured', () => {
+      expect(() => JwtVerifier.create({})).toThrow(
+        'JWT verification is not configured',
+      )
+    })
+  })
+
+  describe('with a static secret', () => {
+    const verifier = JwtVerifier.create({ secret: SECRET })
+
+    it('should return the user for a valid token', async () => {
+      const token = await signHs256({ email: 'user@example.com' })
+
+      const result = await verifier.verify(token)
+
+      expect(result.isSuccess).toBe(true)
+      expect(result.value).toEqual({ id: 'user-1', email: 'user@example.com' })
+    })
+
+    it('should leave email undefined when the claim is absent', async () => {
+      const result = await verifier.verify(await signHs256())
+
+      expect(result.value).toEqual({ id: 'user-1', email: undefined })
+    })
+
+    it('should reject an expired token', async () => {
+      const token = await new SignJWT({})
+        .setProtectedHeader({ alg: 'HS256' })
+        .setSubject('user-1')
+        .setExpirationTime(Math.floor(Date.now() / 1000) - 60)
+        .sign(secretKey)
+
+      const result = await verifier.verify(token)
+
+      expect(result.isFailure).toBe(true)
+      expect(result.error).toBeInstanceOf(UnauthorizedError)
+    })
+
+    it('should reject a token signed with another secret', async () => {
+      const token = await new SignJWT({})
+        .setProtectedHeader({ alg: 'HS256' })
+        .setSubject('user-1')
+        .sign(new TextEncoder().encode('another-secret-with-enough-entropy'))
+
+      const result = await verifier.verify(token)
+
+      expect(result.isFailure).toBe(true)
+    })
+
+    it('should reject a malformed token', async () => {
+      const result = await verifier.verify('not-a-jwt')
+
+      expect(result.isFailure).toBe(true)
+      expect(result.error).toBeInstanceOf(UnauthorizedError)
+    })
+
+    it('should reject a token without subject', async () => {
+      const result = await verifier.verify(await signHs256({}, ''))
+
+      expect(result.isFailure).toBe(true)
+      expect(result.error.message).toBe('Token has no subject')
+    })
+  })
+
+  describe('issuer and audience', () => {
+    const verifier = JwtVerifier.create({
+      secret: SECRET,
+      issuer: 'https://issuer.example.com',
+      audience: 'fiap-image',
+    })
+
+    it('should accept a token with matching issuer and audience', async () => {
+      const token = await new SignJWT({})
+        .setProtectedHeader({ alg: 'HS256' })
+        .setSubject('user-1')
+        .setIssuer('https://issuer.example.com')
+        .setAudience('fiap-image')
+        .sign(secretKey)
+
+      const result = await verifier.verify(token)
+
+      expect(result.isSuccess).toBe(true)
+    })
+
+    it('should reject a token from another issuer', async () => {
+      const token = await new SignJWT({})
+        .setProtectedHeader({ alg: 'HS256' })
+        .setSubject('user-1')
+        .setIssuer('https://evil.example.com')
+        .setAudience('fiap-image')
+        .sign(secretKey)
+
+      const result = await verifier.verify(token)
+
+      expect(result.isFailure).toBe(true)
+    })
+  })
+
+  describe('with a local JWKS file', () => {
+    let dir: string
+    let verifier: JwtVerifier
+    let privateKey: CryptoKey
+
+    beforeAll(async () => {
+      const keyPair = await generateKeyPair('RS256')
+      privateKey = keyPair.privateKey
+      const jwk = await exportJWK(keyPair.publicKey)
+
+      dir = mkdtempSync(join(tmpdir(), 'jwks-'))
+      const jwksFile = join(dir, 'jwks.json')
+      writeFileSync(
+        jwksFile,
+        JSON.stringify({ keys: [{ ...jwk, kid: 'dev', alg: 'RS256' }] }),
+      )
+
+      verifier = JwtVerifier.create({ jwksFile })
+    })
+
+    afterAll(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should verify a token signed by a key in the set', async () => {
+      const token = await new SignJWT({ email: 'user@example.com' })
+        .setProtectedHeader({ alg: 'RS256', kid: 'dev' })
+        .setSubject('user-1')
+        .setExpirationTime('5m')
+        .sign(privateKey)
+
+      const result = await verifier.verify(token)
+
+      expect(result.isSuccess).toBe(true)
+      expect(result.value.id).toBe('user-1')
+    })
+
+    it('should reject a token signed by an unknown key', async () => {
+      const other = await generateKeyPair('RS256')
+      const token = await new SignJWT({})
+        .setProtectedHeader({ alg: 'RS256', kid: 'dev' })
+        .setSubject('user-1')
+        .sign(other.privateKey)
+
+      const result = await verifier.verify(token)
+
+      expect(result.isFailure).toBe(true)
+    })
+  })
+})
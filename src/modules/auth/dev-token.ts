@@ -0,0 +1,35 @@
+import { SignJWT } from 'jose'
+
+/**
+ * Issues an HS256 token signed with AUTH_JWT_SECRET for local development.
+ *
+ * Usage: bun run auth:token [userId] [email]
+ */
+export async function signDevToken(params: {
+  secret: string
+  userId: string
+  email?: string
+  expiresIn?: string
+}): Promise<string> {
+  const jwt = new SignJWT(params.email ? { email: params.email } : {})
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(params.userId)
+    .setIssuedAt()
+    .setExpirationTime(params.expiresIn ?? '12h')
+
+  if (process.env.AUTH_ISSUER) jwt.setIssuer(process.env.AUTH_ISSUER)
+  if (process.env.AUTH_AUDIENCE) jwt.setAudience(process.env.AUTH_AUDIENCE)
+
+  return jwt.sign(new TextEncoder().encode(params.secret))
+}
+
+if (import.meta.main) {
+  const secret = process.env.AUTH_JWT_SECRET
+  if (!secret) {
+    console.error('AUTH_JWT_SECRET is not set')
+    process.exit(1)
+  }
+
+  const [userId = crypto.randomUUID(), email] = process.argv.slice(2)
+  console.log(await signDevToken({ secret, userId, email }))
+}
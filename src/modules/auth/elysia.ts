@@ -0,0 +1,41 @@
+import { Elysia } from 'elysia'
+import { logger } from '@modules/logging'
+import { createJwtVerifier, type JwtVerifier } from './jwt-verifier'
+
+const BEARER_PREFIX = 'Bearer '
+
+let verifier: JwtVerifier | undefined
+
+// Created on first use so that importing routes (docs, tests) does not
+// require auth configuration
+function getVerifier(): JwtVerifier {
+  verifier ??= createJwtVerifier()
+  return verifier
+}
+
+export const authPlugin = new Elysia({ name: 'auth' }).resolve(
+  { as: 'scoped' },
+  async ({ request, status }) => {
+    const authorization = request.headers.get('authorization')
+
+    if (!authorization?.startsWith(BEARER_PREFIX)) {
+      return status(401, { error: 'Missing bearer token' })
+    }
+
+    const result = await getVerifier().verify(
+      authorization.slice(BEARER_PREFIX.length).trim(),
+    )
+
+    if (result.isFailure) {
+      logger.warn('Rejected bearer token', {
+        event: 'http.auth.rejected',
+        resource: 'AuthPlugin',
+        message: result.error.message,
+        status: 'failure',
+      })
+      return status(401, { error: 'Invalid token' })
+    }
+
+    return { user: result.value }
+  },
+)
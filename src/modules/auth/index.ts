@@ -0,0 +1,7 @@
+export { authPlugin } from './elysia'
+export {
+  JwtVerifier,
+  createJwtVerifier,
+  type AuthenticatedUser,
+  type JwtVerifierConfig,
+} from './jwt-verifier'
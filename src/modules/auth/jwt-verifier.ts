@@ -0,0 +1,107 @@
+import { readFileSync } from 'node:fs'
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  errors as joseErrors,
+  jwtVerify,
+  type JSONWebKeySet,
+  type JWTVerifyGetKey,
+} from 'jose'
+import { Result } from '@core/domain/result'
+import { UnauthorizedError } from '@core/errors/unauthorized.error'
+
+export type AuthenticatedUser = {
+  /** Token subject (Cognito `sub`) */
+  id: string
+  /** Present on ID tokens; Cognito access tokens carry no email */
+  email?: string
+}
+
+export type JwtVerifierConfig = {
+  /** JWKS endpoint, e.g. Cognito `.../.well-known/jwks.json` */
+  jwksUrl?: string
+  /** Local JWKS file (dev) */
+  jwksFile?: string
+  /** Static HS256 secret (dev) */
+  secret?: string
+  issuer?: string
+  audience?: string
+}
+
+type VerificationKey = JWTVerifyGetKey | Uint8Array
+
+/**
+ * JwtVerifier - Verifies bearer tokens issued by Cognito (ADR 015).
+ *
+ * Key source precedence: JWKS URL > local JWKS file > static secret.
+ * The remote JWKS is fetched lazily and cached by `jose`.
+ */
+export class JwtVerifier {
+  private constructor(
+    private readonly key: VerificationKey,
+    private readonly config: JwtVerifierConfig,
+  ) {}
+
+  static create(config: JwtVerifierConfig): JwtVerifier {
+    if (config.jwksUrl) {
+      return new JwtVerifier(
+        createRemoteJWKSet(new URL(config.jwksUrl)),
+        config,
+      )
+    }
+
+    if (config.jwksFile) {
+      const jwks = JSON.parse(
+        readFileSync(config.jwksFile, 'utf-8'),
+      ) as JSONWebKeySet
+      return new JwtVerifier(createLocalJWKSet(jwks), config)
+    }
+
+    if (config.secret) {
+      return new JwtVerifier(new TextEncoder().encode(config.secret), config)
+    }
+
+    throw new Error(
+      'JWT verification is not configured: set AUTH_JWKS_URL, AUTH_JWKS_FILE or AUTH_JWT_SECRET',
+    )
+  }
+
+  async verify(
+    token: string,
+  ): Promise<Result<AuthenticatedUser, UnauthorizedError>> {
+    try {
+      const options = {
+        issuer: this.config.issuer,
+        audience: this.config.audience,
+      }
+      const { payload } =
+        typeof this.key === 'function'
+          ? await jwtVerify(token, this.key, options)
+          : await jwtVerify(token, this.key, options)
+
+      if (!payload.sub) {
+        return Result.fail(UnauthorizedError.create('Token has no subject'))
+      }
+
+      return Result.ok({
+        id: payload.sub,
+        email: typeof payload.email === 'string' ? payload.email : undefined,
+      })
+    } catch (error) {
+      if (error instanceof joseErrors.JOSEError) {
+        return Result.fail(UnauthorizedError.create(error.message))
+      }
+      throw error
+    }
+  }
+}
+
+export function createJwtVerifier(): JwtVerifier {
+  return JwtVerifier.create({
+    jwksUrl: process.env.AUTH_JWKS_URL,
+    jwksFile: process.env.AUTH_JWKS_FILE,
+    secret: process.env.AUTH_JWT_SECRET,
+    issuer: process.env.AUTH_ISSUER,
+    audience: process.env.AUTH_AUDIENCE,
+  })
+}
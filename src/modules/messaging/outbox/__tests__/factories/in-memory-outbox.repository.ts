@@ -0,0 +1,108 @@
+import type {
+  OutboxPendingEntry,
+  OutboxRepository,
+} from '@core/abstractions/messaging'
+import { Result } from '@core/domain/result'
+import type { OutboxMessage, StoredOutboxMessage } from '@core/messaging'
+
+/** Single bucket, pending entries kept in insertion order */
+export class InMemoryOutboxRepository implements OutboxRepository {
+  readonly bucketCount = 1
+  public messages = new Map<string, StoredOutboxMessage>()
+  public pending: OutboxPendingEntry[] = []
+
+  async add(messages: OutboxMessage[]): Promise<Result<void, Error>> {
+    for (const message of messages) {
+      const stored = this.messages.get(message.messageId)
+      // Like the Cassandra INSERT, publication columns are left untouched
+      this.messages.set(message.messageId, {
+        ...message,
+        attempts: stored?.attempts ?? 0,
+        publishedAt: stored?.publishedAt,
+        lastError: stored?.lastError,
+      })
+      this.pending.push({
+        bucket: 0,
+        createdAt: message.createdAt,
+        messageId: message.messageId,
+      })
+    }
+    return Result.ok(undefined)
+  }
+
+  async findPending(
+    _bucket: number,
+    limit: number,
+  ): Promise<Result<OutboxPendingEntry[], Error>> {
+    return Result.ok(this.pending.slice(0, limit))
+  }
+
+  async findById(
+    messageId: string,
+  ): Promise<Result<StoredOutboxMessage | null, Error>> {
+    return Result.ok(this.messages.get(messageId) ?? null)
+  }
+
+  async findByAggregate(
+    aggregateId: string,
+  ): Promise<Result<StoredOutboxMessage[], Error>> {
+    return Result.ok(
+      [...this.messages.values()]
+        .filter((message) => message.aggregateId === aggregateId)
+        .reverse(),
+    )
+  }
+
+  async markPublished(
+    entry: OutboxPendingEntry,
+    publishedAt: Date,
+  ): Promise<Result<void, Error>> {
+    const message = this.messages.get(entry.messageId)
+    if (message) {
+      this.messages.set(entry.messageId, {
+        ...message,
+        publishedAt,
+        lastError: undefined,
+      })
+    }
+    return this.dropPending(entry)
+  }
+
+  async recordFailure(
+    entry: OutboxPendingEntry,
+    attempts: number,
+    error: string,
+  ): Promise<Result<void, Error>> {
+    const message = this.messages.get(entry.messageId)
+    if (message) {
+      this.messages.set(entry.messageId, {
+        ...message,
+        attempts,
+        lastError: error,
+      })
+    }
+    return Result.ok(undefined)
+  }
+
+  async dropPending(entry: OutboxPendingEntry): Promise<Result<void, Error>> {
+    this.pending = this.pending.filter((pending) => pending !== entry)
+    return Result.ok(undefined)
+  }
+
+  async requeue(message: OutboxMessage): Promise<Result<void, Error>> {
+    const stored = this.messages.get(message.messageId)
+    if (stored) {
+      this.messages.set(message.messageId, {
+        ...stored,
+        publishedAt: undefined,
+        lastError: undefined,
+      })
+    }
+    this.pending.push({
+      bucket: 0,
+      createdAt: new Date(),
+      messageId: message.messageId,
+    })
+    return Result.ok(undefined)
+  }
+}
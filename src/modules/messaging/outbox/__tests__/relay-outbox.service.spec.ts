@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, mock } from 'bun:test'
+import type { OutboxPublisher } from '@core/abstractions/messaging'
+import { Result } from '@core/domain/result'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import { LoggerStub } from '@core/libs/logging/__tests__/logger.stub'
+import {
+  createOutboxMessage,
+  EnvelopeFactory,
+  type OutboxMessage,
+} from '@core/messaging'
+import { RelayOutboxService } from '../relay-outbox.service'
+import { InMemoryOutboxRepository } from './factories/in-memory-outbox.repository'
+
+function makeMessage(
+  aggregateId: string,
+  overrides: Partial<Parameters<typeof createOutboxMessage>[0]> = {},
+): OutboxMessage {
+  return createOutboxMessage({
+    aggregateType: 'Video',
+    aggregateId,
+    eventName: 'VideoUploaded',
+    destination: 'eventbridge',
+    envelope: new EnvelopeFactory().createEnvelope(
+      { videoId: aggregateId, status: 'UPLOADED' },
+      {
+        correlationId: 'corr-1',
+        source: 'fiapx.video',
+        eventType: 'Video Status Changed',
+      },
+    ),
+    ...overrides,
+  })
+}
+
+type FakePublisher = OutboxPublisher & { published: OutboxMessage[] }
+
+function createPublisher(
+  publish: (message: OutboxMessage) => Result<void, Error> = () =>
+    Result.ok(undefined),
+): FakePublisher {
+  const published: OutboxMessage[] = []
+  return {
+    published,
+    publish: mock(async (message: OutboxMessage) => {
+      const result = publish(message)
+      if (result.isSuccess) published.push(message)
+      return result
+    }),
+  }
+}
+
+describe('RelayOutboxService', () => {
+  let repository: InMemoryOutboxRepository
+  let eventbridge: FakePublisher
+
+  beforeEach(() => {
+    repository = new InMemoryOutboxRepository()
+    eventbridge = createPublisher()
+  })
+
+  function createService(publishers = { eventbridge }) {
+    return new RelayOutboxService(new LoggerStub(), repository, publishers, {
+      batchSize: 10,
+    })
+  }
+
+  it('should publish pending messages in order and mark them published', async () => {
+    const first = makeMessage('video-1')
+    const second = makeMessage('video-2')
+    await repository.add([first, second])
+
+    const result = await createService().run()
+
+    expect(result.value).toEqual({
+      published: 2,
+      skipped: 0,
+      failed: 0,
+      parked: 0,
+    })
+    expect(eventbridge.published.map((m) => m.messageId)).toEqual([
+      first.messageId,
+      second.messageId,
+    ])
+    expect(repository.pending).toHaveLength(0)
+    expect(repository.messages.get(first.messageId)?.publishedAt).toBeDate()
+  })
+
+  it('should route messages to the publisher of their destination', async () => {
+    const sqs = createPublisher()
+    await repository.add([
+      makeMessage('video-1', {
+        destination: 'sqs',
+        queueUrl: 'http://localhost:4566/000000000000/print-queue',
+      }),
+    ])
+
+    await createService({ eventbridge, sqs } as never).run()
+
+    expect(sqs.published).toHaveLength(1)
+    expect(eventbridge.published).toHaveLength(0)
+  })
+
+  it('should stop at the first failure and keep the rest pending', async () => {
+    let calls = 0
+    eventbridge = createPublisher(() => {
+      calls += 1
+      return calls === 1
+        ? Result.fail(new Error('Throttled'))
+        : Result.ok(undefined)
+    })
+    const first = makeMessage('video-1')
+    const second = makeMessage('video-1', { eventName: 'VideoUploadCancelled' })
+    await repository.add([first, second])
+
+    const failed = await createService().run()
+
+    expect(failed.value.failed).toBe(1)
+    expect(eventbridge.publish).toHaveBeenCalledTimes(1)
+    expect(repository.pending).toHaveLength(2)
+    expect(repository.messages.get(first.messageId)).toMatchObject({
+      attempts: 1,
+      lastError: 'Throttled',
+    })
+
+    const retried = await createService().run()
+
+    expect(retried.value.published).toBe(2)
+    expect(eventbridge.published.map((m) => m.messageId)).toEqual([
+      first.messageId,
+      second.messageId,
+    ])
+  })
+
+  it('should park messages that fail permanently without blocking the rest', async () => {
+    const parked = makeMessage('video-1', { destination: 'sqs' })
+    const next = makeMessage('video-2')
+    await repository.add([parked, next])
+
+    const result = await createService().run()
+
+    expect(result.value).toMatchObject({ parked: 1, published: 1 })
+    expect(repository.pending).toHaveLength(0)
+    expect(
+      repository.messages.get(parked.messageId)?.publishedAt,
+    ).toBeUndefined()
+    expect(repository.messages.get(parked.messageId)?.lastError).toContain(
+      'No outbox publisher for destination sqs',
+    )
+  })
+
+  it('should not publish again a message recorded twice', async () => {
+    const message = makeMessage('video-1', {
+      deduplicationKey: 'Video:video-1:VideoUploaded',
+    })
+    await repository.add([message])
+    await createService().run()
+
+    await repository.add([
+      makeMessage('video-1', {
+        deduplicationKey: 'Video:video-1:VideoUploaded',
+      }),
+    ])
+    const result = await createService().run()
+
+    expect(result.value).toMatchObject({ published: 0, skipped: 1 })
+    expect(eventbridge.published).toHaveLength(1)
+  })
+
+  it('should treat a permanent publisher error as parked', async () => {
+    eventbridge = createPublisher(() =>
+      Result.fail(new NonRetryableError('Malformed envelope')),
+    )
+    await repository.add([makeMessage('video-1')])
+
+    const result = await createService().run()
+
+    expect(result.value.parked).toBe(1)
+    expect(result.value.failed).toBe(0)
+  })
+})
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it } from 'bun:test'
+import { LoggerStub } from '@core/libs/logging/__tests__/logger.stub'
+import {
+  createOutboxMessage,
+  EnvelopeFactory,
+  type OutboxMessage,
+} from '@core/messaging'
+import { ReplayOutboxService } from '../replay-outbox'
+import { InMemoryOutboxRepository } from './factories/in-memory-outbox.repository'
+
+function makeMessage(aggregateId: string, eventName: string): OutboxMessage {
+  return createOutboxMessage({
+    aggregateType: 'Video',
+    aggregateId,
+    eventName,
+    destination: 'eventbridge',
+    envelope: new EnvelopeFactory().createEnvelope(
+      { videoId: aggregateId },
+      {
+        correlationId: 'corr-1',
+        source: 'fiapx.video',
+        eventType: 'Video Status Changed',
+      },
+    ),
+  })
+}
+
+describe('ReplayOutboxService', () => {
+  let repository: InMemoryOutboxRepository
+  let service: ReplayOutboxService
+  let uploaded: OutboxMessage
+  let cancelled: OutboxMessage
+
+  beforeEach(async () => {
+    repository = new InMemoryOutboxRepository()
+    service = new ReplayOutboxService(new LoggerStub(), repository)
+
+    uploaded = makeMessage('video-1', 'VideoUploaded')
+    cancelled = makeMessage('video-1', 'VideoUploadCancelled')
+    await repository.add([
+      uploaded,
+      cancelled,
+      makeMessage('video-2', 'VideoUploaded'),
+    ])
+    for (const entry of [...repository.pending]) {
+      await repository.markPublished(entry, new Date())
+    }
+  })
+
+  it('should requeue every message of an aggregate', async () => {
+    const result = await service.replay({ aggregateId: 'video-1' })
+
+    expect(result.value.map((m) => m.messageId).sort()).toEqual(
+      [uploaded.messageId, cancelled.messageId].sort(),
+    )
+    expect(repository.pending.map((entry) => entry.messageId).sort()).toEqual(
+      [uploaded.messageId, cancelled.messageId].sort(),
+    )
+    expect(
+      repository.messages.get(uploaded.messageId)?.publishedAt,
+    ).toBeUndefined()
+  })
+
+  it('should filter by event name', async () => {
+    const result = await service.replay({
+      aggregateId: 'video-1',
+      eventName: 'VideoUploaded',
+    })
+
+    expect(result.value.map((m) => m.messageId)).toEqual([uploaded.messageId])
+    expect(repository.pending).toHaveLength(1)
+  })
+
+  it('should requeue messages by id', async () => {
+    const result = await service.replay({ messageIds: [cancelled.messageId] })
+
+    expect(result.value).toHaveLength(1)
+    expect(repository.pending[0]?.messageId).toBe(cancelled.messageId)
+  })
+
+  it('should fail when a message id does not exist', async () => {
+    const result = await service.replay({ messageIds: ['missing'] })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toBe('Outbox message not found: missing')
+    expect(repository.pending).toHaveLength(0)
+  })
+
+  it('should not requeue anything on a dry run', async () => {
+    const result = await service.replay({
+      aggregateId: 'video-1',
+      dryRun: true,
+    })
+
+    expect(result.value).toHaveLength(2)
+    expect(repository.pending).toHaveLength(0)
+  })
+})
@@ -0,0 +1,227 @@
+import { Result } from '@core/domain/result'
+import type {
+  OutboxPendingEntry,
+  OutboxRepository,
+} from '@core/abstractions/messaging'
+import type {
+  MessageEnvelope,
+  OutboxMessage,
+  StoredOutboxMessage,
+} from '@core/messaging'
+import { DataSource, type BatchStatement } from '@core/libs/database/datasource'
+import { DefaultDatabase } from '@core/libs/database/default-cassabdra.database'
+import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import type {
+  OutboxMessageByAggregateTable,
+  OutboxMessageTable,
+  OutboxPendingTable,
+} from './tables'
+
+export const OUTBOX_BUCKETS = 16
+
+/**
+ * Messages of an aggregate always land in the same bucket, so the relay
+ * publishes them in the order they were written.
+ */
+export function outboxBucket(aggregateId: string): number {
+  let hash = 0
+  for (const char of aggregateId) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0
+  }
+  return hash % OUTBOX_BUCKETS
+}
+
+/**
+ * Statements that write a message to the outbox, meant to join the logged
+ * batch of the aggregate update. The INSERT leaves published_at untouched, so
+ * writing an already published message again does not publish it twice.
+ */
+export function prepareOutboxStatements(
+  message: OutboxMessage,
+): BatchStatement[] {
+  const bucket = outboxBucket(message.aggregateId)
+
+  return [
+    {
+      query:
+        'INSERT INTO outbox_message (message_id, aggregate_type, aggregate_id, event_name, destination, queue_url, envelope, bucket, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      params: [
+        message.messageId,
+        message.aggregateType,
+        message.aggregateId,
+        message.eventName,
+        message.destination,
+        message.queueUrl ?? null,
+        JSON.stringify(message.envelope),
+        bucket,
+        message.createdAt,
+      ],
+    },
+    {
+      query:
+        'INSERT INTO outbox_pending (bucket, created_at, message_id) VALUES (?, ?, ?)',
+      params: [bucket, message.createdAt, message.messageId],
+    },
+    {
+      query:
+        'INSERT INTO outbox_message_by_aggregate (aggregate_id, created_at, message_id, event_name) VALUES (?, ?, ?, ?)',
+      params: [
+        message.aggregateId,
+        message.createdAt,
+        message.messageId,
+        message.eventName,
+      ],
+    },
+  ]
+}
+
+export class CassandraOutboxRepository
+  extends DefaultDatabase
+  implements OutboxRepository
+{
+  readonly bucketCount = OUTBOX_BUCKETS
+
+  constructor(logger: AbstractLoggerService) {
+    super(DataSource.getInstance(logger), logger)
+  }
+
+  async add(messages: OutboxMessage[]): Promise<Result<void, Error>> {
+    if (messages.length === 0) return Result.ok(undefined)
+    return this.datasource.executeBatch(
+      messages.flatMap((message) => prepareOutboxStatements(message)),
+    )
+  }
+
+  async findPending(
+    bucket: number,
+    limit: number,
+  ): Promise<Result<OutboxPendingEntry[], Error>> {
+    const rowsResult = await this.datasource.query<OutboxPendingTable>(
+      'SELECT bucket, created_at, message_id FROM outbox_pending WHERE bucket = ? LIMIT ?',
+      [bucket, limit],
+    )
+    if (rowsResult.isFailure) return Result.fail(rowsResult.error)
+
+    return Result.ok(
+      rowsResult.value.map((row) => ({
+        bucket: row.bucket,
+        createdAt: row.created_at,
+        messageId: row.message_id.toString(),
+      })),
+    )
+  }
+
+  async findById(
+    messageId: string,
+  ): Promise<Result<StoredOutboxMessage | null, Error>> {
+    const rowsResult = await this.select<OutboxMessageTable>({
+      table: 'outbox_message',
+      where: { message_id: messageId },
+    })
+    if (rowsResult.isFailure) return Result.fail(rowsResult.error)
+
+    const row = rowsResult.value[0]
+    return Result.ok(row ? this.mapRowToMessage(row) : null)
+  }
+
+  async findByAggregate(
+    aggregateId: string,
+  ): Promise<Result<StoredOutboxMessage[], Error>> {
+    const lookupResult = await this.select<OutboxMessageByAggregateTable>({
+      table: 'outbox_message_by_aggregate',
+      where: { aggregate_id: aggregateId },
+      columns: ['message_id'],
+    })
+    if (lookupResult.isFailure) return Result.fail(lookupResult.error)
+
+    // The same message is indexed again when its batch is written twice
+    const messageIds = [
+      ...new Set(lookupResult.value.map((row) => row.message_id.toString())),
+    ]
+
+    const messages: StoredOutboxMessage[] = []
+    for (const messageId of messageIds) {
+      const messageResult = await this.findById(messageId)
+      if (messageResult.isFailure) return Result.fail(messageResult.error)
+      if (messageResult.value) messages.push(messageResult.value)
+    }
+
+    return Result.ok(messages)
+  }
+
+  async markPublished(
+    entry: OutboxPendingEntry,
+    publishedAt: Date,
+  ): Promise<Result<void, Error>> {
+    return this.datasource.executeBatch([
+      {
+        query:
+          'UPDATE outbox_message SET published_at = ?, last_error = null WHERE message_id = ?',
+        params: [publishedAt, entry.messageId],
+      },
+      this.deletePendingStatement(entry),
+    ])
+  }
+
+  async recordFailure(
+    entry: OutboxPendingEntry,
+    attempts: number,
+    error: string,
+  ): Promise<Result<void, Error>> {
+    const result = await this.update<OutboxMessageTable>({
+      table: 'outbox_message',
+      data: { attempts, last_error: error },
+      where: { message_id: entry.messageId },
+    })
+    return result.isSuccess ? Result.ok(undefined) : Result.fail(result.error)
+  }
+
+  async dropPending(entry: OutboxPendingEntry): Promise<Result<void, Error>> {
+    const { query, params } = this.deletePendingStatement(entry)
+    const result = await this.datasource.execute(query, params)
+    return result.isSuccess ? Result.ok(undefined) : Result.fail(result.error)
+  }
+
+  async requeue(message: OutboxMessage): Promise<Result<void, Error>> {
+    return this.datasource.executeBatch([
+      {
+        query:
+          'UPDATE outbox_message SET published_at = null, last_error = null WHERE message_id = ?',
+        params: [message.messageId],
+      },
+      {
+        query:
+          'INSERT INTO outbox_pending (bucket, created_at, message_id) VALUES (?, ?, ?)',
+        params: [
+          outboxBucket(message.aggregateId),
+          new Date(),
+          message.messageId,
+        ],
+      },
+    ])
+  }
+
+  private deletePendingStatement(entry: OutboxPendingEntry): BatchStatement {
+    return {
+      query:
+        'DELETE FROM outbox_pending WHERE bucket = ? AND created_at = ? AND message_id = ?',
+      params: [entry.bucket, entry.createdAt, entry.messageId],
+    }
+  }
+
+  private mapRowToMessage(row: OutboxMessageTable): StoredOutboxMessage {
+    return {
+      messageId: row.message_id.toString(),
+      aggregateType: row.aggregate_type,
+      aggregateId: row.aggregate_id,
+      eventName: row.event_name,
+      destination: row.destination,
+      queueUrl: row.queue_url ?? undefined,
+      envelope: JSON.parse(row.envelope) as MessageEnvelope<unknown>,
+      createdAt: row.created_at,
+      publishedAt: row.published_at ?? undefined,
+      attempts: row.attempts ?? 0,
+      lastError: row.last_error ?? undefined,
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { logger } from '@modules/logging'
+import { createOutboxRelay, type OutboxRelay } from './outbox-relay'
+
+let relayInstance: OutboxRelay | null = null
+
+/**
+ * Starts the in-process outbox relay. Set OUTBOX_RELAY_ENABLED=false when the
+ * relay runs as a standalone worker (`bun run worker:outbox`).
+ */
+export function startOutboxRelay(): void {
+  if (process.env.OUTBOX_RELAY_ENABLED === 'false') {
+    logger.warn('OUTBOX_RELAY_ENABLED is false, skipping OutboxRelay')
+    return
+  }
+
+  relayInstance = createOutboxRelay(logger)
+  relayInstance.start()
+  logger.log('OutboxRelay started', {
+    event: 'job.started',
+    resource: 'OutboxRelay',
+    message: 'OutboxRelay started',
+  })
+}
+
+export async function stopOutboxRelay(): Promise<void> {
+  if (relayInstance) {
+    await relayInstance.stop()
+    relayInstance = null
+    logger.log('OutboxRelay stopped', {
+      event: 'job.stopped',
+      resource: 'OutboxRelay',
+      message: 'OutboxRelay stopped',
+    })
+  }
+}
+
+export {
+  CassandraOutboxRepository,
+  OUTBOX_BUCKETS,
+  outboxBucket,
+  prepareOutboxStatements,
+} from './cassandra-outbox.repository'
+export {
+  EventBridgeOutboxPublisher,
+  SqsOutboxPublisher,
+} from './outbox-publishers'
+export { OutboxRelay, createOutboxRelay } from './outbox-relay'
+export {
+  RelayOutboxService,
+  type RelayOutboxOptions,
+  type RelayOutboxSummary,
+} from './relay-outbox.service'
+export {
+  ReplayOutboxService,
+  type ReplayOutboxCriteria,
+} from './replay-outbox'
@@ -0,0 +1,66 @@
+import { SendMessageCommand, SQSClient } from '@aws-sdk/client-sqs'
+import type { OutboxPublisher } from '@core/abstractions/messaging'
+import { Result } from '@core/domain/result'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import type { DefaultEventBridge } from '@core/events/event-bridge'
+import type { OutboxMessage } from '@core/messaging'
+
+/** Publishes the stored envelope as-is to the configured event bus */
+export class EventBridgeOutboxPublisher implements OutboxPublisher {
+  constructor(private readonly eventBridge: Pick<DefaultEventBridge, 'send'>) {}
+
+  async publish(message: OutboxMessage): Promise<Result<void, Error>> {
+    const result = await this.eventBridge.send(message.envelope)
+    if (result.isFailure) return Result.fail(result.error)
+
+    // PutEvents answers 200 even when the entry was rejected
+    const [entry] = result.value.Entries ?? []
+    if (result.value.FailedEntryCount || entry?.ErrorCode) {
+      return Result.fail(
+        new Error(
+          `EventBridge rejected the entry: ${entry?.ErrorCode ?? 'unknown'} ${entry?.ErrorMessage ?? ''}`.trim(),
+        ),
+      )
+    }
+
+    return Result.ok(undefined)
+  }
+}
+
+/** Sends the stored envelope as the message body of `queueUrl` */
+export class SqsOutboxPublisher implements OutboxPublisher {
+  private readonly client: SQSClient
+
+  constructor(client?: SQSClient) {
+    this.client =
+      client ??
+      new SQSClient({
+        region: process.env.AWS_REGION ?? 'us-east-1',
+        endpoint: process.env.AWS_ENDPOINT_URL,
+      })
+  }
+
+  async publish(message: OutboxMessage): Promise<Result<void, Error>> {
+    if (!message.queueUrl) {
+      return Result.fail(
+        new NonRetryableError(
+          `Outbox message ${message.messageId} has no queueUrl`,
+        ),
+      )
+    }
+
+    try {
+      await this.client.send(
+        new SendMessageCommand({
+          QueueUrl: message.queueUrl,
+          MessageBody: JSON.stringify(message.envelope),
+        }),
+      )
+      return Result.ok(undefined)
+    } catch (error) {
+      return Result.fail(
+        error instanceof Error ? error : new Error(String(error)),
+      )
+    }
+  }
+}
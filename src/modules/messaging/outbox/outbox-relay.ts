@@ -0,0 +1,128 @@
+import { DefaultEventBridge } from '@core/events/event-bridge'
+import { DataSource } from '@core/libs/database/datasource'
+import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import { logger as defaultLogger } from '@modules/logging'
+import { CassandraOutboxRepository } from './cassandra-outbox.repository'
+import {
+  EventBridgeOutboxPublisher,
+  SqsOutboxPublisher,
+} from './outbox-publishers'
+import {
+  RelayOutboxService,
+  type RelayOutboxOptions,
+} from './relay-outbox.service'
+
+const DEFAULT_INTERVAL_MS = 1_000
+const DEFAULT_BATCH_SIZE = 100
+
+/**
+ * OutboxRelay - Runs RelayOutboxService on a fixed interval.
+ *
+ * Runs never overlap: a tick that fires while the previous run is still going
+ * is skipped.
+ */
+export class OutboxRelay {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private running: Promise<void> | null = null
+
+  constructor(
+    private readonly logger: AbstractLoggerService,
+    private readonly service: Pick<RelayOutboxService, 'run'>,
+    private readonly intervalMs: number,
+  ) {}
+
+  get isRunning(): boolean {
+    return this.timer !== null
+  }
+
+  start(): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => void this.tick(), this.intervalMs)
+    void this.tick()
+  }
+
+  /** Stops scheduling and waits for the run in progress, if any */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    await this.running
+  }
+
+  async tick(): Promise<void> {
+    if (this.running) return
+
+    this.running = this.service
+      .run()
+      .then(() => undefined)
+      .catch((error: unknown) => {
+        const err = error instanceof Error ? error : new Error(String(error))
+        this.logger.error('Outbox relay crashed', {
+          event: 'outbox.relay.completed',
+          resource: 'OutboxRelay',
+          message: err.message,
+          status: 'failure',
+          error: { message: err.message, kind: err.name, stack: err.stack },
+        })
+      })
+      .finally(() => {
+        this.running = null
+      })
+
+    await this.running
+  }
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export function createOutboxRelay(
+  logger: AbstractLoggerService,
+  options: Partial<RelayOutboxOptions & { intervalMs: number }> = {},
+): OutboxRelay {
+  const service = new RelayOutboxService(
+    logger,
+    new CassandraOutboxRepository(logger),
+    {
+      eventbridge: new EventBridgeOutboxPublisher(
+        new DefaultEventBridge(logger),
+      ),
+      sqs: new SqsOutboxPublisher(),
+    },
+    {
+      batchSize:
+        options.batchSize ??
+        numberFromEnv('OUTBOX_RELAY_BATCH_SIZE', DEFAULT_BATCH_SIZE),
+    },
+  )
+
+  return new OutboxRelay(
+    logger,
+    service,
+    options.intervalMs ??
+      numberFromEnv('OUTBOX_RELAY_INTERVAL_MS', DEFAULT_INTERVAL_MS),
+  )
+}
+
+// Standalone worker: bun run worker:outbox
+if (import.meta.main) {
+  const datasource = DataSource.getInstance(defaultLogger)
+  await datasource.connect()
+
+  const relay = createOutboxRelay(defaultLogger)
+
+  const shutdown = async () => {
+    await relay.stop()
+    await datasource.disconnect()
+    process.exit(0)
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+
+  defaultLogger.log('Starting Outbox Relay...')
+  relay.start()
+}
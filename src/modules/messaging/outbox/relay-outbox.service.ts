@@ -0,0 +1,164 @@
+import type {
+  OutboxPendingEntry,
+  OutboxPublisher,
+  OutboxRepository,
+} from '@core/abstractions/messaging'
+import { Result } from '@core/domain/result'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import { msToNs } from '@core/libs/logging/log-event'
+import type { OutboxDestination } from '@core/messaging'
+
+const resource = 'RelayOutboxService'
+
+export type RelayOutboxOptions = {
+  /** Pending entries read per bucket on each run */
+  batchSize: number
+}
+
+export type RelayOutboxSummary = {
+  published: number
+  /** Entries dropped because the message was already published or is gone */
+  skipped: number
+  failed: number
+  /** Messages set aside after a permanent failure (still replayable) */
+  parked: number
+}
+
+type EntryOutcome = keyof RelayOutboxSummary | 'blocked'
+
+/**
+ * RelayOutboxService - Publishes the pending outbox messages.
+ *
+ * Delivery is at-least-once: a message is marked as published only after the
+ * publisher accepted it, so a crash in between publishes it again with the
+ * same messageId. Within a bucket messages go out oldest first and the bucket
+ * stops at the first retryable failure, keeping the order of each aggregate.
+ */
+export class RelayOutboxService {
+  constructor(
+    private readonly logger: AbstractLoggerService,
+    private readonly repository: OutboxRepository,
+    private readonly publishers: Partial<
+      Record<OutboxDestination, OutboxPublisher>
+    >,
+    private readonly options: RelayOutboxOptions,
+  ) {}
+
+  async run(): Promise<Result<RelayOutboxSummary, Error>> {
+    const startTime = performance.now()
+    const summary: RelayOutboxSummary = {
+      published: 0,
+      skipped: 0,
+      failed: 0,
+      parked: 0,
+    }
+
+    for (let bucket = 0; bucket < this.repository.bucketCount; bucket++) {
+      const pendingResult = await this.repository.findPending(
+        bucket,
+        this.options.batchSize,
+      )
+      if (pendingResult.isFailure) {
+        this.logger.error('Outbox relay failed', {
+          event: 'outbox.relay.completed',
+          resource,
+          message: 'Failed to list pending outbox messages',
+          status: 'failure',
+          duration: msToNs(performance.now() - startTime),
+          error: {
+            message: pendingResult.error.message,
+            kind: pendingResult.error.constructor.name,
+            stack: pendingResult.error.stack,
+          },
+          'outbox.bucket': bucket,
+        })
+        return Result.fail(pendingResult.error)
+      }
+
+      for (const entry of pendingResult.value) {
+        const outcome = await this.relay(entry)
+        if (outcome === 'blocked') {
+          summary.failed += 1
+          break
+        }
+        summary[outcome] += 1
+      }
+    }
+
+    if (summary.published + summary.failed + summary.parked > 0) {
+      this.logger.log('Outbox relay completed', {
+        event: 'outbox.relay.completed',
+        resource,
+        message: 'Outbox relay completed',
+        status: summary.failed + summary.parked > 0 ? 'failure' : 'success',
+        duration: msToNs(performance.now() - startTime),
+        ...summary,
+      })
+    }
+
+    return Result.ok(summary)
+  }
+
+  private async relay(entry: OutboxPendingEntry): Promise<EntryOutcome> {
+    const messageResult = await this.repository.findById(entry.messageId)
+    if (messageResult.isFailure) return 'blocked'
+
+    const message = messageResult.value
+    if (!message || message.publishedAt) {
+      await this.repository.dropPending(entry)
+      return 'skipped'
+    }
+
+    const publisher = this.publishers[message.destination]
+    const publishResult = publisher
+      ? await publisher.publish(message)
+      : Result.fail<void, Error>(
+          new NonRetryableError(
+            `No outbox publisher for destination ${message.destination}`,
+          ),
+        )
+
+    if (publishResult.isSuccess) {
+      const markResult = await this.repository.markPublished(entry, new Date())
+      if (markResult.isFailure) {
+        // Published but still pending: the next run sends it again
+        this.logger.warn('Failed to mark outbox message as published', {
+          event: 'outbox.message.published',
+          resource,
+          message: markResult.error.message,
+          status: 'failure',
+          'outbox.messageId': message.messageId,
+        })
+      }
+      return 'published'
+    }
+
+    const error = publishResult.error
+    const attempts = message.attempts + 1
+    await this.repository.recordFailure(entry, attempts, error.message)
+
+    const permanent = error instanceof NonRetryableError
+    if (permanent) await this.repository.dropPending(entry)
+
+    this.logger.error('Failed to publish outbox message', {
+      event: 'outbox.message.published',
+      resource,
+      message: permanent
+        ? 'Outbox message parked after a permanent failure'
+        : 'Outbox message publish failed, will retry',
+      status: 'failure',
+      error: {
+        message: error.message,
+        kind: error.constructor.name,
+        stack: error.stack,
+      },
+      'outbox.messageId': message.messageId,
+      'outbox.eventName': message.eventName,
+      'outbox.aggregateId': message.aggregateId,
+      'outbox.attempts': attempts,
+    })
+
+    return permanent ? 'parked' : 'blocked'
+  }
+}
@@ -0,0 +1,136 @@
+import { parseArgs } from 'node:util'
+import type { OutboxRepository } from '@core/abstractions/messaging'
+import { Result } from '@core/domain/result'
+import { NotFoundError } from '@core/errors/not-found.error'
+import { DataSource } from '@core/libs/database/datasource'
+import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import type { StoredOutboxMessage } from '@core/messaging'
+import { logger as defaultLogger } from '@modules/logging'
+import { CassandraOutboxRepository } from './cassandra-outbox.repository'
+
+const resource = 'ReplayOutboxService'
+
+export type ReplayOutboxCriteria = {
+  messageIds?: string[]
+  aggregateId?: string
+  /** Only messages produced by this domain event */
+  eventName?: string
+  /** Lists what would be replayed without requeueing anything */
+  dryRun?: boolean
+}
+
+/**
+ * ReplayOutboxService - Puts outbox messages back in the pending index so the
+ * relay publishes them again, with their original messageId. Covers messages
+ * lost downstream as well as the ones parked after a permanent failure.
+ */
+export class ReplayOutboxService {
+  constructor(
+    private readonly logger: AbstractLoggerService,
+    private readonly repository: OutboxRepository,
+  ) {}
+
+  async replay(
+    criteria: ReplayOutboxCriteria,
+  ): Promise<Result<StoredOutboxMessage[], Error>> {
+    const selectedResult = await this.select(criteria)
+    if (selectedResult.isFailure) return Result.fail(selectedResult.error)
+
+    const messages = selectedResult.value.filter(
+      (message) =>
+        !criteria.eventName || message.eventName === criteria.eventName,
+    )
+    if (criteria.dryRun) return Result.ok(messages)
+
+    for (const message of messages) {
+      const requeueResult = await this.repository.requeue(message)
+      if (requeueResult.isFailure) return Result.fail(requeueResult.error)
+
+      this.logger.log('Outbox message requeued', {
+        event: 'outbox.message.replayed',
+        resource,
+        message: 'Outbox message requeued for publishing',
+        status: 'success',
+        'outbox.messageId': message.messageId,
+        'outbox.eventName': message.eventName,
+        'outbox.aggregateId': message.aggregateId,
+      })
+    }
+
+    return Result.ok(messages)
+  }
+
+  private async select(
+    criteria: ReplayOutboxCriteria,
+  ): Promise<Result<StoredOutboxMessage[], Error>> {
+    if (criteria.aggregateId) {
+      return this.repository.findByAggregate(criteria.aggregateId)
+    }
+
+    const messages: StoredOutboxMessage[] = []
+    for (const messageId of criteria.messageIds ?? []) {
+      const messageResult = await this.repository.findById(messageId)
+      if (messageResult.isFailure) return Result.fail(messageResult.error)
+      if (!messageResult.value) {
+        return Result.fail(NotFoundError.create('Outbox message', messageId))
+      }
+      messages.push(messageResult.value)
+    }
+    return Result.ok(messages)
+  }
+}
+
+const USAGE = `Usage: bun run outbox:replay (--message <id>... | --aggregate <id>) [--event <name>] [--dry-run]`
+
+// CLI: bun run outbox:replay --aggregate <videoId> --event VideoUploaded
+if (import.meta.main) {
+  const { values } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      message: { type: 'string', multiple: true },
+      aggregate: { type: 'string' },
+      event: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  })
+
+  if (!values.message?.length && !values.aggregate) {
+    console.error(USAGE)
+    process.exit(1)
+  }
+
+  const datasource = DataSource.getInstance(defaultLogger)
+  await datasource.connect()
+
+  const result = await new ReplayOutboxService(
+    defaultLogger,
+    new CassandraOutboxRepository(defaultLogger),
+  ).replay({
+    messageIds: values.message,
+    aggregateId: values.aggregate,
+    eventName: values.event,
+    dryRun: values['dry-run'],
+  })
+
+  await datasource.disconnect()
+
+  if (result.isFailure) {
+    console.error(result.error.message)
+    process.exit(1)
+  }
+
+  for (const message of result.value) {
+    console.log(
+      [
+        message.messageId,
+        message.eventName,
+        message.aggregateId,
+        message.publishedAt?.toISOString() ?? 'pending',
+      ].join('\t'),
+    )
+  }
+  console.log(
+    `${result.value.length} message(s) ${values['dry-run'] ? 'would be replayed' : 'requeued'}`,
+  )
+  process.exit(0)
+}
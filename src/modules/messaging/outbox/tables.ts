@@ -0,0 +1,39 @@
+// CASSANDRA TABLE TYPES - Query-First Design
+// Gerado a partir de docker-compose/init-schema.cql
+
+import type { OutboxDestination } from '@core/messaging'
+
+// Tabela: outbox_message
+// Query: SELECT * FROM outbox_message WHERE message_id = ?
+// envelope guarda o MessageEnvelope serializado (JSON) exatamente como será publicado
+export type OutboxMessageTable = {
+  message_id: string
+  aggregate_type: string
+  aggregate_id: string
+  event_name: string
+  destination: OutboxDestination
+  queue_url?: string | null
+  envelope: string
+  bucket: number
+  created_at: Date
+  published_at?: Date | null
+  attempts?: number | null
+  last_error?: string | null
+}
+
+// Tabela: outbox_pending (índice das mensagens ainda não publicadas)
+// Query: SELECT * FROM outbox_pending WHERE bucket = ? LIMIT ?
+export type OutboxPendingTable = {
+  bucket: number
+  created_at: Date
+  message_id: string
+}
+
+// Tabela: outbox_message_by_aggregate (materialização)
+// Query: SELECT message_id FROM outbox_message_by_aggregate WHERE aggregate_id = ?
+export type OutboxMessageByAggregateTable = {
+  aggregate_id: string
+  created_at: Date
+  message_id: string
+  event_name: string
+}
@@ -52,6 +52,23 @@ describe('AbstractSQSPublisher', () => {
     expect(body.payload).toEqual({ id: 'msg-1' })
   })
 
+  it('should forward delaySeconds to SQS', async () => {
+    sqsMock.on(SendMessageCommand).resolves({})
+
+    const publisher = createSQSPublisher<{ id: string }>(
+      { queueUrl: 'http://queue.url' },
+      logger,
+    )
+
+    await publisher.publish(
+      { id: 'msg-1' },
+      { eventType: 'test.event', correlationId: 'corr-123', delaySeconds: 60 },
+    )
+
+    const calls = sqsMock.commandCalls(SendMessageCommand)
+    expect(calls[0].args[0].input.DelaySeconds).toBe(60)
+  })
+
   it('should fail when correlationId is missing', async () => {
     const publisher = createSQSPublisher<{ id: string }>(
       { queueUrl: 'http://queue.url' },
@@ -75,6 +75,7 @@ export abstract class AbstractSQSPublisher<
         new SendMessageCommand({
           QueueUrl: this.queueUrl,
           MessageBody: JSON.stringify(envelope),
+          DelaySeconds: options.delaySeconds,
         }),
       )
 
@@ -140,6 +141,7 @@ export abstract class AbstractSQSPublisher<
             return {
               Id: `${index}-${envelope.metadata.messageId}`,
               MessageBody: JSON.stringify(envelope),
+              DelaySeconds: options.delaySeconds,
             }
           },
         )
@@ -0,0 +1,235 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test'
+import { CancelUploadUseCase } from '@modules/video-processor/application/cancel-upload.use-case'
+import { InMemoryVideoRepository } from './factories/in-memory-video.repository'
+import { VideoFactory } from './factories/video.factory'
+import { VideoPart } from '@modules/video-processor/domain/entities/video-part'
+import { ThirdPartyIntegration } from '@modules/video-processor/domain/entities/third-party-integration.vo'
+import { Result } from '@core/domain/result'
+import { InvalidStatusTransitionError } from '@core/errors/invalid-status-transition.error'
+import type { OutboxMessage } from '@core/messaging'
+import type { UploadVideoPartsService } from '@modules/video-processor/domain/services/upload-video-parts.service.interface'
+import {
+  VideoStatusVO,
+  type VideoStatus,
+} from '@modules/video-processor/domain/value-objects/video-status.vo'
+
+function createMockUploadService() {
+  return {
+    createUploadId: mock(),
+    createPartUploadURL: mock(),
+    completeMultipartUpload: mock(),
+    abortMultipartUpload: mock(
+      async (): Promise<Result<void, Error>> => Result.ok(undefined),
+    ),
+  } satisfies Record<keyof UploadVideoPartsService, unknown>
+}
+
+function createMockOutbox() {
+  return {
+    add: mock(
+      async (_messages: OutboxMessage[]): Promise<Result<void, Error>> =>
+        Result.ok(undefined),
+    ),
+  }
+}
+
+function createVideoWithParts(status: VideoStatus, partsCount = 3) {
+  const video = VideoFactory.create({ status: VideoStatusVO.create(status) })
+  for (let i = 1; i <= partsCount; i++) {
+    video.addPart(
+      VideoPart.create({
+        videoId: video.id,
+        partNumber: i,
+        size: 100,
+        integration: ThirdPartyIntegration.create(),
+        url: `http://s3.com/part/${i}`,
+      }),
+    )
+  }
+  video.markPartAsUploaded(1, 'etag-1')
+  return video
+}
+
+describe('CancelUploadUseCase', () => {
+  let useCase: CancelUploadUseCase
+  let videoRepository: InMemoryVideoRepository
+  let uploadService: ReturnType<typeof createMockUploadService>
+  let outbox: ReturnType<typeof createMockOutbox>
+
+  beforeEach(() => {
+    videoRepository = new InMemoryVideoRepository()
+    uploadService = createMockUploadService()
+    outbox = createMockOutbox()
+
+    useCase = new CancelUploadUseCase(videoRepository, uploadService, outbox)
+  })
+
+  it('should cancel an uploading video and abort the S3 upload', async () => {
+    const video = createVideoWithParts('UPLOADING')
+    await videoRepository.createVideo(video)
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value).toEqual({
+      videoId: video.id.value,
+      status: 'CANCELLED',
+      cancelled: true,
+      uploadAborted: true,
+    })
+    expect(uploadService.abortMultipartUpload).toHaveBeenCalledWith(
+      video.thirdPartyVideoIntegration?.bucket,
+      video.thirdPartyVideoIntegration?.key,
+      video.thirdPartyVideoIntegration?.uploadId,
+    )
+  })
+
+  it('should persist the CANCELLED status and mark every part failed', async () => {
+    const video = createVideoWithParts('UPLOADING')
+    await videoRepository.createVideo(video)
+
+    await useCase.execute({ videoId: video.id.value })
+
+    const stored = (await videoRepository.findById(video.id.value)).value
+    expect(stored?.status.value).toBe('CANCELLED')
+    expect(stored?.parts.every((p) => p.status.value === 'failed')).toBe(true)
+  })
+
+  it('should save the CANCELLED status change event in the outbox', async () => {
+    const video = createVideoWithParts('UPLOADING')
+    await videoRepository.createVideo(video)
+
+    await useCase.execute({
+      videoId: video.id.value,
+      correlationId: 'corr-1',
+      traceId: 'trace-1',
+    })
+
+    expect(videoRepository.outbox).toHaveLength(1)
+    const [message] = videoRepository.outbox
+    expect(message?.eventName).toBe('VideoUploadCancelled')
+    expect(message?.envelope.metadata).toMatchObject({
+      correlationId: 'corr-1',
+      traceId: 'trace-1',
+      eventType: 'Video Status Changed',
+    })
+    expect(message?.envelope.payload).toMatchObject({
+      videoId: video.id.value,
+      status: 'CANCELLED',
+    })
+    expect(outbox.add).not.toHaveBeenCalled()
+  })
+
+  it('should not record the event when the status batch fails', async () => {
+    const video = createVideoWithParts('UPLOADING')
+    await videoRepository.createVideo(video)
+    videoRepository.saveWithOutbox = mock(async () =>
+      Result.fail(new Error('Cassandra timeout')),
+    )
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toBe('Cassandra timeout')
+    expect(videoRepository.outbox).toHaveLength(0)
+  })
+
+  it('should cancel a CREATED video', async () => {
+    const video = createVideoWithParts('CREATED', 0)
+    await videoRepository.createVideo(video)
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.status).toBe('CANCELLED')
+  })
+
+  it('should be idempotent for an already cancelled video', async () => {
+    const video = createVideoWithParts('CANCELLED')
+    await videoRepository.createVideo(video)
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.cancelled).toBe(false)
+    expect(uploadService.abortMultipartUpload).not.toHaveBeenCalled()
+    expect(videoRepository.outbox).toHaveLength(0)
+  })
+
+  it('should record the outbox message again when the video is already cancelled', async () => {
+    const video = createVideoWithParts('CANCELLED')
+    await videoRepository.createVideo(video)
+
+    await useCase.execute({ videoId: video.id.value })
+    await useCase.execute({ videoId: video.id.value })
+
+    const calls = outbox.add.mock.calls
+    expect(calls).toHaveLength(2)
+    // Same row both times, so the relay publishes it once
+    expect(calls[0]?.[0][0]?.messageId).toBe(calls[1]?.[0][0]?.messageId)
+    expect(calls[0]?.[0][0]?.eventName).toBe('VideoUploadCancelled')
+  })
+
+  it('should fail when the outbox repair fails', async () => {
+    const video = createVideoWithParts('CANCELLED')
+    await videoRepository.createVideo(video)
+    outbox.add.mockImplementation(async () =>
+      Result.fail(new Error('Cassandra timeout')),
+    )
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toBe('Cassandra timeout')
+  })
+
+  it.each([
+    'UPLOADED',
+    'PROCESSING',
+    'COMPLETED',
+    'FAILED',
+  ] as const)('should reject cancelling a video in %s', async (status) => {
+    const video = createVideoWithParts(status)
+    await videoRepository.createVideo(video)
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(InvalidStatusTransitionError)
+    expect(uploadService.abortMultipartUpload).not.toHaveBeenCalled()
+  })
+
+  it('should fail on concurrent status update without aborting', async () => {
+    const video = createVideoWithParts('UPLOADING')
+    await videoRepository.createVideo(video)
+    videoRepository.transitionStatus = mock(async () => false)
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toContain('Concurrent status update')
+    expect(uploadService.abortMultipartUpload).not.toHaveBeenCalled()
+  })
+
+  it('should still cancel the video when S3 rejects the abort', async () => {
+    const video = createVideoWithParts('UPLOADING')
+    await videoRepository.createVideo(video)
+    uploadService.abortMultipartUpload.mockImplementation(async () =>
+      Result.fail(new Error('NoSuchUpload')),
+    )
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.uploadAborted).toBe(false)
+    const stored = (await videoRepository.findById(video.id.value)).value
+    expect(stored?.status.value).toBe('CANCELLED')
+  })
+
+  it('should fail when the video does not exist', async () => {
+    const result = await useCase.execute({ videoId: 'missing' })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toContain('Video not found')
+  })
+})
@@ -0,0 +1,80 @@
+import { Result } from '@core/domain/result'
+import { VideoSegment } from '@modules/video-processor/domain/entities/video-segment'
+import type { VideoSegmentRepository } from '@modules/video-processor/domain/repositories/video-segment.repository'
+
+export class InMemoryVideoSegmentRepository implements VideoSegmentRepository {
+  public items: VideoSegment[] = []
+
+  async createSegments(segments: VideoSegment[]): Promise<Result<void, Error>> {
+    for (const segment of segments) this.store(segment)
+    return Result.ok(undefined)
+  }
+
+  async findByVideo(videoId: string): Promise<Result<VideoSegment[], Error>> {
+    return Result.ok(
+      this.items
+        .filter((s) => s.videoId === videoId)
+        .sort((a, b) => a.segmentNumber - b.segmentNumber)
+        .map((s) => this.copy(s)),
+    )
+  }
+
+  async findSegment(
+    videoId: string,
+    segmentNumber: number,
+  ): Promise<Result<VideoSegment | null, Error>> {
+    const segment = this.items.find(
+      (s) => s.videoId === videoId && s.segmentNumber === segmentNumber,
+    )
+    return Result.ok(segment ? this.copy(segment) : null)
+  }
+
+  async updateSegment(segment: VideoSegment): Promise<Result<void, Error>> {
+    this.store(segment)
+    return Result.ok(undefined)
+  }
+
+  /** Mirrors the LWT: applies only while the stored row is still FAILED */
+  async requeueSegment(segment: VideoSegment): Promise<Result<boolean, Error>> {
+    const index = this.indexOf(segment)
+    if (index === -1 || this.items[index].status !== 'FAILED') {
+      return Result.ok(false)
+    }
+
+    this.items[index] = this.copy(segment)
+    return Result.ok(true)
+  }
+
+  /** Rows are copied in and out, so only the repository methods persist changes */
+  private store(segment: VideoSegment): void {
+    const index = this.indexOf(segment)
+    if (index === -1) {
+      this.items.push(this.copy(segment))
+    } else {
+      this.items[index] = this.copy(segment)
+    }
+  }
+
+  private indexOf(segment: VideoSegment): number {
+    return this.items.findIndex(
+      (s) =>
+        s.videoId === segment.videoId &&
+        s.segmentNumber === segment.segmentNumber,
+    )
+  }
+
+  private copy(segment: VideoSegment): VideoSegment {
+    return VideoSegment.createFromDatabase({
+      videoId: segment.videoId,
+      segmentNumber: segment.segmentNumber,
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      status: segment.status,
+      attempts: segment.attempts,
+      frameCount: segment.frameCount,
+      lastError: segment.lastError,
+      createdAt: segment.createdAt,
+      updatedAt: new Date(),
+    })
+  }
+}
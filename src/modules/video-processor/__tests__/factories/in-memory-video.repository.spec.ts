@@ -4,6 +4,26 @@ import { VideoFactory } from './video.factory'
 import { VideoStatusVO } from '@modules/video-processor/domain/value-objects/video-status.vo'
 import { VideoPart } from '@modules/video-processor/domain/entities/video-part'
 import { ThirdPartyIntegration } from '@modules/video-processor/domain/entities/third-party-integration.vo'
+import { Video } from '@modules/video-processor/domain/entities/video'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import { InvalidCursorError } from '@core/errors/invalid-cursor.error'
+import type { VideoStatus } from '@modules/video-processor/domain/value-objects/video-status.vo'
+
+function makeUserVideo(
+  userId: UniqueEntityID,
+  createdAt: Date,
+  status: VideoStatus = 'CREATED',
+): Video {
+  const base = VideoFactory.create()
+  return Video.createFromDatabase({
+    id: base.id,
+    userId,
+    metadata: base.metadata,
+    status: VideoStatusVO.create(status),
+    parts: [],
+    createdAt,
+  })
+}
 
 describe('InMemoryVideoRepository', () => {
   let repository: InMemoryVideoRepository
@@ -131,13 +151,30 @@ describe('InMemoryVideoRepository', () => {
       video.setTotalSegments(3)
       await repository.createVideo(video)
 
-      const result = await repository.incrementProcessedSegments(video.id.value)
+      const result = await repository.incrementProcessedSegments(
+        video.id.value,
+        1,
+      )
       expect(result.isSuccess).toBe(true)
-      expect(result.value).toBe(1)
+      expect(result.value).toEqual({ processedSegments: 1, counted: true })
+    })
+
+    it('should not count the same segment twice', async () => {
+      const video = VideoFactory.create()
+      video.setTotalSegments(3)
+      await repository.createVideo(video)
+
+      await repository.incrementProcessedSegments(video.id.value, 2)
+      const result = await repository.incrementProcessedSegments(
+        video.id.value,
+        2,
+      )
+
+      expect(result.value).toEqual({ processedSegments: 1, counted: false })
     })
 
     it('should return failure for non-existent video', async () => {
-      const result = await repository.incrementProcessedSegments('not-found')
+      const result = await repository.incrementProcessedSegments('not-found', 1)
       expect(result.isFailure).toBe(true)
       expect(result.error.message).toContain('Video not found')
     })
@@ -153,6 +190,14 @@ describe('InMemoryVideoRepository', () => {
       expect(video.totalSegments).toBe(10)
     })
 
+    it('should record the planned segment length', async () => {
+      const video = VideoFactory.create()
+      await repository.createVideo(video)
+
+      await repository.updateTotalSegments(video.id.value, 4, 30_000)
+      expect(video.segmentDurationMs).toBe(30_000)
+    })
+
     it('should return failure for non-existent video', async () => {
       const result = await repository.updateTotalSegments('not-found', 5)
       expect(result.isFailure).toBe(true)
@@ -160,6 +205,39 @@ describe('InMemoryVideoRepository', () => {
     })
   })
 
+  describe('saveProbe()', () => {
+    it('should correct the duration of the video', async () => {
+      const video = VideoFactory.create()
+      await repository.createVideo(video)
+      const probe = {
+        durationMs: 42_500,
+        container: 'mov,mp4,m4a,3gp,3g2,mj2',
+        videoCodec: 'h264',
+        width: 1920,
+        height: 1080,
+        fps: 30,
+      }
+
+      const result = await repository.saveProbe(video.id.value, probe)
+
+      expect(result.isSuccess).toBe(true)
+      expect(video.metadata.durationMs).toBe(42_500)
+      expect(video.metadata.probe).toEqual(probe)
+    })
+
+    it('should return failure for non-existent video', async () => {
+      const result = await repository.saveProbe('not-found', {
+        durationMs: 1000,
+        container: 'matroska,webm',
+        videoCodec: 'vp9',
+        width: 640,
+        height: 360,
+        fps: 25,
+      })
+      expect(result.isFailure).toBe(true)
+    })
+  })
+
   describe('transitionStatus()', () => {
     it('should return true when status matches and transition succeeds', async () => {
       const video = VideoFactory.create({
@@ -196,4 +274,119 @@ describe('InMemoryVideoRepository', () => {
       expect(result).toBe(false)
     })
   })
+
+  describe('findByUser()', () => {
+    const userId = UniqueEntityID.create()
+
+    async function seed(count: number, statuses: VideoStatus[] = []) {
+      const videos: Video[] = []
+      for (let i = 0; i < count; i++) {
+        const video = makeUserVideo(
+          userId,
+          new Date(2026, 0, i + 1),
+          statuses[i] ?? 'CREATED',
+        )
+        videos.push(video)
+        await repository.createVideo(video)
+      }
+      return videos
+    }
+
+    it('should return the user videos newest first', async () => {
+      const videos = await seed(3)
+      await repository.createVideo(VideoFactory.create())
+
+      const result = await repository.findByUser(userId.value, { pageSize: 10 })
+
+      expect(result.isSuccess).toBe(true)
+      expect(result.value.items.map((v) => v.id.value)).toEqual(
+        [...videos].reverse().map((v) => v.id.value),
+      )
+      expect(result.value.nextCursor).toBeUndefined()
+    })
+
+    it('should page through results with the cursor', async () => {
+      await seed(5)
+
+      const first = await repository.findByUser(userId.value, { pageSize: 2 })
+      const second = await repository.findByUser(userId.value, {
+        pageSize: 2,
+        cursor: first.value.nextCursor,
+      })
+      const third = await repository.findByUser(userId.value, {
+        pageSize: 2,
+        cursor: second.value.nextCursor,
+      })
+
+      expect(first.value.items).toHaveLength(2)
+      expect(second.value.items).toHaveLength(2)
+      expect(third.value.items).toHaveLength(1)
+      expect(third.value.nextCursor).toBeUndefined()
+
+      const ids = [first, second, third].flatMap((page) =>
+        page.value.items.map((v) => v.id.value),
+      )
+      expect(new Set(ids).size).toBe(5)
+    })
+
+    it('should filter by status within each page', async () => {
+      await seed(4, ['COMPLETED', 'FAILED', 'COMPLETED', 'PRINTING'])
+
+      const result = await repository.findByUser(userId.value, {
+        pageSize: 2,
+        status: 'COMPLETED',
+      })
+
+      // Newest two are PRINTING and COMPLETED: only one matches
+      expect(result.value.items).toHaveLength(1)
+      expect(result.value.items[0].status.value).toBe('COMPLETED')
+      expect(result.value.nextCursor).toBeDefined()
+    })
+
+    it('should fail with InvalidCursorError for a malformed cursor', async () => {
+      const result = await repository.findByUser(userId.value, {
+        pageSize: 2,
+        cursor: 'not-a-cursor',
+      })
+
+      expect(result.isFailure).toBe(true)
+      expect(result.error).toBeInstanceOf(InvalidCursorError)
+    })
+  })
+
+  describe('findPendingUploads() / removePendingUpload()', () => {
+    it('should list created videos until they are removed', async () => {
+      const first = VideoFactory.create()
+      const second = VideoFactory.create()
+      await repository.createVideo(first)
+      await repository.createVideo(second)
+
+      await repository.removePendingUpload(first.id.value)
+      const result = await repository.findPendingUploads({ pageSize: 10 })
+
+      expect(result.value.items.map((v) => v.id.value)).toEqual([
+        second.id.value,
+      ])
+      expect(result.value.nextCursor).toBeUndefined()
+    })
+
+    it('should not shift later pages when entries are removed', async () => {
+      const videos = Array.from({ length: 4 }, () => VideoFactory.create())
+      for (const video of videos) await repository.createVideo(video)
+
+      const page1 = await repository.findPendingUploads({ pageSize: 2 })
+      for (const video of page1.value.items) {
+        await repository.removePendingUpload(video.id.value)
+      }
+      const page2 = await repository.findPendingUploads({
+        pageSize: 2,
+        cursor: page1.value.nextCursor,
+      })
+
+      expect(page2.value.items.map((v) => v.id.value)).toEqual([
+        videos[2].id.value,
+        videos[3].id.value,
+      ])
+    })
+  })
 })
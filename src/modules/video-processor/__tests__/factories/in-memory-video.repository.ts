@@ -1,10 +1,32 @@
-import { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type {
+  VideoRepository,
+  TransitionStatusOptions,
+  FindByUserOptions,
+  FindPendingUploadsOptions,
+  ProcessingRunContext,
+  SegmentProgress,
+  VideoPage,
+  StatusChangeContext,
+  VideoStatusHistoryEntry,
+} from '@modules/video-processor/domain/repositories/video.repository'
 import { Video } from '@modules/video-processor/domain/entities/video'
 import { Result } from '@core/domain/result'
-import type { VideoStatus } from '@modules/video-processor/domain/value-objects/video-status.vo'
+import type { OutboxMessage } from '@core/messaging'
+import { InvalidCursorError } from '@core/errors/invalid-cursor.error'
+import type { VideoProbe } from '@modules/video-processor/domain/value-objects/video-metadata.vo'
+import {
+  VideoStatusVO,
+  type VideoStatus,
+} from '@modules/video-processor/domain/value-objects/video-status.vo'
 
 export class InMemoryVideoRepository implements VideoRepository {
   public items: Video[] = []
+  public pendingUploads = new Set<string>()
+  public outbox: OutboxMessage[] = []
+  public statusHistory: VideoStatusHistoryEntry[] = []
+  public processingRuns: Array<ProcessingRunContext & { runId: string }> = []
+  /** Segment numbers counted per video and run */
+  public processedSegmentNumbers = new Map<string, Set<number>>()
 
   async findById(videoId: string): Promise<Result<Video | null, Error>> {
     const video = this.items.find((v) => v.id.value === videoId)
@@ -13,6 +35,7 @@ export class InMemoryVideoRepository implements VideoRepository {
 
   async createVideo(video: Video): Promise<Result<void, Error>> {
     this.items.push(video)
+    this.pendingUploads.add(video.id.value)
     return Result.ok(undefined)
   }
 
@@ -53,21 +76,160 @@ export class InMemoryVideoRepository implements VideoRepository {
     return Result.ok(video || null)
   }
 
-  async updateVideo(video: Video): Promise<Result<void, Error>> {
+  /**
+   * Mirrors the Cassandra paging: the cursor is an opaque offset over the
+   * user's videos (newest first) and the status filter is applied per page.
+   */
+  async findByUser(
+    userId: string,
+    options: FindByUserOptions,
+  ): Promise<Result<VideoPage, Error>> {
+    let offset = 0
+    if (options.cursor) {
+      offset = Number(Buffer.from(options.cursor, 'base64url').toString())
+      if (!Number.isInteger(offset) || offset <= 0) {
+        return Result.fail(InvalidCursorError.create())
+      }
+    }
+
+    const userVideos = this.items
+      .filter((v) => v.userId.value === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+
+    const end = offset + options.pageSize
+    const items = userVideos
+      .slice(offset, end)
+      .filter((v) => !options.status || v.status.value === options.status)
+
+    return Result.ok({
+      items,
+      nextCursor:
+        end < userVideos.length
+          ? Buffer.from(String(end)).toString('base64url')
+          : undefined,
+    })
+  }
+
+  /**
+   * Pages over every stored video and filters pending ones per page, so that
+   * removing entries while sweeping does not shift later pages (as in Cassandra).
+   */
+  async findPendingUploads(
+    options: FindPendingUploadsOptions,
+  ): Promise<Result<VideoPage, Error>> {
+    let offset = 0
+    if (options.cursor) {
+      offset = Number(Buffer.from(options.cursor, 'base64url').toString())
+      if (!Number.isInteger(offset) || offset <= 0) {
+        return Result.fail(InvalidCursorError.create())
+      }
+    }
+
+    const end = offset + options.pageSize
+    return Result.ok({
+      items: this.items
+        .slice(offset, end)
+        .filter((v) => this.pendingUploads.has(v.id.value)),
+      nextCursor:
+        end < this.items.length
+          ? Buffer.from(String(end)).toString('base64url')
+          : undefined,
+    })
+  }
+
+  async removePendingUpload(videoId: string): Promise<Result<void, Error>> {
+    this.pendingUploads.delete(videoId)
+    return Result.ok(undefined)
+  }
+
+  async updateVideo(
+    video: Video,
+    context?: StatusChangeContext,
+  ): Promise<Result<void, Error>> {
+    this.store(video)
+    for (const change of video.statusChanges) {
+      this.statusHistory.push({
+        videoId: video.id.value,
+        from: change.from,
+        to: change.to,
+        changedAt: change.occurredAt,
+        correlationId: context?.correlationId,
+        source: context?.source ?? 'unknown',
+        reason: change.reason,
+      })
+    }
+    video.clearStatusChanges()
+    return Result.ok(undefined)
+  }
+
+  private store(video: Video): void {
     const index = this.items.findIndex((v) => v.id.value === video.id.value)
     if (index !== -1) {
       this.items[index] = video
     }
+  }
+
+  async saveWithOutbox(
+    video: Video,
+    messages: OutboxMessage[],
+  ): Promise<Result<void, Error>> {
+    this.store(video)
+    // Same messageId overwrites the row, like the Cassandra upsert
+    for (const message of messages) {
+      this.outbox = this.outbox.filter(
+        (stored) => stored.messageId !== message.messageId,
+      )
+      this.outbox.push(message)
+    }
     return Result.ok(undefined)
   }
 
+  async saveProcessingRun(
+    video: Video,
+    messages: OutboxMessage[],
+    context: ProcessingRunContext,
+  ): Promise<Result<void, Error>> {
+    if (!video.currentRun) {
+      return Result.fail(
+        new Error(`Video has no processing run: ${video.id.value}`),
+      )
+    }
+    this.processingRuns.push({ ...context, runId: video.currentRun.runId })
+    return this.saveWithOutbox(video, messages)
+  }
+
   async incrementProcessedSegments(
     videoId: string,
-  ): Promise<Result<number, Error>> {
+    segmentNumber: number,
+  ): Promise<Result<SegmentProgress, Error>> {
+    const video = this.items.find((v) => v.id.value === videoId)
+    if (!video) return Result.fail(new Error(`Video not found: ${videoId}`))
+
+    const key = `${videoId}:${video.currentRun?.runId ?? ''}`
+    const counted = this.processedSegmentNumbers.get(key) ?? new Set<number>()
+    this.processedSegmentNumbers.set(key, counted)
+    if (counted.has(segmentNumber)) {
+      return Result.ok({
+        processedSegments: video.processedSegments,
+        counted: false,
+      })
+    }
+
+    counted.add(segmentNumber)
+    return Result.ok({
+      processedSegments: video.incrementProcessedSegments(),
+      counted: true,
+    })
+  }
+
+  async saveProbe(
+    videoId: string,
+    probe: VideoProbe,
+  ): Promise<Result<void, Error>> {
     const index = this.items.findIndex((v) => v.id.value === videoId)
     if (index !== -1) {
-      this.items[index].incrementProcessedSegments()
-      return Result.ok(this.items[index].processedSegments)
+      this.items[index].applyProbe(probe)
+      return Result.ok(undefined)
     }
     return Result.fail(new Error(`Video not found: ${videoId}`))
   }
@@ -75,10 +237,11 @@ export class InMemoryVideoRepository implements VideoRepository {
   async updateTotalSegments(
     videoId: string,
     totalSegments: number,
+    segmentDurationMs?: number,
   ): Promise<Result<void, Error>> {
     const index = this.items.findIndex((v) => v.id.value === videoId)
     if (index !== -1) {
-      this.items[index].setTotalSegments(totalSegments)
+      this.items[index].setTotalSegments(totalSegments, segmentDurationMs)
       return Result.ok(undefined)
     }
     return Result.fail(new Error(`Video not found: ${videoId}`))
@@ -87,7 +250,8 @@ export class InMemoryVideoRepository implements VideoRepository {
   async transitionStatus(
     videoId: string,
     expectedStatus: VideoStatus,
-    _newStatus: VideoStatus,
+    newStatus: VideoStatus,
+    options?: TransitionStatusOptions,
   ): Promise<boolean> {
     const index = this.items.findIndex((v) => v.id.value === videoId)
     if (index === -1) {
@@ -99,11 +263,47 @@ export class InMemoryVideoRepository implements VideoRepository {
       return false
     }
 
-    const transitionResult = video.completeUpload()
-    if (transitionResult.isFailure) {
-      return false
+    this.statusHistory.push({
+      videoId,
+      from: expectedStatus,
+      to: newStatus,
+      changedAt: new Date(),
+      correlationId: options?.correlationId,
+      source: options?.source ?? 'unknown',
+      reason: options?.reason ?? options?.failureReason,
+    })
+
+    if (newStatus === 'UPLOADED') {
+      const transitionResult = video.completeUpload()
+      return transitionResult.isSuccess
     }
 
+    // Mirror the LWT: the stored row changes, the caller's instance does not
+    this.items[index] = Video.createFromDatabase({
+      id: video.id,
+      userId: video.userId,
+      userEmail: video.userEmail,
+      metadata: video.metadata,
+      status: VideoStatusVO.create(newStatus),
+      parts: video.parts,
+      integration: video.integration,
+      thirdPartyVideoIntegration: video.thirdPartyVideoIntegration,
+      failureReason: options?.failureReason ?? video.failureReason,
+      totalSegments: video.totalSegments,
+      processedSegments: video.processedSegments,
+      currentRun: video.currentRun,
+      createdAt: video.createdAt,
+      updatedAt: new Date(),
+    })
+
     return true
   }
+
+  async findStatusHistory(
+    videoId: string,
+  ): Promise<Result<VideoStatusHistoryEntry[], Error>> {
+    return Result.ok(
+      this.statusHistory.filter((entry) => entry.videoId === videoId),
+    )
+  }
 }
@@ -10,7 +10,7 @@ import { MegabytesValueObject } from '@modules/video-processor/domain/value-obje
 export class VideoFactory {
   static create(override: Partial<Video> = {}): Video {
     const baseVideo = Video.create({
-      userId: UniqueEntityID.create(),
+      userId: override.userId ?? UniqueEntityID.create(),
       metadata: VideoMetadataVO.create({
         totalSize: MegabytesValueObject.create(50).value,
         durationMs: 60000, // 60 seconds in milliseconds
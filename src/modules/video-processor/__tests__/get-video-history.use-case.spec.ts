@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { GetVideoHistoryUseCase } from '@modules/video-processor/application/get-video-history.use-case'
+import { InMemoryVideoRepository } from './factories/in-memory-video.repository'
+import { VideoFactory } from './factories/video.factory'
+import { VideoStatusVO } from '@modules/video-processor/domain/value-objects/video-status.vo'
+
+describe('GetVideoHistoryUseCase', () => {
+  let videoRepository: InMemoryVideoRepository
+  let useCase: GetVideoHistoryUseCase
+
+  beforeEach(() => {
+    videoRepository = new InMemoryVideoRepository()
+    useCase = new GetVideoHistoryUseCase(videoRepository)
+  })
+
+  it('should fail when the video does not exist', async () => {
+    const result = await useCase.execute({ videoId: 'missing' })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toBe('Video not found: missing')
+  })
+
+  it('should return the transitions applied by the entity and by the repository, oldest first', async () => {
+    const video = VideoFactory.create({
+      status: VideoStatusVO.create('CREATED'),
+    })
+    await videoRepository.createVideo(video)
+    const videoId = video.id.value
+
+    video.startUploading()
+    await videoRepository.updateVideo(video, {
+      source: 'ReportPartUploadUseCase',
+      correlationId: 'corr-1',
+    })
+    await videoRepository.transitionStatus(videoId, 'UPLOADING', 'FAILED', {
+      failureReason: 'upload_expired',
+      source: 'ExpireStaleUploadsService',
+    })
+
+    const result = await useCase.execute({ videoId })
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value).toEqual({
+      videoId,
+      status: 'FAILED',
+      failureReason: 'upload_expired',
+      history: [
+        {
+          from: 'CREATED',
+          to: 'UPLOADING',
+          changedAt: expect.any(Date),
+          correlationId: 'corr-1',
+          source: 'ReportPartUploadUseCase',
+          reason: undefined,
+        },
+        {
+          from: 'UPLOADING',
+          to: 'FAILED',
+          changedAt: expect.any(Date),
+          correlationId: undefined,
+          source: 'ExpireStaleUploadsService',
+          reason: 'upload_expired',
+        },
+      ],
+    })
+    expect(video.statusChanges).toHaveLength(0)
+  })
+
+  it('should return an empty timeline for a video that never changed status', async () => {
+    const video = VideoFactory.create({
+      status: VideoStatusVO.create('CREATED'),
+    })
+    await videoRepository.createVideo(video)
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.value.history).toEqual([])
+  })
+})
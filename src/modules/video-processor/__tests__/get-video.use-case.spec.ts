@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test'
+import { GetVideoUseCase } from '@modules/video-processor/application/get-video.use-case'
+import { InMemoryVideoRepository } from './factories/in-memory-video.repository'
+import { VideoFactory } from './factories/video.factory'
+import { Video } from '@modules/video-processor/domain/entities/video'
+import { VideoStatusVO } from '@modules/video-processor/domain/value-objects/video-status.vo'
+import {
+  StorageFramesLocator,
+  StoragePathBuilder,
+} from '@modules/video-processor/infra/services/storage'
+import { Result } from '@core/domain/result'
+
+const ARCHIVE_EXPIRES_AT = new Date('2026-01-01T01:00:00.000Z')
+
+function createFramesDownload() {
+  return {
+    createArchiveDownloadURL: mock(async (videoId: string) =>
+      Result.ok({
+        url: `http://localhost:4566/frames-bucket/video/${videoId}/archive/frames.zip?X-Amz-Signature=sig`,
+        expiresAt: ARCHIVE_EXPIRES_AT,
+      }),
+    ),
+    createManifestDownloadURL: mock(async (videoId: string) =>
+      Result.ok({
+        url: `http://localhost:4566/frames-bucket/video/${videoId}/prints/manifest.json?X-Amz-Signature=sig`,
+        expiresAt: ARCHIVE_EXPIRES_AT,
+      }),
+    ),
+  }
+}
+
+function createFramesLocator(): StorageFramesLocator {
+  return new StorageFramesLocator(
+    {
+      outputBucket: 'frames-bucket',
+      publicEndpoint: 'http://localhost:4566',
+    },
+    new StoragePathBuilder({ videoBucket: 'test-bucket', region: 'us-east-1' }),
+  )
+}
+
+describe('GetVideoUseCase', () => {
+  let videoRepository: InMemoryVideoRepository
+  let framesDownload: ReturnType<typeof createFramesDownload>
+  let useCase: GetVideoUseCase
+
+  beforeEach(() => {
+    videoRepository = new InMemoryVideoRepository()
+    framesDownload = createFramesDownload()
+    useCase = new GetVideoUseCase(
+      videoRepository,
+      createFramesLocator(),
+      framesDownload,
+    )
+  })
+
+  it('should return video lifecycle state', async () => {
+    const video = VideoFactory.create()
+    await videoRepository.createVideo(video)
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value).toMatchObject({
+      videoId: video.id.value,
+      userId: video.userId.value,
+      status: 'CREATED',
+      metadata: {
+        filename: 'test-video',
+        extension: 'mp4',
+        totalSize: video.metadata.value.totalSize,
+        durationMs: 60000,
+      },
+      processing: { total: 0, processed: 0, percentage: 0 },
+    })
+    expect(result.value.createdAt).toBeInstanceOf(Date)
+    expect(result.value.updatedAt).toBeInstanceOf(Date)
+  })
+
+  it('should return processing progress from segment counters', async () => {
+    const video = VideoFactory.create({
+      status: VideoStatusVO.create('PRINTING'),
+    })
+    video.setTotalSegments(4)
+    video.incrementProcessedSegments()
+    await videoRepository.createVideo(video)
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.value.status).toBe('PRINTING')
+    expect(result.value.processing).toEqual({
+      total: 4,
+      processed: 1,
+      percentage: 25,
+    })
+    expect(result.value.frames).toBeUndefined()
+  })
+
+  it('should return frames location, zip and manifest URLs once COMPLETED', async () => {
+    const video = VideoFactory.create({
+      status: VideoStatusVO.create('COMPLETED'),
+    })
+    await videoRepository.createVideo(video)
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.value.frames).toEqual({
+      bucket: 'frames-bucket',
+      prefix: `video/${video.id.value}/prints/`,
+      url: `http://localhost:4566/frames-bucket/video/${video.id.value}/prints/`,
+      archiveKey: `video/${video.id.value}/archive/frames.zip`,
+      archive: {
+        url: `http://localhost:4566/frames-bucket/video/${video.id.value}/archive/frames.zip?X-Amz-Signature=sig`,
+        expiresAt: ARCHIVE_EXPIRES_AT,
+      },
+      manifestKey: `video/${video.id.value}/prints/manifest.json`,
+      manifest: {
+        url: `http://localhost:4566/frames-bucket/video/${video.id.value}/prints/manifest.json?X-Amz-Signature=sig`,
+        expiresAt: ARCHIVE_EXPIRES_AT,
+      },
+    })
+  })
+
+  it('should locate the frames of the latest run of a reprocessed video', async () => {
+    const base = VideoFactory.create()
+    const video = Video.createFromDatabase({
+      id: base.id,
+      userId: base.userId,
+      metadata: base.metadata,
+      status: VideoStatusVO.create('COMPLETED'),
+      parts: [],
+      currentRun: { runId: 'run-2', startedAt: new Date() },
+    })
+    await videoRepository.createVideo(video)
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.value.frames).toMatchObject({
+      prefix: `video/${video.id.value}/runs/run-2/prints/`,
+      archiveKey: `video/${video.id.value}/runs/run-2/archive/frames.zip`,
+      manifestKey: `video/${video.id.value}/runs/run-2/prints/manifest.json`,
+    })
+    expect(framesDownload.createArchiveDownloadURL).toHaveBeenCalledWith(
+      video.id.value,
+      'run-2',
+    )
+    expect(framesDownload.createManifestDownloadURL).toHaveBeenCalledWith(
+      video.id.value,
+      'run-2',
+    )
+  })
+
+  it('should not sign a zip URL before COMPLETED', async () => {
+    const video = VideoFactory.create({
+      status: VideoStatusVO.create('PRINTING'),
+    })
+    await videoRepository.createVideo(video)
+
+    await useCase.execute({ videoId: video.id.value })
+
+    expect(framesDownload.createArchiveDownloadURL).not.toHaveBeenCalled()
+  })
+
+  it('should fail when the zip URL cannot be signed', async () => {
+    const video = VideoFactory.create({
+      status: VideoStatusVO.create('COMPLETED'),
+    })
+    await videoRepository.createVideo(video)
+    framesDownload.createArchiveDownloadURL.mockImplementation(async () =>
+      Result.fail(new Error('Missing credentials')),
+    )
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.isFailure).toBe(true)
+  })
+
+  it('should return the probed duration and streams', async () => {
+    const video = VideoFactory.create()
+    await videoRepository.createVideo(video)
+    const probe = {
+      durationMs: 42500,
+      container: 'mov,mp4,m4a,3gp,3g2,mj2',
+      videoCodec: 'h264',
+      audioCodec: 'aac',
+      width: 1920,
+      height: 1080,
+      fps: 30,
+    }
+    await videoRepository.saveProbe(video.id.value, probe)
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.value.metadata).toMatchObject({ durationMs: 42500, probe })
+  })
+
+  it('should return failure reason for FAILED videos', async () => {
+    const video = VideoFactory.create({
+      status: VideoStatusVO.create('FAILED'),
+      failureReason: 'ffmpeg exited with code 1',
+    } as Partial<Video>)
+    await videoRepository.createVideo(video)
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.value.status).toBe('FAILED')
+    expect(result.value.failureReason).toBe('ffmpeg exited with code 1')
+    expect(result.value.frames).toBeUndefined()
+  })
+
+  it('should keep persisted timestamps', async () => {
+    const createdAt = new Date('2026-01-10T10:00:00.000Z')
+    const updatedAt = new Date('2026-01-10T10:05:00.000Z')
+    const base = VideoFactory.create()
+    const video = Video.createFromDatabase({
+      id: base.id,
+      userId: base.userId,
+      metadata: base.metadata,
+      status: base.status,
+      parts: [],
+      createdAt,
+      updatedAt,
+    })
+    await videoRepository.createVideo(video)
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.value.createdAt).toEqual(createdAt)
+    expect(result.value.updatedAt).toEqual(updatedAt)
+  })
+
+  it('should fail when video does not exist', async () => {
+    const result = await useCase.execute({ videoId: 'missing' })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toContain('Video not found')
+  })
+})
@@ -0,0 +1,260 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test'
+import {
+  ListVideoFramesUseCase,
+  DEFAULT_FRAMES_PAGE_SIZE,
+  MAX_FRAMES_PAGE_SIZE,
+} from '@modules/video-processor/application/list-video-frames.use-case'
+import type {
+  FrameLink,
+  FramesPage,
+  ListFramesOptions,
+} from '@modules/video-processor/domain/services/frames-download.service.interface'
+import { InvalidCursorError } from '@core/errors/invalid-cursor.error'
+import { NotFoundError } from '@core/errors/not-found.error'
+import { Result } from '@core/domain/result'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import { Video } from '@modules/video-processor/domain/entities/video'
+import { ProcessingProfileVO } from '@modules/video-processor/domain/value-objects/processing-profile.vo'
+import { VideoSegment } from '@modules/video-processor/domain/entities/video-segment'
+import { InMemoryVideoRepository } from './factories/in-memory-video.repository'
+import { InMemoryVideoSegmentRepository } from './factories/in-memory-video-segment.repository'
+import { VideoFactory } from './factories/video.factory'
+
+const EXPIRES_AT = new Date('2026-01-01T00:15:00.000Z')
+
+function frame(segmentNumber: number, frameNumber: number): FrameLink {
+  const key = `video/video-1/prints/segment_${String(segmentNumber).padStart(3, '0')}/frame_${String(frameNumber).padStart(4, '0')}.jpg`
+  return {
+    key,
+    segmentNumber,
+    frameNumber,
+    url: `http://localhost:4566/frames-bucket/${key}?X-Amz-Signature=sig`,
+    expiresAt: EXPIRES_AT,
+  }
+}
+
+function createFramesDownload(page: FramesPage) {
+  return {
+    listFrames: mock(
+      async (
+        _videoId: string,
+        _options: ListFramesOptions,
+      ): Promise<Result<FramesPage, Error>> => Result.ok(page),
+    ),
+  }
+}
+
+describe('ListVideoFramesUseCase', () => {
+  let videoRepository: InMemoryVideoRepository
+  let segmentRepository: InMemoryVideoSegmentRepository
+  let framesDownload: ReturnType<typeof createFramesDownload>
+  let useCase: ListVideoFramesUseCase
+
+  beforeEach(() => {
+    videoRepository = new InMemoryVideoRepository()
+    segmentRepository = new InMemoryVideoSegmentRepository()
+    const base = VideoFactory.create()
+    videoRepository.items.push(
+      Video.createFromDatabase({
+        id: UniqueEntityID.create('video-1'),
+        userId: base.userId,
+        metadata: base.metadata,
+        status: base.status,
+        parts: [],
+        processingProfile: ProcessingProfileVO.create({ frameInterval: 2 })
+          .value,
+      }),
+    )
+    framesDownload = createFramesDownload({
+      items: [frame(1, 1), frame(1, 2), frame(2, 1)],
+      nextCursor: 'next-page',
+    })
+    useCase = new ListVideoFramesUseCase(
+      videoRepository,
+      segmentRepository,
+      framesDownload,
+      { segmentDurationMs: 10_000 },
+    )
+  })
+
+  it('should group frames by segment', async () => {
+    const result = await useCase.execute({ videoId: 'video-1' })
+
+    expect(result.isSuccess).toBe(true)
+    expect(
+      result.value.segments.map((segment) => ({
+        segmentNumber: segment.segmentNumber,
+        frames: segment.frames.map((f) => f.frameNumber),
+      })),
+    ).toEqual([
+      { segmentNumber: 1, frames: [1, 2] },
+      { segmentNumber: 2, frames: [1] },
+    ])
+    expect(result.value.nextCursor).toBe('next-page')
+  })
+
+  it('should derive timestamps from segment start and frame interval', async () => {
+    const result = await useCase.execute({ videoId: 'video-1' })
+
+    const [first, second] = result.value.segments
+    expect(first.startTimeMs).toBe(0)
+    expect(first.frames.map((f) => f.timestampMs)).toEqual([0, 2000])
+    expect(second.startTimeMs).toBe(10_000)
+    expect(second.frames[0].timestampMs).toBe(10_000)
+  })
+
+  it('should derive timestamps from the tracked start of keyframe-aligned segments', async () => {
+    await segmentRepository.createSegments([
+      VideoSegment.create({
+        videoId: 'video-1',
+        segmentNumber: 1,
+        startTime: 0,
+        endTime: 8.34,
+      }),
+      VideoSegment.create({
+        videoId: 'video-1',
+        segmentNumber: 2,
+        startTime: 8.34,
+        endTime: 20.85,
+      }),
+    ])
+
+    const result = await useCase.execute({ videoId: 'video-1' })
+
+    const [first, second] = result.value.segments
+    expect(first.frames.map((f) => f.timestampMs)).toEqual([0, 2000])
+    expect(second.startTimeMs).toBe(8340)
+    // First point of the 2s grid after 8.34s
+    expect(second.frames[0].timestampMs).toBe(10_000)
+  })
+
+  it('should derive timestamps from the segment length planned for the video', async () => {
+    const [video] = videoRepository.items
+    videoRepository.items[0] = Video.createFromDatabase({
+      id: video.id,
+      userId: video.userId,
+      metadata: video.metadata,
+      status: video.status,
+      parts: [],
+      processingProfile: video.processingProfile,
+      totalSegments: 4,
+      segmentDurationMs: 30_000,
+    })
+
+    const result = await useCase.execute({ videoId: 'video-1' })
+
+    const second = result.value.segments[1]
+    expect(second.startTimeMs).toBe(30_000)
+    expect(second.frames[0].timestampMs).toBe(30_000)
+  })
+
+  it('should derive timestamps from the fps of the profile', async () => {
+    const [video] = videoRepository.items
+    videoRepository.items[0] = Video.createFromDatabase({
+      id: video.id,
+      userId: video.userId,
+      metadata: video.metadata,
+      status: video.status,
+      parts: [],
+      processingProfile: ProcessingProfileVO.create({ fps: 4 }).value,
+    })
+
+    const result = await useCase.execute({ videoId: 'video-1' })
+
+    expect(result.value.segments[0].frames.map((f) => f.timestampMs)).toEqual([
+      0, 250,
+    ])
+  })
+
+  it('should keep the timestamps of scene frames', async () => {
+    framesDownload.listFrames.mockImplementation(async () =>
+      Result.ok({
+        items: [
+          { ...frame(2, 1), timestampMs: 13_200 },
+          { ...frame(2, 2), timestampMs: 17_950 },
+        ],
+      }),
+    )
+
+    const result = await useCase.execute({ videoId: 'video-1' })
+
+    expect(result.value.segments[0].frames.map((f) => f.timestampMs)).toEqual([
+      13_200, 17_950,
+    ])
+  })
+
+  it('should expose the presigned URL of each frame', async () => {
+    const result = await useCase.execute({ videoId: 'video-1' })
+
+    expect(result.value.segments[0].frames[0]).toMatchObject({
+      key: 'video/video-1/prints/segment_001/frame_0001.jpg',
+      url: expect.stringContaining('X-Amz-Signature=sig'),
+      expiresAt: EXPIRES_AT,
+    })
+  })
+
+  it('should pass the cursor and clamp the page size', async () => {
+    await useCase.execute({
+      videoId: 'video-1',
+      cursor: 'abc',
+      pageSize: MAX_FRAMES_PAGE_SIZE + 1,
+    })
+    await useCase.execute({ videoId: 'video-1' })
+
+    expect(framesDownload.listFrames.mock.calls).toEqual([
+      ['video-1', { pageSize: MAX_FRAMES_PAGE_SIZE, cursor: 'abc' }],
+      ['video-1', { pageSize: DEFAULT_FRAMES_PAGE_SIZE, cursor: undefined }],
+    ])
+  })
+
+  it('should list the latest run of a reprocessed video with its interval', async () => {
+    const [video] = videoRepository.items
+    videoRepository.items[0] = Video.createFromDatabase({
+      id: video.id,
+      userId: video.userId,
+      metadata: video.metadata,
+      status: video.status,
+      parts: [],
+      currentRun: { runId: 'run-2', frameInterval: 0.5, startedAt: new Date() },
+    })
+
+    const result = await useCase.execute({ videoId: 'video-1' })
+
+    expect(framesDownload.listFrames.mock.calls[0][1].runId).toBe('run-2')
+    expect(result.value.segments[0].frames.map((f) => f.timestampMs)).toEqual([
+      0, 500,
+    ])
+  })
+
+  it('should fail with NotFoundError when the video does not exist', async () => {
+    const result = await useCase.execute({ videoId: 'missing' })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(NotFoundError)
+    expect(framesDownload.listFrames).not.toHaveBeenCalled()
+  })
+
+  it('should return an empty page when no frames exist', async () => {
+    useCase = new ListVideoFramesUseCase(
+      videoRepository,
+      segmentRepository,
+      createFramesDownload({ items: [] }),
+      { segmentDurationMs: 10_000 },
+    )
+
+    const result = await useCase.execute({ videoId: 'video-1' })
+
+    expect(result.value).toEqual({ segments: [], nextCursor: undefined })
+  })
+
+  it('should propagate listing failures', async () => {
+    framesDownload.listFrames.mockImplementation(async () =>
+      Result.fail(InvalidCursorError.create()),
+    )
+
+    const result = await useCase.execute({ videoId: 'video-1', cursor: '%%' })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(InvalidCursorError)
+  })
+})
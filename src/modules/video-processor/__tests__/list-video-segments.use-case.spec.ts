@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { NotFoundError } from '@core/errors/not-found.error'
+import { ListVideoSegmentsUseCase } from '@modules/video-processor/application/list-video-segments.use-case'
+import { VideoSegment } from '@modules/video-processor/domain/entities/video-segment'
+import { VideoStatusVO } from '@modules/video-processor/domain/value-objects/video-status.vo'
+import { InMemoryVideoRepository } from './factories/in-memory-video.repository'
+import { InMemoryVideoSegmentRepository } from './factories/in-memory-video-segment.repository'
+import { VideoFactory } from './factories/video.factory'
+
+describe('ListVideoSegmentsUseCase', () => {
+  let videoRepository: InMemoryVideoRepository
+  let segmentRepository: InMemoryVideoSegmentRepository
+  let useCase: ListVideoSegmentsUseCase
+
+  beforeEach(() => {
+    videoRepository = new InMemoryVideoRepository()
+    segmentRepository = new InMemoryVideoSegmentRepository()
+    useCase = new ListVideoSegmentsUseCase(videoRepository, segmentRepository)
+  })
+
+  it('should fail with NotFoundError when the video does not exist', async () => {
+    const result = await useCase.execute({ videoId: 'missing' })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(NotFoundError)
+  })
+
+  it('should list the segments in order with their outcome', async () => {
+    const video = VideoFactory.create({
+      status: VideoStatusVO.create('FAILED'),
+    })
+    video.setTotalSegments(2)
+    videoRepository.items.push(video)
+
+    const [first, second] = [1, 2].map((segmentNumber) =>
+      VideoSegment.create({
+        videoId: video.id.value,
+        segmentNumber,
+        startTime: (segmentNumber - 1) * 10,
+        endTime: segmentNumber * 10,
+      }),
+    )
+    second.startProcessing()
+    second.markFailed('NoSuchKey')
+    first.startProcessing()
+    first.markCompleted(10)
+    await segmentRepository.createSegments([second, first])
+
+    const result = await useCase.execute({ videoId: video.id.value })
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value).toMatchObject({
+      videoId: video.id.value,
+      status: 'FAILED',
+      totalSegments: 2,
+      segments: [
+        { segmentNumber: 1, status: 'COMPLETED', attempts: 1, frameCount: 10 },
+        {
+          segmentNumber: 2,
+          status: 'FAILED',
+          attempts: 1,
+          lastError: 'NoSuchKey',
+        },
+      ],
+    })
+  })
+})
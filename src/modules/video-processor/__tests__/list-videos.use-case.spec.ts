@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach, spyOn } from 'bun:test'
+import {
+  ListVideosUseCase,
+  MAX_PAGE_SIZE,
+  DEFAULT_PAGE_SIZE,
+} from '@modules/video-processor/application/list-videos.use-case'
+import { InMemoryVideoRepository } from './factories/in-memory-video.repository'
+import { VideoFactory } from './factories/video.factory'
+import { Video } from '@modules/video-processor/domain/entities/video'
+import { VideoStatusVO } from '@modules/video-processor/domain/value-objects/video-status.vo'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import { InvalidCursorError } from '@core/errors/invalid-cursor.error'
+
+function makeUserVideo(userId: UniqueEntityID, createdAt: Date): Video {
+  const base = VideoFactory.create()
+  return Video.createFromDatabase({
+    id: base.id,
+    userId,
+    metadata: base.metadata,
+    status: VideoStatusVO.create('COMPLETED'),
+    parts: [],
+    createdAt,
+  })
+}
+
+describe('ListVideosUseCase', () => {
+  const userId = UniqueEntityID.create()
+  let videoRepository: InMemoryVideoRepository
+  let useCase: ListVideosUseCase
+
+  beforeEach(() => {
+    videoRepository = new InMemoryVideoRepository()
+    useCase = new ListVideosUseCase(videoRepository)
+  })
+
+  it('should return video summaries with the next cursor', async () => {
+    for (let day = 1; day <= 3; day++) {
+      await videoRepository.createVideo(
+        makeUserVideo(userId, new Date(2026, 0, day)),
+      )
+    }
+
+    const result = await useCase.execute({ userId: userId.value, pageSize: 2 })
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.items).toHaveLength(2)
+    expect(result.value.items[0]).toMatchObject({
+      status: 'COMPLETED',
+      filename: 'test-video',
+      extension: 'mp4',
+      durationMs: 60000,
+      createdAt: new Date(2026, 0, 3),
+    })
+    expect(result.value.nextCursor).toBeDefined()
+  })
+
+  it.each([
+    ['default', undefined, DEFAULT_PAGE_SIZE],
+    ['too large', 1000, MAX_PAGE_SIZE],
+    ['too small', 0, 1],
+  ])('should clamp %s page size', async (_, pageSize, expected) => {
+    const findByUser = spyOn(videoRepository, 'findByUser')
+
+    await useCase.execute({ userId: userId.value, pageSize })
+
+    expect(findByUser).toHaveBeenCalledWith(userId.value, {
+      pageSize: expected,
+      cursor: undefined,
+      status: undefined,
+    })
+  })
+
+  it('should propagate InvalidCursorError', async () => {
+    const result = await useCase.execute({
+      userId: userId.value,
+      cursor: '!!',
+    })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(InvalidCursorError)
+  })
+})
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, spyOn } from 'bun:test'
+import { Result } from '@core/domain/result'
+import { InvalidProcessingProfileError } from '@core/errors/invalid-processing-profile.error'
+import { InvalidStatusTransitionError } from '@core/errors/invalid-status-transition.error'
+import { NotFoundError } from '@core/errors/not-found.error'
+import { ReprocessVideoUseCase } from '@modules/video-processor/application/reprocess-video.use-case'
+import { Video } from '@modules/video-processor/domain/entities/video'
+import { VideoSegment } from '@modules/video-processor/domain/entities/video-segment'
+import {
+  VideoStatusVO,
+  type VideoStatus,
+} from '@modules/video-processor/domain/value-objects/video-status.vo'
+import { InMemoryVideoRepository } from './factories/in-memory-video.repository'
+import { InMemoryVideoSegmentRepository } from './factories/in-memory-video-segment.repository'
+import { VideoFactory } from './factories/video.factory'
+
+describe('ReprocessVideoUseCase', () => {
+  let videoRepository: InMemoryVideoRepository
+  let segmentRepository: InMemoryVideoSegmentRepository
+  let useCase: ReprocessVideoUseCase
+
+  beforeEach(() => {
+    videoRepository = new InMemoryVideoRepository()
+    segmentRepository = new InMemoryVideoSegmentRepository()
+    useCase = new ReprocessVideoUseCase(videoRepository, segmentRepository)
+  })
+
+  function givenVideo(status: VideoStatus, { probed = true } = {}): Video {
+    const base = VideoFactory.create()
+    const video = Video.createFromDatabase({
+      id: base.id,
+      userId: base.userId,
+      userEmail: 'user@example.com',
+      metadata: probed
+        ? base.metadata.withProbe({
+            durationMs: 60000,
+            container: 'mov,mp4,m4a,3gp,3g2,mj2',
+            videoCodec: 'h264',
+            width: 1280,
+            height: 720,
+            fps: 30,
+          })
+        : base.metadata,
+      status: VideoStatusVO.create(status),
+      parts: [],
+      thirdPartyVideoIntegration: base.thirdPartyVideoIntegration,
+      failureReason: status === 'FAILED' ? 'NoSuchKey' : undefined,
+      totalSegments: 3,
+      processedSegments: status === 'COMPLETED' ? 3 : 1,
+    })
+    videoRepository.items.push(video)
+    return video
+  }
+
+  function reprocess(video: Video | string, frameInterval?: number) {
+    return useCase.execute({
+      videoId: typeof video === 'string' ? video : video.id.value,
+      frameInterval,
+      correlationId: 'corr-123',
+    })
+  }
+
+  it('should start a new run of a COMPLETED video', async () => {
+    const video = givenVideo('COMPLETED')
+
+    const result = await reprocess(video, 0.5)
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value).toEqual({
+      videoId: video.id.value,
+      runId: expect.any(String),
+      status: 'PROCESSING',
+      previousStatus: 'COMPLETED',
+      frameInterval: 0.5,
+    })
+
+    const reloaded = (await videoRepository.findById(video.id.value)).value
+    expect(reloaded?.status.value).toBe('PROCESSING')
+    expect(reloaded?.currentRun?.runId).toBe(result.value.runId)
+    expect(reloaded?.processedSegments).toBe(0)
+    expect(videoRepository.processingRuns).toEqual([
+      {
+        runId: result.value.runId,
+        previousStatus: 'COMPLETED',
+        correlationId: 'corr-123',
+      },
+    ])
+  })
+
+  it('should record the transition in the status history once', async () => {
+    const video = givenVideo('FAILED')
+
+    await reprocess(video)
+
+    expect(videoRepository.statusHistory).toEqual([
+      expect.objectContaining({
+        from: 'FAILED',
+        to: 'PROCESSING',
+        source: 'ReprocessVideoUseCase',
+        correlationId: 'corr-123',
+        reason: 'reprocess',
+      }),
+    ])
+  })
+
+  it('should trigger the orchestrator through the outbox with the run', async () => {
+    const video = givenVideo('FAILED')
+
+    const result = await reprocess(video, 2)
+
+    expect(videoRepository.outbox).toHaveLength(1)
+    const [message] = videoRepository.outbox
+    expect(message.destination).toBe('eventbridge')
+    expect(message.envelope.metadata).toMatchObject({
+      eventType: 'Video Status Changed',
+      correlationId: 'corr-123',
+    })
+    expect(message.envelope.payload).toMatchObject({
+      videoId: video.id.value,
+      status: 'PROCESSING',
+      videoPath: video.thirdPartyVideoIntegration?.path,
+      duration: video.metadata.durationMs,
+      runId: result.value.runId,
+      processingProfile: { frameInterval: 2, format: 'jpg' },
+    })
+  })
+
+  it('should reject an invalid frame interval before claiming the video', async () => {
+    const video = givenVideo('COMPLETED')
+    const transitionStatus = spyOn(videoRepository, 'transitionStatus')
+
+    const result = await reprocess(video, 0)
+
+    expect(result.error).toBeInstanceOf(InvalidProcessingProfileError)
+    expect(result.error.message).toContain('frameInterval must be greater')
+    expect(transitionStatus).not.toHaveBeenCalled()
+    expect(video.status.value).toBe('COMPLETED')
+    expect(videoRepository.outbox).toHaveLength(0)
+  })
+
+  it('should record a separate outbox message for every run', async () => {
+    const video = givenVideo('COMPLETED')
+    await reprocess(video)
+    await videoRepository.transitionStatus(
+      video.id.value,
+      'PROCESSING',
+      'COMPLETED',
+    )
+
+    await reprocess(video)
+
+    expect(new Set(videoRepository.outbox.map((m) => m.messageId)).size).toBe(2)
+  })
+
+  it('should reject videos that have not finished processing', async () => {
+    const video = givenVideo('PRINTING')
+
+    const result = await reprocess(video)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(InvalidStatusTransitionError)
+    expect(videoRepository.outbox).toHaveLength(0)
+  })
+
+  it('should reject a FAILED video whose upload never completed', async () => {
+    const video = givenVideo('FAILED', { probed: false })
+
+    const result = await reprocess(video)
+
+    expect(result.error).toBeInstanceOf(InvalidStatusTransitionError)
+    const reloaded = (await videoRepository.findById(video.id.value)).value
+    expect(reloaded?.status.value).toBe('FAILED')
+    expect(videoRepository.outbox).toHaveLength(0)
+  })
+
+  it('should reject a FAILED video whose segments are still printing', async () => {
+    const video = givenVideo('FAILED')
+    await segmentRepository.createSegments([
+      VideoSegment.create({
+        videoId: video.id.value,
+        segmentNumber: 1,
+        startTime: 0,
+        endTime: 10,
+      }),
+    ])
+
+    const result = await reprocess(video)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(InvalidStatusTransitionError)
+    const reloaded = (await videoRepository.findById(video.id.value)).value
+    expect(reloaded?.status.value).toBe('FAILED')
+  })
+
+  it('should start a single run for concurrent requests', async () => {
+    const video = givenVideo('COMPLETED')
+    // This request read the video before the concurrent one reopened it
+    const stale = Video.createFromDatabase({
+      id: video.id,
+      userId: video.userId,
+      metadata: video.metadata,
+      status: video.status,
+      parts: [],
+    })
+    await reprocess(video)
+    spyOn(videoRepository, 'findById').mockResolvedValueOnce(Result.ok(stale))
+
+    const result = await reprocess(video)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(InvalidStatusTransitionError)
+    expect(videoRepository.processingRuns).toHaveLength(1)
+  })
+
+  it('should fail with NotFoundError for an unknown video', async () => {
+    const result = await reprocess('missing')
+
+    expect(result.error).toBeInstanceOf(NotFoundError)
+  })
+
+  it('should restore the status when the run cannot be saved', async () => {
+    const video = givenVideo('FAILED')
+    spyOn(videoRepository, 'saveProcessingRun').mockResolvedValueOnce(
+      Result.fail(new Error('Cassandra unavailable')),
+    )
+
+    const result = await reprocess(video)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toBe('Cassandra unavailable')
+    const reloaded = (await videoRepository.findById(video.id.value)).value
+    expect(reloaded?.status.value).toBe('FAILED')
+    expect(reloaded?.failureReason).toBe('NoSuchKey')
+    expect(videoRepository.outbox).toHaveLength(0)
+  })
+})
@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, mock, spyOn } from 'bun:test'
+import { Result } from '@core/domain/result'
+import { InvalidStatusTransitionError } from '@core/errors/invalid-status-transition.error'
+import { NotFoundError } from '@core/errors/not-found.error'
+import { RetrySegmentUseCase } from '@modules/video-processor/application/retry-segment.use-case'
+import {
+  SEGMENT_RETRY_REASON,
+  type Video,
+} from '@modules/video-processor/domain/entities/video'
+import { VideoSegment } from '@modules/video-processor/domain/entities/video-segment'
+import type { SegmentPrintQueue } from '@modules/video-processor/domain/services/segment-print-queue.interface'
+import {
+  VideoStatusVO,
+  type VideoStatus,
+} from '@modules/video-processor/domain/value-objects/video-status.vo'
+import { InMemoryVideoRepository } from './factories/in-memory-video.repository'
+import { InMemoryVideoSegmentRepository } from './factories/in-memory-video-segment.repository'
+import { VideoFactory } from './factories/video.factory'
+
+function createMockPrintQueue() {
+  return {
+    enqueue: mock<SegmentPrintQueue['enqueue']>(() =>
+      Promise.resolve(Result.ok(undefined)),
+    ),
+  }
+}
+
+describe('RetrySegmentUseCase', () => {
+  let videoRepository: InMemoryVideoRepository
+  let segmentRepository: InMemoryVideoSegmentRepository
+  let printQueue: ReturnType<typeof createMockPrintQueue>
+  let useCase: RetrySegmentUseCase
+
+  beforeEach(() => {
+    videoRepository = new InMemoryVideoRepository()
+    segmentRepository = new InMemoryVideoSegmentRepository()
+    printQueue = createMockPrintQueue()
+    useCase = new RetrySegmentUseCase(
+      videoRepository,
+      segmentRepository,
+      printQueue,
+    )
+  })
+
+  function givenVideo(status: VideoStatus): Video {
+    const video = VideoFactory.create({
+      status: VideoStatusVO.create(status),
+    })
+    videoRepository.items.push(video)
+    return video
+  }
+
+  async function givenSegment(
+    video: Video,
+    segmentNumber: number,
+    outcome: 'COMPLETED' | 'FAILED',
+  ): Promise<void> {
+    const segment = VideoSegment.create({
+      videoId: video.id.value,
+      segmentNumber,
+      startTime: (segmentNumber - 1) * 10,
+      endTime: segmentNumber * 10,
+    })
+    segment.startProcessing()
+    if (outcome === 'FAILED') segment.markFailed('NoSuchKey')
+    else segment.markCompleted(10)
+    await segmentRepository.createSegments([segment])
+  }
+
+  async function storedSegment(video: Video, segmentNumber: number) {
+    const result = await segmentRepository.findSegment(
+      video.id.value,
+      segmentNumber,
+    )
+    return result.value
+  }
+
+  function retry(video: Video | string, segmentNumber: number) {
+    return useCase.execute({
+      videoId: typeof video === 'string' ? video : video.id.value,
+      segmentNumber,
+      correlationId: 'corr-123',
+    })
+  }
+
+  it('should requeue the failed segment and reopen the video', async () => {
+    const video = givenVideo('FAILED')
+    await givenSegment(video, 1, 'COMPLETED')
+    await givenSegment(video, 2, 'FAILED')
+
+    const result = await retry(video, 2)
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value).toEqual({
+      videoId: video.id.value,
+      segmentNumber: 2,
+      segmentStatus: 'PENDING',
+      videoStatus: 'PRINTING',
+      requeued: true,
+    })
+    expect((await storedSegment(video, 2))?.status).toBe('PENDING')
+    expect((await storedSegment(video, 1))?.status).toBe('COMPLETED')
+
+    const reloaded = await videoRepository.findById(video.id.value)
+    expect(reloaded.value?.status.value).toBe('PRINTING')
+    expect(videoRepository.statusHistory).toContainEqual(
+      expect.objectContaining({
+        from: 'FAILED',
+        to: 'PRINTING',
+        source: 'RetrySegmentUseCase',
+        correlationId: 'corr-123',
+        reason: SEGMENT_RETRY_REASON,
+      }),
+    )
+  })
+
+  it('should publish only the retried segment', async () => {
+    const video = givenVideo('FAILED')
+    await givenSegment(video, 1, 'FAILED')
+    await givenSegment(video, 2, 'FAILED')
+
+    await retry(video, 2)
+
+    expect(printQueue.enqueue).toHaveBeenCalledTimes(1)
+    const [, segments, context] = printQueue.enqueue.mock.calls[0]
+    expect(segments.map((segment) => segment.segmentNumber)).toEqual([2])
+    expect(context).toEqual({ correlationId: 'corr-123', traceId: undefined })
+    expect((await storedSegment(video, 1))?.status).toBe('FAILED')
+  })
+
+  it('should keep the video status while it is still printing', async () => {
+    const video = givenVideo('PRINTING')
+    await givenSegment(video, 1, 'FAILED')
+
+    const result = await retry(video, 1)
+
+    expect(result.value.videoStatus).toBe('PRINTING')
+    expect(videoRepository.statusHistory).toHaveLength(0)
+  })
+
+  it('should not publish a segment requeued by a concurrent request', async () => {
+    const video = givenVideo('FAILED')
+    await givenSegment(video, 1, 'FAILED')
+    // This request read the segment before the concurrent one requeued it
+    const staleResult = await segmentRepository.findSegment(video.id.value, 1)
+    await retry(video, 1)
+    spyOn(segmentRepository, 'findSegment').mockResolvedValueOnce(staleResult)
+
+    const result = await retry(video, 1)
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.requeued).toBe(false)
+    expect(printQueue.enqueue).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reject a segment that is already pending', async () => {
+    const video = givenVideo('FAILED')
+    await givenSegment(video, 1, 'FAILED')
+    await retry(video, 1)
+
+    const result = await retry(video, 1)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(InvalidStatusTransitionError)
+    expect(printQueue.enqueue).toHaveBeenCalledTimes(1)
+  })
+
+  it('should reject segments that did not fail', async () => {
+    const video = givenVideo('PRINTING')
+    await givenSegment(video, 1, 'COMPLETED')
+
+    const result = await retry(video, 1)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(InvalidStatusTransitionError)
+    expect(printQueue.enqueue).not.toHaveBeenCalled()
+  })
+
+  it('should reject videos that are not being printed', async () => {
+    const video = givenVideo('COMPLETED')
+    await givenSegment(video, 1, 'FAILED')
+
+    const result = await retry(video, 1)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(InvalidStatusTransitionError)
+  })
+
+  it('should fail with NotFoundError for an unknown video or segment', async () => {
+    const video = givenVideo('FAILED')
+
+    const missingVideo = await retry('missing', 1)
+    const missingSegment = await retry(video, 7)
+
+    expect(missingVideo.error).toBeInstanceOf(NotFoundError)
+    expect(missingSegment.error).toBeInstanceOf(NotFoundError)
+    expect(missingSegment.error.message).toContain(`${video.id.value}/7`)
+  })
+
+  it('should restore the segment and the video when publishing fails', async () => {
+    const video = givenVideo('FAILED')
+    await givenSegment(video, 1, 'FAILED')
+    printQueue.enqueue.mockImplementation(() =>
+      Promise.resolve(Result.fail(new Error('SQS unavailable'))),
+    )
+
+    const result = await retry(video, 1)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toBe('SQS unavailable')
+    const segment = await storedSegment(video, 1)
+    expect(segment?.status).toBe('FAILED')
+    expect(segment?.lastError).toBe('NoSuchKey')
+    const reloaded = await videoRepository.findById(video.id.value)
+    expect(reloaded.value?.status.value).toBe('FAILED')
+  })
+})
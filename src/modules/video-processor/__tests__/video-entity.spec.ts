@@ -126,6 +126,37 @@ describe('Video Entity', () => {
     })
   })
 
+  describe('statusChanges', () => {
+    it('should record each applied transition until cleared', () => {
+      const video = VideoFactory.create({
+        status: VideoStatusVO.create('PRINTING'),
+      })
+
+      video.markAsFailed('ffmpeg crashed')
+
+      expect(video.statusChanges).toEqual([
+        {
+          from: 'PRINTING',
+          to: 'FAILED',
+          occurredAt: expect.any(Date),
+          reason: 'ffmpeg crashed',
+        },
+      ])
+
+      video.clearStatusChanges()
+      expect(video.statusChanges).toHaveLength(0)
+    })
+
+    it('should not record rejected transitions', () => {
+      const video = VideoFactory.create({
+        status: VideoStatusVO.create('COMPLETED'),
+      })
+
+      expect(video.startUploading().isFailure).toBe(true)
+      expect(video.statusChanges).toHaveLength(0)
+    })
+  })
+
   describe('getPendingPartsBatch', () => {
     it('should return empty batch when no parts exist', () => {
       const video = VideoFactory.create()
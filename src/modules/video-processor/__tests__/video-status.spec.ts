@@ -44,9 +44,39 @@ describe('VideoStatusVO', () => {
     )
   })
 
+  it('should allow CANCELLED only before the upload is completed', () => {
+    expect(VideoStatusVO.create('CREATED').canTransitionTo('CANCELLED')).toBe(
+      true,
+    )
+    expect(VideoStatusVO.create('UPLOADING').canTransitionTo('CANCELLED')).toBe(
+      true,
+    )
+    expect(VideoStatusVO.create('UPLOADED').canTransitionTo('CANCELLED')).toBe(
+      false,
+    )
+    expect(VideoStatusVO.create('CANCELLED').canTransitionTo('FAILED')).toBe(
+      false,
+    )
+  })
+
+  it('should reopen only PRINTING and FAILED videos for a segment retry', () => {
+    expect(VideoStatusVO.create('FAILED').retrySegment().value.value).toBe(
+      'PRINTING',
+    )
+    expect(VideoStatusVO.create('PRINTING').canRetrySegment()).toBe(true)
+    expect(VideoStatusVO.create('COMPLETED').retrySegment().isFailure).toBe(
+      true,
+    )
+    // The pipeline still treats FAILED as final
+    expect(VideoStatusVO.create('FAILED').canTransitionTo('PRINTING')).toBe(
+      false,
+    )
+  })
+
   it('should identify terminal states', () => {
     expect(VideoStatusVO.create('COMPLETED').isTerminal()).toBe(true)
     expect(VideoStatusVO.create('FAILED').isTerminal()).toBe(true)
+    expect(VideoStatusVO.create('CANCELLED').isTerminal()).toBe(true)
     expect(VideoStatusVO.create('PROCESSING').isTerminal()).toBe(false)
   })
 
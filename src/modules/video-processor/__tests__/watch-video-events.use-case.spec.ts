@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test'
+import { Result } from '@core/domain/result'
+import { NotFoundError } from '@core/errors/not-found.error'
+import {
+  WatchVideoEventsUseCase,
+  type VideoStreamEvent,
+} from '@modules/video-processor/application/watch-video-events.use-case'
+import { InMemoryVideoLiveEvents } from '@modules/video-processor/infra/services/live-events/in-memory-video-live-events'
+import { InMemoryVideoRepository } from './factories/in-memory-video.repository'
+import { VideoFactory } from './factories/video.factory'
+import {
+  VideoStatusVO,
+  type VideoStatus,
+} from '@modules/video-processor/domain/value-objects/video-status.vo'
+import type { Video } from '@modules/video-processor/domain/entities/video'
+
+function makeVideoInStatus(status: VideoStatus): Video {
+  return VideoFactory.create({ status: VideoStatusVO.create(status) })
+}
+
+/** Lets the stream reach its next await */
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('WatchVideoEventsUseCase', () => {
+  let repository: InMemoryVideoRepository
+  let liveEvents: InMemoryVideoLiveEvents
+  let useCase: WatchVideoEventsUseCase
+
+  beforeEach(() => {
+    repository = new InMemoryVideoRepository()
+    liveEvents = new InMemoryVideoLiveEvents()
+    useCase = new WatchVideoEventsUseCase(repository, liveEvents, {
+      resyncIntervalMs: 60_000,
+    })
+  })
+
+  async function watch(video: Video, signal?: AbortSignal) {
+    const result = await useCase.execute({ videoId: video.id.value, signal })
+    expect(result.isSuccess).toBe(true)
+    return result.value
+  }
+
+  async function collect(
+    stream: AsyncGenerator<VideoStreamEvent, void>,
+  ): Promise<VideoStreamEvent[]> {
+    const events: VideoStreamEvent[] = []
+    for await (const event of stream) events.push(event)
+    return events
+  }
+
+  it('should fail when the video does not exist', async () => {
+    const result = await useCase.execute({ videoId: 'missing' })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(NotFoundError)
+    expect(result.error.message).toContain('Video not found')
+  })
+
+  it('should pass repository failures through', async () => {
+    repository.findById = mock(async () =>
+      Result.fail(new Error('Cassandra timeout')),
+    )
+
+    const result = await useCase.execute({ videoId: 'video-1' })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).not.toBeInstanceOf(NotFoundError)
+  })
+
+  it('should start with a snapshot of the current state', async () => {
+    const video = makeVideoInStatus('PRINTING')
+    video.setTotalSegments(4)
+    video.incrementProcessedSegments()
+    repository.items.push(video)
+
+    const stream = await watch(video)
+    const first = await stream.next()
+    await stream.return(undefined)
+
+    expect(first.value).toMatchObject({
+      type: 'snapshot',
+      videoId: video.id.value,
+      status: 'PRINTING',
+      processing: { total: 4, processed: 1, percentage: 25 },
+    })
+  })
+
+  it('should end right after the snapshot when the video is terminal', async () => {
+    const video = makeVideoInStatus('COMPLETED')
+    repository.items.push(video)
+
+    const events = await collect(await watch(video))
+
+    expect(events.map((event) => event.type)).toEqual(['snapshot'])
+    expect(liveEvents.listenerCount(video.id.value)).toBe(0)
+  })
+
+  it('should push live events until a terminal status', async () => {
+    const video = makeVideoInStatus('UPLOADING')
+    repository.items.push(video)
+    const videoId = video.id.value
+
+    const stream = await watch(video)
+    const collected = collect(stream)
+    await tick()
+
+    liveEvents.publish({
+      type: 'part-reported',
+      videoId,
+      partNumber: 1,
+      uploadedParts: 1,
+      totalParts: 2,
+      percentage: 50,
+    })
+    liveEvents.publish({ type: 'status-changed', videoId, status: 'UPLOADED' })
+    liveEvents.publish({
+      type: 'status-changed',
+      videoId,
+      status: 'FAILED',
+      failureReason: 'boom',
+    })
+    liveEvents.publish({ type: 'status-changed', videoId, status: 'PRINTING' })
+
+    const events = await collected
+    expect(events.map((event) => event.type)).toEqual([
+      'snapshot',
+      'part-reported',
+      'status-changed',
+      'status-changed',
+    ])
+    expect(events.at(-1)).toMatchObject({ status: 'FAILED' })
+    expect(liveEvents.listenerCount(videoId)).toBe(0)
+  })
+
+  it('should ignore events for other videos and repeated statuses', async () => {
+    const video = makeVideoInStatus('SPLITTING')
+    repository.items.push(video)
+    const videoId = video.id.value
+
+    const stream = await watch(video)
+    const collected = collect(stream)
+    await tick()
+
+    liveEvents.publish({
+      type: 'status-changed',
+      videoId: 'other-video',
+      status: 'COMPLETED',
+    })
+    liveEvents.publish({ type: 'status-changed', videoId, status: 'SPLITTING' })
+    liveEvents.publish({ type: 'status-changed', videoId, status: 'COMPLETED' })
+
+    const events = await collected
+    expect(events.map((event) => event.type)).toEqual([
+      'snapshot',
+      'status-changed',
+    ])
+  })
+
+  it('should pick up segment progress and status changes on resync', async () => {
+    useCase = new WatchVideoEventsUseCase(repository, liveEvents, {
+      resyncIntervalMs: 5,
+    })
+    const video = makeVideoInStatus('PRINTING')
+    video.setTotalSegments(2)
+    repository.items.push(video)
+    const videoId = video.id.value
+
+    const stream = await watch(video)
+    const collected = collect(stream)
+    await tick()
+
+    await repository.incrementProcessedSegments(videoId, 1)
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    await repository.incrementProcessedSegments(videoId, 2)
+    await repository.transitionStatus(videoId, 'PRINTING', 'COMPLETED')
+
+    const events = await collected
+    expect(events.slice(1)).toEqual([
+      {
+        type: 'segment-processed',
+        videoId,
+        total: 2,
+        processed: 1,
+        percentage: 50,
+      },
+      {
+        type: 'segment-processed',
+        videoId,
+        total: 2,
+        processed: 2,
+        percentage: 100,
+      },
+      {
+        type: 'status-changed',
+        videoId,
+        status: 'COMPLETED',
+        failureReason: undefined,
+      },
+    ])
+  })
+
+  it('should stop and unsubscribe when the client disconnects', async () => {
+    const video = makeVideoInStatus('UPLOADING')
+    repository.items.push(video)
+    const controller = new AbortController()
+
+    const stream = await watch(video, controller.signal)
+    const collected = collect(stream)
+    await tick()
+    expect(liveEvents.listenerCount(video.id.value)).toBe(1)
+
+    controller.abort()
+
+    const events = await collected
+    expect(events.map((event) => event.type)).toEqual(['snapshot'])
+    expect(liveEvents.listenerCount(video.id.value)).toBe(0)
+  })
+})
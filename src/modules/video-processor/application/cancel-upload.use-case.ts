@@ -0,0 +1,177 @@
+import type { OutboxRepository } from '@core/abstractions/messaging'
+import { Result } from '@core/domain/result'
+import { InvalidStatusTransitionError } from '@core/errors/invalid-status-transition.error'
+import { CorrelationStore } from '@core/libs/context'
+import type { Video } from '@modules/video-processor/domain/entities/video'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type { UploadVideoPartsService } from '@modules/video-processor/domain/services/upload-video-parts.service.interface'
+import {
+  publishLiveEvents,
+  type VideoLiveEventPublisher,
+} from '@modules/video-processor/domain/services/video-live-events'
+import {
+  videoOutboxMessage,
+  type VideoOutboxContext,
+} from '@modules/video-processor/domain/services/video-outbox'
+import { createVideoEventDispatcher } from '@modules/video-processor/events/video-event-dispatcher'
+import { VideoUploadCancelledEvent } from '@modules/video-processor/events/video-upload-cancelled-event'
+
+export type CancelUploadParams = {
+  videoId: string
+  correlationId?: string
+  traceId?: string
+}
+
+export type CancelUploadResult = {
+  videoId: string
+  status: 'CANCELLED'
+  /** False when the video was already cancelled by a previous request */
+  cancelled: boolean
+  /** False when S3 rejected the abort (e.g. the upload no longer exists) */
+  uploadAborted: boolean
+}
+
+/**
+ * CancelUploadUseCase - Cancels a multipart upload that was not completed.
+ *
+ * 1. Conditional status transition (CREATED/UPLOADING → CANCELLED), so a
+ *    concurrent completion (ReconcileUploadService) cannot also win
+ * 2. Aborts the S3 multipart upload, discarding the uploaded parts
+ * 3. Marks every part failed, then saves the status and the
+ *    VideoUploadCancelled message in one batch, published later by the outbox
+ *    relay
+ *
+ * Idempotent: cancelling an already cancelled video succeeds and only records
+ * the VideoUploadCancelled message again, in case the previous request died
+ * before writing it. Its messageId is deterministic, so it is never published
+ * twice.
+ */
+export class CancelUploadUseCase {
+  private readonly events = createVideoEventDispatcher()
+
+  constructor(
+    private readonly videoRepository: VideoRepository,
+    private readonly uploadService: UploadVideoPartsService,
+    private readonly outbox: Pick<OutboxRepository, 'add'>,
+    liveEvents?: VideoLiveEventPublisher,
+  ) {
+    publishLiveEvents(this.events, liveEvents)
+  }
+
+  async execute(
+    params: CancelUploadParams,
+  ): Promise<Result<CancelUploadResult, Error>> {
+    const { videoId } = params
+    const correlationId = CorrelationStore.correlationId ?? params.correlationId
+    const outboxContext: VideoOutboxContext = {
+      correlationId: correlationId ?? crypto.randomUUID(),
+      traceId: CorrelationStore.traceId ?? params.traceId,
+    }
+
+    const videoResult = await this.videoRepository.findById(videoId)
+    if (videoResult.isFailure) return Result.fail(videoResult.error)
+
+    const video = videoResult.value
+    if (!video) return Result.fail(new Error(`Video not found: ${videoId}`))
+
+    if (video.status.isCancelled()) {
+      const repairResult = await this.recordCancelled(video, outboxContext)
+      if (repairResult.isFailure) return Result.fail(repairResult.error)
+
+      return Result.ok({
+        videoId,
+        status: 'CANCELLED',
+        cancelled: false,
+        uploadAborted: false,
+      })
+    }
+
+    const currentStatus = video.status.value
+    if (!video.status.canTransitionTo('CANCELLED')) {
+      return Result.fail(
+        new InvalidStatusTransitionError(currentStatus, 'CANCELLED'),
+      )
+    }
+
+    const transitioned = await this.videoRepository.transitionStatus(
+      videoId,
+      currentStatus,
+      'CANCELLED',
+      {
+        source: 'CancelUploadUseCase',
+        correlationId,
+      },
+    )
+    if (!transitioned) {
+      return Result.fail(
+        new Error(
+          `Concurrent status update for video ${videoId} (expected ${currentStatus})`,
+        ),
+      )
+    }
+
+    const uploadAborted = await this.abortUpload(video)
+
+    const cancelResult = video.cancelUpload()
+    if (cancelResult.isFailure) return Result.fail(cancelResult.error)
+
+    const partsResults = await Promise.all(
+      video.parts.map((part) =>
+        this.videoRepository.updateVideoPart(video, part.partNumber),
+      ),
+    )
+    const failedPart = partsResults.find((r) => r.isFailure)
+    if (failedPart) return Result.fail(failedPart.error)
+
+    const described = this.events.describe(video.domainEvents)
+    if (described.isFailure) return Result.fail(described.error)
+
+    const saveResult = await this.videoRepository.saveWithOutbox(
+      video,
+      described.value.map((dispatched) =>
+        videoOutboxMessage(dispatched, outboxContext),
+      ),
+    )
+    if (saveResult.isFailure) return Result.fail(saveResult.error)
+
+    // Already recorded in the outbox: only the live events are left to publish
+    await this.events.dispatch(video)
+
+    return Result.ok({
+      videoId,
+      status: 'CANCELLED',
+      cancelled: true,
+      uploadAborted,
+    })
+  }
+
+  private async abortUpload(video: Video): Promise<boolean> {
+    const integration = video.thirdPartyVideoIntegration
+    // Videos still in CREATED may not have started the multipart upload yet
+    if (!integration?.uploadId) return true
+
+    const result = await this.uploadService.abortMultipartUpload(
+      integration.bucket,
+      integration.key,
+      integration.uploadId,
+    )
+    return result.isSuccess
+  }
+
+  /** Records the VideoUploadCancelled message of a video already CANCELLED */
+  private async recordCancelled(
+    video: Video,
+    context: VideoOutboxContext,
+  ): Promise<Result<void, Error>> {
+    const described = this.events.describe([
+      new VideoUploadCancelledEvent(video),
+    ])
+    if (described.isFailure) return Result.fail(described.error)
+
+    return this.outbox.add(
+      described.value.map((dispatched) =>
+        videoOutboxMessage(dispatched, context),
+      ),
+    )
+  }
+}
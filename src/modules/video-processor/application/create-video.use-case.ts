@@ -5,6 +5,10 @@ import { Video } from '@modules/video-processor/domain/entities/video'
 import { VideoMetadataVO } from '@modules/video-processor/domain/value-objects/video-metadata.vo'
 import { VideoThirdPartyIntegrationsMetadataVO } from '@modules/video-processor/domain/value-objects/video-third-party-integrations-metadata.vo'
 import { VideoExtensionVO } from '@modules/video-processor/domain/value-objects/video-extension.vo'
+import {
+  ProcessingProfileVO,
+  type ProcessingProfileInput,
+} from '@modules/video-processor/domain/value-objects/processing-profile.vo'
 import { ThirdPartyIntegration } from '@modules/video-processor/domain/entities/third-party-integration.vo'
 import { VideoPart } from '@modules/video-processor/domain/entities/video-part'
 import { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
@@ -18,11 +22,16 @@ import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
 import { msToNs } from '@core/libs/logging/log-event'
 
 export type CreateVideoUseCaseParams = {
+  /** Authenticated owner (JWT subject) */
+  userId: string
+  userEmail?: string
   totalSize: number
   /** Duration in milliseconds */
   duration: number
   filename: string
   extension: string
+  /** How frames are extracted; one JPEG per second when absent */
+  processingProfile?: ProcessingProfileInput
 }
 
 export type CreateVideoUseCaseResult = {
@@ -82,6 +91,20 @@ export class CreateVideoUseCase {
       return Result.fail(extensionResult.error)
     }
 
+    const profileResult = ProcessingProfileVO.create(params.processingProfile)
+    if (profileResult.isFailure) {
+      this.logger.error('Create video failed', {
+        event: 'video.create.completed',
+        resource,
+        message: 'Invalid processing profile',
+        status: 'failure',
+        duration: msToNs(performance.now() - startTime),
+        error: this.toErrorPayload(profileResult.error),
+        'video.filename': params.filename,
+      })
+      return Result.fail(profileResult.error)
+    }
+
     const videoId = UniqueEntityID.create().value
 
     const policy = PartSizePolicy.calculate(params.totalSize)
@@ -120,7 +143,9 @@ export class CreateVideoUseCase {
     const uploadId = thirdPartyVideoResult.value.uploadId
 
     const video = Video.create({
-      userId: UniqueEntityID.create(),
+      userId: UniqueEntityID.create(params.userId),
+      userEmail: params.userEmail,
+      processingProfile: profileResult.value,
       metadata: VideoMetadataVO.create({
         durationMs: params.duration,
         totalSize: params.totalSize,
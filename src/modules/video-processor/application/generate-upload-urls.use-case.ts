@@ -137,7 +137,9 @@ export class GenerateUploadUrlsUseCase {
 
     const transitionResult = video.startUploadingIfNeeded()
     if (transitionResult.isSuccess && video.isUploading()) {
-      const updateVideoResult = await this.videoRepository.updateVideo(video)
+      const updateVideoResult = await this.videoRepository.updateVideo(video, {
+        source: resource,
+      })
       if (updateVideoResult.isFailure) {
         return Result.fail(updateVideoResult.error)
       }
@@ -200,7 +202,10 @@ export class GenerateUploadUrlsUseCase {
         resource: 'GenerateUploadUrlsUseCase',
         message: 'Video not found',
         status: 'failure',
-        error: { message: `Video not found: ${videoId}`, kind: 'NotFoundError' },
+        error: {
+          message: `Video not found: ${videoId}`,
+          kind: 'NotFoundError',
+        },
         'video.id': videoId,
       })
       return Result.fail(new Error(`Video not found: ${videoId}`))
@@ -229,7 +234,8 @@ export class GenerateUploadUrlsUseCase {
         message: 'Video missing third party integration metadata',
         status: 'failure',
         error: {
-          message: 'Video missing third party integration metadata (uploadId/path)',
+          message:
+            'Video missing third party integration metadata (uploadId/path)',
           kind: 'ValidationError',
         },
         'video.id': videoId,
@@ -0,0 +1,55 @@
+import { Result } from '@core/domain/result'
+import type {
+  VideoRepository,
+  VideoStatusHistoryEntry,
+} from '@modules/video-processor/domain/repositories/video.repository'
+import type { VideoStatus } from '@modules/video-processor/domain/value-objects/video-status.vo'
+
+export type GetVideoHistoryParams = {
+  videoId: string
+}
+
+export type GetVideoHistoryResult = {
+  videoId: string
+  status: VideoStatus
+  failureReason?: string
+  /** Oldest first */
+  history: Omit<VideoStatusHistoryEntry, 'videoId'>[]
+}
+
+/**
+ * GetVideoHistoryUseCase - Timeline of the status transitions of a video,
+ * with who applied each one (component and correlationId) and why.
+ */
+export class GetVideoHistoryUseCase {
+  constructor(
+    private readonly videoRepository: Pick<
+      VideoRepository,
+      'findById' | 'findStatusHistory'
+    >,
+  ) {}
+
+  async execute(
+    params: GetVideoHistoryParams,
+  ): Promise<Result<GetVideoHistoryResult, Error>> {
+    const { videoId } = params
+
+    const videoResult = await this.videoRepository.findById(videoId)
+    if (videoResult.isFailure) return Result.fail(videoResult.error)
+
+    const video = videoResult.value
+    if (!video) return Result.fail(new Error(`Video not found: ${videoId}`))
+
+    const historyResult = await this.videoRepository.findStatusHistory(videoId)
+    if (historyResult.isFailure) return Result.fail(historyResult.error)
+
+    return Result.ok({
+      videoId,
+      status: video.status.value,
+      failureReason: video.failureReason,
+      history: historyResult.value
+        .map(({ videoId: _, ...entry }) => entry)
+        .sort((a, b) => a.changedAt.getTime() - b.changedAt.getTime()),
+    })
+  }
+}
@@ -0,0 +1,115 @@
+import { Result } from '@core/domain/result'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type {
+  FramesLocation,
+  FramesLocator,
+} from '@modules/video-processor/domain/services/frames-locator.interface'
+import type {
+  FramesArchiveLink,
+  FramesDownloadService,
+} from '@modules/video-processor/domain/services/frames-download.service.interface'
+import type { ProcessingProfile } from '@modules/video-processor/domain/value-objects/processing-profile.vo'
+import type { VideoProbe } from '@modules/video-processor/domain/value-objects/video-metadata.vo'
+import type { VideoStatus } from '@modules/video-processor/domain/value-objects/video-status.vo'
+
+export type GetVideoParams = {
+  videoId: string
+}
+
+export type GetVideoResult = {
+  videoId: string
+  userId: string
+  status: VideoStatus
+  metadata: {
+    filename: string
+    extension: string
+    totalSize: number
+    /** Probed duration once the orchestrator has read the file */
+    durationMs: number
+    /** Container, codecs, resolution and fps read by ffprobe */
+    probe?: VideoProbe
+  }
+  failureReason?: string
+  processing: {
+    total: number
+    processed: number
+    percentage: number
+  }
+  /** Profile of the latest run */
+  processingProfile: ProcessingProfile
+  /** Only available once the video is COMPLETED */
+  frames?: FramesLocation & {
+    archive: FramesArchiveLink
+    manifest: FramesArchiveLink
+  }
+  createdAt: Date
+  updatedAt: Date
+}
+
+export class GetVideoUseCase {
+  constructor(
+    private readonly videoRepository: Pick<VideoRepository, 'findById'>,
+    private readonly framesLocator: FramesLocator,
+    private readonly framesDownload: Pick<
+      FramesDownloadService,
+      'createArchiveDownloadURL' | 'createManifestDownloadURL'
+    >,
+  ) {}
+
+  async execute(
+    params: GetVideoParams,
+  ): Promise<Result<GetVideoResult, Error>> {
+    const { videoId } = params
+
+    const videoResult = await this.videoRepository.findById(videoId)
+    if (videoResult.isFailure) return Result.fail(videoResult.error)
+
+    const video = videoResult.value
+    if (!video) return Result.fail(new Error(`Video not found: ${videoId}`))
+
+    const status = video.status.value
+
+    let frames: GetVideoResult['frames']
+    if (status === 'COMPLETED') {
+      // A reprocessed video shows the frames of its latest run
+      const runId = video.currentRun?.runId
+      const archiveResult = await this.framesDownload.createArchiveDownloadURL(
+        video.id.value,
+        runId,
+      )
+      if (archiveResult.isFailure) return Result.fail(archiveResult.error)
+
+      const manifestResult =
+        await this.framesDownload.createManifestDownloadURL(
+          video.id.value,
+          runId,
+        )
+      if (manifestResult.isFailure) return Result.fail(manifestResult.error)
+
+      frames = {
+        ...this.framesLocator.locate(video.id.value, runId),
+        archive: archiveResult.value,
+        manifest: manifestResult.value,
+      }
+    }
+
+    return Result.ok({
+      videoId: video.id.value,
+      userId: video.userId.value,
+      status,
+      metadata: {
+        filename: video.metadata.filename,
+        extension: video.metadata.extension,
+        totalSize: video.metadata.value.totalSize,
+        durationMs: video.metadata.durationMs,
+        probe: video.metadata.probe,
+      },
+      failureReason: video.failureReason,
+      processing: video.getProcessingProgress(),
+      processingProfile: video.activeProfile.toJSON(),
+      frames,
+      createdAt: video.createdAt,
+      updatedAt: video.updatedAt,
+    })
+  }
+}
@@ -0,0 +1,146 @@
+import { Result } from '@core/domain/result'
+import { NotFoundError } from '@core/errors/not-found.error'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type { VideoSegmentRepository } from '@modules/video-processor/domain/repositories/video-segment.repository'
+import type { FramesDownloadService } from '@modules/video-processor/domain/services/frames-download.service.interface'
+
+export const DEFAULT_FRAMES_PAGE_SIZE = 100
+export const MAX_FRAMES_PAGE_SIZE = 500
+
+export type ListVideoFramesParams = {
+  videoId: string
+  pageSize?: number
+  cursor?: string
+}
+
+export type ListVideoFramesOptions = {
+  /**
+   * Segment length of videos split before the orchestrator recorded its plan
+   * and whose segments were not tracked
+   */
+  segmentDurationMs: number
+}
+
+export type VideoFrame = {
+  frameNumber: number
+  key: string
+  /** Position of the frame in the video, in milliseconds */
+  timestampMs: number
+  url: string
+  expiresAt: Date
+}
+
+export type VideoFramesSegment = {
+  segmentNumber: number
+  startTimeMs: number
+  frames: VideoFrame[]
+}
+
+export type ListVideoFramesResult = {
+  /**
+   * Segments present in this page. A segment split across pages shows up in
+   * both, each holding its part of the frames.
+   */
+  segments: VideoFramesSegment[]
+  nextCursor?: string
+}
+
+export class ListVideoFramesUseCase {
+  constructor(
+    private readonly videoRepository: Pick<VideoRepository, 'findById'>,
+    private readonly segmentRepository: Pick<
+      VideoSegmentRepository,
+      'findByVideo'
+    >,
+    private readonly framesDownload: Pick<FramesDownloadService, 'listFrames'>,
+    private readonly options: ListVideoFramesOptions,
+  ) {}
+
+  async execute(
+    params: ListVideoFramesParams,
+  ): Promise<Result<ListVideoFramesResult, Error>> {
+    const pageSize = Math.min(
+      Math.max(params.pageSize ?? DEFAULT_FRAMES_PAGE_SIZE, 1),
+      MAX_FRAMES_PAGE_SIZE,
+    )
+
+    const videoResult = await this.videoRepository.findById(params.videoId)
+    if (videoResult.isFailure) return Result.fail(videoResult.error)
+
+    const video = videoResult.value
+    if (!video)
+      return Result.fail(NotFoundError.create('Video', params.videoId))
+
+    // A reprocessed video lists the frames of its latest run
+    const run = video.currentRun
+    const profile = video.activeProfile
+
+    const pageResult = await this.framesDownload.listFrames(params.videoId, {
+      pageSize,
+      cursor: params.cursor,
+      runId: run?.runId,
+    })
+    if (pageResult.isFailure) return Result.fail(pageResult.error)
+
+    // Keyframe-aligned segments do not start at multiples of the segment length
+    const trackedResult = await this.segmentRepository.findByVideo(
+      params.videoId,
+    )
+    if (trackedResult.isFailure) return Result.fail(trackedResult.error)
+
+    const startTimes = new Map(
+      trackedResult.value.map((segment) => [
+        segment.segmentNumber,
+        segment.startTime,
+      ]),
+    )
+
+    const segments = new Map<number, VideoFramesSegment>()
+    for (const frame of pageResult.value.items) {
+      const startTime =
+        startTimes.get(frame.segmentNumber) ??
+        this.segmentStartTime(
+          frame.segmentNumber,
+          video.segmentDurationMs ?? this.options.segmentDurationMs,
+        )
+
+      let segment = segments.get(frame.segmentNumber)
+      if (!segment) {
+        segment = {
+          segmentNumber: frame.segmentNumber,
+          startTimeMs: Math.round(startTime * 1000),
+          frames: [],
+        }
+        segments.set(frame.segmentNumber, segment)
+      }
+
+      segment.frames.push({
+        frameNumber: frame.frameNumber,
+        key: frame.key,
+        // Interval frames sit on a grid of the whole video
+        timestampMs:
+          frame.timestampMs ??
+          Math.round(
+            (profile.firstFrameTime(startTime) +
+              (frame.frameNumber - 1) * profile.secondsBetweenFrames) *
+              1000,
+          ),
+        url: frame.url,
+        expiresAt: frame.expiresAt,
+      })
+    }
+
+    return Result.ok({
+      segments: [...segments.values()],
+      nextCursor: pageResult.value.nextCursor,
+    })
+  }
+
+  /** Segments are numbered from 1 and all but the last have the same length */
+  private segmentStartTime(
+    segmentNumber: number,
+    segmentDurationMs: number,
+  ): number {
+    return ((segmentNumber - 1) * segmentDurationMs) / 1000
+  }
+}
@@ -0,0 +1,77 @@
+import { Result } from '@core/domain/result'
+import { NotFoundError } from '@core/errors/not-found.error'
+import type { VideoSegmentStatus } from '@modules/video-processor/domain/entities/video-segment'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type { VideoSegmentRepository } from '@modules/video-processor/domain/repositories/video-segment.repository'
+import type { VideoStatus } from '@modules/video-processor/domain/value-objects/video-status.vo'
+
+export type ListVideoSegmentsParams = {
+  videoId: string
+}
+
+export type VideoSegmentSummary = {
+  segmentNumber: number
+  /** Range in the video, in seconds */
+  startTime: number
+  endTime: number
+  status: VideoSegmentStatus
+  attempts: number
+  frameCount?: number
+  lastError?: string
+  updatedAt: Date
+}
+
+export type ListVideoSegmentsResult = {
+  videoId: string
+  status: VideoStatus
+  totalSegments: number
+  /** Ordered by segment number; empty until the orchestrator splits the video */
+  segments: VideoSegmentSummary[]
+}
+
+/**
+ * ListVideoSegmentsUseCase - State of each segment sent to the print workers,
+ * so a failed video shows which segments succeeded and which can be retried.
+ */
+export class ListVideoSegmentsUseCase {
+  constructor(
+    private readonly videoRepository: Pick<VideoRepository, 'findById'>,
+    private readonly segmentRepository: Pick<
+      VideoSegmentRepository,
+      'findByVideo'
+    >,
+  ) {}
+
+  async execute(
+    params: ListVideoSegmentsParams,
+  ): Promise<Result<ListVideoSegmentsResult, Error>> {
+    const { videoId } = params
+
+    const videoResult = await this.videoRepository.findById(videoId)
+    if (videoResult.isFailure) return Result.fail(videoResult.error)
+
+    const video = videoResult.value
+    if (!video) return Result.fail(NotFoundError.create('Video', videoId))
+
+    const segmentsResult = await this.segmentRepository.findByVideo(videoId)
+    if (segmentsResult.isFailure) return Result.fail(segmentsResult.error)
+
+    return Result.ok({
+      videoId,
+      status: video.status.value,
+      totalSegments: video.totalSegments,
+      segments: segmentsResult.value
+        .map((segment) => ({
+          segmentNumber: segment.segmentNumber,
+          startTime: segment.startTime,
+          endTime: segment.endTime,
+          status: segment.status,
+          attempts: segment.attempts,
+          frameCount: segment.frameCount,
+          lastError: segment.lastError,
+          updatedAt: segment.updatedAt,
+        }))
+        .sort((a, b) => a.segmentNumber - b.segmentNumber),
+    })
+  }
+}
@@ -0,0 +1,64 @@
+import { Result } from '@core/domain/result'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type { VideoStatus } from '@modules/video-processor/domain/value-objects/video-status.vo'
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+export type ListVideosParams = {
+  userId: string
+  pageSize?: number
+  cursor?: string
+  status?: VideoStatus
+}
+
+export type VideoSummary = {
+  videoId: string
+  status: VideoStatus
+  filename: string
+  extension: string
+  durationMs: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type ListVideosResult = {
+  items: VideoSummary[]
+  nextCursor?: string
+}
+
+export class ListVideosUseCase {
+  constructor(
+    private readonly videoRepository: Pick<VideoRepository, 'findByUser'>,
+  ) {}
+
+  async execute(
+    params: ListVideosParams,
+  ): Promise<Result<ListVideosResult, Error>> {
+    const { userId, cursor, status } = params
+    const pageSize = Math.min(
+      Math.max(params.pageSize ?? DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE,
+    )
+
+    const pageResult = await this.videoRepository.findByUser(userId, {
+      pageSize,
+      cursor,
+      status,
+    })
+    if (pageResult.isFailure) return Result.fail(pageResult.error)
+
+    return Result.ok({
+      items: pageResult.value.items.map((video) => ({
+        videoId: video.id.value,
+        status: video.status.value,
+        filename: video.metadata.filename,
+        extension: video.metadata.extension,
+        durationMs: video.metadata.durationMs,
+        createdAt: video.createdAt,
+        updatedAt: video.updatedAt,
+      })),
+      nextCursor: pageResult.value.nextCursor,
+    })
+  }
+}
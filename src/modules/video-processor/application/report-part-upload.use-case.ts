@@ -2,6 +2,7 @@ import { Result } from '@core/domain/result'
 import { Video } from '@modules/video-processor/domain/entities/video'
 
 import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type { VideoLiveEventPublisher } from '@modules/video-processor/domain/services/video-live-events'
 
 export type ReportPartUploadParams = {
   videoId: string
@@ -23,6 +24,7 @@ export class ReportPartUploadUseCase {
       VideoRepository,
       'findById' | 'updateVideoPart' | 'updateVideo'
     >,
+    private readonly liveEvents?: VideoLiveEventPublisher,
   ) {}
 
   private async handleTransitionToUploading(
@@ -31,8 +33,16 @@ export class ReportPartUploadUseCase {
     const transitionResult = video.startUploading()
     if (transitionResult.isFailure) return Result.fail(transitionResult.error)
 
-    const response = await this.videoRepository.updateVideo(video)
+    const response = await this.videoRepository.updateVideo(video, {
+      source: 'ReportPartUploadUseCase',
+    })
     if (response.isFailure) return Result.fail(response.error)
+
+    this.liveEvents?.publish({
+      type: 'status-changed',
+      videoId: video.id.value,
+      status: video.status.value,
+    })
     return Result.ok(undefined)
   }
 
@@ -72,6 +82,15 @@ export class ReportPartUploadUseCase {
 
     const progress = video.getUploadProgress()
 
+    this.liveEvents?.publish({
+      type: 'part-reported',
+      videoId,
+      partNumber,
+      uploadedParts: progress.uploadedParts,
+      totalParts: progress.totalParts,
+      percentage: progress.percentage,
+    })
+
     return Result.ok({
       progress: {
         totalParts: progress.totalParts,
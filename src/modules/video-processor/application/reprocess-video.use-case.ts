@@ -0,0 +1,153 @@
+import { Result } from '@core/domain/result'
+import { InvalidStatusTransitionError } from '@core/errors/invalid-status-transition.error'
+import { NotFoundError } from '@core/errors/not-found.error'
+import {
+  REPROCESS_REASON,
+  type ProcessingRun,
+  type ReprocessOptions,
+} from '@modules/video-processor/domain/entities/video'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type { VideoSegmentRepository } from '@modules/video-processor/domain/repositories/video-segment.repository'
+import { videoOutboxMessage } from '@modules/video-processor/domain/services/video-outbox'
+import type { VideoStatus } from '@modules/video-processor/domain/value-objects/video-status.vo'
+import { createVideoEventDispatcher } from '@modules/video-processor/events/video-event-dispatcher'
+
+const resource = 'ReprocessVideoUseCase'
+
+export type ReprocessVideoParams = ReprocessOptions & {
+  videoId: string
+  correlationId: string
+  traceId?: string
+}
+
+export type ReprocessVideoResult = {
+  videoId: string
+  runId: string
+  status: VideoStatus
+  previousStatus: VideoStatus
+  frameInterval?: number
+}
+
+/**
+ * ReprocessVideoUseCase - Starts a new processing run of a COMPLETED or
+ * FAILED video, reusing its upload.
+ *
+ * 1. Conditional update of the status (→ PROCESSING), so concurrent requests
+ *    start a single run
+ * 2. Saves the run and the `Video Status Changed` (PROCESSING) message in the
+ *    outbox, which routes it to the orchestrator like the upload's UPLOADED
+ *
+ * The run writes its frames under its own prefix, so the ones of earlier runs
+ * are kept. When the run cannot be saved, the video goes back to its status.
+ */
+export class ReprocessVideoUseCase {
+  private readonly events = createVideoEventDispatcher()
+
+  constructor(
+    private readonly videoRepository: Pick<
+      VideoRepository,
+      'findById' | 'transitionStatus' | 'saveProcessingRun'
+    >,
+    private readonly segmentRepository: Pick<
+      VideoSegmentRepository,
+      'findByVideo'
+    >,
+  ) {}
+
+  async execute(
+    params: ReprocessVideoParams,
+  ): Promise<Result<ReprocessVideoResult, Error>> {
+    const { videoId, correlationId, traceId } = params
+
+    const videoResult = await this.videoRepository.findById(videoId)
+    if (videoResult.isFailure) return Result.fail(videoResult.error)
+
+    const video = videoResult.value
+    if (!video) return Result.fail(NotFoundError.create('Video', videoId))
+
+    const previousStatus = video.status.value
+    const failureReason = video.failureReason
+    if (!video.canReprocess()) {
+      return Result.fail(
+        new InvalidStatusTransitionError(previousStatus, 'PROCESSING'),
+      )
+    }
+
+    // Segments of a FAILED run may still be printing: they would be counted
+    // as progress of the new run
+    if (previousStatus === 'FAILED') {
+      const segmentsResult = await this.segmentRepository.findByVideo(videoId)
+      if (segmentsResult.isFailure) return Result.fail(segmentsResult.error)
+
+      if (
+        segmentsResult.value.some(
+          (segment) => segment.status === 'PENDING' || segment.isProcessing(),
+        )
+      ) {
+        return Result.fail(
+          new InvalidStatusTransitionError(previousStatus, 'PROCESSING'),
+        )
+      }
+    }
+
+    // Checked before the claim, which would leave the video PROCESSING
+    if (params.frameInterval !== undefined) {
+      const profileResult = video.processingProfile.withFrameInterval(
+        params.frameInterval,
+      )
+      if (profileResult.isFailure) return Result.fail(profileResult.error)
+    }
+
+    const claimed = await this.videoRepository.transitionStatus(
+      videoId,
+      previousStatus,
+      'PROCESSING',
+      { source: resource, correlationId, reason: REPROCESS_REASON },
+    )
+    if (!claimed) {
+      return Result.fail(
+        new InvalidStatusTransitionError(previousStatus, 'PROCESSING'),
+      )
+    }
+
+    const reprocessResult = video.reprocess({
+      frameInterval: params.frameInterval,
+    })
+    if (reprocessResult.isFailure) return Result.fail(reprocessResult.error)
+    const run = video.currentRun as ProcessingRun
+    // Already recorded in the status history by the conditional update
+    video.clearStatusChanges()
+
+    const described = this.events.describe(video.domainEvents)
+    const saveResult = described.isSuccess
+      ? await this.videoRepository.saveProcessingRun(
+          video,
+          described.value.map((dispatched) =>
+            videoOutboxMessage(dispatched, { correlationId, traceId }),
+          ),
+          { previousStatus, correlationId },
+        )
+      : Result.fail(described.error)
+
+    if (saveResult.isFailure) {
+      await this.videoRepository.transitionStatus(
+        videoId,
+        'PROCESSING',
+        previousStatus,
+        { failureReason, source: resource, correlationId },
+      )
+      return Result.fail(saveResult.error)
+    }
+
+    // Already recorded in the outbox: only the live events are left to publish
+    await this.events.dispatch(video)
+
+    return Result.ok({
+      videoId,
+      runId: run.runId,
+      status: video.status.value,
+      previousStatus,
+      frameInterval: run.frameInterval,
+    })
+  }
+}
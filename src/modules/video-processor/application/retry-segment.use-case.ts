@@ -0,0 +1,146 @@
+import { Result } from '@core/domain/result'
+import { InvalidStatusTransitionError } from '@core/errors/invalid-status-transition.error'
+import { NotFoundError } from '@core/errors/not-found.error'
+import { SEGMENT_RETRY_REASON } from '@modules/video-processor/domain/entities/video'
+import type { VideoSegmentStatus } from '@modules/video-processor/domain/entities/video-segment'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type { VideoSegmentRepository } from '@modules/video-processor/domain/repositories/video-segment.repository'
+import type { SegmentPrintQueue } from '@modules/video-processor/domain/services/segment-print-queue.interface'
+import type { VideoStatus } from '@modules/video-processor/domain/value-objects/video-status.vo'
+
+const resource = 'RetrySegmentUseCase'
+
+export type RetrySegmentParams = {
+  videoId: string
+  segmentNumber: number
+  correlationId: string
+  traceId?: string
+}
+
+export type RetrySegmentResult = {
+  videoId: string
+  segmentNumber: number
+  segmentStatus: VideoSegmentStatus
+  videoStatus: VideoStatus
+  /** False when a concurrent request already requeued the segment */
+  requeued: boolean
+}
+
+/**
+ * RetrySegmentUseCase - Sends a FAILED segment back to the print queue.
+ *
+ * 1. Conditional update of the segment (FAILED → PENDING), so concurrent
+ *    retries publish it once: a second print would count the segment twice
+ * 2. Reopens a video FAILED by the segment (FAILED → PRINTING), so the print
+ *    worker's COMPLETED is applied once every segment is done
+ * 3. Publishes the segment with a fresh presigned URL
+ *
+ * When publishing fails, the segment and the video go back to FAILED.
+ */
+export class RetrySegmentUseCase {
+  constructor(
+    private readonly videoRepository: Pick<
+      VideoRepository,
+      'findById' | 'transitionStatus'
+    >,
+    private readonly segmentRepository: Pick<
+      VideoSegmentRepository,
+      'findSegment' | 'updateSegment' | 'requeueSegment'
+    >,
+    private readonly printQueue: SegmentPrintQueue,
+  ) {}
+
+  async execute(
+    params: RetrySegmentParams,
+  ): Promise<Result<RetrySegmentResult, Error>> {
+    const { videoId, segmentNumber, correlationId, traceId } = params
+
+    const videoResult = await this.videoRepository.findById(videoId)
+    if (videoResult.isFailure) return Result.fail(videoResult.error)
+
+    const video = videoResult.value
+    if (!video) return Result.fail(NotFoundError.create('Video', videoId))
+
+    const videoStatus = video.status.value
+    if (!video.status.canRetrySegment()) {
+      return Result.fail(
+        new InvalidStatusTransitionError(videoStatus, 'PRINTING'),
+      )
+    }
+
+    const segmentResult = await this.segmentRepository.findSegment(
+      videoId,
+      segmentNumber,
+    )
+    if (segmentResult.isFailure) return Result.fail(segmentResult.error)
+
+    const segment = segmentResult.value
+    if (!segment) {
+      return Result.fail(
+        NotFoundError.create('Segment', `${videoId}/${segmentNumber}`),
+      )
+    }
+
+    const failedWith = segment.lastError ?? 'segment_failed'
+    const retryResult = segment.retry()
+    if (retryResult.isFailure) return Result.fail(retryResult.error)
+
+    const requeueResult = await this.segmentRepository.requeueSegment(segment)
+    if (requeueResult.isFailure) return Result.fail(requeueResult.error)
+
+    if (!requeueResult.value) {
+      return Result.ok({
+        videoId,
+        segmentNumber,
+        segmentStatus: segment.status,
+        videoStatus,
+        requeued: false,
+      })
+    }
+
+    // Another segment's retry may have reopened it already
+    const reopened =
+      videoStatus === 'FAILED' &&
+      (await this.videoRepository.transitionStatus(
+        videoId,
+        'FAILED',
+        'PRINTING',
+        { source: resource, correlationId, reason: SEGMENT_RETRY_REASON },
+      ))
+
+    const retryVideoResult = video.retrySegment()
+    if (retryVideoResult.isFailure) return Result.fail(retryVideoResult.error)
+    // Already recorded in the status history by the conditional update
+    video.clearStatusChanges()
+
+    const enqueueResult = await this.printQueue.enqueue(video, [segment], {
+      correlationId,
+      traceId,
+    })
+    if (enqueueResult.isFailure) {
+      segment.markFailed(failedWith)
+      await this.segmentRepository.updateSegment(segment)
+      if (reopened) {
+        await this.videoRepository.transitionStatus(
+          videoId,
+          'PRINTING',
+          'FAILED',
+          {
+            failureReason: video.failureReason ?? failedWith,
+            source: resource,
+            correlationId,
+          },
+        )
+      }
+      return Result.fail(enqueueResult.error)
+    }
+
+    return Result.ok({
+      videoId,
+      segmentNumber,
+      segmentStatus: segment.status,
+      videoStatus: video.status.value,
+      requeued: true,
+    })
+  }
+}
@@ -0,0 +1,214 @@
+import { Result } from '@core/domain/result'
+import { NotFoundError } from '@core/errors/not-found.error'
+import type { Video } from '@modules/video-processor/domain/entities/video'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type {
+  VideoLiveEvent,
+  VideoLiveEventSubscriber,
+  VideoProgress,
+} from '@modules/video-processor/domain/services/video-live-events'
+import {
+  VideoStatusVO,
+  type VideoStatus,
+} from '@modules/video-processor/domain/value-objects/video-status.vo'
+
+export type WatchVideoEventsParams = {
+  videoId: string
+  /** Aborted when the client disconnects */
+  signal?: AbortSignal
+}
+
+export type WatchVideoEventsOptions = {
+  /**
+   * How often the video is re-read to pick up changes that produce no live
+   * event in this process: segments counted by the print workers and status
+   * updates consumed by another API replica.
+   */
+  resyncIntervalMs: number
+}
+
+export type VideoEventsSnapshot = {
+  type: 'snapshot'
+  videoId: string
+  status: VideoStatus
+  failureReason?: string
+  upload: {
+    totalParts: number
+    uploadedParts: number
+    percentage: number
+  }
+  processing: VideoProgress
+}
+
+export type VideoStreamEvent = VideoEventsSnapshot | VideoLiveEvent
+
+type StreamState = {
+  status: VideoStatus
+  processedSegments: number
+}
+
+/**
+ * WatchVideoEventsUseCase - Streams the progress of a video as it happens.
+ *
+ * Starts with a snapshot of the current state, then yields the live events
+ * published for the video (deduplicated against what was already sent) and
+ * finishes once the video reaches a terminal status or the client goes away.
+ */
+export class WatchVideoEventsUseCase {
+  constructor(
+    private readonly videoRepository: Pick<VideoRepository, 'findById'>,
+    private readonly liveEvents: VideoLiveEventSubscriber,
+    private readonly options: WatchVideoEventsOptions,
+  ) {}
+
+  async execute(
+    params: WatchVideoEventsParams,
+  ): Promise<Result<AsyncGenerator<VideoStreamEvent, void>, Error>> {
+    const { videoId } = params
+
+    const videoResult = await this.videoRepository.findById(videoId)
+    if (videoResult.isFailure) return Result.fail(videoResult.error)
+
+    const video = videoResult.value
+    if (!video) return Result.fail(NotFoundError.create('Video', videoId))
+
+    return Result.ok(this.stream(video, params.signal))
+  }
+
+  private async *stream(
+    video: Video,
+    signal?: AbortSignal,
+  ): AsyncGenerator<VideoStreamEvent, void> {
+    const videoId = video.id.value
+    const state: StreamState = {
+      status: video.status.value,
+      processedSegments: video.processedSegments,
+    }
+
+    yield this.snapshot(video)
+    if (video.status.isTerminal()) return
+
+    const queue: VideoLiveEvent[] = []
+    let wake: (() => void) | undefined
+    const notify = () => wake?.()
+
+    const unsubscribe = this.liveEvents.subscribe(videoId, (event) => {
+      queue.push(event)
+      notify()
+    })
+    signal?.addEventListener('abort', notify)
+
+    try {
+      let nextResyncAt = Date.now() + this.options.resyncIntervalMs
+
+      while (!signal?.aborted) {
+        if (queue.length === 0) {
+          await this.waitUntil(nextResyncAt, (resolve) => {
+            wake = resolve
+          })
+          wake = undefined
+          if (signal?.aborted) return
+        }
+
+        if (queue.length === 0 && Date.now() >= nextResyncAt) {
+          queue.push(...(await this.resync(videoId, state)))
+          nextResyncAt = Date.now() + this.options.resyncIntervalMs
+        }
+
+        while (queue.length > 0) {
+          const event = queue.shift() as VideoLiveEvent
+          if (!this.apply(event, state)) continue
+
+          yield event
+
+          if (
+            event.type === 'status-changed' &&
+            VideoStatusVO.create(event.status).isTerminal()
+          ) {
+            return
+          }
+        }
+      }
+    } finally {
+      unsubscribe()
+      signal?.removeEventListener('abort', notify)
+    }
+  }
+
+  private snapshot(video: Video): VideoEventsSnapshot {
+    const upload = video.getUploadProgress()
+
+    return {
+      type: 'snapshot',
+      videoId: video.id.value,
+      status: video.status.value,
+      failureReason: video.failureReason,
+      upload: {
+        totalParts: upload.totalParts,
+        uploadedParts: upload.uploadedParts,
+        percentage: upload.percentage,
+      },
+      processing: video.getProcessingProgress(),
+    }
+  }
+
+  /** Returns false when the event carries nothing the client does not know */
+  private apply(event: VideoLiveEvent, state: StreamState): boolean {
+    switch (event.type) {
+      case 'status-changed':
+        if (event.status === state.status) return false
+        state.status = event.status
+        return true
+      case 'segment-processed':
+        if (event.processed <= state.processedSegments) return false
+        state.processedSegments = event.processed
+        return true
+      default:
+        return true
+    }
+  }
+
+  private async resync(
+    videoId: string,
+    state: StreamState,
+  ): Promise<VideoLiveEvent[]> {
+    const videoResult = await this.videoRepository.findById(videoId)
+    // Transient read failures are retried on the next resync
+    if (videoResult.isFailure || !videoResult.value) return []
+
+    const video = videoResult.value
+    const events: VideoLiveEvent[] = []
+
+    if (video.processedSegments > state.processedSegments) {
+      events.push({
+        type: 'segment-processed',
+        videoId,
+        ...video.getProcessingProgress(),
+      })
+    }
+
+    if (video.status.value !== state.status) {
+      events.push({
+        type: 'status-changed',
+        videoId,
+        status: video.status.value,
+        failureReason: video.failureReason,
+      })
+    }
+
+    return events
+  }
+
+  private waitUntil(
+    deadline: number,
+    onWake: (resolve: () => void) => void,
+  ): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(resolve, Math.max(deadline - Date.now(), 0))
+      onWake(() => {
+        clearTimeout(timer)
+        resolve()
+      })
+    })
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'bun:test'
+import { VideoSegment } from '../video-segment'
+import { InvalidStatusTransitionError } from '@core/errors/invalid-status-transition.error'
+
+function makeSegment() {
+  return VideoSegment.create({
+    videoId: 'video-123',
+    segmentNumber: 2,
+    startTime: 10,
+    endTime: 20,
+  })
+}
+
+describe('VideoSegment', () => {
+  describe('create()', () => {
+    it('should create a pending segment without attempts', () => {
+      const segment = makeSegment()
+
+      expect(segment.status).toBe('PENDING')
+      expect(segment.attempts).toBe(0)
+      expect(segment.segmentNumber).toBe(2)
+      expect(segment.startTime).toBe(10)
+      expect(segment.endTime).toBe(20)
+      expect(segment.frameCount).toBeUndefined()
+      expect(segment.lastError).toBeUndefined()
+    })
+  })
+
+  describe('createFromDatabase()', () => {
+    it('should recreate a segment with all persisted fields', () => {
+      const createdAt = new Date('2025-01-01')
+      const segment = VideoSegment.createFromDatabase({
+        videoId: 'video-123',
+        segmentNumber: 2,
+        startTime: 10,
+        endTime: 20,
+        status: 'FAILED',
+        attempts: 3,
+        lastError: 'NoSuchKey',
+        createdAt,
+        updatedAt: createdAt,
+      })
+
+      expect(segment.status).toBe('FAILED')
+      expect(segment.attempts).toBe(3)
+      expect(segment.lastError).toBe('NoSuchKey')
+      expect(segment.createdAt).toBe(createdAt)
+    })
+  })
+
+  describe('processing', () => {
+    it('should count an attempt each time processing starts', () => {
+      const segment = makeSegment()
+
+      segment.startProcessing()
+      segment.release('Connection timeout')
+      segment.startProcessing()
+
+      expect(segment.status).toBe('PROCESSING')
+      expect(segment.attempts).toBe(2)
+      expect(segment.lastError).toBe('Connection timeout')
+    })
+
+    it('should record the frame count and clear the error on completion', () => {
+      const segment = makeSegment()
+      segment.startProcessing()
+      segment.release('Connection timeout')
+      segment.startProcessing()
+
+      segment.markCompleted(10)
+
+      expect(segment.status).toBe('COMPLETED')
+      expect(segment.frameCount).toBe(10)
+      expect(segment.lastError).toBeUndefined()
+    })
+
+    it('should keep the error of a non-retryable failure', () => {
+      const segment = makeSegment()
+      segment.startProcessing()
+
+      segment.markFailed('NoSuchKey')
+
+      expect(segment.isFailed()).toBe(true)
+      expect(segment.lastError).toBe('NoSuchKey')
+    })
+  })
+
+  describe('retry()', () => {
+    it('should put a failed segment back to pending', () => {
+      const segment = makeSegment()
+      segment.startProcessing()
+      segment.markFailed('NoSuchKey')
+
+      const result = segment.retry()
+
+      expect(result.isSuccess).toBe(true)
+      expect(segment.status).toBe('PENDING')
+      expect(segment.attempts).toBe(1)
+      expect(segment.lastError).toBe('NoSuchKey')
+    })
+
+    it('should reject segments that did not fail', () => {
+      const segment = makeSegment()
+      segment.startProcessing()
+      segment.markCompleted(10)
+
+      const result = segment.retry()
+
+      expect(result.isFailure).toBe(true)
+      expect(result.error).toBeInstanceOf(InvalidStatusTransitionError)
+      expect(segment.status).toBe('COMPLETED')
+    })
+  })
+})
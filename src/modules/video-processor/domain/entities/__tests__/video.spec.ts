@@ -1,10 +1,13 @@
 import { describe, it, expect } from 'bun:test'
+import { InvalidProcessingProfileError } from '@core/errors/invalid-processing-profile.error'
+import { InvalidStatusTransitionError } from '@core/errors/invalid-status-transition.error'
 import { Video } from '../video'
 import { VideoPart } from '../video-part'
 import { ThirdPartyIntegration } from '../third-party-integration.vo'
 import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
 import { VideoMetadataVO } from '@modules/video-processor/domain/value-objects/video-metadata.vo'
 import { VideoStatusVO } from '@modules/video-processor/domain/value-objects/video-status.vo'
+import { ProcessingProfileVO } from '@modules/video-processor/domain/value-objects/processing-profile.vo'
 import { MegabytesValueObject } from '@modules/video-processor/domain/value-objects/megabytes.vo'
 
 function makeMetadata() {
@@ -330,6 +333,244 @@ describe('Video', () => {
     })
   })
 
+  describe('cancelUpload()', () => {
+    it('should transition to CANCELLED and mark every part failed', () => {
+      const video = makeVideo()
+      video.addPart(makePart(video.id, 1, 'url'))
+      video.addPart(makePart(video.id, 2, 'url'))
+      video.markPartAsUploaded(1, '"e1"')
+      video.startUploading()
+
+      const result = video.cancelUpload()
+
+      expect(result.isSuccess).toBe(true)
+      expect(video.status.value).toBe('CANCELLED')
+      expect(video.parts.every((p) => p.status.value === 'failed')).toBe(true)
+    })
+
+    it('should add VideoUploadCancelled domain event', () => {
+      const video = makeVideo()
+
+      video.cancelUpload()
+
+      expect(
+        video.domainEvents.some((e) => e.eventName === 'VideoUploadCancelled'),
+      ).toBe(true)
+    })
+
+    it('should fail after the upload is completed', () => {
+      const video = Video.createFromDatabase({
+        id: UniqueEntityID.create(),
+        userId: UniqueEntityID.create(),
+        metadata: makeMetadata(),
+        status: VideoStatusVO.create('UPLOADED'),
+        parts: [],
+      })
+
+      const result = video.cancelUpload()
+
+      expect(result.isFailure).toBe(true)
+      expect(video.domainEvents).toHaveLength(0)
+    })
+  })
+
+  describe('reprocess()', () => {
+    const PROBE = {
+      durationMs: 60000,
+      container: 'mov,mp4,m4a,3gp,3g2,mj2',
+      videoCodec: 'h264',
+      width: 1280,
+      height: 720,
+      fps: 30,
+    }
+
+    function makeFinishedVideo(status: 'COMPLETED' | 'FAILED') {
+      return Video.createFromDatabase({
+        id: UniqueEntityID.create(),
+        userId: UniqueEntityID.create(),
+        metadata: makeMetadata().withProbe(PROBE),
+        status: VideoStatusVO.create(status),
+        parts: [],
+        failureReason: status === 'FAILED' ? 'ffmpeg exited' : undefined,
+        totalSegments: 6,
+        processedSegments: 4,
+      })
+    }
+
+    it('should start a new run and reset the progress of the last one', () => {
+      const video = makeFinishedVideo('FAILED')
+
+      const result = video.reprocess({ frameInterval: 0.5 })
+
+      expect(result.isSuccess).toBe(true)
+      expect(video.status.value).toBe('PROCESSING')
+      expect(video.failureReason).toBeUndefined()
+      expect(video.getProcessingProgress()).toEqual({
+        total: 0,
+        processed: 0,
+        percentage: 0,
+      })
+      expect(video.currentRun).toMatchObject({
+        runId: expect.any(String),
+        frameInterval: 0.5,
+      })
+      expect(video.statusChanges).toEqual([
+        expect.objectContaining({
+          from: 'FAILED',
+          to: 'PROCESSING',
+          reason: 'reprocess',
+        }),
+      ])
+    })
+
+    it('should keep the profile of the video with the interval of the run', () => {
+      const video = Video.createFromDatabase({
+        id: UniqueEntityID.create(),
+        userId: UniqueEntityID.create(),
+        metadata: makeMetadata(),
+        status: VideoStatusVO.create('COMPLETED'),
+        parts: [],
+        processingProfile: ProcessingProfileVO.create({
+          fps: 2,
+          format: 'png',
+          maxWidth: 640,
+        }).value,
+      })
+
+      video.reprocess({ frameInterval: 5 })
+
+      expect(video.activeProfile.toJSON()).toEqual({
+        frameInterval: 5,
+        format: 'png',
+        maxWidth: 640,
+      })
+      expect(video.processingProfile.toJSON().fps).toBe(2)
+    })
+
+    it('should give every run its own id', () => {
+      const video = makeFinishedVideo('COMPLETED')
+      video.reprocess()
+      const firstRunId = video.currentRun?.runId
+
+      const reloaded = Video.createFromDatabase({
+        id: video.id,
+        userId: video.userId,
+        metadata: makeMetadata(),
+        status: VideoStatusVO.create('COMPLETED'),
+        parts: [],
+        currentRun: video.currentRun,
+      })
+      reloaded.reprocess()
+
+      expect(reloaded.currentRun?.runId).not.toBe(firstRunId)
+    })
+
+    it('should add VideoReprocessing domain event', () => {
+      const video = makeFinishedVideo('COMPLETED')
+
+      video.reprocess()
+
+      expect(video.domainEvents.map((e) => e.eventName)).toEqual([
+        'VideoReprocessing',
+      ])
+    })
+
+    it('should fail for a FAILED video whose upload never completed', () => {
+      const video = Video.createFromDatabase({
+        id: UniqueEntityID.create(),
+        userId: UniqueEntityID.create(),
+        metadata: makeMetadata(),
+        status: VideoStatusVO.create('FAILED'),
+        parts: [],
+        failureReason: 'upload_expired',
+      })
+
+      const result = video.reprocess()
+
+      expect(video.canReprocess()).toBe(false)
+      expect(result.error).toBeInstanceOf(InvalidStatusTransitionError)
+      expect(video.status.value).toBe('FAILED')
+      expect(video.domainEvents).toHaveLength(0)
+    })
+
+    it('should fail while the video is being processed', () => {
+      const video = Video.createFromDatabase({
+        id: UniqueEntityID.create(),
+        userId: UniqueEntityID.create(),
+        metadata: makeMetadata(),
+        status: VideoStatusVO.create('PRINTING'),
+        parts: [],
+        totalSegments: 6,
+      })
+
+      const result = video.reprocess()
+
+      expect(result.isFailure).toBe(true)
+      expect(video.currentRun).toBeUndefined()
+      expect(video.totalSegments).toBe(6)
+      expect(video.domainEvents).toHaveLength(0)
+    })
+
+    it('should reject a frame interval the profile would not accept', () => {
+      const video = makeFinishedVideo('COMPLETED')
+
+      const result = video.reprocess({ frameInterval: 11 })
+
+      expect(result.error).toBeInstanceOf(InvalidProcessingProfileError)
+      expect(video.status.value).toBe('COMPLETED')
+      expect(video.currentRun).toBeUndefined()
+      expect(video.domainEvents).toHaveLength(0)
+    })
+  })
+
+  describe('retrySegment()', () => {
+    function makePrintedVideo(status: 'PRINTING' | 'FAILED' | 'COMPLETED') {
+      return Video.createFromDatabase({
+        id: UniqueEntityID.create(),
+        userId: UniqueEntityID.create(),
+        metadata: makeMetadata(),
+        status: VideoStatusVO.create(status),
+        parts: [],
+        totalSegments: 6,
+      })
+    }
+
+    it('should reopen a FAILED video to PRINTING', () => {
+      const video = makePrintedVideo('FAILED')
+
+      const result = video.retrySegment()
+
+      expect(result.isSuccess).toBe(true)
+      expect(video.status.value).toBe('PRINTING')
+      expect(video.statusChanges).toEqual([
+        expect.objectContaining({
+          from: 'FAILED',
+          to: 'PRINTING',
+          reason: 'segment_retry',
+        }),
+      ])
+    })
+
+    it('should leave a PRINTING video as is', () => {
+      const video = makePrintedVideo('PRINTING')
+
+      const result = video.retrySegment()
+
+      expect(result.isSuccess).toBe(true)
+      expect(video.statusChanges).toHaveLength(0)
+    })
+
+    it('should fail for a video that is not printing', () => {
+      const video = makePrintedVideo('COMPLETED')
+
+      const result = video.retrySegment()
+
+      expect(result.isFailure).toBe(true)
+      expect(result.error).toBeInstanceOf(InvalidStatusTransitionError)
+      expect(video.status.value).toBe('COMPLETED')
+    })
+  })
+
   describe('reconcileAllPartsAsUploaded()', () => {
     it('should mark all pending parts as uploaded with reconciled etag', () => {
       const video = makeVideo()
@@ -0,0 +1,134 @@
+import { DefaultEntity } from '@core/domain/entity/default-entity'
+import { Result } from '@core/domain/result'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import { InvalidStatusTransitionError } from '@core/errors/invalid-status-transition.error'
+
+export type VideoSegmentStatus =
+  | 'PENDING'
+  | 'PROCESSING'
+  | 'COMPLETED'
+  | 'FAILED'
+
+export type CreateVideoSegmentParams = {
+  videoId: string
+  /** 1-based, as in the print queue message */
+  segmentNumber: number
+  /** Range in the video, in seconds */
+  startTime: number
+  endTime: number
+}
+
+export type VideoSegmentFromDatabaseParams = CreateVideoSegmentParams & {
+  status: VideoSegmentStatus
+  attempts: number
+  frameCount?: number
+  lastError?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * VideoSegment - One range of the video sent to the print queue.
+ *
+ * Identified by (videoId, segmentNumber); `attempts` counts every time a print
+ * worker picked the segment up, including SQS redeliveries.
+ */
+export class VideoSegment extends DefaultEntity {
+  readonly videoId: string
+  readonly segmentNumber: number
+  readonly startTime: number
+  readonly endTime: number
+  private _status: VideoSegmentStatus
+  private _attempts: number
+  private _frameCount: number | undefined
+  private _lastError: string | undefined
+
+  private constructor(
+    params: CreateVideoSegmentParams & Partial<VideoSegmentFromDatabaseParams>,
+  ) {
+    super(UniqueEntityID.create(), {
+      createdAt: params.createdAt,
+      updatedAt: params.updatedAt,
+    })
+    this.videoId = params.videoId
+    this.segmentNumber = params.segmentNumber
+    this.startTime = params.startTime
+    this.endTime = params.endTime
+    this._status = params.status ?? 'PENDING'
+    this._attempts = params.attempts ?? 0
+    this._frameCount = params.frameCount
+    this._lastError = params.lastError
+  }
+
+  static create(params: CreateVideoSegmentParams): VideoSegment {
+    return new VideoSegment(params)
+  }
+
+  static createFromDatabase(
+    params: VideoSegmentFromDatabaseParams,
+  ): VideoSegment {
+    return new VideoSegment(params)
+  }
+
+  get status(): VideoSegmentStatus {
+    return this._status
+  }
+
+  get attempts(): number {
+    return this._attempts
+  }
+
+  get frameCount(): number | undefined {
+    return this._frameCount
+  }
+
+  get lastError(): string | undefined {
+    return this._lastError
+  }
+
+  isProcessing(): boolean {
+    return this._status === 'PROCESSING'
+  }
+
+  isCompleted(): boolean {
+    return this._status === 'COMPLETED'
+  }
+
+  isFailed(): boolean {
+    return this._status === 'FAILED'
+  }
+
+  startProcessing(): void {
+    this._attempts += 1
+    this._status = 'PROCESSING'
+  }
+
+  markCompleted(frameCount: number): void {
+    this._status = 'COMPLETED'
+    this._frameCount = frameCount
+    this._lastError = undefined
+  }
+
+  /** Non-retryable failure: only a manual retry brings the segment back */
+  markFailed(error: string): void {
+    this._status = 'FAILED'
+    this._lastError = error
+  }
+
+  /** Retryable failure: SQS delivers the message again */
+  release(error: string): void {
+    this._status = 'PENDING'
+    this._lastError = error
+  }
+
+  /** Puts a FAILED segment back in the queue; keeps attempts and lastError */
+  retry(): Result<void, InvalidStatusTransitionError> {
+    if (!this.isFailed()) {
+      return Result.fail(
+        new InvalidStatusTransitionError(this._status, 'PENDING'),
+      )
+    }
+    this._status = 'PENDING'
+    return Result.ok(undefined)
+  }
+}
@@ -1,10 +1,15 @@
 import { AggregateRoot } from '@core/domain/aggregate'
 import { Result } from '@core/domain/result'
+import type { InvalidProcessingProfileError } from '@core/errors/invalid-processing-profile.error'
 import { InvalidStatusTransitionError } from '@core/errors/invalid-status-transition.error'
 import { ThirdPartyIntegration } from '@modules/video-processor/domain/entities/third-party-integration.vo'
 import { VideoPart } from '@modules/video-processor/domain/entities/video-part'
 import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
-import { VideoMetadataVO } from '@modules/video-processor/domain/value-objects/video-metadata.vo'
+import {
+  VideoMetadataVO,
+  type VideoProbe,
+} from '@modules/video-processor/domain/value-objects/video-metadata.vo'
+import { ProcessingProfileVO } from '@modules/video-processor/domain/value-objects/processing-profile.vo'
 import {
   VideoStatusVO,
   type VideoStatus,
@@ -12,7 +17,10 @@ import {
 import { VideoThirdPartyIntegrationsMetadataVO } from '@modules/video-processor/domain/value-objects/video-third-party-integrations-metadata.vo'
 import { VideoUploadedEvent } from '@modules/video-processor/events/video-uploaded-event'
 import { VideoPrintingEvent } from '@modules/video-processor/events/video-printing-event'
+import { VideoReprocessingEvent } from '@modules/video-processor/events/video-reprocessing-event'
 import { VideoSplittingEvent } from '@modules/video-processor/events/video-splitting-event'
+import { VideoUploadCancelledEvent } from '@modules/video-processor/events/video-upload-cancelled-event'
+import { VideoUploadExpiredEvent } from '@modules/video-processor/events/video-upload-expired-event'
 
 export type UploadProgress = {
   totalParts: number
@@ -26,6 +34,33 @@ export type UploadProgress = {
   }>
 }
 
+/** A status transition applied to the aggregate and not yet persisted */
+export type VideoStatusChange = {
+  from: VideoStatus
+  to: VideoStatus
+  occurredAt: Date
+  reason?: string
+}
+
+/**
+ * Processing run started by a reprocess. The first run, triggered by the
+ * upload, has none and keeps its frames at the video's own prints prefix.
+ */
+export type ProcessingRun = {
+  runId: string
+  /** Seconds between extracted frames; the video's profile when absent */
+  frameInterval?: number
+  startedAt: Date
+}
+
+export type ReprocessOptions = {
+  frameInterval?: number
+}
+
+export const REPROCESS_REASON = 'reprocess'
+
+export const SEGMENT_RETRY_REASON = 'segment_retry'
+
 export class Video extends AggregateRoot<Video> {
   private _status: VideoStatusVO
   metadata: VideoMetadataVO
@@ -33,9 +68,14 @@ export class Video extends AggregateRoot<Video> {
   integration: ThirdPartyIntegration | undefined
   thirdPartyVideoIntegration: VideoThirdPartyIntegrationsMetadataVO | undefined
   userId: UniqueEntityID
+  userEmail: string | undefined
   private _failureReason: string | undefined
   private _totalSegments: number
+  private _segmentDurationMs: number | undefined
   private _processedSegments: number
+  private _currentRun: ProcessingRun | undefined
+  private _processingProfile: ProcessingProfileVO
+  private _statusChanges: VideoStatusChange[] = []
 
   private constructor({
     metadata,
@@ -45,9 +85,15 @@ export class Video extends AggregateRoot<Video> {
     thirdPartyVideoIntegration,
     status,
     userId,
+    userEmail,
     failureReason,
     totalSegments,
+    segmentDurationMs,
     processedSegments,
+    currentRun,
+    processingProfile,
+    createdAt,
+    updatedAt,
   }: {
     metadata: VideoMetadataVO
     id?: UniqueEntityID
@@ -56,20 +102,30 @@ export class Video extends AggregateRoot<Video> {
     thirdPartyVideoIntegration?: VideoThirdPartyIntegrationsMetadataVO
     status: VideoStatusVO
     userId: UniqueEntityID
+    userEmail?: string
     failureReason?: string
     totalSegments?: number
+    segmentDurationMs?: number
     processedSegments?: number
+    currentRun?: ProcessingRun
+    processingProfile?: ProcessingProfileVO
+    createdAt?: Date
+    updatedAt?: Date
   }) {
-    super(id ?? UniqueEntityID.create())
+    super(id ?? UniqueEntityID.create(), { createdAt, updatedAt })
     this.metadata = metadata
     this._parts = parts
     this.integration = integration
     this.thirdPartyVideoIntegration = thirdPartyVideoIntegration
     this._status = status
     this.userId = userId
+    this.userEmail = userEmail
     this._failureReason = failureReason
     this._totalSegments = totalSegments ?? 0
+    this._segmentDurationMs = segmentDurationMs
     this._processedSegments = processedSegments ?? 0
+    this._currentRun = currentRun
+    this._processingProfile = processingProfile ?? ProcessingProfileVO.default()
   }
 
   get status(): VideoStatusVO {
@@ -84,16 +140,55 @@ export class Video extends AggregateRoot<Video> {
     return this._failureReason
   }
 
+  /** Transitions applied since the video was loaded (or last persisted) */
+  get statusChanges(): readonly VideoStatusChange[] {
+    return this._statusChanges
+  }
+
+  clearStatusChanges(): void {
+    this._statusChanges = []
+  }
+
   get totalSegments(): number {
     return this._totalSegments
   }
 
+  /** Segment length the orchestrator planned for the current split */
+  get segmentDurationMs(): number | undefined {
+    return this._segmentDurationMs
+  }
+
   get processedSegments(): number {
     return this._processedSegments
   }
 
-  setTotalSegments(total: number): this {
+  get currentRun(): ProcessingRun | undefined {
+    return this._currentRun
+  }
+
+  /** Profile requested when the video was created */
+  get processingProfile(): ProcessingProfileVO {
+    return this._processingProfile
+  }
+
+  /** Profile the current run extracts frames with */
+  get activeProfile(): ProcessingProfileVO {
+    const frameInterval = this._currentRun?.frameInterval
+    // The interval was validated when the run started
+    return frameInterval !== undefined
+      ? this._processingProfile.withFrameInterval(frameInterval).value
+      : this._processingProfile
+  }
+
+  /** Replaces the declared duration with the one read from the file */
+  applyProbe(probe: VideoProbe): this {
+    this.metadata = this.metadata.withProbe(probe)
+    return this
+  }
+
+  setTotalSegments(total: number, segmentDurationMs?: number): this {
     this._totalSegments = total
+    this._segmentDurationMs = segmentDurationMs
     return this
   }
 
@@ -126,6 +221,8 @@ export class Video extends AggregateRoot<Video> {
   static create(props: {
     metadata: VideoMetadataVO
     userId: UniqueEntityID
+    userEmail?: string
+    processingProfile?: ProcessingProfileVO
   }): Video {
     return new Video({
       metadata: props.metadata,
@@ -133,7 +230,9 @@ export class Video extends AggregateRoot<Video> {
       parts: [],
       integration: ThirdPartyIntegration.create(),
       userId: props.userId,
+      userEmail: props.userEmail,
       status: VideoStatusVO.createInitial(),
+      processingProfile: props.processingProfile,
     })
   }
 
@@ -145,9 +244,15 @@ export class Video extends AggregateRoot<Video> {
     status: VideoStatusVO
     id: UniqueEntityID
     userId: UniqueEntityID
+    userEmail?: string
     failureReason?: string
     totalSegments?: number
+    segmentDurationMs?: number
     processedSegments?: number
+    currentRun?: ProcessingRun
+    processingProfile?: ProcessingProfileVO
+    createdAt?: Date
+    updatedAt?: Date
   }): Video {
     return new Video({
       metadata: props.metadata,
@@ -157,9 +262,15 @@ export class Video extends AggregateRoot<Video> {
       thirdPartyVideoIntegration: props.thirdPartyVideoIntegration,
       status: props.status,
       userId: props.userId,
+      userEmail: props.userEmail,
       failureReason: props.failureReason,
       totalSegments: props.totalSegments,
+      segmentDurationMs: props.segmentDurationMs,
       processedSegments: props.processedSegments,
+      currentRun: props.currentRun,
+      processingProfile: props.processingProfile,
+      createdAt: props.createdAt,
+      updatedAt: props.updatedAt,
     })
   }
 
@@ -218,13 +329,105 @@ export class Video extends AggregateRoot<Video> {
   }
 
   markAsFailed(reason: string): Result<this, InvalidStatusTransitionError> {
-    const result = this.transitionTo('FAILED')
+    const result = this.transitionTo('FAILED', reason)
     if (result.isSuccess) {
       this._failureReason = reason
     }
     return result
   }
 
+  /**
+   * A COMPLETED video, or a FAILED one whose upload the orchestrator probed.
+   * Uploads that expired or were rejected by the probe have nothing to
+   * process again.
+   */
+  canReprocess(): boolean {
+    if (!this._status.canReprocess()) return false
+    return this._status.isCompleted() || this.metadata.probe !== undefined
+  }
+
+  /**
+   * Starts a new processing run of a COMPLETED or FAILED video. The progress
+   * of the previous run is reset; its frames are kept, since every run writes
+   * under its own prints prefix.
+   */
+  reprocess(
+    options: ReprocessOptions = {},
+  ): Result<
+    this,
+    InvalidStatusTransitionError | InvalidProcessingProfileError
+  > {
+    if (!this.canReprocess()) {
+      return Result.fail(
+        new InvalidStatusTransitionError(this._status.value, 'PROCESSING'),
+      )
+    }
+    if (options.frameInterval !== undefined) {
+      const profileResult = this._processingProfile.withFrameInterval(
+        options.frameInterval,
+      )
+      if (profileResult.isFailure) return Result.fail(profileResult.error)
+    }
+
+    const result = this.applyTransition(
+      this._status.reprocess(),
+      REPROCESS_REASON,
+    )
+    if (result.isFailure) return Result.fail(result.error)
+
+    this._failureReason = undefined
+    this._totalSegments = 0
+    this._segmentDurationMs = undefined
+    this._processedSegments = 0
+    this._currentRun = {
+      runId: UniqueEntityID.create().value,
+      frameInterval: options.frameInterval,
+      startedAt: new Date(),
+    }
+
+    this.addDomainEvent(new VideoReprocessingEvent(this))
+    return Result.ok(this)
+  }
+
+  /**
+   * Reopens a video FAILED by one of its segments, so the print worker can
+   * still complete it once the retried segment is done. A video still
+   * PRINTING is left as is.
+   */
+  retrySegment(): Result<this, InvalidStatusTransitionError> {
+    if (this._status.value === 'PRINTING') return Result.ok(this)
+
+    return this.applyTransition(
+      this._status.retrySegment(),
+      SEGMENT_RETRY_REASON,
+    )
+  }
+
+  /**
+   * Cancels an upload that has not been completed yet. Every part is marked
+   * failed because aborting the multipart upload discards the uploaded ones too.
+   */
+  cancelUpload(): Result<this, InvalidStatusTransitionError> {
+    const result = this.transitionTo('CANCELLED')
+    if (result.isFailure) return Result.fail(result.error)
+
+    for (const part of this._parts) {
+      part.markAsFailed()
+    }
+
+    this.addDomainEvent(new VideoUploadCancelledEvent(this))
+    return Result.ok(this)
+  }
+
+  /** Fails an upload the client abandoned before completing it */
+  expireUpload(reason: string): Result<this, InvalidStatusTransitionError> {
+    const result = this.markAsFailed(reason)
+    if (result.isFailure) return Result.fail(result.error)
+
+    this.addDomainEvent(new VideoUploadExpiredEvent(this))
+    return Result.ok(this)
+  }
+
   reconcileAllPartsAsUploaded(): this {
     for (const part of this._parts) {
       if (part.isPending()) {
@@ -254,6 +457,15 @@ export class Video extends AggregateRoot<Video> {
     }
   }
 
+  /** Latest of the last row update and the last part upload */
+  lastUploadActivityAt(): Date {
+    return this._parts.reduce(
+      (latest, part) =>
+        part.uploadedAt && part.uploadedAt > latest ? part.uploadedAt : latest,
+      this.updatedAt,
+    )
+  }
+
   isFullyUploaded(): boolean {
     return this._parts.length > 0 && this._parts.every((p) => p.isUploaded())
   }
@@ -346,11 +558,24 @@ export class Video extends AggregateRoot<Video> {
 
   private transitionTo(
     newStatus: VideoStatus,
+    reason?: string,
+  ): Result<this, InvalidStatusTransitionError> {
+    return this.applyTransition(this._status.transitionTo(newStatus), reason)
+  }
+
+  private applyTransition(
+    result: Result<VideoStatusVO, InvalidStatusTransitionError>,
+    reason?: string,
   ): Result<this, InvalidStatusTransitionError> {
-    const result = this._status.transitionTo(newStatus)
     if (result.isFailure) {
       return Result.fail(result.error)
     }
+    this._statusChanges.push({
+      from: this._status.value,
+      to: result.value.value,
+      occurredAt: new Date(),
+      reason,
+    })
     this._status = result.value
     return Result.ok(this)
   }
@@ -0,0 +1,20 @@
+import { Result } from '@core/domain/result'
+import type { VideoSegment } from '@modules/video-processor/domain/entities/video-segment'
+
+export interface VideoSegmentRepository {
+  /** Upserts the segments of a video, as planned by the orchestrator */
+  createSegments(segments: VideoSegment[]): Promise<Result<void, Error>>
+  /** Ordered by segment number */
+  findByVideo(videoId: string): Promise<Result<VideoSegment[], Error>>
+  findSegment(
+    videoId: string,
+    segmentNumber: number,
+  ): Promise<Result<VideoSegment | null, Error>>
+  /** Upsert: also creates segments published before tracking existed */
+  updateSegment(segment: VideoSegment): Promise<Result<void, Error>>
+  /**
+   * Conditional update (LWT) of a segment whose `retry()` was applied.
+   * Returns false when the segment was no longer FAILED (concurrent retry).
+   */
+  requeueSegment(segment: VideoSegment): Promise<Result<boolean, Error>>
+}
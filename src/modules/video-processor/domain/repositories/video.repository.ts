@@ -1,20 +1,143 @@
 import { Video } from '@modules/video-processor/domain/entities/video'
 import { Result } from '@core/domain/result'
+import type { OutboxMessage } from '@core/messaging'
+import type { VideoProbe } from '@modules/video-processor/domain/value-objects/video-metadata.vo'
 import type { VideoStatus } from '@modules/video-processor/domain/value-objects/video-status.vo'
 
+export type TransitionStatusOptions = {
+  /** Persisted alongside the new status (used when transitioning to FAILED) */
+  failureReason?: string
+  /** Component applying the transition, recorded in the status history */
+  source?: string
+  correlationId?: string
+  /** Recorded in the status history; defaults to `failureReason` */
+  reason?: string
+}
+
+/** Attribution of the status changes persisted by `updateVideo` */
+export type StatusChangeContext = {
+  source: string
+  correlationId?: string
+}
+
+/** How a processing run started by `video.reprocess()` came about */
+export type ProcessingRunContext = {
+  /** Status the video was reopened from (COMPLETED or FAILED) */
+  previousStatus: VideoStatus
+  correlationId?: string
+}
+
+/** Outcome of counting a segment as processed */
+export type SegmentProgress = {
+  processedSegments: number
+  /** False when the segment had already been counted (redelivered message) */
+  counted: boolean
+}
+
+export type VideoStatusHistoryEntry = {
+  videoId: string
+  from: VideoStatus
+  to: VideoStatus
+  changedAt: Date
+  correlationId?: string
+  source: string
+  reason?: string
+}
+
+export type FindByUserOptions = {
+  pageSize: number
+  /** Opaque cursor returned by a previous page (`nextCursor`) */
+  cursor?: string
+  status?: VideoStatus
+}
+
+export type FindPendingUploadsOptions = {
+  pageSize: number
+  /** Opaque cursor returned by a previous page (`nextCursor`) */
+  cursor?: string
+}
+
+export type VideoPage<T extends Video = Video> = {
+  items: T[]
+  /** Absent on the last page */
+  nextCursor?: string
+}
+
 export interface VideoRepository<T extends Video = Video> {
   createVideo(video: T): Promise<Result<void, Error>>
   createVideoParts(video: T): Promise<Result<void, Error>>
   updateVideoPart(video: T, partNumber: number): Promise<Result<void, Error>>
-  updateVideo(video: T): Promise<Result<void, Error>>
+  /**
+   * Also appends the status changes recorded by the entity
+   * (`video.statusChanges`) to the status history and clears them.
+   */
+  updateVideo(
+    video: T,
+    context?: StatusChangeContext,
+  ): Promise<Result<void, Error>>
+  /**
+   * Writes the status of the video and the outbox messages of its domain
+   * events in one logged batch, so the change is never persisted without
+   * the events that announce it.
+   */
+  saveWithOutbox(
+    video: T,
+    messages: OutboxMessage[],
+  ): Promise<Result<void, Error>>
+  /**
+   * Persists the run started by `video.reprocess()`: the current run and the
+   * reset progress on the video, a row in the run log and the outbox messages
+   * that trigger it, in one logged batch. The status is expected to be
+   * claimed beforehand with `transitionStatus`.
+   */
+  saveProcessingRun(
+    video: T,
+    messages: OutboxMessage[],
+    context: ProcessingRunContext,
+  ): Promise<Result<void, Error>>
   findById(videoId: string): Promise<Result<T | null, Error>>
   findByIntegrationId(integrationId: string): Promise<Result<T | null, Error>>
   findByObjectKey(objectKey: string): Promise<Result<T | null, Error>>
+
+  /**
+   * Lists the videos of a user, newest first.
+   *
+   * When `status` is given, pages may hold fewer than `pageSize` items (even
+   * none) while `nextCursor` is still present; keep paging until it is absent.
+   * Fails with InvalidCursorError when the cursor cannot be decoded.
+   */
+  findByUser(
+    userId: string,
+    options: FindByUserOptions,
+  ): Promise<Result<VideoPage<T>, Error>>
+
+  /**
+   * Lists videos registered as pending upload when created. Entries are not
+   * removed on status changes, so callers must check the current status and
+   * drop finished ones with `removePendingUpload`.
+   */
+  findPendingUploads(
+    options: FindPendingUploadsOptions,
+  ): Promise<Result<VideoPage<T>, Error>>
+  removePendingUpload(videoId: string): Promise<Result<void, Error>>
+  /** Records what ffprobe read from the upload, duration included */
+  saveProbe(videoId: string, probe: VideoProbe): Promise<Result<void, Error>>
+  /** Records the split planned by the orchestrator, segment length included */
   updateTotalSegments(
     videoId: string,
     totalSegments: number,
+    segmentDurationMs?: number,
   ): Promise<Result<void, Error>>
-  incrementProcessedSegments(videoId: string): Promise<Result<number, Error>>
+  /**
+   * Atomically counts `segmentNumber` as processed and returns the new count.
+   * Safe under concurrent print workers: each call that counts a segment
+   * observes a distinct value, and a segment already counted in the current
+   * run leaves the count unchanged.
+   */
+  incrementProcessedSegments(
+    videoId: string,
+    segmentNumber: number,
+  ): Promise<Result<SegmentProgress, Error>>
 
   /**
    * Atomically transition video status using conditional update (optimistic locking).
@@ -26,11 +149,19 @@ export interface VideoRepository<T extends Video = Video> {
    * @param videoId - The video ID to update
    * @param expectedStatus - The status the video must have for the update to succeed
    * @param newStatus - The new status to set
+   * @param options - Extra columns written in the same conditional update,
+   *   and the attribution recorded in the status history once it is applied
    * @returns true if the transition was applied, false if status didn't match (concurrent update)
    */
   transitionStatus(
     videoId: string,
     expectedStatus: VideoStatus,
     newStatus: VideoStatus,
+    options?: TransitionStatusOptions,
   ): Promise<boolean>
+
+  /** Status transitions of a video, oldest first */
+  findStatusHistory(
+    videoId: string,
+  ): Promise<Result<VideoStatusHistoryEntry[], Error>>
 }
@@ -0,0 +1,259 @@
+import {
+  describe,
+  it,
+  expect,
+  beforeEach,
+  afterEach,
+  mock,
+  setSystemTime,
+} from 'bun:test'
+import {
+  ExpireStaleUploadsService,
+  UPLOAD_EXPIRED_REASON,
+} from '../expire-stale-uploads.service'
+import { InMemoryVideoRepository } from '@modules/video-processor/__tests__/factories/in-memory-video.repository'
+import { VideoFactory } from '@modules/video-processor/__tests__/factories/video.factory'
+import { VideoPart } from '@modules/video-processor/domain/entities/video-part'
+import { ThirdPartyIntegration } from '@modules/video-processor/domain/entities/third-party-integration.vo'
+import {
+  VideoStatusVO,
+  type VideoStatus,
+} from '@modules/video-processor/domain/value-objects/video-status.vo'
+import type { Video } from '@modules/video-processor/domain/entities/video'
+import type { UploadVideoPartsService } from '@modules/video-processor/domain/services/upload-video-parts.service.interface'
+import type { OutboxMessage } from '@core/messaging'
+import { Result } from '@core/domain/result'
+import { LoggerStub } from '@core/libs/logging/__tests__/logger.stub'
+
+const TTL_MS = 60 * 60 * 1000
+
+function makeVideoInStatus(status: VideoStatus): Video {
+  return VideoFactory.create({ status: VideoStatusVO.create(status) })
+}
+
+function afterTtl(from: Date = new Date()): Date {
+  return new Date(from.getTime() + TTL_MS + 1)
+}
+
+describe('ExpireStaleUploadsService', () => {
+  let repository: InMemoryVideoRepository
+  let uploadService: Record<
+    keyof UploadVideoPartsService,
+    ReturnType<typeof mock>
+  >
+  let outbox: {
+    add: ReturnType<
+      typeof mock<(messages: OutboxMessage[]) => Promise<Result<void, Error>>>
+    >
+  }
+  let service: ExpireStaleUploadsService
+
+  beforeEach(() => {
+    repository = new InMemoryVideoRepository()
+    uploadService = {
+      createUploadId: mock(),
+      createPartUploadURL: mock(),
+      completeMultipartUpload: mock(),
+      abortMultipartUpload: mock(async () => Result.ok(undefined)),
+    }
+    outbox = { add: mock(async () => Result.ok(undefined)) }
+    service = new ExpireStaleUploadsService(
+      new LoggerStub(),
+      repository,
+      uploadService as unknown as UploadVideoPartsService,
+      outbox,
+      { ttlMs: TTL_MS, pageSize: 2 },
+    )
+  })
+
+  afterEach(() => {
+    setSystemTime()
+  })
+
+  async function stored(videoId: string) {
+    return (await repository.findById(videoId)).value
+  }
+
+  it('should expire an upload without activity within the TTL', async () => {
+    const video = makeVideoInStatus('UPLOADING')
+    await repository.createVideo(video)
+
+    const result = await service.run(afterTtl())
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.expired).toEqual([video.id.value])
+    const expired = await stored(video.id.value)
+    expect(expired?.status.value).toBe('FAILED')
+    expect(expired?.failureReason).toBe(UPLOAD_EXPIRED_REASON)
+  })
+
+  it('should abort the multipart upload and save a FAILED status event in the outbox', async () => {
+    const video = makeVideoInStatus('UPLOADING')
+    await repository.createVideo(video)
+
+    await service.run(afterTtl())
+
+    expect(uploadService.abortMultipartUpload).toHaveBeenCalledWith(
+      video.thirdPartyVideoIntegration?.bucket,
+      video.thirdPartyVideoIntegration?.key,
+      video.thirdPartyVideoIntegration?.uploadId,
+    )
+    expect(repository.outbox).toHaveLength(1)
+    const [message] = repository.outbox
+    expect(message?.eventName).toBe('VideoUploadExpired')
+    expect(message?.envelope.payload).toMatchObject({
+      videoId: video.id.value,
+      status: 'FAILED',
+      errorReason: UPLOAD_EXPIRED_REASON,
+    })
+    expect(repository.pendingUploads.has(video.id.value)).toBe(false)
+  })
+
+  it('should keep uploads with recent activity', async () => {
+    const video = makeVideoInStatus('UPLOADING')
+    await repository.createVideo(video)
+
+    const result = await service.run(new Date())
+
+    expect(result.value.expired).toEqual([])
+    expect((await stored(video.id.value))?.status.value).toBe('UPLOADING')
+    expect(repository.pendingUploads.has(video.id.value)).toBe(true)
+  })
+
+  it('should treat a recent part upload as activity', async () => {
+    const video = makeVideoInStatus('UPLOADING')
+    video.addPart(
+      VideoPart.create({
+        videoId: video.id,
+        partNumber: 1,
+        size: 100,
+        integration: ThirdPartyIntegration.create(),
+        url: 'http://s3.com/part/1',
+      }),
+    )
+    await repository.createVideo(video)
+    const now = afterTtl(video.updatedAt)
+    setSystemTime(new Date(now.getTime() - 1000))
+    video.markPartAsUploaded(1, 'etag-1')
+
+    const result = await service.run(now)
+
+    expect(result.value.expired).toEqual([])
+  })
+
+  it('should release pending entries of videos that left the upload phase', async () => {
+    const video = makeVideoInStatus('UPLOADED')
+    await repository.createVideo(video)
+
+    const result = await service.run(afterTtl())
+
+    expect(result.value.released).toBe(1)
+    expect(result.value.expired).toEqual([])
+    expect(repository.pendingUploads.has(video.id.value)).toBe(false)
+    expect(uploadService.abortMultipartUpload).not.toHaveBeenCalled()
+  })
+
+  it('should sweep every page', async () => {
+    const videos = Array.from({ length: 5 }, () =>
+      makeVideoInStatus('UPLOADING'),
+    )
+    for (const video of videos) await repository.createVideo(video)
+
+    const result = await service.run(afterTtl())
+
+    expect(result.value.scanned).toBe(5)
+    expect(result.value.expired).toHaveLength(5)
+  })
+
+  it('should skip videos updated concurrently', async () => {
+    const video = makeVideoInStatus('UPLOADING')
+    await repository.createVideo(video)
+    repository.transitionStatus = mock(async () => false)
+
+    const result = await service.run(afterTtl())
+
+    expect(result.value.expired).toEqual([])
+    expect(result.value.failed).toBe(0)
+    expect(uploadService.abortMultipartUpload).not.toHaveBeenCalled()
+    expect(repository.outbox).toHaveLength(0)
+  })
+
+  it('should still expire the video when S3 rejects the abort', async () => {
+    const video = makeVideoInStatus('UPLOADING')
+    await repository.createVideo(video)
+    uploadService.abortMultipartUpload.mockImplementation(async () =>
+      Result.fail(new Error('NoSuchUpload')),
+    )
+
+    const result = await service.run(afterTtl())
+
+    expect(result.value.expired).toEqual([video.id.value])
+  })
+
+  it('should count a failed outbox write and keep the pending entry for the next sweep', async () => {
+    const video = makeVideoInStatus('UPLOADING')
+    await repository.createVideo(video)
+    repository.saveWithOutbox = mock(async () =>
+      Result.fail(new Error('Cassandra timeout')),
+    )
+
+    const result = await service.run(afterTtl())
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.failed).toBe(1)
+    expect(repository.pendingUploads.has(video.id.value)).toBe(true)
+  })
+
+  it('should record the expiry again for a video expired by a sweep that died', async () => {
+    const video = makeVideoInStatus('UPLOADING')
+    await repository.createVideo(video)
+    await repository.transitionStatus(video.id.value, 'UPLOADING', 'FAILED', {
+      failureReason: UPLOAD_EXPIRED_REASON,
+    })
+
+    const result = await service.run(afterTtl())
+
+    expect(result.value.released).toBe(1)
+    const [messages] = outbox.add.mock.calls[0] ?? []
+    expect(messages?.[0]?.eventName).toBe('VideoUploadExpired')
+    expect(repository.pendingUploads.has(video.id.value)).toBe(false)
+  })
+
+  it('should keep the pending entry when the expiry cannot be recorded again', async () => {
+    const video = makeVideoInStatus('UPLOADING')
+    await repository.createVideo(video)
+    await repository.transitionStatus(video.id.value, 'UPLOADING', 'FAILED', {
+      failureReason: UPLOAD_EXPIRED_REASON,
+    })
+    outbox.add.mockImplementation(async () =>
+      Result.fail(new Error('Cassandra timeout')),
+    )
+
+    const result = await service.run(afterTtl())
+
+    expect(result.value.failed).toBe(1)
+    expect(repository.pendingUploads.has(video.id.value)).toBe(true)
+  })
+
+  it('should not record anything for videos that failed for another reason', async () => {
+    const video = makeVideoInStatus('UPLOADING')
+    await repository.createVideo(video)
+    await repository.transitionStatus(video.id.value, 'UPLOADING', 'FAILED', {
+      failureReason: 'probe_failed',
+    })
+
+    await service.run(afterTtl())
+
+    expect(outbox.add).not.toHaveBeenCalled()
+  })
+
+  it('should fail when pending uploads cannot be listed', async () => {
+    repository.findPendingUploads = mock(async () =>
+      Result.fail(new Error('Cassandra unavailable')),
+    )
+
+    const result = await service.run()
+
+    expect(result.isFailure).toBe(true)
+  })
+})
@@ -12,7 +12,8 @@ import { VideoThirdPartyIntegrationsMetadataVO } from '@modules/video-processor/
 import type { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
 import { LoggerStub } from '@core/libs/logging/__tests__/logger.stub'
 import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
-import type { DefaultEventBridge } from '@core/events/event-bridge'
+import type { OutboxRepository } from '@core/abstractions/messaging'
+import type { OutboxMessage } from '@core/messaging'
 import { Result } from '@core/domain/result'
 
 function makeVideoInStatus(status: string): Video {
@@ -39,7 +40,7 @@ function makeVideoInStatus(status: string): Video {
 describe('ReconcileUploadService', () => {
   let logger: AbstractLoggerService
   let videoRepository: VideoRepository
-  let eventBridge: DefaultEventBridge
+  let outbox: Pick<OutboxRepository, 'add'>
   let service: ReconcileUploadService
 
   beforeEach(() => {
@@ -51,15 +52,22 @@ describe('ReconcileUploadService', () => {
       createVideoParts: mock(),
       updateVideoPart: mock(),
       updateVideo: mock(),
+      saveWithOutbox: mock(async () => Result.ok(undefined)),
+      saveProcessingRun: mock(),
       findByIntegrationId: mock(),
       findByObjectKey: mock(),
       updateTotalSegments: mock(),
       incrementProcessedSegments: mock(),
+      findByUser: mock(),
+      findPendingUploads: mock(),
+      removePendingUpload: mock(),
+      saveProbe: mock(),
+      findStatusHistory: mock(),
     } satisfies Record<keyof VideoRepository, unknown> as VideoRepository
-    eventBridge = {
-      send: mock(async () => Result.ok({})),
-    } as Pick<DefaultEventBridge, 'send'> as DefaultEventBridge
-    service = new ReconcileUploadService(logger, videoRepository, eventBridge)
+    outbox = {
+      add: mock(async () => Result.ok(undefined)),
+    }
+    service = new ReconcileUploadService(logger, videoRepository, outbox)
   })
 
   it('should skip when video is already uploaded (idempotent)', async () => {
@@ -104,7 +112,7 @@ describe('ReconcileUploadService', () => {
     expect(result.value.reason).toBe('concurrent_update')
   })
 
-  it('should reconcile successfully and emit events', async () => {
+  it('should save the video and its outbox message in one batch', async () => {
     const video = makeVideoInStatus('UPLOADING')
 
     const result = await service.reconcile({
@@ -116,13 +124,35 @@ describe('ReconcileUploadService', () => {
     expect(result.isSuccess).toBe(true)
     expect(result.value.skipped).toBe(false)
     expect(result.value.status).toBe('UPLOADED')
-    expect(eventBridge.send).toHaveBeenCalled()
+
+    const [savedVideo, messages] = (videoRepository.saveWithOutbox as MockFn)
+      .mock.calls[0] as [Video, OutboxMessage[]]
+    expect(savedVideo.status.value).toBe('UPLOADED')
+    expect(messages).toHaveLength(1)
+    expect(messages[0]).toMatchObject({
+      aggregateType: 'Video',
+      aggregateId: video.id.value,
+      eventName: 'VideoUploaded',
+      destination: 'eventbridge',
+    })
+    expect(messages[0]?.envelope.metadata).toMatchObject({
+      correlationId: 'corr-1',
+      traceId: 'trace-1',
+      eventType: 'Video Status Changed',
+      messageId: messages[0]?.messageId,
+    })
+    expect(messages[0]?.envelope.payload).toMatchObject({
+      videoId: video.id.value,
+      status: 'UPLOADED',
+    })
+    expect(video.domainEvents).toHaveLength(0)
+    expect(outbox.add).not.toHaveBeenCalled()
   })
 
-  it('should log error when event emission fails but still succeed', async () => {
+  it('should fail when the outbox batch cannot be written', async () => {
     const video = makeVideoInStatus('UPLOADING')
-    ;(eventBridge.send as MockFn).mockImplementation(async () =>
-      Result.fail(new Error('EventBridge error')),
+    ;(videoRepository.saveWithOutbox as MockFn).mockImplementation(async () =>
+      Result.fail(new Error('Cassandra timeout')),
     )
 
     const result = await service.reconcile({
@@ -130,8 +160,44 @@ describe('ReconcileUploadService', () => {
       correlationId: 'corr-1',
     })
 
-    expect(result.isSuccess).toBe(true)
-    expect(result.value.skipped).toBe(false)
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toBe('Cassandra timeout')
     expect(logger.error).toHaveBeenCalled()
   })
+
+  it('should record the outbox message again when the video is already UPLOADED', async () => {
+    const video = makeVideoInStatus('UPLOADED')
+
+    const first = await service.reconcile({ video, correlationId: 'corr-1' })
+    const second = await service.reconcile({ video, correlationId: 'corr-2' })
+
+    expect(first.value.reason).toBe('already_processed')
+    expect(second.value.reason).toBe('already_processed')
+    expect(videoRepository.saveWithOutbox).not.toHaveBeenCalled()
+
+    const calls = (outbox.add as MockFn).mock.calls as [OutboxMessage[]][]
+    expect(calls).toHaveLength(2)
+    // Same row both times, so the relay publishes it once
+    expect(calls[0]?.[0][0]?.messageId).toBe(calls[1]?.[0][0]?.messageId)
+    expect(calls[0]?.[0][0]?.eventName).toBe('VideoUploaded')
+  })
+
+  it('should not touch the outbox when the video moved past UPLOADED', async () => {
+    const video = makeVideoInStatus('PROCESSING')
+
+    await service.reconcile({ video, correlationId: 'corr-1' })
+
+    expect(outbox.add).not.toHaveBeenCalled()
+  })
+
+  it('should fail so the message is retried when the outbox repair fails', async () => {
+    const video = makeVideoInStatus('UPLOADED')
+    ;(outbox.add as MockFn).mockImplementation(async () =>
+      Result.fail(new Error('Cassandra timeout')),
+    )
+
+    const result = await service.reconcile({ video, correlationId: 'corr-1' })
+
+    expect(result.isFailure).toBe(true)
+  })
 })
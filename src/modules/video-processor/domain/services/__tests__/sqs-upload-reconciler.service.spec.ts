@@ -66,9 +66,16 @@ describe('SqsUploadReconciler', () => {
       createVideo: mock(),
       createVideoParts: mock(),
       updateVideo: mock(),
+      saveWithOutbox: mock(),
+      saveProcessingRun: mock(),
       findByIntegrationId: mock(),
       updateTotalSegments: mock(),
       incrementProcessedSegments: mock(),
+      findByUser: mock(),
+      findPendingUploads: mock(),
+      removePendingUpload: mock(),
+      saveProbe: mock(),
+      findStatusHistory: mock(),
     } satisfies Record<keyof VideoRepository, unknown> as VideoRepository
     reconcileService = {
       reconcile: mock(async () =>
@@ -0,0 +1,281 @@
+import { describe, it, expect, beforeEach, spyOn } from 'bun:test'
+import { VideoStatusSyncService } from '../video-status-sync.service'
+import { InMemoryVideoRepository } from '@modules/video-processor/__tests__/factories/in-memory-video.repository'
+import { VideoFactory } from '@modules/video-processor/__tests__/factories/video.factory'
+import {
+  VideoStatusVO,
+  type VideoStatus,
+} from '@modules/video-processor/domain/value-objects/video-status.vo'
+import type { Video } from '@modules/video-processor/domain/entities/video'
+import { LoggerStub } from '@core/libs/logging/__tests__/logger.stub'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import type { VideoLiveEvent } from '@modules/video-processor/domain/services/video-live-events'
+
+function makeVideoInStatus(status: VideoStatus): Video {
+  return VideoFactory.create({ status: VideoStatusVO.create(status) })
+}
+
+describe('VideoStatusSyncService', () => {
+  let repository: InMemoryVideoRepository
+  let service: VideoStatusSyncService
+
+  beforeEach(() => {
+    repository = new InMemoryVideoRepository()
+    service = new VideoStatusSyncService(new LoggerStub(), repository)
+  })
+
+  async function storedStatus(videoId: string) {
+    const result = await repository.findById(videoId)
+    return result.value?.status.value
+  }
+
+  it('should skip when video is not found', async () => {
+    const result = await service.sync({
+      videoId: 'missing',
+      status: 'SPLITTING',
+    })
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value).toEqual({
+      skipped: true,
+      reason: 'video_not_found',
+      videoId: 'missing',
+    })
+  })
+
+  it('should persist the next pipeline status', async () => {
+    const video = makeVideoInStatus('PROCESSING')
+    repository.items.push(video)
+
+    const result = await service.sync({
+      videoId: video.id.value,
+      status: 'SPLITTING',
+    })
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.skipped).toBe(false)
+    expect(await storedStatus(video.id.value)).toBe('SPLITTING')
+  })
+
+  it('should walk through intermediate statuses when events arrive ahead', async () => {
+    const video = makeVideoInStatus('UPLOADED')
+    repository.items.push(video)
+
+    const result = await service.sync({
+      videoId: video.id.value,
+      status: 'PRINTING',
+    })
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.status).toBe('PRINTING')
+    expect(video.status.value).toBe('PRINTING')
+    expect(await storedStatus(video.id.value)).toBe('PRINTING')
+  })
+
+  it('should skip duplicated events', async () => {
+    const video = makeVideoInStatus('PRINTING')
+    repository.items.push(video)
+    const transitionSpy = spyOn(repository, 'transitionStatus')
+
+    const result = await service.sync({
+      videoId: video.id.value,
+      status: 'PRINTING',
+    })
+
+    expect(result.value.skipped).toBe(true)
+    expect(result.value.reason).toBe('already_in_status')
+    expect(transitionSpy).not.toHaveBeenCalled()
+  })
+
+  it('should skip stale events behind the current status', async () => {
+    const video = makeVideoInStatus('PRINTING')
+    repository.items.push(video)
+
+    const result = await service.sync({
+      videoId: video.id.value,
+      status: 'SPLITTING',
+    })
+
+    expect(result.value.skipped).toBe(true)
+    expect(result.value.reason).toBe('stale_event')
+    expect(await storedStatus(video.id.value)).toBe('PRINTING')
+  })
+
+  it('should skip events for videos in a terminal status', async () => {
+    const video = makeVideoInStatus('COMPLETED')
+    repository.items.push(video)
+
+    const result = await service.sync({
+      videoId: video.id.value,
+      status: 'FAILED',
+    })
+
+    expect(result.value.skipped).toBe(true)
+    expect(result.value.reason).toBe('terminal_status')
+    expect(await storedStatus(video.id.value)).toBe('COMPLETED')
+  })
+
+  it('should skip late events of the run before a reprocess', async () => {
+    const video = makeVideoInStatus('COMPLETED')
+    video.reprocess()
+    video.clearDomainEvents()
+    repository.items.push(video)
+
+    const result = await service.sync({
+      videoId: video.id.value,
+      status: 'FAILED',
+      errorReason: 'ffmpeg exited with code 1',
+    })
+
+    expect(result.value.skipped).toBe(true)
+    expect(result.value.reason).toBe('other_run')
+    expect(await storedStatus(video.id.value)).toBe('PROCESSING')
+  })
+
+  it('should apply the events of the current run', async () => {
+    const video = makeVideoInStatus('COMPLETED')
+    video.reprocess()
+    video.clearDomainEvents()
+    repository.items.push(video)
+
+    const result = await service.sync({
+      videoId: video.id.value,
+      status: 'SPLITTING',
+      runId: video.currentRun?.runId,
+    })
+
+    expect(result.value.skipped).toBe(false)
+    expect(await storedStatus(video.id.value)).toBe('SPLITTING')
+  })
+
+  it('should persist FAILED with the reported error reason', async () => {
+    const video = makeVideoInStatus('SPLITTING')
+    repository.items.push(video)
+
+    const result = await service.sync({
+      videoId: video.id.value,
+      status: 'FAILED',
+      errorReason: 'ffmpeg exited with code 1',
+    })
+
+    expect(result.isSuccess).toBe(true)
+    const stored = (await repository.findById(video.id.value)).value
+    expect(stored?.status.value).toBe('FAILED')
+    expect(stored?.failureReason).toBe('ffmpeg exited with code 1')
+  })
+
+  it('should record the transition in the status history', async () => {
+    const video = makeVideoInStatus('PRINTING')
+    repository.items.push(video)
+
+    await service.sync({
+      videoId: video.id.value,
+      status: 'FAILED',
+      errorReason: 'ffmpeg crashed',
+    })
+
+    expect(repository.statusHistory).toEqual([
+      expect.objectContaining({
+        videoId: video.id.value,
+        from: 'PRINTING',
+        to: 'FAILED',
+        source: 'VideoStatusSyncService',
+        reason: 'ffmpeg crashed',
+      }),
+    ])
+  })
+
+  it('should fail with a retryable error on concurrent update', async () => {
+    const video = makeVideoInStatus('PROCESSING')
+    repository.items.push(video)
+    spyOn(repository, 'transitionStatus').mockResolvedValue(false)
+
+    const result = await service.sync({
+      videoId: video.id.value,
+      status: 'SPLITTING',
+    })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).not.toBeInstanceOf(NonRetryableError)
+    expect(result.error.message).toContain('Concurrent status update')
+  })
+
+  it('should fail with a non-retryable error when upload is not completed', async () => {
+    const video = makeVideoInStatus('UPLOADING')
+    repository.items.push(video)
+
+    const result = await service.sync({
+      videoId: video.id.value,
+      status: 'SPLITTING',
+    })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(NonRetryableError)
+    expect(await storedStatus(video.id.value)).toBe('UPLOADING')
+  })
+
+  describe('live events', () => {
+    let published: VideoLiveEvent[]
+
+    beforeEach(() => {
+      published = []
+      service = new VideoStatusSyncService(new LoggerStub(), repository, {
+        publish: (event) => published.push(event),
+      })
+    })
+
+    it('should publish every status walked through', async () => {
+      const video = makeVideoInStatus('UPLOADED')
+      repository.items.push(video)
+
+      await service.sync({ videoId: video.id.value, status: 'PRINTING' })
+
+      expect(published).toEqual([
+        {
+          type: 'status-changed',
+          videoId: video.id.value,
+          status: 'SPLITTING',
+        },
+        { type: 'status-changed', videoId: video.id.value, status: 'PRINTING' },
+      ])
+    })
+
+    it('should clear the domain events once dispatched', async () => {
+      const video = makeVideoInStatus('PROCESSING')
+      repository.items.push(video)
+
+      await service.sync({ videoId: video.id.value, status: 'PRINTING' })
+
+      expect(video.domainEvents).toHaveLength(0)
+    })
+
+    it('should publish statuses that raise no domain event', async () => {
+      const video = makeVideoInStatus('PRINTING')
+      repository.items.push(video)
+
+      await service.sync({
+        videoId: video.id.value,
+        status: 'FAILED',
+        errorReason: 'ffmpeg crashed',
+      })
+
+      expect(published).toEqual([
+        {
+          type: 'status-changed',
+          videoId: video.id.value,
+          status: 'FAILED',
+          failureReason: 'ffmpeg crashed',
+        },
+      ])
+    })
+
+    it('should not publish skipped events', async () => {
+      const video = makeVideoInStatus('COMPLETED')
+      repository.items.push(video)
+
+      await service.sync({ videoId: video.id.value, status: 'COMPLETED' })
+
+      expect(published).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,274 @@
+import type { OutboxRepository } from '@core/abstractions/messaging'
+import { Result } from '@core/domain/result'
+import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import { msToNs } from '@core/libs/logging/log-event'
+import type { Video } from '@modules/video-processor/domain/entities/video'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type { UploadVideoPartsService } from '@modules/video-processor/domain/services/upload-video-parts.service.interface'
+import {
+  publishLiveEvents,
+  type VideoLiveEventPublisher,
+} from '@modules/video-processor/domain/services/video-live-events'
+import {
+  videoOutboxMessage,
+  type VideoOutboxContext,
+} from '@modules/video-processor/domain/services/video-outbox'
+import { createVideoEventDispatcher } from '@modules/video-processor/events/video-event-dispatcher'
+import { VideoUploadExpiredEvent } from '@modules/video-processor/events/video-upload-expired-event'
+
+const resource = 'ExpireStaleUploadsService'
+
+export const UPLOAD_EXPIRED_REASON = 'upload_expired'
+
+export type ExpireStaleUploadsOptions = {
+  /** Uploads without activity for longer than this are expired */
+  ttlMs: number
+  pageSize: number
+}
+
+export type ExpireStaleUploadsSummary = {
+  scanned: number
+  expired: string[]
+  /** Pending entries dropped because the video already left CREATED/UPLOADING */
+  released: number
+  failed: number
+}
+
+/**
+ * ExpireStaleUploadsService - Fails uploads abandoned by the client.
+ *
+ * Walks the pending uploads and, for each video still CREATED/UPLOADING whose
+ * last activity (row update or part upload) is older than the TTL:
+ * 1. Conditional transition to FAILED with reason `upload_expired` (LWT), so a
+ *    concurrent completion or cancellation wins cleanly
+ * 2. Aborts the S3 multipart upload (best effort)
+ * 3. Saves the status and the VideoUploadExpired message (`Video Status
+ *    Changed`, FAILED) in one batch, published later by the outbox relay
+ *
+ * The pending entry is only removed after the batch, so if the process dies
+ * in between, the next sweep finds the video FAILED and records the message
+ * again; its messageId is deterministic, so it is never published twice.
+ *
+ * A failure on one video is logged and does not stop the sweep.
+ */
+export class ExpireStaleUploadsService {
+  private readonly events = createVideoEventDispatcher()
+
+  constructor(
+    private readonly logger: AbstractLoggerService,
+    private readonly videoRepository: VideoRepository,
+    private readonly uploadService: UploadVideoPartsService,
+    private readonly outbox: Pick<OutboxRepository, 'add'>,
+    private readonly options: ExpireStaleUploadsOptions,
+    liveEvents?: VideoLiveEventPublisher,
+  ) {
+    publishLiveEvents(this.events, liveEvents)
+  }
+
+  async run(
+    now: Date = new Date(),
+  ): Promise<Result<ExpireStaleUploadsSummary, Error>> {
+    const startTime = performance.now()
+    const expiresBefore = now.getTime() - this.options.ttlMs
+    const summary: ExpireStaleUploadsSummary = {
+      scanned: 0,
+      expired: [],
+      released: 0,
+      failed: 0,
+    }
+
+    this.logger.log('Stale upload sweep started', {
+      event: 'video.upload_janitor.started',
+      resource,
+      message: 'Starting stale upload sweep',
+      ttlMs: this.options.ttlMs,
+    })
+
+    let cursor: string | undefined
+    do {
+      const pageResult = await this.videoRepository.findPendingUploads({
+        pageSize: this.options.pageSize,
+        cursor,
+      })
+      if (pageResult.isFailure) {
+        this.logger.error('Stale upload sweep failed', {
+          event: 'video.upload_janitor.completed',
+          resource,
+          message: 'Failed to list pending uploads',
+          status: 'failure',
+          duration: msToNs(performance.now() - startTime),
+          error: {
+            message: pageResult.error.message,
+            kind: pageResult.error.constructor.name,
+            stack: pageResult.error.stack,
+          },
+        })
+        return Result.fail(pageResult.error)
+      }
+
+      for (const video of pageResult.value.items) {
+        summary.scanned += 1
+        await this.sweep(video, expiresBefore, summary)
+      }
+
+      cursor = pageResult.value.nextCursor
+    } while (cursor)
+
+    this.logger.log('Stale upload sweep completed', {
+      event: 'video.upload_janitor.completed',
+      resource,
+      message: 'Stale upload sweep completed',
+      status: summary.failed > 0 ? 'failure' : 'success',
+      duration: msToNs(performance.now() - startTime),
+      scanned: summary.scanned,
+      expired: summary.expired.length,
+      released: summary.released,
+      failed: summary.failed,
+    })
+
+    return Result.ok(summary)
+  }
+
+  private async sweep(
+    video: Video,
+    expiresBefore: number,
+    summary: ExpireStaleUploadsSummary,
+  ): Promise<void> {
+    const status = video.status.value
+    if (status !== 'CREATED' && status !== 'UPLOADING') {
+      if (
+        video.status.isFailed() &&
+        video.failureReason === UPLOAD_EXPIRED_REASON
+      ) {
+        const repairResult = await this.recordExpired(video)
+        if (repairResult.isFailure) {
+          summary.failed += 1
+          this.logFailure(repairResult.error, video)
+          return
+        }
+      }
+
+      const removed = await this.videoRepository.removePendingUpload(
+        video.id.value,
+      )
+      if (removed.isSuccess) summary.released += 1
+      return
+    }
+
+    if (video.lastUploadActivityAt().getTime() > expiresBefore) return
+
+    const result = await this.expire(video)
+    if (result.isSuccess) {
+      if (result.value) summary.expired.push(video.id.value)
+      return
+    }
+
+    summary.failed += 1
+    this.logFailure(result.error, video)
+  }
+
+  private logFailure(error: Error, video: Video): void {
+    this.logger.error('Failed to expire upload', {
+      event: 'video.upload_janitor.expired',
+      resource,
+      message: 'Failed to expire stale upload',
+      status: 'failure',
+      error: {
+        message: error.message,
+        kind: error.constructor.name,
+        stack: error.stack,
+      },
+      'video.id': video.id.value,
+    })
+  }
+
+  /** Returns false when another process changed the status first */
+  private async expire(video: Video): Promise<Result<boolean, Error>> {
+    const videoId = video.id.value
+    const currentStatus = video.status.value
+
+    const transitioned = await this.videoRepository.transitionStatus(
+      videoId,
+      currentStatus,
+      'FAILED',
+      { failureReason: UPLOAD_EXPIRED_REASON, source: resource },
+    )
+    if (!transitioned) {
+      this.logger.log('Stale upload skipped (concurrent update)', {
+        event: 'video.upload_janitor.expired',
+        resource,
+        message: 'Concurrent update detected, skipping',
+        status: 'skipped',
+        'video.id': videoId,
+      })
+      return Result.ok(false)
+    }
+
+    const integration = video.thirdPartyVideoIntegration
+    if (integration?.uploadId) {
+      const abortResult = await this.uploadService.abortMultipartUpload(
+        integration.bucket,
+        integration.key,
+        integration.uploadId,
+      )
+      if (abortResult.isFailure) {
+        this.logger.warn('Failed to abort expired multipart upload', {
+          event: 'video.upload_janitor.expired',
+          resource,
+          message: abortResult.error.message,
+          status: 'failure',
+          'video.id': videoId,
+        })
+      }
+    }
+
+    const expireResult = video.expireUpload(UPLOAD_EXPIRED_REASON)
+    if (expireResult.isFailure) return Result.fail(expireResult.error)
+
+    const described = this.events.describe(video.domainEvents)
+    if (described.isFailure) return Result.fail(described.error)
+
+    const saveResult = await this.videoRepository.saveWithOutbox(
+      video,
+      described.value.map((dispatched) =>
+        videoOutboxMessage(dispatched, outboxContext()),
+      ),
+    )
+    if (saveResult.isFailure) return Result.fail(saveResult.error)
+
+    // Already recorded in the outbox: only the live events are left to publish
+    await this.events.dispatch(video)
+
+    const removed = await this.videoRepository.removePendingUpload(videoId)
+    if (removed.isFailure) return Result.fail(removed.error)
+
+    this.logger.log('Stale upload expired', {
+      event: 'video.upload_janitor.expired',
+      resource,
+      message: 'Upload expired',
+      status: 'success',
+      'video.id': videoId,
+      'video.previousStatus': currentStatus,
+      'video.status': 'FAILED',
+    })
+
+    return Result.ok(true)
+  }
+
+  /** Records the VideoUploadExpired message of a video already expired */
+  private async recordExpired(video: Video): Promise<Result<void, Error>> {
+    const described = this.events.describe([new VideoUploadExpiredEvent(video)])
+    if (described.isFailure) return Result.fail(described.error)
+
+    return this.outbox.add(
+      described.value.map((dispatched) =>
+        videoOutboxMessage(dispatched, outboxContext()),
+      ),
+    )
+  }
+}
+
+/** The janitor runs outside any request: each expiry starts its own trace */
+function outboxContext(): VideoOutboxContext {
+  return { correlationId: crypto.randomUUID(), traceId: crypto.randomUUID() }
+}
@@ -0,0 +1,52 @@
+import { Result } from '@core/domain/result'
+
+export type FramesArchiveLink = {
+  /** Presigned URL of the zip (or the manifest) of every frame of the video */
+  url: string
+  expiresAt: Date
+}
+
+export type FrameLink = {
+  key: string
+  segmentNumber: number
+  /** 1-based position of the frame inside its segment */
+  frameNumber: number
+  /** Position in the video, for frames named after it (scene mode) */
+  timestampMs?: number
+  url: string
+  expiresAt: Date
+}
+
+export type ListFramesOptions = {
+  pageSize: number
+  cursor?: string
+  /** Lifetime of each presigned URL, in seconds */
+  expiresIn?: number
+  /** Lists the frames of a reprocess run instead of the first one */
+  runId?: string
+}
+
+export type FramesPage = {
+  /** Ordered by segment, then frame */
+  items: FrameLink[]
+  nextCursor?: string
+}
+
+export interface FramesDownloadService {
+  createArchiveDownloadURL(
+    videoId: string,
+    runId?: string,
+  ): Promise<Result<FramesArchiveLink, Error>>
+
+  /** `prints/manifest.json`: timestamp, size and checksum of every frame */
+  createManifestDownloadURL(
+    videoId: string,
+    runId?: string,
+  ): Promise<Result<FramesArchiveLink, Error>>
+
+  /** Fails with InvalidCursorError when the cursor cannot be decoded */
+  listFrames(
+    videoId: string,
+    options: ListFramesOptions,
+  ): Promise<Result<FramesPage, Error>>
+}
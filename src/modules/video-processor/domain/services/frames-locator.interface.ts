@@ -0,0 +1,15 @@
+export type FramesLocation = {
+  bucket: string
+  /** Key prefix under which the frames of every segment are stored */
+  prefix: string
+  url: string
+  /** Key of the zip with every frame (see FramesDownloadService) */
+  archiveKey: string
+  /** Key of the JSON with the timestamp and checksum of every frame */
+  manifestKey: string
+}
+
+export interface FramesLocator {
+  /** `runId` locates the frames of a reprocess run instead of the first one */
+  locate(videoId: string, runId?: string): FramesLocation
+}
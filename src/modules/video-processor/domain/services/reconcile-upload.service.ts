@@ -1,11 +1,20 @@
+import type { OutboxRepository } from '@core/abstractions/messaging'
 import { Result } from '@core/domain/result'
-import { DefaultEventBridge } from '@core/events/event-bridge'
 import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
 import { msToNs } from '@core/libs/logging/log-event'
 import { CorrelationStore } from '@core/libs/context'
-import { EnvelopeFactory } from '@core/messaging'
 import type { Video } from '@modules/video-processor/domain/entities/video'
 import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import {
+  publishLiveEvents,
+  type VideoLiveEventPublisher,
+} from '@modules/video-processor/domain/services/video-live-events'
+import {
+  videoOutboxMessage,
+  type VideoOutboxContext,
+} from '@modules/video-processor/domain/services/video-outbox'
+import { createVideoEventDispatcher } from '@modules/video-processor/events/video-event-dispatcher'
+import { VideoUploadedEvent } from '@modules/video-processor/events/video-uploaded-event'
 
 const resource = 'ReconcileUploadService'
 
@@ -29,7 +38,14 @@ export type ReconcileResult = {
  * this service performs:
  * 1. Idempotency check (skip if already processed)
  * 2. Conditional status transition (UPLOADING → UPLOADED)
- * 3. Domain entity transition + event emission to EventBridge
+ * 3. Domain entity transition + outbox write: the status and the
+ *    VideoUploaded message go in one logged batch, published later by the
+ *    outbox relay
+ *
+ * The LWT and the batch cannot be a single statement (Cassandra rejects
+ * conditional batches spanning tables). If the process dies between them, the
+ * retried message finds the video UPLOADED and records the outbox message
+ * again; its messageId is deterministic, so it is never published twice.
  *
  * It does NOT handle:
  * - Video lookup (caller's responsibility)
@@ -37,11 +53,16 @@ export type ReconcileResult = {
  * - Source-specific logic
  */
 export class ReconcileUploadService {
+  private readonly events = createVideoEventDispatcher()
+
   constructor(
     private readonly logger: AbstractLoggerService,
     private readonly videoRepository: VideoRepository,
-    private readonly eventBridge: DefaultEventBridge,
-  ) {}
+    private readonly outbox: Pick<OutboxRepository, 'add'>,
+    liveEvents?: VideoLiveEventPublisher,
+  ) {
+    publishLiveEvents(this.events, liveEvents)
+  }
 
   async reconcile(
     params: ReconcileParams,
@@ -52,6 +73,7 @@ export class ReconcileUploadService {
 
     const correlationId = CorrelationStore.correlationId ?? params.correlationId
     const traceId = CorrelationStore.traceId ?? params.traceId
+    const outboxContext: VideoOutboxContext = { correlationId, traceId }
 
     this.logger.log('Video reconcile started', {
       event: 'video.reconcile.started',
@@ -61,6 +83,26 @@ export class ReconcileUploadService {
     })
 
     if (video.isAlreadyUploaded()) {
+      if (video.status.value === 'UPLOADED') {
+        const repairResult = await this.recordUploaded(video, outboxContext)
+        if (repairResult.isFailure) {
+          this.logger.error('Video reconcile failed (outbox repair)', {
+            event: 'video.reconcile.completed',
+            resource,
+            message: 'Failed to record the VideoUploaded outbox message',
+            status: 'failure',
+            duration: msToNs(performance.now() - startTime),
+            error: {
+              message: repairResult.error.message,
+              kind: repairResult.error.constructor.name,
+              stack: repairResult.error.stack,
+            },
+            'video.id': videoId,
+          })
+          return Result.fail(repairResult.error)
+        }
+      }
+
       this.logger.log('Video reconcile completed (skipped, idempotent)', {
         event: 'video.reconcile.completed',
         resource,
@@ -82,6 +124,7 @@ export class ReconcileUploadService {
       videoId,
       'UPLOADING',
       'UPLOADED',
+      { source: resource, correlationId },
     )
 
     if (!transitioned) {
@@ -120,35 +163,31 @@ export class ReconcileUploadService {
       })
     }
 
-    const events = video.domainEvents
-    const eventResults = await this.emitDomainEvents(
-      events,
-      video,
-      correlationId,
-      traceId,
-    )
-
-    if (eventResults.some((r) => r.isFailure)) {
-      const failedEvent = eventResults.find((r) => r.isFailure)
-      const err = failedEvent?.error
-      this.logger.error('Video reconcile failed (event emission)', {
+    // The row is already UPLOADED: without the entity transition, only the
+    // outbox message is written so the stale entity status is not persisted
+    const saveResult = transitionResult.isSuccess
+      ? await this.saveWithOutbox(video, outboxContext)
+      : await this.recordUploaded(video, outboxContext)
+    if (saveResult.isFailure) {
+      this.logger.error('Video reconcile failed (outbox write)', {
         event: 'video.reconcile.completed',
         resource,
-        message: 'Failed to emit some events',
+        message: 'Failed to save video with outbox messages',
         status: 'failure',
         duration: msToNs(performance.now() - startTime),
-        error:
-          err instanceof Error
-            ? {
-                message: err.message,
-                kind: err.constructor.name,
-                stack: err.stack,
-              }
-            : { message: String(err), kind: 'Error' },
+        error: {
+          message: saveResult.error.message,
+          kind: saveResult.error.constructor.name,
+          stack: saveResult.error.stack,
+        },
         'video.id': videoId,
       })
+      return Result.fail(saveResult.error)
     }
 
+    // Already recorded in the outbox: only the live events are left to publish
+    await this.events.dispatch(video)
+
     this.logger.log('Video reconcile completed successfully', {
       event: 'video.reconcile.completed',
       resource,
@@ -157,7 +196,7 @@ export class ReconcileUploadService {
       duration: msToNs(performance.now() - startTime),
       'video.id': videoId,
       'video.status': 'UPLOADED',
-      eventsEmitted: events.length,
+      eventsRecorded: saveResult.value,
     })
 
     return Result.ok({
@@ -167,36 +206,40 @@ export class ReconcileUploadService {
     })
   }
 
-  private async emitDomainEvents(
-    events: readonly { eventName: string }[],
+  /** Saves the status and the messages of the raised events in one batch */
+  private async saveWithOutbox(
     video: Video,
-    correlationId: string,
-    traceId?: string,
-  ): Promise<Result<unknown, Error>[]> {
-    const envelopeFactory = new EnvelopeFactory()
-
-    return Promise.all(
-      events.map((_event) =>
-        this.eventBridge.send(
-          envelopeFactory.createEnvelope(
-            {
-              videoId: video.id.value,
-              videoPath:
-                video.thirdPartyVideoIntegration?.path ?? video.id.value,
-              status: 'UPLOADED',
-              duration: video.metadata.durationMs,
-              videoName: video.metadata.fullFilename,
-              timestamp: new Date().toISOString(),
-            },
-            {
-              correlationId,
-              source: 'fiapx.video',
-              eventType: 'Video Status Changed',
-              traceId: traceId ?? crypto.randomUUID(),
-            },
-          ),
-        ),
-      ),
+    context: VideoOutboxContext,
+  ): Promise<Result<number, Error>> {
+    const described = this.events.describe(video.domainEvents)
+    if (described.isFailure) return Result.fail(described.error)
+
+    const messages = described.value.map((dispatched) =>
+      videoOutboxMessage(dispatched, context),
+    )
+    const saveResult = await this.videoRepository.saveWithOutbox(
+      video,
+      messages,
+    )
+    if (saveResult.isFailure) return Result.fail(saveResult.error)
+
+    return Result.ok(messages.length)
+  }
+
+  /** Records the VideoUploaded message of a video whose row is already UPLOADED */
+  private async recordUploaded(
+    video: Video,
+    context: VideoOutboxContext,
+  ): Promise<Result<number, Error>> {
+    const described = this.events.describe([new VideoUploadedEvent(video)])
+    if (described.isFailure) return Result.fail(described.error)
+
+    const messages = described.value.map((dispatched) =>
+      videoOutboxMessage(dispatched, context),
     )
+    const addResult = await this.outbox.add(messages)
+    if (addResult.isFailure) return Result.fail(addResult.error)
+
+    return Result.ok(messages.length)
   }
 }
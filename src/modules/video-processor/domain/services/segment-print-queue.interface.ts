@@ -0,0 +1,17 @@
+import { Result } from '@core/domain/result'
+import type { Video } from '@modules/video-processor/domain/entities/video'
+import type { VideoSegment } from '@modules/video-processor/domain/entities/video-segment'
+
+export type SegmentPrintContext = {
+  correlationId: string
+  traceId?: string
+}
+
+export interface SegmentPrintQueue {
+  /** Sends the segments of the video to the print workers again */
+  enqueue(
+    video: Video,
+    segments: VideoSegment[],
+    context: SegmentPrintContext,
+  ): Promise<Result<void, Error>>
+}
@@ -0,0 +1,72 @@
+import { Result } from '@core/domain/result'
+import {
+  VIDEO_DOMAIN_EVENTS,
+  type VideoEventDispatcher,
+} from '@modules/video-processor/events/video-event-dispatcher'
+import type { VideoStatus } from '@modules/video-processor/domain/value-objects/video-status.vo'
+
+export type VideoProgress = {
+  total: number
+  processed: number
+  percentage: number
+}
+
+/**
+ * Progress notifications pushed to clients watching a video
+ * (`GET /videos/:id/events`). Unlike EventBridge events they never leave the
+ * process, so losing one only costs the client a refresh.
+ */
+export type VideoLiveEvent =
+  | {
+      type: 'part-reported'
+      videoId: string
+      partNumber: number
+      uploadedParts: number
+      totalParts: number
+      percentage: number
+    }
+  | {
+      type: 'status-changed'
+      videoId: string
+      status: VideoStatus
+      failureReason?: string
+    }
+  | ({
+      type: 'segment-processed'
+      videoId: string
+    } & VideoProgress)
+
+export type VideoLiveEventListener = (event: VideoLiveEvent) => void
+
+export interface VideoLiveEventPublisher {
+  publish(event: VideoLiveEvent): void
+}
+
+export interface VideoLiveEventSubscriber {
+  /** Returns the function that removes the listener */
+  subscribe(videoId: string, listener: VideoLiveEventListener): () => void
+}
+
+/**
+ * Pushes a `status-changed` live event for each event the dispatcher delivers.
+ * Register it after the handlers that persist or publish the events, so
+ * clients are not told about a change that was not recorded.
+ */
+export function publishLiveEvents(
+  dispatcher: VideoEventDispatcher,
+  publisher?: VideoLiveEventPublisher,
+): void {
+  if (!publisher) return
+
+  for (const eventClass of VIDEO_DOMAIN_EVENTS) {
+    dispatcher.on(eventClass, async ({ payload }) => {
+      publisher.publish({
+        type: 'status-changed',
+        videoId: payload.videoId,
+        status: payload.status,
+        ...(payload.errorReason && { failureReason: payload.errorReason }),
+      })
+      return Result.ok(undefined)
+    })
+  }
+}
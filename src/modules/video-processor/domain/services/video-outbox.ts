@@ -0,0 +1,40 @@
+import {
+  createOutboxMessage,
+  EnvelopeFactory,
+  type OutboxMessage,
+} from '@core/messaging'
+import type { DispatchedVideoEvent } from '@modules/video-processor/events/video-event-dispatcher'
+
+export type VideoOutboxContext = {
+  correlationId: string
+  traceId?: string
+}
+
+/**
+ * Builds the outbox message announcing a domain event of the Video aggregate.
+ * The messageId is derived from the video, the event and the processing run,
+ * so recording the same event again (e.g. on a retried request) reuses the
+ * outbox row while every reprocess gets its own.
+ */
+export function videoOutboxMessage(
+  dispatched: DispatchedVideoEvent,
+  context: VideoOutboxContext,
+): OutboxMessage {
+  const { videoId, runId } = dispatched.payload
+
+  return createOutboxMessage({
+    aggregateType: 'Video',
+    aggregateId: videoId,
+    eventName: dispatched.eventName,
+    destination: 'eventbridge',
+    deduplicationKey: runId
+      ? `Video:${videoId}:${dispatched.eventName}:${runId}`
+      : `Video:${videoId}:${dispatched.eventName}`,
+    envelope: new EnvelopeFactory().createEnvelope(dispatched.payload, {
+      correlationId: context.correlationId,
+      source: 'fiapx.video',
+      eventType: dispatched.eventType,
+      traceId: context.traceId ?? crypto.randomUUID(),
+    }),
+  })
+}
@@ -0,0 +1,291 @@
+import { Result } from '@core/domain/result'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import { msToNs } from '@core/libs/logging/log-event'
+import type { Video } from '@modules/video-processor/domain/entities/video'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type { VideoStatus } from '@modules/video-processor/domain/value-objects/video-status.vo'
+import {
+  publishLiveEvents,
+  type VideoLiveEventPublisher,
+} from '@modules/video-processor/domain/services/video-live-events'
+import { createVideoEventDispatcher } from '@modules/video-processor/events/video-event-dispatcher'
+
+const resource = 'VideoStatusSyncService'
+
+/**
+ * Forward order of the processing pipeline after the upload is completed.
+ * FAILED is handled separately because it is reachable from any of these.
+ */
+const PIPELINE_SEQUENCE: VideoStatus[] = [
+  'UPLOADED',
+  'PROCESSING',
+  'SPLITTING',
+  'PRINTING',
+  'COMPLETED',
+]
+
+const DEFAULT_FAILURE_REASON = 'Processing failed'
+
+export type VideoStatusSyncParams = {
+  videoId: string
+  status: VideoStatus
+  errorReason?: string
+  /** Run the event belongs to; absent for the upload's own run */
+  runId?: string
+}
+
+export type VideoStatusSyncResult = {
+  skipped: boolean
+  reason?:
+    | 'video_not_found'
+    | 'already_in_status'
+    | 'terminal_status'
+    | 'stale_event'
+    | 'other_run'
+  videoId: string
+  status?: VideoStatus
+}
+
+/**
+ * VideoStatusSyncService - Persists status changes reported by the workers.
+ *
+ * Workers only emit `Video Status Changed` events, so this service applies them
+ * to the Video aggregate and to Cassandra:
+ * 1. Idempotency: events for the current or a terminal status are skipped,
+ *    and so are late events of a run the video was reprocessed after
+ * 2. Out-of-order delivery: events behind the current status are skipped, and
+ *    events ahead of it walk the aggregate through the intermediate statuses
+ * 3. Conditional update via transitionStatus (LWT), retried on concurrent update
+ */
+export class VideoStatusSyncService {
+  private readonly events = createVideoEventDispatcher()
+
+  constructor(
+    private readonly logger: AbstractLoggerService,
+    private readonly videoRepository: VideoRepository,
+    private readonly liveEvents?: VideoLiveEventPublisher,
+  ) {
+    publishLiveEvents(this.events, liveEvents)
+  }
+
+  async sync(
+    params: VideoStatusSyncParams,
+  ): Promise<Result<VideoStatusSyncResult, Error>> {
+    const startTime = performance.now()
+    const { videoId, status: targetStatus } = params
+
+    this.logger.log('Video status sync started', {
+      event: 'video.status_sync.started',
+      resource,
+      message: 'Starting status sync',
+      'video.id': videoId,
+      'video.status': targetStatus,
+    })
+
+    const videoResult = await this.videoRepository.findById(videoId)
+    if (videoResult.isFailure) return Result.fail(videoResult.error)
+
+    const video = videoResult.value
+    if (!video) {
+      this.logger.warn('Video status sync skipped (video not found)', {
+        event: 'video.status_sync.completed',
+        resource,
+        message: 'Video not found',
+        status: 'skipped',
+        duration: msToNs(performance.now() - startTime),
+        'video.id': videoId,
+      })
+      return Result.ok({ skipped: true, reason: 'video_not_found', videoId })
+    }
+
+    const currentStatus = video.status.value
+    const skipReason = this.getSkipReason(video, targetStatus, params.runId)
+    if (skipReason) {
+      this.logger.log('Video status sync skipped', {
+        event: 'video.status_sync.completed',
+        resource,
+        message: `Status event skipped: ${skipReason}`,
+        status: 'skipped',
+        duration: msToNs(performance.now() - startTime),
+        'video.id': videoId,
+        'video.status': currentStatus,
+        'video.targetStatus': targetStatus,
+        reason: skipReason,
+      })
+      return Result.ok({
+        skipped: true,
+        reason: skipReason,
+        videoId,
+        status: currentStatus,
+      })
+    }
+
+    const path = this.planTransitions(currentStatus, targetStatus)
+    if (!path) {
+      return Result.fail(
+        new NonRetryableError(
+          `Cannot sync video ${videoId} from ${currentStatus} to ${targetStatus}`,
+        ),
+      )
+    }
+
+    const failureReason =
+      targetStatus === 'FAILED'
+        ? (params.errorReason ?? DEFAULT_FAILURE_REASON)
+        : undefined
+
+    const transitioned = await this.videoRepository.transitionStatus(
+      videoId,
+      currentStatus,
+      targetStatus,
+      { failureReason, source: resource },
+    )
+
+    if (!transitioned) {
+      this.logger.warn('Video status sync failed (concurrent update)', {
+        event: 'video.status_sync.completed',
+        resource,
+        message: 'Concurrent update detected, will retry',
+        status: 'failure',
+        duration: msToNs(performance.now() - startTime),
+        'video.id': videoId,
+        'video.status': currentStatus,
+        'video.targetStatus': targetStatus,
+      })
+      return Result.fail(
+        new Error(
+          `Concurrent status update for video ${videoId} (expected ${currentStatus})`,
+        ),
+      )
+    }
+
+    for (const step of path) {
+      const stepResult = this.applyStep(video, step, failureReason)
+      if (stepResult.isFailure) {
+        this.logger.error('Video status sync failed (entity transition)', {
+          event: 'video.status_sync.completed',
+          resource,
+          message: 'Failed to transition video status in entity',
+          status: 'failure',
+          error: {
+            message: stepResult.error.message,
+            kind: stepResult.error.constructor.name,
+            stack: stepResult.error.stack,
+          },
+          'video.id': videoId,
+        })
+        break
+      }
+    }
+
+    await this.dispatchEvents(video, targetStatus, failureReason)
+
+    this.logger.log('Video status sync completed', {
+      event: 'video.status_sync.completed',
+      resource,
+      message: 'Status synced successfully',
+      status: 'success',
+      duration: msToNs(performance.now() - startTime),
+      'video.id': videoId,
+      'video.previousStatus': currentStatus,
+      'video.status': targetStatus,
+    })
+
+    return Result.ok({ skipped: false, videoId, status: targetStatus })
+  }
+
+  private getSkipReason(
+    video: Video,
+    targetStatus: VideoStatus,
+    runId?: string,
+  ): VideoStatusSyncResult['reason'] | undefined {
+    if (runId !== video.currentRun?.runId) return 'other_run'
+    if (video.status.value === targetStatus) return 'already_in_status'
+    if (video.status.isTerminal()) return 'terminal_status'
+
+    if (targetStatus === 'FAILED') return undefined
+
+    const currentIndex = PIPELINE_SEQUENCE.indexOf(video.status.value)
+    const targetIndex = PIPELINE_SEQUENCE.indexOf(targetStatus)
+    if (currentIndex !== -1 && targetIndex <= currentIndex) {
+      return 'stale_event'
+    }
+
+    return undefined
+  }
+
+  /**
+   * Returns the ordered statuses the aggregate must go through to reach
+   * `targetStatus`, or null when the target is unreachable from `currentStatus`
+   * (e.g. a processing event for a video that has not finished uploading).
+   */
+  private planTransitions(
+    currentStatus: VideoStatus,
+    targetStatus: VideoStatus,
+  ): VideoStatus[] | null {
+    if (targetStatus === 'FAILED') return ['FAILED']
+
+    const currentIndex = PIPELINE_SEQUENCE.indexOf(currentStatus)
+    const targetIndex = PIPELINE_SEQUENCE.indexOf(targetStatus)
+    if (currentIndex === -1 || targetIndex === -1) return null
+
+    return PIPELINE_SEQUENCE.slice(currentIndex + 1, targetIndex + 1)
+  }
+
+  /**
+   * SPLITTING/PRINTING come from the aggregate's domain events; the other
+   * statuses raise none, so the target status is published explicitly. The
+   * workers already announce these statuses on EventBridge, so the events are
+   * only dispatched to the live event handlers here.
+   */
+  private async dispatchEvents(
+    video: Video,
+    targetStatus: VideoStatus,
+    failureReason?: string,
+  ): Promise<void> {
+    const dispatched = await this.events.dispatch(video)
+    if (dispatched.isFailure) {
+      this.logger.warn('Failed to dispatch video domain events', {
+        event: 'video.status_sync.completed',
+        resource,
+        message: dispatched.error.message,
+        status: 'failure',
+        'video.id': video.id.value,
+      })
+    }
+
+    const lastStatus = dispatched.isSuccess
+      ? dispatched.value.at(-1)?.payload.status
+      : undefined
+    if (lastStatus === targetStatus) return
+
+    this.liveEvents?.publish({
+      type: 'status-changed',
+      videoId: video.id.value,
+      status: targetStatus,
+      failureReason,
+    })
+  }
+
+  private applyStep(
+    video: Video,
+    step: VideoStatus,
+    failureReason?: string,
+  ): Result<Video, Error> {
+    switch (step) {
+      case 'PROCESSING':
+        return video.startProcessing()
+      case 'SPLITTING':
+        return video.startSplitting()
+      case 'PRINTING':
+        return video.startPrinting()
+      case 'COMPLETED':
+        return video.markAsCompleted()
+      case 'FAILED':
+        return video.markAsFailed(failureReason ?? DEFAULT_FAILURE_REASON)
+      default:
+        return Result.fail(new Error(`Unsupported sync status: ${step}`))
+    }
+  }
+}
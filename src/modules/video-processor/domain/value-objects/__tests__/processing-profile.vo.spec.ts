@@ -0,0 +1,220 @@
+import { InvalidProcessingProfileError } from '@core/errors/invalid-processing-profile.error'
+import { ProcessingProfileVO } from '@modules/video-processor/domain/value-objects/processing-profile.vo'
+import { describe, expect, it } from 'bun:test'
+
+describe('ProcessingProfileVO', () => {
+  describe('create', () => {
+    it('should default to one jpg per second', () => {
+      const result = ProcessingProfileVO.create()
+
+      expect(result.isSuccess).toBeTrue()
+      expect(result.value.toJSON()).toEqual({ frameInterval: 1, format: 'jpg' })
+      expect(result.value.toJSON()).toEqual(
+        ProcessingProfileVO.default().toJSON(),
+      )
+    })
+
+    it('should create a profile sampled by fps', () => {
+      const result = ProcessingProfileVO.create({
+        fps: 5,
+        format: 'WEBP',
+        maxWidth: 1280,
+        maxHeight: 720,
+        quality: 80,
+      })
+
+      expect(result.isSuccess).toBeTrue()
+      expect(result.value.toJSON()).toEqual({
+        fps: 5,
+        format: 'webp',
+        maxWidth: 1280,
+        maxHeight: 720,
+        quality: 80,
+      })
+    })
+
+    it('should fail when both frameInterval and fps are given', () => {
+      const result = ProcessingProfileVO.create({ frameInterval: 1, fps: 2 })
+
+      expect(result.isFailure).toBeTrue()
+      expect(result.error.message).toContain('not both')
+    })
+
+    it.each([0, -1, 11])('should fail with frameInterval %p', (interval) => {
+      const result = ProcessingProfileVO.create({ frameInterval: interval })
+
+      expect(result.isFailure).toBeTrue()
+    })
+
+    it.each([0, 31])('should fail with fps %p', (fps) => {
+      const result = ProcessingProfileVO.create({ fps })
+
+      expect(result.isFailure).toBeTrue()
+    })
+
+    it('should fail with an unsupported format', () => {
+      const result = ProcessingProfileVO.create({ format: 'gif' })
+
+      expect(result.isFailure).toBeTrue()
+      expect(result.error.message).toContain('Supported: jpg, png, webp')
+    })
+
+    it.each([0, 1.5, 10000])('should fail with maxWidth %p', (maxWidth) => {
+      const result = ProcessingProfileVO.create({ maxWidth })
+
+      expect(result.isFailure).toBeTrue()
+    })
+
+    it.each([0, 101, 50.5])('should fail with quality %p', (quality) => {
+      const result = ProcessingProfileVO.create({ quality })
+
+      expect(result.isFailure).toBeTrue()
+    })
+
+    it('should fail with quality for png frames', () => {
+      const result = ProcessingProfileVO.create({ format: 'png', quality: 90 })
+
+      expect(result.isFailure).toBeTrue()
+      expect(result.error.message).toContain('png')
+    })
+  })
+
+  describe('create (scene mode)', () => {
+    it('should default the scene threshold', () => {
+      const result = ProcessingProfileVO.create({
+        mode: 'scene',
+        maxFrames: 20,
+      })
+
+      expect(result.isSuccess).toBeTrue()
+      expect(result.value.mode).toBe('scene')
+      expect(result.value.toJSON()).toEqual({
+        mode: 'scene',
+        sceneThreshold: 0.3,
+        maxFrames: 20,
+        format: 'jpg',
+      })
+    })
+
+    it('should fail with a sampling rate', () => {
+      const result = ProcessingProfileVO.create({ mode: 'scene', fps: 2 })
+
+      expect(result.isFailure).toBeTrue()
+    })
+
+    it.each([0, 1])('should fail with sceneThreshold %p', (sceneThreshold) => {
+      const result = ProcessingProfileVO.create({
+        mode: 'scene',
+        sceneThreshold,
+      })
+
+      expect(result.isFailure).toBeTrue()
+    })
+
+    it('should fail when minFrames exceeds maxFrames', () => {
+      const result = ProcessingProfileVO.create({
+        mode: 'scene',
+        minFrames: 5,
+        maxFrames: 2,
+      })
+
+      expect(result.isFailure).toBeTrue()
+      expect(result.error.message).toContain('minFrames')
+    })
+
+    it('should fail with scene settings in the interval mode', () => {
+      const result = ProcessingProfileVO.create({ sceneThreshold: 0.4 })
+
+      expect(result.isFailure).toBeTrue()
+      expect(result.error.message).toContain('scene mode')
+    })
+
+    it('should fail with an unknown mode', () => {
+      const result = ProcessingProfileVO.create({ mode: 'keyframes' })
+
+      expect(result.isFailure).toBeTrue()
+    })
+  })
+
+  describe('secondsBetweenFrames', () => {
+    it('should be the frame interval', () => {
+      const profile = ProcessingProfileVO.create({ frameInterval: 2 }).value
+
+      expect(profile.secondsBetweenFrames).toBe(2)
+    })
+
+    it('should be derived from fps', () => {
+      const profile = ProcessingProfileVO.create({ fps: 4 }).value
+
+      expect(profile.secondsBetweenFrames).toBe(0.25)
+    })
+  })
+
+  describe('firstFrameTime', () => {
+    it('should round the start up to the frame grid of the video', () => {
+      const profile = ProcessingProfileVO.create({ frameInterval: 3 }).value
+
+      expect(profile.firstFrameTime(0)).toBe(0)
+      expect(profile.firstFrameTime(9)).toBe(9)
+      expect(profile.firstFrameTime(10)).toBe(12)
+      expect(profile.firstFrameTime(8.34)).toBe(9)
+    })
+
+    it('should not move a start already on the grid by float noise', () => {
+      const profile = ProcessingProfileVO.create({ frameInterval: 0.1 }).value
+
+      expect(profile.firstFrameTime(0.3)).toBe(0.3)
+      expect(profile.firstFrameTime(0.30001)).toBe(0.4)
+    })
+
+    it('should follow the fps of the profile', () => {
+      const profile = ProcessingProfileVO.create({ fps: 4 }).value
+
+      expect(profile.firstFrameTime(8.34)).toBe(8.5)
+    })
+  })
+
+  describe('withFrameInterval', () => {
+    it('should replace the sampling and keep the other settings', () => {
+      const profile = ProcessingProfileVO.create({
+        fps: 4,
+        format: 'png',
+        maxHeight: 480,
+      }).value
+
+      expect(profile.withFrameInterval(0.5).value.toJSON()).toEqual({
+        frameInterval: 0.5,
+        format: 'png',
+        maxHeight: 480,
+      })
+      expect(profile.toJSON().fps).toBe(4)
+    })
+
+    it('should turn a scene profile into an interval one', () => {
+      const profile = ProcessingProfileVO.create({
+        mode: 'scene',
+        minFrames: 2,
+        format: 'webp',
+      }).value
+
+      expect(profile.withFrameInterval(1).value.toJSON()).toEqual({
+        frameInterval: 1,
+        format: 'webp',
+      })
+    })
+
+    it.each([
+      0, -1, 10.5,
+    ])('should reject an interval of %p like a new profile', (frameInterval) => {
+      const profile = ProcessingProfileVO.default()
+
+      const result = profile.withFrameInterval(frameInterval)
+
+      expect(result.isFailure).toBeTrue()
+      expect(result.error).toBeInstanceOf(InvalidProcessingProfileError)
+      expect(result.error.message).toBe(
+        ProcessingProfileVO.create({ frameInterval }).error.message,
+      )
+    })
+  })
+})
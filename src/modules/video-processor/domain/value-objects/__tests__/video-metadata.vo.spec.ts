@@ -65,4 +65,30 @@ describe('VideoMetadataVO', () => {
     })
     expect(vo.durationSeconds).toBe(5)
   })
+
+  it('should replace the declared duration with the probed one', () => {
+    const vo = VideoMetadataVO.create({
+      totalSize: 500,
+      durationMs: 60000,
+      filename: 'clip',
+      extension: 'mp4',
+    })
+    const probe = {
+      durationMs: 42500,
+      container: 'mov,mp4,m4a,3gp,3g2,mj2',
+      videoCodec: 'h264',
+      audioCodec: 'aac',
+      width: 1280,
+      height: 720,
+      fps: 29.97,
+    }
+
+    const probed = vo.withProbe(probe)
+
+    expect(probed.durationMs).toBe(42500)
+    expect(probed.probe).toEqual(probe)
+    expect(probed.fullFilename).toBe('clip.mp4')
+    expect(vo.durationMs).toBe(60000)
+    expect(vo.probe).toBeUndefined()
+  })
 })
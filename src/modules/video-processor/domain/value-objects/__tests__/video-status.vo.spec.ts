@@ -49,6 +49,31 @@ describe('VideoStatusVO', () => {
     })
   })
 
+  describe('reprocess()', () => {
+    it('should reopen COMPLETED and FAILED as PROCESSING', () => {
+      for (const value of ['COMPLETED', 'FAILED'] as const) {
+        const result = VideoStatusVO.create(value).reprocess()
+        expect(result.isSuccess).toBe(true)
+        expect(result.value.value).toBe('PROCESSING')
+      }
+    })
+
+    it('should reject videos that have not finished processing', () => {
+      const status = VideoStatusVO.create('PRINTING')
+      expect(status.canReprocess()).toBe(false)
+      expect(status.reprocess().isFailure).toBe(true)
+    })
+
+    it('should reject cancelled uploads', () => {
+      expect(VideoStatusVO.create('CANCELLED').canReprocess()).toBe(false)
+    })
+
+    it('should not open regular transitions back to PROCESSING', () => {
+      const status = VideoStatusVO.create('COMPLETED')
+      expect(status.canTransitionTo('PROCESSING')).toBe(false)
+    })
+  })
+
   describe('isTerminal()', () => {
     it('should return true for COMPLETED', () => {
       expect(VideoStatusVO.create('COMPLETED').isTerminal()).toBe(true)
@@ -0,0 +1,317 @@
+import { Result } from '@core/domain/result'
+import { InvalidProcessingProfileError } from '@core/errors/invalid-processing-profile.error'
+import { BaseValueObject } from '@core/domain/value-objects/base-value-object'
+
+const FRAME_FORMATS = ['jpg', 'png', 'webp'] as const
+const EXTRACTION_MODES = ['interval', 'scene'] as const
+
+export type FrameFormat = (typeof FRAME_FORMATS)[number]
+
+/**
+ * `interval` samples frames at a fixed rate; `scene` keeps only the frames
+ * where the picture changes, named after their position in the video.
+ */
+export type ExtractionMode = (typeof EXTRACTION_MODES)[number]
+
+export type ProcessingProfile = {
+  /** `interval` when absent */
+  mode?: ExtractionMode
+  /** Seconds between extracted frames (exclusive with fps) */
+  frameInterval?: number
+  /** Frames extracted per second (exclusive with frameInterval) */
+  fps?: number
+  /** Scene mode: minimum change (0–1) between two frames to keep the second */
+  sceneThreshold?: number
+  /** Scene mode: evenly spaced frames are taken when fewer scenes are found */
+  minFrames?: number
+  /** Scene mode: evenly spread scenes are kept when more are found */
+  maxFrames?: number
+  format: FrameFormat
+  /** Frames wider than this are scaled down, keeping the aspect ratio */
+  maxWidth?: number
+  /** Frames taller than this are scaled down, keeping the aspect ratio */
+  maxHeight?: number
+  /** 1 (smallest) to 100 (best); the encoder's default when absent */
+  quality?: number
+}
+
+export type ProcessingProfileInput = Omit<
+  Partial<ProcessingProfile>,
+  'format' | 'mode'
+> & {
+  format?: string
+  mode?: string
+}
+
+const DEFAULT_FRAME_INTERVAL_SECONDS = 1
+// Frames are extracted per segment, which the orchestrator cuts every 10s
+export const MAX_FRAME_INTERVAL_SECONDS = 10
+const MAX_FPS = 30
+const MAX_DIMENSION = 7680
+const DEFAULT_SCENE_THRESHOLD = 0.3
+const MAX_FRAMES_PER_SEGMENT = 1000
+
+function isFrameFormat(format: string): format is FrameFormat {
+  return FRAME_FORMATS.includes(format as FrameFormat)
+}
+
+function isExtractionMode(mode: string): mode is ExtractionMode {
+  return EXTRACTION_MODES.includes(mode as ExtractionMode)
+}
+
+function isFrameCount(value: number | undefined): boolean {
+  return (
+    value === undefined ||
+    (Number.isInteger(value) && value > 0 && value <= MAX_FRAMES_PER_SEGMENT)
+  )
+}
+
+function isDimension(value: number | undefined): boolean {
+  return (
+    value === undefined ||
+    (Number.isInteger(value) && value > 0 && value <= MAX_DIMENSION)
+  )
+}
+
+/**
+ * How the print worker extracts the frames of a video: sampling (interval,
+ * fps or scene changes), output format, maximum resolution and quality.
+ */
+export class ProcessingProfileVO extends BaseValueObject<ProcessingProfile> {
+  private constructor(profile: ProcessingProfile) {
+    super(profile)
+  }
+
+  /** One JPEG per second at the source resolution */
+  static default(): ProcessingProfileVO {
+    return new ProcessingProfileVO({
+      frameInterval: DEFAULT_FRAME_INTERVAL_SECONDS,
+      format: 'jpg',
+    })
+  }
+
+  static create(
+    input: ProcessingProfileInput = {},
+  ): Result<ProcessingProfileVO, InvalidProcessingProfileError> {
+    const { frameInterval, fps, maxWidth, maxHeight, quality } = input
+    const format = (input.format ?? 'jpg').toLowerCase()
+    const mode = input.mode ?? 'interval'
+
+    if (!isExtractionMode(mode)) {
+      return Result.fail(
+        InvalidProcessingProfileError.create(
+          `Unsupported extraction mode: ${mode}. Supported: ${EXTRACTION_MODES.join(', ')}`,
+        ),
+      )
+    }
+    if (mode === 'scene') return ProcessingProfileVO.createScene(input, format)
+
+    const { sceneThreshold, minFrames, maxFrames } = input
+    if (
+      sceneThreshold !== undefined ||
+      minFrames !== undefined ||
+      maxFrames !== undefined
+    ) {
+      return Result.fail(
+        InvalidProcessingProfileError.create(
+          'sceneThreshold, minFrames and maxFrames only apply to the scene mode',
+        ),
+      )
+    }
+    if (frameInterval !== undefined && fps !== undefined) {
+      return Result.fail(
+        InvalidProcessingProfileError.create(
+          'Processing profile accepts frameInterval or fps, not both',
+        ),
+      )
+    }
+    if (
+      frameInterval !== undefined &&
+      (frameInterval <= 0 || frameInterval > MAX_FRAME_INTERVAL_SECONDS)
+    ) {
+      return Result.fail(
+        InvalidProcessingProfileError.create(
+          `frameInterval must be greater than 0 and at most ${MAX_FRAME_INTERVAL_SECONDS} seconds`,
+        ),
+      )
+    }
+    if (fps !== undefined && (fps <= 0 || fps > MAX_FPS)) {
+      return Result.fail(
+        InvalidProcessingProfileError.create(
+          `fps must be greater than 0 and at most ${MAX_FPS}`,
+        ),
+      )
+    }
+
+    const outputError = ProcessingProfileVO.validateOutput(input, format)
+    if (outputError) return Result.fail(outputError)
+
+    return Result.ok(
+      new ProcessingProfileVO({
+        frameInterval:
+          fps === undefined
+            ? (frameInterval ?? DEFAULT_FRAME_INTERVAL_SECONDS)
+            : undefined,
+        fps,
+        format: format as FrameFormat,
+        maxWidth,
+        maxHeight,
+        quality,
+      }),
+    )
+  }
+
+  private static createScene(
+    input: ProcessingProfileInput,
+    format: string,
+  ): Result<ProcessingProfileVO, InvalidProcessingProfileError> {
+    const { sceneThreshold, minFrames, maxFrames } = input
+
+    if (input.frameInterval !== undefined || input.fps !== undefined) {
+      return Result.fail(
+        InvalidProcessingProfileError.create(
+          'frameInterval and fps do not apply to the scene mode',
+        ),
+      )
+    }
+    if (
+      sceneThreshold !== undefined &&
+      (sceneThreshold <= 0 || sceneThreshold >= 1)
+    ) {
+      return Result.fail(
+        InvalidProcessingProfileError.create(
+          'sceneThreshold must be between 0 and 1 (exclusive)',
+        ),
+      )
+    }
+    if (!isFrameCount(minFrames) || !isFrameCount(maxFrames)) {
+      return Result.fail(
+        InvalidProcessingProfileError.create(
+          `minFrames and maxFrames must be integers between 1 and ${MAX_FRAMES_PER_SEGMENT}`,
+        ),
+      )
+    }
+    if (
+      minFrames !== undefined &&
+      maxFrames !== undefined &&
+      minFrames > maxFrames
+    ) {
+      return Result.fail(
+        InvalidProcessingProfileError.create(
+          'minFrames must not exceed maxFrames',
+        ),
+      )
+    }
+
+    const outputError = ProcessingProfileVO.validateOutput(input, format)
+    if (outputError) return Result.fail(outputError)
+
+    return Result.ok(
+      new ProcessingProfileVO({
+        mode: 'scene',
+        sceneThreshold: sceneThreshold ?? DEFAULT_SCENE_THRESHOLD,
+        minFrames,
+        maxFrames,
+        format: format as FrameFormat,
+        maxWidth: input.maxWidth,
+        maxHeight: input.maxHeight,
+        quality: input.quality,
+      }),
+    )
+  }
+
+  /** Checks shared by every mode: format, resolution and quality */
+  private static validateOutput(
+    input: ProcessingProfileInput,
+    format: string,
+  ): InvalidProcessingProfileError | undefined {
+    const { maxWidth, maxHeight, quality } = input
+
+    if (!isFrameFormat(format)) {
+      return InvalidProcessingProfileError.create(
+        `Unsupported frame format: ${input.format}. Supported: ${FRAME_FORMATS.join(', ')}`,
+      )
+    }
+    if (!isDimension(maxWidth) || !isDimension(maxHeight)) {
+      return InvalidProcessingProfileError.create(
+        `maxWidth and maxHeight must be integers between 1 and ${MAX_DIMENSION}`,
+      )
+    }
+    if (quality !== undefined) {
+      if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+        return InvalidProcessingProfileError.create(
+          'quality must be an integer between 1 and 100',
+        )
+      }
+      if (format === 'png') {
+        return InvalidProcessingProfileError.create(
+          'quality does not apply to png frames',
+        )
+      }
+    }
+    return undefined
+  }
+
+  /** Rebuilds a persisted profile, already validated when it was created */
+  static fromPersistence(profile: ProcessingProfile): ProcessingProfileVO {
+    return new ProcessingProfileVO(profile)
+  }
+
+  static supportedFormats(): readonly string[] {
+    return FRAME_FORMATS
+  }
+
+  get format(): FrameFormat {
+    return this._value.format
+  }
+
+  get mode(): ExtractionMode {
+    return this._value.mode ?? 'interval'
+  }
+
+  /**
+   * Seconds between two consecutive frames, whichever sampling was chosen.
+   * Scene frames are not evenly spaced: their names carry their timestamps.
+   */
+  get secondsBetweenFrames(): number {
+    return this._value.fps !== undefined
+      ? 1 / this._value.fps
+      : (this._value.frameInterval ?? DEFAULT_FRAME_INTERVAL_SECONDS)
+  }
+
+  /**
+   * First frame at or after `startTime`, in seconds. Frames sit on a grid of
+   * the whole video, so a segment starting anywhere (on a keyframe) neither
+   * repeats nor skips a frame of its neighbours.
+   */
+  firstFrameTime(startTime: number): number {
+    const step = this.secondsBetweenFrames
+    // 0.3 / 0.1 is 2.9999999999999996, not 3
+    const index = Math.max(Math.ceil(startTime / step - 1e-9), 0)
+    return Math.round(index * step * 1e6) / 1e6
+  }
+
+  /**
+   * Same output, sampling one frame every `seconds`, validated like the
+   * frameInterval of a new profile.
+   */
+  withFrameInterval(
+    seconds: number,
+  ): Result<ProcessingProfileVO, InvalidProcessingProfileError> {
+    const { format, maxWidth, maxHeight, quality } = this._value
+    return ProcessingProfileVO.create({
+      frameInterval: seconds,
+      format,
+      maxWidth,
+      maxHeight,
+      quality,
+    })
+  }
+
+  /** Plain object for messages and responses, without the absent settings */
+  toJSON(): ProcessingProfile {
+    return Object.fromEntries(
+      Object.entries(this._value).filter(([, value]) => value !== undefined),
+    ) as ProcessingProfile
+  }
+}
@@ -1,12 +1,28 @@
 import { BaseValueObject } from '@core/domain/value-objects/base-value-object'
 import { DurationVO } from './duration.vo'
 
+/** What ffprobe reads from the uploaded file, before it is split */
+export type VideoProbe = {
+  /** Duration in milliseconds */
+  durationMs: number
+  /** ffprobe format name, e.g. `mov,mp4,m4a,3gp,3g2,mj2` */
+  container: string
+  videoCodec: string
+  /** Absent for videos without sound */
+  audioCodec?: string
+  width: number
+  height: number
+  fps: number
+}
+
 export type VideoMetadataInput = {
   totalSize: number
   /** Duration in milliseconds */
   durationMs: number
   filename: string
   extension: string
+  /** Absent until the orchestrator probes the upload */
+  probe?: VideoProbe
 }
 
 export type VideoMetadata = {
@@ -14,6 +30,7 @@ export type VideoMetadata = {
   duration: DurationVO
   filename: string
   extension: string
+  probe?: VideoProbe
 }
 
 export class VideoMetadataVO extends BaseValueObject<VideoMetadata> {
@@ -27,9 +44,26 @@ export class VideoMetadataVO extends BaseValueObject<VideoMetadata> {
       duration: DurationVO.fromMilliseconds(input.durationMs),
       filename: input.filename,
       extension: input.extension,
+      probe: input.probe,
+    })
+  }
+
+  /**
+   * Same file, with the duration read by ffprobe instead of the one the
+   * client declared on `POST /videos`.
+   */
+  withProbe(probe: VideoProbe): VideoMetadataVO {
+    return new VideoMetadataVO({
+      ...this.value,
+      duration: DurationVO.fromMilliseconds(probe.durationMs),
+      probe,
     })
   }
 
+  get probe(): VideoProbe | undefined {
+    return this.value.probe
+  }
+
   get filename(): string {
     return this.value.filename
   }
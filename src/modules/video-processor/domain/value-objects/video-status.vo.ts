@@ -11,19 +11,36 @@ export type VideoStatus =
   | 'PRINTING'
   | 'COMPLETED'
   | 'FAILED'
+  | 'CANCELLED'
 
 export class VideoStatusVO extends BaseValueObject<VideoStatus> {
   private static readonly TRANSITIONS: Record<VideoStatus, VideoStatus[]> = {
-    CREATED: ['UPLOADING', 'FAILED'],
-    UPLOADING: ['UPLOADED', 'FAILED'],
+    CREATED: ['UPLOADING', 'FAILED', 'CANCELLED'],
+    UPLOADING: ['UPLOADED', 'FAILED', 'CANCELLED'],
     UPLOADED: ['PROCESSING', 'FAILED'],
     PROCESSING: ['SPLITTING', 'FAILED'],
     SPLITTING: ['PRINTING', 'FAILED'],
     PRINTING: ['COMPLETED', 'FAILED'],
     COMPLETED: [],
     FAILED: [],
+    CANCELLED: [],
   }
 
+  /**
+   * Statuses a new processing run can be started from. Kept out of
+   * TRANSITIONS so that the pipeline still treats them as final.
+   */
+  private static readonly REPROCESSABLE: VideoStatus[] = ['COMPLETED', 'FAILED']
+
+  /**
+   * Statuses a failed segment can be retried from: a FAILED video is reopened
+   * to PRINTING, which TRANSITIONS does not allow either.
+   */
+  private static readonly SEGMENT_RETRYABLE: VideoStatus[] = [
+    'PRINTING',
+    'FAILED',
+  ]
+
   private constructor(value: VideoStatus) {
     super(value)
   }
@@ -52,8 +69,40 @@ export class VideoStatusVO extends BaseValueObject<VideoStatus> {
     return Result.ok(VideoStatusVO.create(newStatus))
   }
 
+  canReprocess(): boolean {
+    return VideoStatusVO.REPROCESSABLE.includes(this.value)
+  }
+
+  /** Reopens a finished video for a new processing run (→ PROCESSING) */
+  reprocess(): Result<VideoStatusVO, InvalidStatusTransitionError> {
+    if (!this.canReprocess()) {
+      return Result.fail(
+        new InvalidStatusTransitionError(this.value, 'PROCESSING'),
+      )
+    }
+    return Result.ok(VideoStatusVO.create('PROCESSING'))
+  }
+
+  canRetrySegment(): boolean {
+    return VideoStatusVO.SEGMENT_RETRYABLE.includes(this.value)
+  }
+
+  /** Reopens a video for the retry of one of its segments (→ PRINTING) */
+  retrySegment(): Result<VideoStatusVO, InvalidStatusTransitionError> {
+    if (!this.canRetrySegment()) {
+      return Result.fail(
+        new InvalidStatusTransitionError(this.value, 'PRINTING'),
+      )
+    }
+    return Result.ok(VideoStatusVO.create('PRINTING'))
+  }
+
   isTerminal(): boolean {
-    return this.value === 'COMPLETED' || this.value === 'FAILED'
+    return (
+      this.value === 'COMPLETED' ||
+      this.value === 'FAILED' ||
+      this.value === 'CANCELLED'
+    )
   }
 
   isUploading(): boolean {
@@ -76,6 +125,10 @@ export class VideoStatusVO extends BaseValueObject<VideoStatus> {
     return this.value === 'FAILED'
   }
 
+  isCancelled(): boolean {
+    return this.value === 'CANCELLED'
+  }
+
   toString(): string {
     return this.value
   }
@@ -7,6 +7,7 @@ import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
 import { VideoPrintingEvent } from '../video-printing-event'
 import { VideoSplittingEvent } from '../video-splitting-event'
 import { VideoUploadedEvent } from '../video-uploaded-event'
+import { VideoUploadCancelledEvent } from '../video-upload-cancelled-event'
 
 function makeVideo(): Video {
   return Video.create({
@@ -67,6 +68,14 @@ describe('Domain Events', () => {
     })
   })
 
+  describe('VideoUploadCancelledEvent', () => {
+    it('should return "VideoUploadCancelled" as eventName', () => {
+      const video = makeVideo()
+      const event = createDomainEvent(VideoUploadCancelledEvent, video)
+      expect(event.eventName).toBe('VideoUploadCancelled')
+    })
+  })
+
   describe('VideoPrintingEvent', () => {
     it('should return "VideoPrinting" as eventName', () => {
       const video = makeVideo()
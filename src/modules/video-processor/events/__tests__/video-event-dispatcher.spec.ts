@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'bun:test'
+import { VideoFactory } from '@modules/video-processor/__tests__/factories/video.factory'
+import { VideoStatusVO } from '@modules/video-processor/domain/value-objects/video-status.vo'
+import { createVideoEventDispatcher } from '../video-event-dispatcher'
+
+describe('createVideoEventDispatcher', () => {
+  it('should map each Video event to a Video Status Changed payload with its own status', () => {
+    const video = VideoFactory.create({
+      status: VideoStatusVO.create('UPLOADING'),
+    })
+    video.completeUpload()
+    video.startProcessing()
+    video.startSplitting()
+    video.startPrinting()
+
+    const result = createVideoEventDispatcher().describe(video.domainEvents)
+
+    expect(result.isSuccess).toBe(true)
+    expect(
+      result.value.map(({ eventName, eventType, payload }) => [
+        eventName,
+        eventType,
+        payload.status,
+      ]),
+    ).toEqual([
+      ['VideoUploaded', 'Video Status Changed', 'UPLOADED'],
+      ['VideoSplitting', 'Video Status Changed', 'SPLITTING'],
+      ['VideoPrinting', 'Video Status Changed', 'PRINTING'],
+    ])
+    expect(result.value[0]?.payload).toEqual({
+      videoId: video.id.value,
+      videoPath: video.thirdPartyVideoIntegration?.path ?? video.id.value,
+      status: 'UPLOADED',
+      duration: video.metadata.durationMs,
+      videoName: video.metadata.fullFilename,
+      userEmail: video.userEmail,
+      timestamp: result.value[0]?.event.dateTimeOccurred.toISOString(),
+      processingProfile: { frameInterval: 1, format: 'jpg' },
+    })
+  })
+
+  it('should map the cancellation to CANCELLED', () => {
+    const video = VideoFactory.create({
+      status: VideoStatusVO.create('UPLOADING'),
+    })
+    video.cancelUpload()
+
+    const result = createVideoEventDispatcher().describe(video.domainEvents)
+
+    expect(result.value.map((dispatched) => dispatched.payload.status)).toEqual(
+      ['CANCELLED'],
+    )
+  })
+  it('should map the upload expiry to FAILED with its reason', () => {
+    const video = VideoFactory.create({
+      status: VideoStatusVO.create('UPLOADING'),
+    })
+    video.expireUpload('upload_expired')
+
+    const result = createVideoEventDispatcher().describe(video.domainEvents)
+
+    expect(result.value[0]?.eventName).toBe('VideoUploadExpired')
+    expect(result.value[0]?.payload).toMatchObject({
+      status: 'FAILED',
+      errorReason: 'upload_expired',
+    })
+  })
+})
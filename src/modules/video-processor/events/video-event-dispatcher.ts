@@ -0,0 +1,92 @@
+import { DomainEvent } from '@core/domain/events/domain-event'
+import {
+  DomainEventDispatcher,
+  type DispatchedDomainEvent,
+  type DomainEventHandler,
+  type DomainEventMapping,
+} from '@core/domain/events/domain-event-dispatcher'
+import {
+  VideoDomainEventPayloadSchema,
+  type VideoDomainEventPayload,
+} from '@core/messaging'
+import { Video } from '@modules/video-processor/domain/entities/video'
+import { VideoPrintingEvent } from './video-printing-event'
+import { VideoReprocessingEvent } from './video-reprocessing-event'
+import { VideoSplittingEvent } from './video-splitting-event'
+import { VideoUploadCancelledEvent } from './video-upload-cancelled-event'
+import { VideoUploadExpiredEvent } from './video-upload-expired-event'
+import { VideoUploadedEvent } from './video-uploaded-event'
+
+export type VideoEventDispatcher = DomainEventDispatcher<
+  Video,
+  VideoDomainEventPayload
+>
+
+export type DispatchedVideoEvent = DispatchedDomainEvent<
+  DomainEvent<Video>,
+  VideoDomainEventPayload
+>
+
+export type VideoDomainEventHandler = DomainEventHandler<
+  DomainEvent<Video>,
+  VideoDomainEventPayload
+>
+
+/**
+ * The status comes from the event type, not from `event.data`, because the
+ * aggregate may have moved further by the time the events are dispatched.
+ */
+function statusChanged(
+  status: VideoDomainEventPayload['status'],
+): DomainEventMapping<DomainEvent<Video>, VideoDomainEventPayload> {
+  return {
+    eventType: 'Video Status Changed',
+    schema: VideoDomainEventPayloadSchema,
+    toPayload: ({ data: video, dateTimeOccurred }) => ({
+      videoId: video.id.value,
+      videoPath: video.thirdPartyVideoIntegration?.path ?? video.id.value,
+      status,
+      duration: video.metadata.durationMs,
+      videoName: video.metadata.fullFilename,
+      userEmail: video.userEmail,
+      timestamp: dateTimeOccurred.toISOString(),
+      runId: video.currentRun?.runId,
+      processingProfile: video.activeProfile.toJSON(),
+    }),
+  }
+}
+
+/** FAILED carries the reason, which the notification shows to the user */
+function failed(): DomainEventMapping<
+  DomainEvent<Video>,
+  VideoDomainEventPayload
+> {
+  const mapping = statusChanged('FAILED')
+  return {
+    ...mapping,
+    toPayload: (event) => ({
+      ...mapping.toPayload(event),
+      errorReason: event.data.failureReason,
+    }),
+  }
+}
+
+/** Dispatcher with every event the Video aggregate raises registered */
+export function createVideoEventDispatcher(): VideoEventDispatcher {
+  return new DomainEventDispatcher<Video, VideoDomainEventPayload>()
+    .register(VideoUploadedEvent, statusChanged('UPLOADED'))
+    .register(VideoSplittingEvent, statusChanged('SPLITTING'))
+    .register(VideoPrintingEvent, statusChanged('PRINTING'))
+    .register(VideoUploadCancelledEvent, statusChanged('CANCELLED'))
+    .register(VideoUploadExpiredEvent, failed())
+    .register(VideoReprocessingEvent, statusChanged('PROCESSING'))
+}
+
+export const VIDEO_DOMAIN_EVENTS = [
+  VideoUploadedEvent,
+  VideoSplittingEvent,
+  VideoPrintingEvent,
+  VideoUploadCancelledEvent,
+  VideoUploadExpiredEvent,
+  VideoReprocessingEvent,
+] as const
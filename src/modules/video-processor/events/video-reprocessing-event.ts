@@ -0,0 +1,8 @@
+import { DomainEvent } from '@core/domain/events/domain-event'
+import { Video } from '@modules/video-processor/domain/entities/video'
+
+export class VideoReprocessingEvent extends DomainEvent<Video> {
+  get eventName(): string {
+    return 'VideoReprocessing'
+  }
+}
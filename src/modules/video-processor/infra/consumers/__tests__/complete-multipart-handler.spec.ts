@@ -1,7 +1,7 @@
 import { PinoLoggerService } from '@core/libs/logging/pino-logger'
 import { CompleteMultipartHandler } from '@modules/video-processor/infra/consumers/complete-multipart-handler'
 import { ReconcileUploadService } from '@modules/video-processor/domain/services/reconcile-upload.service'
-import type { DefaultEventBridge } from '@core/events/event-bridge'
+import type { OutboxMessage } from '@core/messaging'
 import { SqsUploadReconciler } from '@modules/video-processor/domain/services/sqs-upload-reconciler.service'
 import { beforeEach, describe, expect, it, mock } from 'bun:test'
 import { context } from '@opentelemetry/api'
@@ -17,14 +17,13 @@ import { MegabytesValueObject } from '@modules/video-processor/domain/value-obje
 import { ThirdPartyIntegration } from '@modules/video-processor/domain/entities/third-party-integration.vo'
 import { VideoThirdPartyIntegrationsMetadataVO } from '@modules/video-processor/domain/value-objects/video-third-party-integrations-metadata.vo'
 
-function createMockEventBridge() {
-  const calls: unknown[] = []
+function createMockOutbox() {
+  const messages: OutboxMessage[] = []
   return {
-    calls,
-    eventBusName: 'test-bus',
-    send: mock(async () => {
-      calls.push({ sent: true })
-      return Result.ok({ FailedEntryCount: 0 })
+    messages,
+    add: mock(async (added: OutboxMessage[]) => {
+      messages.push(...added)
+      return Result.ok(undefined)
     }),
   }
 }
@@ -66,7 +65,7 @@ function createVideoWithMismatchedIds(
 describe('CompleteMultipartHandler', () => {
   let handler: CompleteMultipartHandler
   let videoRepository: InMemoryVideoRepository
-  let mockEventBridge: ReturnType<typeof createMockEventBridge>
+  let mockOutbox: ReturnType<typeof createMockOutbox>
   let logger: ReturnType<typeof createLogger>
 
   const runWithCorrelation = <T>(fn: () => T) =>
@@ -75,18 +74,21 @@ describe('CompleteMultipartHandler', () => {
       fn,
     )
 
+  /** Saved with the video or added on their own when repairing */
+  const recordedMessages = () => [
+    ...videoRepository.outbox,
+    ...mockOutbox.messages,
+  ]
+
   beforeEach(() => {
     videoRepository = new InMemoryVideoRepository()
-    mockEventBridge = createMockEventBridge()
+    mockOutbox = createMockOutbox()
     logger = createLogger()
 
     const reconcileService = new ReconcileUploadService(
       logger,
       videoRepository,
-      mockEventBridge as Pick<
-        DefaultEventBridge,
-        'send' | 'eventBusName'
-      > as DefaultEventBridge,
+      mockOutbox,
     )
 
     const sqsReconciler = new SqsUploadReconciler(
@@ -172,7 +174,7 @@ describe('CompleteMultipartHandler', () => {
       expect(allPartsUploaded).toBeTrue()
     })
 
-    it('should emit event to EventBridge via SqsReconciler → ReconcileService', async () => {
+    it('should record the event in the outbox via SqsReconciler → ReconcileService', async () => {
       const video = VideoFactory.create({
         status: VideoStatusVO.create('UPLOADING'),
       })
@@ -191,7 +193,8 @@ describe('CompleteMultipartHandler', () => {
         }),
       )
 
-      expect(mockEventBridge.calls.length).toBe(1)
+      expect(recordedMessages()).toHaveLength(1)
+      expect(recordedMessages()[0]?.eventName).toBe('VideoUploaded')
     })
   })
 
@@ -216,7 +219,7 @@ describe('CompleteMultipartHandler', () => {
       expect(updatedVideo.value?.status.value).toBe('UPLOADED')
     })
 
-    it('should emit event when video found by objectKey with mismatched IDs', async () => {
+    it('should record the event when video found by objectKey with mismatched IDs', async () => {
       const { video, objectKey } = createVideoWithMismatchedIds()
       await videoRepository.createVideo(video)
 
@@ -230,7 +233,8 @@ describe('CompleteMultipartHandler', () => {
         }),
       )
 
-      expect(mockEventBridge.calls.length).toBe(1)
+      expect(recordedMessages()).toHaveLength(1)
+      expect(recordedMessages()[0]?.eventName).toBe('VideoUploaded')
     })
 
     it('should skip idempotently when video found by objectKey is already UPLOADED', async () => {
@@ -250,7 +254,10 @@ describe('CompleteMultipartHandler', () => {
       )
 
       expect(result.isSuccess).toBeTrue()
-      expect(mockEventBridge.calls.length).toBe(0)
+      // Re-recorded with the same messageId in case the first write was lost
+      expect(recordedMessages().map((m) => m.eventName)).toEqual([
+        'VideoUploaded',
+      ])
     })
   })
 
@@ -321,7 +328,10 @@ describe('CompleteMultipartHandler', () => {
       )
 
       expect(result.isSuccess).toBeTrue()
-      expect(mockEventBridge.calls.length).toBe(0)
+      // Re-recorded with the same messageId in case the first write was lost
+      expect(recordedMessages().map((m) => m.eventName)).toEqual([
+        'VideoUploaded',
+      ])
     })
 
     it('should return success when video status is PROCESSING (idempotent)', async () => {
@@ -344,7 +354,7 @@ describe('CompleteMultipartHandler', () => {
       )
 
       expect(result.isSuccess).toBeTrue()
-      expect(mockEventBridge.calls.length).toBe(0)
+      expect(recordedMessages()).toHaveLength(0)
     })
 
     it('should return success when video status is COMPLETED (idempotent)', async () => {
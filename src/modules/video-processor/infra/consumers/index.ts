@@ -1,16 +1,26 @@
 import { logger } from '@modules/logging'
 import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
 import type { AbstractSQSConsumer } from '@modules/messaging/sqs'
-import type { CompleteMultipartEvent } from '@core/messaging/schemas'
+import type {
+  CompleteMultipartEvent,
+  VideoStatusChangedMessage,
+} from '@core/messaging/schemas'
 import { createCompleteMultipartConsumer } from './complete-multipart.consumer'
 import { CompleteMultipartHandler } from './complete-multipart-handler'
-import { DefaultEventBridge } from '@core/events/event-bridge'
+import { createVideoStatusSyncConsumer } from './video-status-sync.consumer'
+import { CassandraOutboxRepository } from '@modules/messaging/outbox'
 import { ReconcileUploadService } from '@modules/video-processor/domain/services/reconcile-upload.service'
 import { SqsUploadReconciler } from '@modules/video-processor/domain/services/sqs-upload-reconciler.service'
+import { VideoStatusSyncService } from '@modules/video-processor/domain/services/video-status-sync.service'
+import { videoLiveEvents } from '@modules/video-processor/infra/services/live-events/in-memory-video-live-events'
 
 let consumerInstance: AbstractSQSConsumer<CompleteMultipartEvent> | null = null
+let statusSyncConsumerInstance: AbstractSQSConsumer<VideoStatusChangedMessage> | null =
+  null
 
-export function startConsumers(): void {
+function startCompleteMultipartConsumer(
+  videoRepository: VideoRepositoryImpl,
+): void {
   const queueUrl = process.env.COMPLETE_MULTIPART_QUEUE_URL
 
   if (!queueUrl) {
@@ -20,12 +30,11 @@ export function startConsumers(): void {
     return
   }
 
-  const videoRepository = new VideoRepositoryImpl(logger)
-  const eventBridge = new DefaultEventBridge(logger)
   const reconcileService = new ReconcileUploadService(
     logger,
     videoRepository,
-    eventBridge,
+    new CassandraOutboxRepository(logger),
+    videoLiveEvents,
   )
   const sqsReconciler = new SqsUploadReconciler(
     logger,
@@ -44,6 +53,45 @@ export function startConsumers(): void {
   })
 }
 
+function startVideoStatusSyncConsumer(
+  videoRepository: VideoRepositoryImpl,
+): void {
+  const queueUrl = process.env.VIDEO_STATUS_QUEUE_URL
+
+  if (!queueUrl) {
+    logger.warn(
+      'VIDEO_STATUS_QUEUE_URL not set, skipping VideoStatusSyncConsumer',
+    )
+    return
+  }
+
+  const syncService = new VideoStatusSyncService(
+    logger,
+    videoRepository,
+    videoLiveEvents,
+  )
+  statusSyncConsumerInstance = createVideoStatusSyncConsumer(
+    logger,
+    syncService,
+    queueUrl,
+  )
+
+  statusSyncConsumerInstance.start()
+  logger.log('VideoStatusSyncConsumer started', {
+    event: 'sqs.consumer.started',
+    resource: 'VideoStatusSyncConsumer',
+    message: 'VideoStatusSyncConsumer started',
+    'sqs.queueUrl': queueUrl,
+  })
+}
+
+export function startConsumers(): void {
+  const videoRepository = new VideoRepositoryImpl(logger)
+
+  startCompleteMultipartConsumer(videoRepository)
+  startVideoStatusSyncConsumer(videoRepository)
+}
+
 export function stopConsumers(): void {
   if (consumerInstance) {
     consumerInstance.stop()
@@ -53,6 +101,15 @@ export function stopConsumers(): void {
       message: 'CompleteMultipartConsumer stopped',
     })
   }
+
+  if (statusSyncConsumerInstance) {
+    statusSyncConsumerInstance.stop()
+    logger.log('VideoStatusSyncConsumer stopped', {
+      event: 'sqs.consumer.stopped',
+      resource: 'VideoStatusSyncConsumer',
+      message: 'VideoStatusSyncConsumer stopped',
+    })
+  }
 }
 
 export {
@@ -60,4 +117,11 @@ export {
   CompleteMultipartMessageHandler,
 } from './complete-multipart.consumer'
 export { CompleteMultipartHandler } from './complete-multipart-handler'
-export type { CompleteMultipartEvent } from '@core/messaging/schemas'
+export {
+  createVideoStatusSyncConsumer,
+  VideoStatusSyncMessageHandler,
+} from './video-status-sync.consumer'
+export type {
+  CompleteMultipartEvent,
+  VideoStatusChangedMessage,
+} from '@core/messaging/schemas'
@@ -0,0 +1,69 @@
+import type { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import type { MessageHandler, MessageContext } from '@core/messaging'
+import {
+  VideoStatusChangedMessageSchema,
+  type VideoStatusChangedMessage,
+} from '@core/messaging/schemas'
+import {
+  createSQSConsumer,
+  type AbstractSQSConsumer,
+} from '@modules/messaging/sqs'
+import { Result } from '@core/domain/result'
+import type { VideoStatusSyncService } from '@modules/video-processor/domain/services/video-status-sync.service'
+
+/**
+ * Consumes `Video Status Changed` events emitted by the workers
+ * (EventBridge → SNS → SQS) and persists them through VideoStatusSyncService.
+ */
+export class VideoStatusSyncMessageHandler
+  implements MessageHandler<VideoStatusChangedMessage>
+{
+  constructor(private readonly syncService: VideoStatusSyncService) {}
+
+  parse(rawPayload: unknown): Result<VideoStatusChangedMessage, Error> {
+    const result = VideoStatusChangedMessageSchema.safeParse(rawPayload)
+    if (!result.success) {
+      return Result.fail(new Error(result.error.message))
+    }
+    return Result.ok(result.data)
+  }
+
+  async handle(
+    event: VideoStatusChangedMessage,
+    _context: MessageContext,
+  ): Promise<Result<void, Error>> {
+    const { videoId, status, errorReason, runId } = event.detail
+
+    const result = await this.syncService.sync({
+      videoId,
+      status,
+      errorReason,
+      runId,
+    })
+
+    if (result.isFailure) {
+      return Result.fail(result.error)
+    }
+
+    return Result.ok()
+  }
+}
+
+export function createVideoStatusSyncConsumer(
+  logger: AbstractLoggerService,
+  syncService: VideoStatusSyncService,
+  queueUrl?: string,
+): AbstractSQSConsumer<VideoStatusChangedMessage> {
+  const messageHandler = new VideoStatusSyncMessageHandler(syncService)
+
+  return createSQSConsumer<VideoStatusChangedMessage>(
+    {
+      queueUrl: queueUrl ?? process.env.VIDEO_STATUS_QUEUE_URL ?? '',
+      region: process.env.AWS_REGION ?? 'us-east-1',
+    },
+    logger,
+    messageHandler,
+  )
+}
+
+export type { VideoStatusChangedMessage } from '@core/messaging/schemas'
@@ -0,0 +1,68 @@
+import { describe, it, expect, mock } from 'bun:test'
+import { StaleUploadJanitor } from '../stale-upload-janitor'
+import { LoggerStub } from '@core/libs/logging/__tests__/logger.stub'
+import { Result } from '@core/domain/result'
+
+describe('StaleUploadJanitor', () => {
+  it('should run a sweep immediately on start', async () => {
+    const service = {
+      run: mock(async () =>
+        Result.ok({ scanned: 0, expired: [], released: 0, failed: 0 }),
+      ),
+    }
+    const janitor = new StaleUploadJanitor(new LoggerStub(), service, 60_000)
+
+    janitor.start()
+    await janitor.stop()
+
+    expect(service.run).toHaveBeenCalledTimes(1)
+    expect(janitor.isRunning).toBe(false)
+  })
+
+  it('should not overlap sweeps', async () => {
+    let release: () => void = () => {}
+    const service = {
+      run: mock(
+        () =>
+          new Promise<
+            Result<
+              {
+                scanned: number
+                expired: string[]
+                released: number
+                failed: number
+              },
+              Error
+            >
+          >((resolve) => {
+            release = () =>
+              resolve(
+                Result.ok({ scanned: 0, expired: [], released: 0, failed: 0 }),
+              )
+          }),
+      ),
+    }
+    const janitor = new StaleUploadJanitor(new LoggerStub(), service, 60_000)
+
+    const first = janitor.tick()
+    await janitor.tick()
+    release()
+    await first
+
+    expect(service.run).toHaveBeenCalledTimes(1)
+  })
+
+  it('should survive a sweep that throws', async () => {
+    const service = {
+      run: mock(async () => {
+        throw new Error('boom')
+      }),
+    }
+    const janitor = new StaleUploadJanitor(new LoggerStub(), service, 60_000)
+
+    await janitor.tick()
+    await janitor.tick()
+
+    expect(service.run).toHaveBeenCalledTimes(2)
+  })
+})
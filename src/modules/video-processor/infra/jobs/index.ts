@@ -0,0 +1,43 @@
+import { logger } from '@modules/logging'
+import {
+  createStaleUploadJanitor,
+  type StaleUploadJanitor,
+} from './stale-upload-janitor'
+
+let janitorInstance: StaleUploadJanitor | null = null
+
+/**
+ * Starts the in-process background jobs. Set UPLOAD_JANITOR_ENABLED=false when
+ * the janitor runs as a standalone worker (`bun run worker:janitor`).
+ */
+export function startJobs(): void {
+  if (process.env.UPLOAD_JANITOR_ENABLED === 'false') {
+    logger.warn('UPLOAD_JANITOR_ENABLED is false, skipping StaleUploadJanitor')
+    return
+  }
+
+  janitorInstance = createStaleUploadJanitor(logger)
+  janitorInstance.start()
+  logger.log('StaleUploadJanitor started', {
+    event: 'job.started',
+    resource: 'StaleUploadJanitor',
+    message: 'StaleUploadJanitor started',
+  })
+}
+
+export async function stopJobs(): Promise<void> {
+  if (janitorInstance) {
+    await janitorInstance.stop()
+    janitorInstance = null
+    logger.log('StaleUploadJanitor stopped', {
+      event: 'job.stopped',
+      resource: 'StaleUploadJanitor',
+      message: 'StaleUploadJanitor stopped',
+    })
+  }
+}
+
+export {
+  StaleUploadJanitor,
+  createStaleUploadJanitor,
+} from './stale-upload-janitor'
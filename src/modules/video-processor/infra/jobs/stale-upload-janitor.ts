@@ -0,0 +1,123 @@
+import { DataSource } from '@core/libs/database/datasource'
+import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import { logger as defaultLogger } from '@modules/logging'
+import { CassandraOutboxRepository } from '@modules/messaging/outbox'
+import {
+  ExpireStaleUploadsService,
+  type ExpireStaleUploadsOptions,
+} from '@modules/video-processor/domain/services/expire-stale-uploads.service'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { UploadVideoParts } from '@modules/video-processor/infra/services/aws/s3/upload-video-parts'
+import { videoLiveEvents } from '@modules/video-processor/infra/services/live-events/in-memory-video-live-events'
+
+const DEFAULT_INTERVAL_MS = 5 * 60 * 1000
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000
+const DEFAULT_PAGE_SIZE = 100
+
+/**
+ * StaleUploadJanitor - Runs ExpireStaleUploadsService on a fixed interval.
+ *
+ * Sweeps never overlap: a tick that fires while the previous sweep is still
+ * running is skipped.
+ */
+export class StaleUploadJanitor {
+  private timer: ReturnType<typeof setInterval> | null = null
+  private running: Promise<void> | null = null
+
+  constructor(
+    private readonly logger: AbstractLoggerService,
+    private readonly service: Pick<ExpireStaleUploadsService, 'run'>,
+    private readonly intervalMs: number,
+  ) {}
+
+  get isRunning(): boolean {
+    return this.timer !== null
+  }
+
+  start(): void {
+    if (this.timer) return
+
+    this.timer = setInterval(() => void this.tick(), this.intervalMs)
+    void this.tick()
+  }
+
+  /** Stops scheduling and waits for the sweep in progress, if any */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+    await this.running
+  }
+
+  async tick(): Promise<void> {
+    if (this.running) return
+
+    this.running = this.service
+      .run()
+      .then(() => undefined)
+      .catch((error: unknown) => {
+        const err = error instanceof Error ? error : new Error(String(error))
+        this.logger.error('Stale upload sweep crashed', {
+          event: 'video.upload_janitor.completed',
+          resource: 'StaleUploadJanitor',
+          message: err.message,
+          status: 'failure',
+          error: { message: err.message, kind: err.name, stack: err.stack },
+        })
+      })
+      .finally(() => {
+        this.running = null
+      })
+
+    await this.running
+  }
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export function createStaleUploadJanitor(
+  logger: AbstractLoggerService,
+  options: Partial<ExpireStaleUploadsOptions & { intervalMs: number }> = {},
+): StaleUploadJanitor {
+  const service = new ExpireStaleUploadsService(
+    logger,
+    new VideoRepositoryImpl(logger),
+    new UploadVideoParts(logger),
+    new CassandraOutboxRepository(logger),
+    {
+      ttlMs: options.ttlMs ?? numberFromEnv('UPLOAD_TTL_MS', DEFAULT_TTL_MS),
+      pageSize: options.pageSize ?? DEFAULT_PAGE_SIZE,
+    },
+    videoLiveEvents,
+  )
+
+  return new StaleUploadJanitor(
+    logger,
+    service,
+    options.intervalMs ??
+      numberFromEnv('UPLOAD_JANITOR_INTERVAL_MS', DEFAULT_INTERVAL_MS),
+  )
+}
+
+// Standalone worker: bun run worker:janitor
+if (import.meta.main) {
+  const datasource = DataSource.getInstance(defaultLogger)
+  await datasource.connect()
+
+  const janitor = createStaleUploadJanitor(defaultLogger)
+
+  const shutdown = async () => {
+    await janitor.stop()
+    await datasource.disconnect()
+    process.exit(0)
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+
+  defaultLogger.log('Starting Stale Upload Janitor...')
+  janitor.start()
+}
@@ -3,19 +3,47 @@ import { DatabaseExecutionError } from '@core/errors/database.error'
 import { DataSource } from '@core/libs/database/datasource'
 import { DefaultDatabase } from '@core/libs/database/default-cassabdra.database'
 import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import { CorrelationStore } from '@core/libs/context'
+import type { OutboxMessage } from '@core/messaging'
+import { prepareOutboxStatements } from '@modules/messaging/outbox/cassandra-outbox.repository'
+import {
+  decodePageCursor,
+  encodePageCursor,
+} from '@core/libs/database/page-cursor'
 import type {
   VideoTable,
   VideoByUserTable,
   VideoPartsTable,
   VideoByThirdPartyIdTable,
   VideoByObjectKeyTable,
+  VideoPendingUploadTable,
+  VideoProcessingRunTable,
+  VideoStatusHistoryTable,
 } from '../tables'
 
 import { Video } from '@modules/video-processor/domain/entities/video'
 import { VideoPart } from '@modules/video-processor/domain/entities/video-part'
-import { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import {
+  VideoRepository,
+  type FindByUserOptions,
+  type FindPendingUploadsOptions,
+  type ProcessingRunContext,
+  type SegmentProgress,
+  type StatusChangeContext,
+  type TransitionStatusOptions,
+  type VideoPage,
+  type VideoStatusHistoryEntry,
+} from '@modules/video-processor/domain/repositories/video.repository'
 import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
-import { VideoMetadataVO } from '@modules/video-processor/domain/value-objects/video-metadata.vo'
+import {
+  VideoMetadataVO,
+  type VideoProbe,
+} from '@modules/video-processor/domain/value-objects/video-metadata.vo'
+import {
+  ProcessingProfileVO,
+  type ExtractionMode,
+  type FrameFormat,
+} from '@modules/video-processor/domain/value-objects/processing-profile.vo'
 import {
   VideoStatusVO,
   type VideoStatus,
@@ -27,6 +55,8 @@ import {
   type PartStatusType,
 } from '@modules/video-processor/domain/value-objects/part-status.vo'
 
+const MAX_INCREMENT_ATTEMPTS = 10
+
 export class VideoRepositoryImpl
   extends DefaultDatabase
   implements VideoRepository
@@ -116,6 +146,117 @@ export class VideoRepositoryImpl
     }
   }
 
+  async findByUser(
+    userId: string,
+    options: FindByUserOptions,
+  ): Promise<Result<VideoPage, Error>> {
+    this.logger.log('Finding videos by user', { userId, options })
+
+    let pageState: string | undefined
+    if (options.cursor) {
+      const cursorResult = decodePageCursor(options.cursor)
+      if (cursorResult.isFailure) return Result.fail(cursorResult.error)
+      pageState = cursorResult.value
+    }
+
+    try {
+      const pageResult = await this.selectPage<VideoByUserTable>(
+        {
+          table: 'video_by_user',
+          where: { user_id: userId },
+          columns: ['video_id'],
+        },
+        { fetchSize: options.pageSize, pageState },
+      )
+
+      if (pageResult.isFailure) return Result.fail(pageResult.error)
+
+      // video_by_user only carries the creation-time status, so the current
+      // status is read from the video row itself
+      const videos = await Promise.all(
+        pageResult.value.rows.map((row) => this.findById(row.video_id)),
+      )
+
+      const items: Video[] = []
+      for (const videoResult of videos) {
+        if (videoResult.isFailure) return Result.fail(videoResult.error)
+        const video = videoResult.value
+        if (!video) continue
+        if (options.status && video.status.value !== options.status) continue
+        items.push(video)
+      }
+
+      const nextPageState = pageResult.value.pageState
+
+      return Result.ok({
+        items,
+        nextCursor: nextPageState ? encodePageCursor(nextPageState) : undefined,
+      })
+    } catch (error) {
+      this.logger.error('Failed to find videos by user', { userId, error })
+      return Result.fail(
+        error instanceof Error ? error : new Error(String(error)),
+      )
+    }
+  }
+
+  async findPendingUploads(
+    options: FindPendingUploadsOptions,
+  ): Promise<Result<VideoPage, Error>> {
+    this.logger.log('Finding pending uploads', { options })
+
+    let pageState: string | undefined
+    if (options.cursor) {
+      const cursorResult = decodePageCursor(options.cursor)
+      if (cursorResult.isFailure) return Result.fail(cursorResult.error)
+      pageState = cursorResult.value
+    }
+
+    try {
+      const pageResult = await this.datasource.queryPage<
+        Pick<VideoPendingUploadTable, 'video_id'>
+      >('SELECT video_id FROM video_pending_upload', [], {
+        fetchSize: options.pageSize,
+        pageState,
+      })
+
+      if (pageResult.isFailure) return Result.fail(pageResult.error)
+
+      const videos = await Promise.all(
+        pageResult.value.rows.map((row) => this.findById(row.video_id)),
+      )
+
+      const items: Video[] = []
+      for (const videoResult of videos) {
+        if (videoResult.isFailure) return Result.fail(videoResult.error)
+        if (videoResult.value) items.push(videoResult.value)
+      }
+
+      const nextPageState = pageResult.value.pageState
+
+      return Result.ok({
+        items,
+        nextCursor: nextPageState ? encodePageCursor(nextPageState) : undefined,
+      })
+    } catch (error) {
+      this.logger.error('Failed to find pending uploads', { error })
+      return Result.fail(
+        error instanceof Error ? error : new Error(String(error)),
+      )
+    }
+  }
+
+  async removePendingUpload(
+    videoId: string,
+  ): Promise<Result<void, DatabaseExecutionError>> {
+    this.logger.log('Removing pending upload', { videoId })
+    const result = await this.datasource.execute(
+      'DELETE FROM video_pending_upload WHERE video_id = ?',
+      [videoId],
+    )
+    return result.isSuccess ? Result.ok(undefined) : Result.fail(result.error)
+  }
+
   private async mapVideoRowToEntity(
     videoRow: VideoTable,
   ): Promise<Result<Video | null, Error>> {
@@ -150,11 +291,24 @@ export class VideoRepositoryImpl
     const video = Video.createFromDatabase({
       id: UniqueEntityID.create(videoRow.video_id),
       userId: UniqueEntityID.create(videoRow.user_id),
+      userEmail: videoRow.user_email ?? undefined,
       metadata: VideoMetadataVO.create({
         totalSize: Number(videoRow.total_size),
         durationMs: Number(videoRow.duration),
         filename: videoRow.filename || 'video',
         extension: videoRow.extension || 'mp4',
+        // Videos not split yet (or split before probing existed) have none
+        probe: videoRow.probe_container
+          ? {
+              durationMs: Number(videoRow.duration),
+              container: videoRow.probe_container,
+              videoCodec: videoRow.probe_video_codec ?? '',
+              audioCodec: videoRow.probe_audio_codec ?? undefined,
+              width: videoRow.probe_width ?? 0,
+              height: videoRow.probe_height ?? 0,
+              fps: videoRow.probe_fps ?? 0,
+            }
+          : undefined,
       }),
       status: VideoStatusVO.create(videoRow.status as VideoStatus),
       parts,
@@ -164,9 +318,34 @@ export class VideoRepositoryImpl
         storagePath,
         videoId: videoRow.video_id,
       }),
-      failureReason: videoRow.failure_reason,
+      failureReason: videoRow.failure_reason ?? undefined,
       totalSegments: videoRow.total_segments ?? 0,
+      segmentDurationMs: videoRow.segment_duration_ms ?? undefined,
       processedSegments: videoRow.processed_segments ?? 0,
+      currentRun: videoRow.run_id
+        ? {
+            runId: String(videoRow.run_id),
+            frameInterval: videoRow.run_frame_interval ?? undefined,
+            startedAt: videoRow.run_started_at ?? videoRow.updated_at,
+          }
+        : undefined,
+      // Videos created before profiles were extracted with the default one
+      processingProfile: videoRow.profile_format
+        ? ProcessingProfileVO.fromPersistence({
+            mode: (videoRow.profile_mode as ExtractionMode) ?? undefined,
+            frameInterval: videoRow.profile_frame_interval ?? undefined,
+            fps: videoRow.profile_fps ?? undefined,
+            sceneThreshold: videoRow.profile_scene_threshold ?? undefined,
+            minFrames: videoRow.profile_min_frames ?? undefined,
+            maxFrames: videoRow.profile_max_frames ?? undefined,
+            format: videoRow.profile_format as FrameFormat,
+            maxWidth: videoRow.profile_max_width ?? undefined,
+            maxHeight: videoRow.profile_max_height ?? undefined,
+            quality: videoRow.profile_quality ?? undefined,
+          })
+        : undefined,
+      createdAt: videoRow.created_at,
+      updatedAt: videoRow.updated_at,
     })
 
     return Result.ok(video)
@@ -196,6 +375,7 @@ export class VideoRepositoryImpl
       )
     }
     this.logger.log('Creating video', { video: video.id.value })
+    const profile = video.processingProfile.value
     await Promise.all([
       this.insert<VideoTable>({
         table: 'video',
@@ -204,6 +384,7 @@ export class VideoRepositoryImpl
           object_key: video.thirdPartyVideoIntegration.key,
           video_id: video.id.value,
           user_id: video.userId.value,
+          user_email: video.userEmail,
           status: video.status.value,
           total_size: video.metadata.value.totalSize,
           duration: video.metadata.durationMs,
@@ -214,13 +395,23 @@ export class VideoRepositoryImpl
           third_party_video_id: video.thirdPartyVideoIntegration.uploadId,
           created_at: video.createdAt,
           updated_at: video.updatedAt,
+          profile_mode: profile.mode,
+          profile_frame_interval: profile.frameInterval,
+          profile_fps: profile.fps,
+          profile_scene_threshold: profile.sceneThreshold,
+          profile_min_frames: profile.minFrames,
+          profile_max_frames: profile.maxFrames,
+          profile_format: profile.format,
+          profile_max_width: profile.maxWidth,
+          profile_max_height: profile.maxHeight,
+          profile_quality: profile.quality,
         },
       }),
       this.createVideoByUser({
         created_at: video.createdAt,
         video_id: video.id.value,
         status: video.status.value,
-        user_id: video.integration.id.value,
+        user_id: video.userId.value,
       }),
       this.createVideoByThirdPartyId({
         integration_name: video.integration.provider,
@@ -232,6 +423,13 @@ export class VideoRepositoryImpl
         bucket_name: video.thirdPartyVideoIntegration.bucket,
         video_id: video.id.value,
       }),
+      this.insert<VideoPendingUploadTable>({
+        table: 'video_pending_upload',
+        data: {
+          video_id: video.id.value,
+          created_at: video.createdAt,
+        },
+      }),
       this.createVideoParts(video),
     ])
     this.logger.log('Video created and synched with user', {
@@ -330,7 +528,10 @@ export class VideoRepositoryImpl
     return result.isSuccess ? Result.ok(undefined) : Result.fail(result.error)
   }
 
-  async updateVideo(video: Video): Promise<Result<void, Error>> {
+  async updateVideo(
+    video: Video,
+    context?: StatusChangeContext,
+  ): Promise<Result<void, Error>> {
     this.logger.log('Updating video', { video: video.id.value })
     const result = await this.update<VideoTable>({
       table: 'video',
@@ -344,7 +545,7 @@ export class VideoRepositoryImpl
         object_key: video.thirdPartyVideoIntegration?.key,
         integration_name: video.integration?.provider,
         third_party_video_id: video.thirdPartyVideoIntegration?.uploadId,
-        user_id: video.integration?.id.value,
+        user_id: video.userId.value,
         failure_reason: video.failureReason,
         total_segments: video.totalSegments,
         processed_segments: video.processedSegments,
@@ -353,18 +554,146 @@ export class VideoRepositoryImpl
         video_id: video.id.value,
       },
     })
+    if (result.isFailure) return Result.fail(result.error)
+
+    await this.appendStatusHistory(
+      video.statusChanges.map((change) => ({
+        videoId: video.id.value,
+        from: change.from,
+        to: change.to,
+        changedAt: change.occurredAt,
+        correlationId: context?.correlationId ?? CorrelationStore.correlationId,
+        source: context?.source ?? 'unknown',
+        reason: change.reason,
+      })),
+    )
+    video.clearStatusChanges()
+
+    return Result.ok(undefined)
+  }
+
+  async saveWithOutbox(
+    video: Video,
+    messages: OutboxMessage[],
+  ): Promise<Result<void, Error>> {
+    this.logger.log('Saving video with outbox messages', {
+      videoId: video.id.value,
+      status: video.status.value,
+      messages: messages.length,
+    })
+
+    const { query, values } = this.prepareUpdate<VideoTable>({
+      table: 'video',
+      data: {
+        status: video.status.value,
+        updated_at: new Date(),
+        ...(video.failureReason !== undefined && {
+          failure_reason: video.failureReason,
+        }),
+      },
+      where: { video_id: video.id.value },
+    })
+
+    return this.datasource.executeBatch([
+      { query, params: values },
+      ...messages.flatMap((message) => prepareOutboxStatements(message)),
+    ])
+  }
+
+  async saveProcessingRun(
+    video: Video,
+    messages: OutboxMessage[],
+    context: ProcessingRunContext,
+  ): Promise<Result<void, Error>> {
+    const run = video.currentRun
+    if (!run) {
+      return Result.fail(
+        new Error(`Video has no processing run: ${video.id.value}`),
+      )
+    }
+
+    this.logger.log('Saving video processing run', {
+      videoId: video.id.value,
+      runId: run.runId,
+      messages: messages.length,
+    })
+
+    const videoUpdate = this.prepareUpdate<VideoTable>({
+      table: 'video',
+      data: {
+        status: video.status.value,
+        failure_reason: null,
+        total_segments: video.totalSegments,
+        segment_duration_ms: video.segmentDurationMs ?? null,
+        processed_segments: video.processedSegments,
+        processed_segment_numbers: null,
+        run_id: run.runId,
+        run_frame_interval: run.frameInterval ?? null,
+        run_started_at: run.startedAt,
+        updated_at: new Date(),
+      },
+      where: { video_id: video.id.value },
+    })
+
+    const runInsert = this.prepareInsert<VideoProcessingRunTable>({
+      table: 'video_processing_run',
+      data: {
+        video_id: video.id.value,
+        started_at: run.startedAt,
+        run_id: run.runId,
+        previous_status: context.previousStatus,
+        frame_interval: run.frameInterval ?? null,
+        correlation_id: context.correlationId ?? null,
+      },
+    })
+
+    return this.datasource.executeBatch([
+      { query: videoUpdate.query, params: videoUpdate.values },
+      { query: runInsert.query, params: runInsert.values },
+      ...messages.flatMap((message) => prepareOutboxStatements(message)),
+    ])
+  }
+
+  async saveProbe(
+    videoId: string,
+    probe: VideoProbe,
+  ): Promise<Result<void, Error>> {
+    this.logger.log('Saving video probe', { videoId, ...probe })
+    const result = await this.update<VideoTable>({
+      table: 'video',
+      data: {
+        duration: probe.durationMs,
+        probe_container: probe.container,
+        probe_video_codec: probe.videoCodec,
+        probe_audio_codec: probe.audioCodec,
+        probe_width: probe.width,
+        probe_height: probe.height,
+        probe_fps: probe.fps,
+        probed_at: new Date(),
+        updated_at: new Date(),
+      },
+      where: {
+        video_id: videoId,
+      },
+    })
     return result.isSuccess ? Result.ok(undefined) : Result.fail(result.error)
   }
 
   async updateTotalSegments(
     videoId: string,
     totalSegments: number,
+    segmentDurationMs?: number,
   ): Promise<Result<void, Error>> {
-    this.logger.log('Updating total segments', { videoId, totalSegments })
+    this.logger.log('Updating total segments', {
+      videoId,
+      totalSegments,
+      segmentDurationMs,
+    })
     const result = await this.update<VideoTable>({
       table: 'video',
       data: {
         total_segments: totalSegments,
+        segment_duration_ms: segmentDurationMs ?? null,
         updated_at: new Date(),
       },
       where: {
@@ -374,45 +703,83 @@ export class VideoRepositoryImpl
     return result.isSuccess ? Result.ok(undefined) : Result.fail(result.error)
   }
 
+  /**
+   * Compare-and-set on processed_segments (LWT), retried while other print
+   * workers win the race. The returned count is unique per counted segment,
+   * so only one caller ever observes processed_segments === total_segments.
+   * processed_segment_numbers is written in the same LWT: a redelivered
+   * segment finds its number there and is not counted twice.
+   */
   async incrementProcessedSegments(
     videoId: string,
-  ): Promise<Result<number, Error>> {
-    this.logger.log('Incrementing processed segments', { videoId })
+    segmentNumber: number,
+  ): Promise<Result<SegmentProgress, Error>> {
+    this.logger.log('Incrementing processed segments', {
+      videoId,
+      segmentNumber,
+    })
 
-    const videoResult = await this.findById(videoId)
-    if (videoResult.isFailure) {
-      return Result.fail(videoResult.error)
-    }
+    for (let attempt = 1; attempt <= MAX_INCREMENT_ATTEMPTS; attempt++) {
+      const currentResult = await this.select<VideoTable>({
+        table: 'video',
+        where: { video_id: videoId },
+      })
 
-    const video = videoResult.value
-    if (!video) {
-      return Result.fail(new Error(`Video not found: ${videoId}`))
-    }
+      if (currentResult.isFailure) {
+        return Result.fail(currentResult.error)
+      }
 
-    const newCount = video.incrementProcessedSegments()
+      const row = currentResult.value?.[0]
+      if (!row) {
+        return Result.fail(new Error(`Video not found: ${videoId}`))
+      }
 
-    const updateResult = await this.update<VideoTable>({
-      table: 'video',
-      data: {
-        processed_segments: newCount,
-        updated_at: new Date(),
-      },
-      where: {
-        video_id: videoId,
-      },
-    })
+      const current = row.processed_segments ?? null
+      if (row.processed_segment_numbers?.includes(segmentNumber)) {
+        return Result.ok({ processedSegments: current ?? 0, counted: false })
+      }
+
+      const newCount = (current ?? 0) + 1
+
+      const updateResult = await this.datasource.execute(
+        `
+        UPDATE video
+        SET processed_segments = ?,
+          processed_segment_numbers = processed_segment_numbers + ?,
+          updated_at = ?
+        WHERE video_id = ?
+        IF processed_segments = ?
+      `,
+        [newCount, [segmentNumber], new Date(), videoId, current],
+      )
 
-    if (updateResult.isFailure) {
-      return Result.fail(updateResult.error)
+      if (updateResult.isFailure) {
+        return Result.fail(updateResult.error)
+      }
+
+      if (updateResult.value.rows[0]?.['[applied]'] === true) {
+        return Result.ok({ processedSegments: newCount, counted: true })
+      }
+
+      this.logger.warn('Processed segments increment conflict, retrying', {
+        videoId,
+        attempt,
+        expected: current,
+      })
     }
 
-    return Result.ok(newCount)
+    return Result.fail(
+      new Error(
+        `Failed to increment processed segments for video ${videoId} after ${MAX_INCREMENT_ATTEMPTS} attempts`,
+      ),
+    )
   }
 
   async transitionStatus(
     videoId: string,
     expectedStatus: VideoStatus,
     newStatus: VideoStatus,
+    options?: TransitionStatusOptions,
   ): Promise<boolean> {
     this.logger.log('Transitioning video status with LWT', {
       videoId,
@@ -421,13 +788,20 @@ export class VideoRepositoryImpl
     })
 
     try {
+      const hasFailureReason = options?.failureReason !== undefined
       const query = `
         UPDATE video
-        SET status = ?, updated_at = ?
+        SET status = ?, updated_at = ?${hasFailureReason ? ', failure_reason = ?' : ''}
         WHERE video_id = ?
         IF status = ?
       `
-      const params = [newStatus, new Date(), videoId, expectedStatus]
+      const params = [
+        newStatus,
+        new Date(),
+        ...(hasFailureReason ? [options?.failureReason] : []),
+        videoId,
+        expectedStatus,
+      ]
 
       const result = await this.datasource.execute(query, params)
 
@@ -450,6 +824,21 @@ export class VideoRepositoryImpl
         newStatus,
       })
 
+      if (wasApplied) {
+        await this.appendStatusHistory([
+          {
+            videoId,
+            from: expectedStatus,
+            to: newStatus,
+            changedAt: new Date(),
+            correlationId:
+              options?.correlationId ?? CorrelationStore.correlationId,
+            source: options?.source ?? 'unknown',
+            reason: options?.reason ?? options?.failureReason,
+          },
+        ])
+      }
+
       return wasApplied
     } catch (error) {
       this.logger.error('Error during LWT transition', {
@@ -459,4 +848,60 @@ export class VideoRepositoryImpl
       return false
     }
   }
+
+  async findStatusHistory(
+    videoId: string,
+  ): Promise<Result<VideoStatusHistoryEntry[], Error>> {
+    this.logger.log('Finding video status history', { videoId })
+
+    const result = await this.select<VideoStatusHistoryTable>({
+      table: 'video_status_history',
+      where: { video_id: videoId },
+    })
+    if (result.isFailure) return Result.fail(result.error)
+
+    return Result.ok(
+      result.value.map((row) => ({
+        videoId,
+        from: row.from_status,
+        to: row.to_status,
+        changedAt: row.changed_at,
+        correlationId: row.correlation_id ?? undefined,
+        source: row.source,
+        reason: row.reason ?? undefined,
+      })),
+    )
+  }
+
+  /**
+   * Best effort: the status is already persisted when the history is
+   * appended, so a failed insert is logged instead of failing the caller.
+   */
+  private async appendStatusHistory(
+    entries: VideoStatusHistoryEntry[],
+  ): Promise<void> {
+    for (const entry of entries) {
+      const result = await this.insert<VideoStatusHistoryTable>({
+        table: 'video_status_history',
+        data: {
+          video_id: entry.videoId,
+          changed_at: entry.changedAt,
+          entry_id: crypto.randomUUID(),
+          from_status: entry.from,
+          to_status: entry.to,
+          correlation_id: entry.correlationId,
+          source: entry.source,
+          reason: entry.reason,
+        },
+      })
+      if (result.isFailure) {
+        this.logger.error('Failed to append video status history', {
+          videoId: entry.videoId,
+          from: entry.from,
+          to: entry.to,
+          error: result.error,
+        })
+      }
+    }
+  }
 }
@@ -0,0 +1,146 @@
+import { Result } from '@core/domain/result'
+import { DataSource } from '@core/libs/database/datasource'
+import { DefaultDatabase } from '@core/libs/database/default-cassabdra.database'
+import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import { VideoSegment } from '@modules/video-processor/domain/entities/video-segment'
+import type { VideoSegmentRepository } from '@modules/video-processor/domain/repositories/video-segment.repository'
+import type { VideoSegmentsTable } from '../tables'
+
+// Single-partition batches; keeps each one under Cassandra's batch size limits
+const SEGMENTS_PER_BATCH = 50
+
+export class VideoSegmentRepositoryImpl
+  extends DefaultDatabase
+  implements VideoSegmentRepository
+{
+  constructor(logger: AbstractLoggerService) {
+    super(DataSource.getInstance(logger), logger)
+  }
+
+  async createSegments(segments: VideoSegment[]): Promise<Result<void, Error>> {
+    this.logger.log('Creating video segments', {
+      videoId: segments[0]?.videoId,
+      count: segments.length,
+    })
+
+    for (let i = 0; i < segments.length; i += SEGMENTS_PER_BATCH) {
+      const statements = segments
+        .slice(i, i + SEGMENTS_PER_BATCH)
+        .map((segment) => {
+          const { query, values } = this.prepareInsert<VideoSegmentsTable>({
+            table: 'video_segments',
+            data: this.mapSegmentToRow(segment),
+          })
+          return { query, params: values }
+        })
+
+      const result = await this.datasource.executeBatch(statements)
+      if (result.isFailure) return Result.fail(result.error)
+    }
+
+    return Result.ok(undefined)
+  }
+
+  async findByVideo(videoId: string): Promise<Result<VideoSegment[], Error>> {
+    this.logger.log('Finding video segments', { videoId })
+
+    const rowsResult = await this.select<VideoSegmentsTable>({
+      table: 'video_segments',
+      where: { video_id: videoId },
+    })
+    if (rowsResult.isFailure) return Result.fail(rowsResult.error)
+
+    return Result.ok(rowsResult.value.map((row) => this.mapRowToEntity(row)))
+  }
+
+  async findSegment(
+    videoId: string,
+    segmentNumber: number,
+  ): Promise<Result<VideoSegment | null, Error>> {
+    this.logger.log('Finding video segment', { videoId, segmentNumber })
+
+    const rowsResult = await this.select<VideoSegmentsTable>({
+      table: 'video_segments',
+      where: { video_id: videoId, segment_number: segmentNumber },
+    })
+    if (rowsResult.isFailure) return Result.fail(rowsResult.error)
+
+    const row = rowsResult.value[0]
+    return Result.ok(row ? this.mapRowToEntity(row) : null)
+  }
+
+  async updateSegment(segment: VideoSegment): Promise<Result<void, Error>> {
+    this.logger.log('Updating video segment', {
+      videoId: segment.videoId,
+      segmentNumber: segment.segmentNumber,
+      status: segment.status,
+    })
+
+    const { video_id, segment_number, created_at, ...data } =
+      this.mapSegmentToRow(segment)
+
+    const result = await this.update<VideoSegmentsTable>({
+      table: 'video_segments',
+      data,
+      where: { video_id, segment_number },
+    })
+    return result.isSuccess ? Result.ok(undefined) : Result.fail(result.error)
+  }
+
+  async requeueSegment(segment: VideoSegment): Promise<Result<boolean, Error>> {
+    this.logger.log('Requeueing video segment with LWT', {
+      videoId: segment.videoId,
+      segmentNumber: segment.segmentNumber,
+    })
+
+    const result = await this.datasource.execute(
+      `
+        UPDATE video_segments
+        SET status = ?, updated_at = ?
+        WHERE video_id = ? AND segment_number = ?
+        IF status = ?
+      `,
+      [
+        segment.status,
+        new Date(),
+        segment.videoId,
+        segment.segmentNumber,
+        'FAILED',
+      ],
+    )
+    if (result.isFailure) return Result.fail(result.error)
+
+    return Result.ok(result.value.rows[0]?.['[applied]'] === true)
+  }
+
+  private mapSegmentToRow(segment: VideoSegment): VideoSegmentsTable {
+    // null clears the columns left over from a previous attempt
+    return {
+      video_id: segment.videoId,
+      segment_number: segment.segmentNumber,
+      start_time: segment.startTime,
+      end_time: segment.endTime,
+      status: segment.status,
+      attempts: segment.attempts,
+      frame_count: segment.frameCount ?? null,
+      last_error: segment.lastError ?? null,
+      created_at: segment.createdAt,
+      updated_at: new Date(),
+    }
+  }
+
+  private mapRowToEntity(row: VideoSegmentsTable): VideoSegment {
+    return VideoSegment.createFromDatabase({
+      videoId: String(row.video_id),
+      segmentNumber: row.segment_number,
+      startTime: row.start_time,
+      endTime: row.end_time,
+      status: row.status,
+      attempts: row.attempts ?? 0,
+      frameCount: row.frame_count ?? undefined,
+      lastError: row.last_error ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    })
+  }
+}
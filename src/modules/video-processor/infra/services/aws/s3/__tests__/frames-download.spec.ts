@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { mockClient } from 'aws-sdk-client-mock'
+import { ListObjectsV2Command, S3Client } from '@aws-sdk/client-s3'
+import { InvalidCursorError } from '@core/errors/invalid-cursor.error'
+import { LoggerStub } from '@core/libs/logging/__tests__/logger.stub'
+import { S3FramesDownloadService } from '@modules/video-processor/infra/services/aws/s3/frames-download'
+
+const s3Mock = mockClient(S3Client)
+const PREFIX = 'video/video-1/prints/'
+
+describe('S3FramesDownloadService', () => {
+  const originalAccessKeyId = process.env.AWS_ACCESS_KEY_ID
+  const originalSecretAccessKey = process.env.AWS_SECRET_ACCESS_KEY
+  let service: S3FramesDownloadService
+
+  beforeEach(() => {
+    s3Mock.reset()
+    // Presigning needs credentials; the S3 calls themselves are mocked
+    process.env.AWS_ACCESS_KEY_ID = 'test'
+    process.env.AWS_SECRET_ACCESS_KEY = 'test'
+    service = new S3FramesDownloadService(new LoggerStub())
+  })
+
+  afterEach(() => {
+    process.env.AWS_ACCESS_KEY_ID = originalAccessKeyId
+    process.env.AWS_SECRET_ACCESS_KEY = originalSecretAccessKey
+  })
+
+  describe('listFrames', () => {
+    it('should list frames with a presigned URL each', async () => {
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: [
+          { Key: `${PREFIX}segment_001/frame_0001.jpg` },
+          { Key: `${PREFIX}segment_002/frame_0003.jpg` },
+        ],
+      })
+
+      const result = await service.listFrames('video-1', { pageSize: 10 })
+
+      expect(result.isSuccess).toBe(true)
+      expect(result.value.nextCursor).toBeUndefined()
+      expect(result.value.items).toHaveLength(2)
+      expect(result.value.items[1]).toMatchObject({
+        key: `${PREFIX}segment_002/frame_0003.jpg`,
+        segmentNumber: 2,
+        frameNumber: 3,
+      })
+      const url = new URL(result.value.items[1].url)
+      expect(url.pathname).toEndWith(`${PREFIX}segment_002/frame_0003.jpg`)
+      expect(url.searchParams.get('X-Amz-Expires')).toBe('900')
+    })
+
+    it('should skip objects that are not frames', async () => {
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: [
+          { Key: `${PREFIX}segment_001/frame_0001.jpg` },
+          { Key: `${PREFIX}segment_001/ffmpeg.log` },
+        ],
+      })
+
+      const result = await service.listFrames('video-1', { pageSize: 10 })
+
+      expect(result.value.items.map((item) => item.frameNumber)).toEqual([1])
+    })
+
+    it('should read the timestamp of scene frames from their names', async () => {
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: [
+          { Key: `${PREFIX}segment_002/frame_0001_12480ms.webp` },
+          { Key: `${PREFIX}segment_002/frame_0002.png` },
+        ],
+      })
+
+      const result = await service.listFrames('video-1', { pageSize: 10 })
+
+      expect(
+        result.value.items.map(({ frameNumber, timestampMs }) => ({
+          frameNumber,
+          timestampMs,
+        })),
+      ).toEqual([
+        { frameNumber: 1, timestampMs: 12480 },
+        { frameNumber: 2, timestampMs: undefined },
+      ])
+    })
+
+    it('should list the frames of a reprocess run under its prefix', async () => {
+      const runPrefix = 'video/video-1/runs/run-1/prints/'
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: [{ Key: `${runPrefix}segment_001/frame_0001.jpg` }],
+      })
+
+      const result = await service.listFrames('video-1', {
+        pageSize: 10,
+        runId: 'run-1',
+      })
+
+      expect(
+        s3Mock.commandCalls(ListObjectsV2Command)[0].args[0].input,
+      ).toEqual(expect.objectContaining({ Prefix: runPrefix }))
+      expect(result.value.items[0]).toMatchObject({
+        segmentNumber: 1,
+        frameNumber: 1,
+      })
+    })
+
+    it('should resume after the last key of the previous page', async () => {
+      s3Mock.on(ListObjectsV2Command).resolves({
+        Contents: [
+          { Key: `${PREFIX}segment_001/frame_0001.jpg` },
+          { Key: `${PREFIX}segment_001/frame_0002.jpg` },
+        ],
+        IsTruncated: true,
+      })
+
+      const first = await service.listFrames('video-1', { pageSize: 2 })
+      await service.listFrames('video-1', {
+        pageSize: 2,
+        cursor: first.value.nextCursor,
+      })
+
+      const [firstCall, secondCall] = s3Mock.commandCalls(ListObjectsV2Command)
+      expect(firstCall.args[0].input).toMatchObject({
+        Prefix: PREFIX,
+        MaxKeys: 2,
+        StartAfter: undefined,
+      })
+      expect(secondCall.args[0].input.StartAfter).toBe(
+        `${PREFIX}segment_001/frame_0002.jpg`,
+      )
+    })
+
+    it('should reject cursors outside the prints prefix', async () => {
+      const cursor = Buffer.from('../../other-video/prints').toString(
+        'base64url',
+      )
+
+      const result = await service.listFrames('video-1', {
+        pageSize: 2,
+        cursor,
+      })
+
+      expect(result.isFailure).toBe(true)
+      expect(result.error).toBeInstanceOf(InvalidCursorError)
+      expect(s3Mock.commandCalls(ListObjectsV2Command)).toHaveLength(0)
+    })
+
+    it('should fail when S3 cannot be listed', async () => {
+      s3Mock.on(ListObjectsV2Command).rejects(new Error('Access Denied'))
+
+      const result = await service.listFrames('video-1', { pageSize: 2 })
+
+      expect(result.isFailure).toBe(true)
+      expect(result.error.message).toBe('Access Denied')
+    })
+  })
+
+  describe('createManifestDownloadURL', () => {
+    it('should sign the manifest of the prints', async () => {
+      const result = await service.createManifestDownloadURL('video-1')
+
+      expect(result.isSuccess).toBe(true)
+      expect(new URL(result.value.url).pathname).toEndWith(
+        `${PREFIX}manifest.json`,
+      )
+      expect(result.value.expiresAt).toBeInstanceOf(Date)
+    })
+
+    it('should sign the manifest of a reprocess run', async () => {
+      const result = await service.createManifestDownloadURL('video-1', 'run-2')
+
+      expect(new URL(result.value.url).pathname).toEndWith(
+        'video/video-1/runs/run-2/prints/manifest.json',
+      )
+    })
+  })
+})
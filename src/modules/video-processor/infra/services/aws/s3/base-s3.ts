@@ -4,10 +4,12 @@ import {
   CompleteMultipartUploadCommand,
   CreateMultipartUploadCommand,
   AbortMultipartUploadCommand,
+  GetObjectCommand,
   S3Client,
   UploadPartCommand,
 } from '@aws-sdk/client-s3'
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { createS3Client } from '@modules/video-processor/infra/services/storage'
 
 export type CreatePartUploadURLParams = {
   key: string
@@ -16,6 +18,13 @@ export type CreatePartUploadURLParams = {
   expiresIn?: number
 }
 
+export type CreateDownloadURLParams = {
+  key: string
+  /** Defaults to `bucketName` */
+  bucket?: string
+  expiresIn?: number
+}
+
 export type CompleteMultipartUploadParams = {
   key: string
   uploadId: string
@@ -59,25 +68,7 @@ export abstract class BaseS3Service {
 
     this.publicEndpoint = Bun.env.AWS_PUBLIC_ENDPOINT || this.internalEndpoint
 
-    // When explicit credentials are provided (e.g. LocalStack), use them.
-    // Otherwise let the AWS SDK resolve credentials automatically
-    // (IRSA / node instance profile on EKS).
-    const credentials =
-      Bun.env.AWS_ACCESS_KEY_ID && Bun.env.AWS_SECRET_ACCESS_KEY
-        ? {
-            accessKeyId: Bun.env.AWS_ACCESS_KEY_ID,
-            secretAccessKey: Bun.env.AWS_SECRET_ACCESS_KEY,
-          }
-        : undefined
-
-    this.s3 = new S3Client({
-      region: Bun.env.AWS_REGION ?? 'us-east-1',
-      ...(this.internalEndpoint && { endpoint: this.internalEndpoint }),
-      forcePathStyle: true,
-      ...(credentials && { credentials }),
-      requestChecksumCalculation: 'WHEN_REQUIRED',
-      responseChecksumValidation: 'WHEN_REQUIRED',
-    })
+    this.s3 = createS3Client()
   }
 
   protected toPublicUrl(url: string): string {
@@ -216,6 +207,42 @@ export abstract class BaseS3Service {
     }
   }
 
+  /** Presigned GET URL reachable by the client (public endpoint) */
+  async createDownloadURL(
+    params: CreateDownloadURLParams,
+  ): Promise<Result<{ url: string; expiresAt: Date }, Error>> {
+    const bucket = params.bucket ?? this.bucketName
+    try {
+      const expiresIn = params.expiresIn ?? this.oneHourToExpiresIn()
+      const url = await getSignedUrl(
+        this.s3,
+        new GetObjectCommand({ Bucket: bucket, Key: params.key }),
+        { expiresIn },
+      )
+
+      return Result.ok({
+        url: this.toPublicUrl(url),
+        expiresAt: new Date(Date.now() + expiresIn * 1000),
+      })
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error))
+      this.logger.error('Failed to create download URL', {
+        event: 's3.download_url.completed',
+        resource: S3_RESOURCE,
+        message: 'Failed to create download URL',
+        status: 'failure',
+        error: {
+          message: err.message,
+          kind: err.constructor.name,
+          stack: err.stack,
+        },
+        's3.bucket': bucket,
+        's3.key': params.key,
+      })
+      return Result.fail(new Error(err.message))
+    }
+  }
+
   async completeMultipartUpload(
     params: CompleteMultipartUploadParams,
   ): Promise<Result<{ location: string; etag: string }, Error>> {
@@ -0,0 +1,150 @@
+import { ListObjectsV2Command } from '@aws-sdk/client-s3'
+import { Result } from '@core/domain/result'
+import { InvalidCursorError } from '@core/errors/invalid-cursor.error'
+import type {
+  FrameLink,
+  FramesArchiveLink,
+  FramesDownloadService,
+  FramesPage,
+  ListFramesOptions,
+} from '@modules/video-processor/domain/services/frames-download.service.interface'
+import { BaseS3Service } from '@modules/video-processor/infra/services/aws/s3/base-s3'
+import {
+  createStoragePathBuilder,
+  type StoragePathBuilder,
+} from '@modules/video-processor/infra/services/storage'
+
+/**
+ * `segment_001/frame_0001.jpg` (or png/webp), relative to the prints prefix.
+ * Scene frames also carry their position in the video: `frame_0001_12480ms`.
+ */
+const FRAME_KEY_PATTERN =
+  /^segment_(\d+)\/frame_(\d+)(?:_(\d+)ms)?\.(?:jpg|png|webp)$/
+/** Any object under a segment, since a page may end on a non-frame object */
+const CURSOR_KEY_PATTERN = /^segment_\d+\/[\w.-]+$/
+
+const FRAME_URL_EXPIRES_IN = 15 * 60
+
+/**
+ * Signs download URLs for the frames the workers store in the output bucket.
+ */
+export class S3FramesDownloadService
+  extends BaseS3Service
+  implements FramesDownloadService
+{
+  private readonly pathBuilder: StoragePathBuilder
+
+  constructor(...args: ConstructorParameters<typeof BaseS3Service>) {
+    super(...args)
+    this.pathBuilder = createStoragePathBuilder()
+  }
+
+  get bucketName(): string {
+    return process.env.S3_OUTPUT_BUCKET ?? 'fiapx-video-frames'
+  }
+
+  async createArchiveDownloadURL(
+    videoId: string,
+    runId?: string,
+  ): Promise<Result<FramesArchiveLink, Error>> {
+    return this.createDownloadURL({
+      key: this.pathBuilder.videoArchive(videoId, undefined, runId).key,
+    })
+  }
+
+  async createManifestDownloadURL(
+    videoId: string,
+    runId?: string,
+  ): Promise<Result<FramesArchiveLink, Error>> {
+    return this.createDownloadURL({
+      key: this.pathBuilder.framesManifest(videoId, runId).key,
+    })
+  }
+
+  /**
+   * Pages through `video/{id}/prints/` (or the prints of `options.runId`). The cursor is the last frame of the
+   * previous page (base64url), passed to S3 as `StartAfter`, so it stays valid
+   * across requests unlike S3 continuation tokens.
+   */
+  async listFrames(
+    videoId: string,
+    options: ListFramesOptions,
+  ): Promise<Result<FramesPage, Error>> {
+    const prefix = this.pathBuilder.videoPrint(videoId, '', options.runId).key
+
+    let startAfter: string | undefined
+    if (options.cursor) {
+      const relativeKey = decodeFrameCursor(options.cursor)
+      if (!relativeKey) return Result.fail(InvalidCursorError.create())
+      startAfter = `${prefix}${relativeKey}`
+    }
+
+    let keys: string[]
+    let truncated: boolean
+    try {
+      const response = await this.s3.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix,
+          StartAfter: startAfter,
+          MaxKeys: options.pageSize,
+        }),
+      )
+      keys = (response.Contents ?? []).flatMap((object) =>
+        object.Key ? [object.Key] : [],
+      )
+      truncated = response.IsTruncated === true
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error))
+      this.logger.error('Failed to list frames', {
+        event: 's3.frames.listed',
+        resource: 'S3FramesDownloadService',
+        message: 'Failed to list frames',
+        status: 'failure',
+        error: {
+          message: err.message,
+          kind: err.constructor.name,
+          stack: err.stack,
+        },
+        's3.bucket': this.bucketName,
+        's3.prefix': prefix,
+        'video.id': videoId,
+      })
+      return Result.fail(new Error(err.message))
+    }
+
+    const items: FrameLink[] = []
+    for (const key of keys) {
+      const match = FRAME_KEY_PATTERN.exec(key.slice(prefix.length))
+      if (!match) continue
+
+      const urlResult = await this.createDownloadURL({
+        key,
+        expiresIn: options.expiresIn ?? FRAME_URL_EXPIRES_IN,
+      })
+      if (urlResult.isFailure) return Result.fail(urlResult.error)
+
+      items.push({
+        key,
+        segmentNumber: Number(match[1]),
+        frameNumber: Number(match[2]),
+        timestampMs: match[3] === undefined ? undefined : Number(match[3]),
+        ...urlResult.value,
+      })
+    }
+
+    const lastKey = keys.at(-1)
+    return Result.ok({
+      items,
+      nextCursor:
+        truncated && lastKey
+          ? Buffer.from(lastKey.slice(prefix.length)).toString('base64url')
+          : undefined,
+    })
+  }
+}
+
+function decodeFrameCursor(cursor: string): string | undefined {
+  const relativeKey = Buffer.from(cursor, 'base64url').toString('utf8')
+  return CURSOR_KEY_PATTERN.test(relativeKey) ? relativeKey : undefined
+}
@@ -0,0 +1,52 @@
+import type {
+  VideoLiveEvent,
+  VideoLiveEventListener,
+  VideoLiveEventPublisher,
+  VideoLiveEventSubscriber,
+} from '@modules/video-processor/domain/services/video-live-events'
+
+/**
+ * Fans live events out to the SSE connections of this API instance.
+ *
+ * Events published on another replica (e.g. a status update consumed there)
+ * are not seen here; WatchVideoEventsUseCase resyncs from Cassandra to cover it.
+ */
+export class InMemoryVideoLiveEvents
+  implements VideoLiveEventPublisher, VideoLiveEventSubscriber
+{
+  private readonly listeners = new Map<string, Set<VideoLiveEventListener>>()
+
+  publish(event: VideoLiveEvent): void {
+    const listeners = this.listeners.get(event.videoId)
+    if (!listeners) return
+
+    for (const listener of listeners) {
+      // A broken connection must not prevent delivery to the others
+      try {
+        listener(event)
+      } catch {}
+    }
+  }
+
+  subscribe(videoId: string, listener: VideoLiveEventListener): () => void {
+    let listeners = this.listeners.get(videoId)
+    if (!listeners) {
+      listeners = new Set()
+      this.listeners.set(videoId, listeners)
+    }
+    listeners.add(listener)
+
+    return () => {
+      listeners.delete(listener)
+      if (listeners.size === 0 && this.listeners.get(videoId) === listeners) {
+        this.listeners.delete(videoId)
+      }
+    }
+  }
+
+  listenerCount(videoId: string): number {
+    return this.listeners.get(videoId)?.size ?? 0
+  }
+}
+
+export const videoLiveEvents = new InMemoryVideoLiveEvents()
@@ -0,0 +1,73 @@
+import { Result } from '@core/domain/result'
+import { VIDEO_EVENT_TYPES, type SegmentMessage } from '@core/messaging/schemas'
+import type { AbstractSQSPublisher } from '@modules/messaging/sqs'
+import type { Video } from '@modules/video-processor/domain/entities/video'
+import type { VideoSegment } from '@modules/video-processor/domain/entities/video-segment'
+import type {
+  SegmentPrintContext,
+  SegmentPrintQueue,
+} from '@modules/video-processor/domain/services/segment-print-queue.interface'
+import {
+  toInternalUrl,
+  type BaseS3Service,
+} from '@modules/video-processor/infra/services/aws/s3/base-s3'
+
+// Same lifetime the orchestrator gives the URL of the first attempt
+const PRESIGNED_URL_EXPIRES_IN = 2 * 60 * 60
+
+/**
+ * Publishes segments to the print queue with the message the orchestrator
+ * sends, signing a fresh URL of the uploaded video for the print workers.
+ */
+export class SqsSegmentPrintQueue implements SegmentPrintQueue {
+  constructor(
+    private readonly publisher: Pick<
+      AbstractSQSPublisher<SegmentMessage>,
+      'publishBatch'
+    >,
+    private readonly storage: Pick<BaseS3Service, 'createDownloadURL'>,
+  ) {}
+
+  async enqueue(
+    video: Video,
+    segments: VideoSegment[],
+    context: SegmentPrintContext,
+  ): Promise<Result<void, Error>> {
+    const integration = video.thirdPartyVideoIntegration
+    if (!integration?.key) {
+      return Result.fail(
+        new Error(`Video has no uploaded file: ${video.id.value}`),
+      )
+    }
+
+    const urlResult = await this.storage.createDownloadURL({
+      bucket: integration.bucket,
+      key: integration.key,
+      expiresIn: PRESIGNED_URL_EXPIRES_IN,
+    })
+    if (urlResult.isFailure) return Result.fail(urlResult.error)
+
+    // Workers fetch the video from inside the network, not through the public endpoint
+    const presignedUrl = toInternalUrl(urlResult.value.url)
+
+    const messages: SegmentMessage[] = segments.map((segment) => ({
+      videoId: video.id.value,
+      presignedUrl,
+      segmentNumber: segment.segmentNumber,
+      totalSegments: video.totalSegments,
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      userEmail: video.userEmail,
+      videoName: video.metadata.fullFilename,
+      runId: video.currentRun?.runId,
+      processingProfile: video.activeProfile.toJSON(),
+    }))
+
+    return this.publisher.publishBatch(messages, {
+      correlationId: context.correlationId,
+      eventType: VIDEO_EVENT_TYPES.SEGMENT_PRINT,
+      source: 'fiapx.video',
+      traceId: context.traceId,
+    })
+  }
+}
@@ -83,6 +83,57 @@ describe('StoragePathBuilder', () => {
 
       expect(path.key).toBe('video/abc-123/prints/frame_100.jpg')
     })
+
+    it('should build path under the run when reprocessed', () => {
+      const path = builder.videoPrint('video-123', 'segment_001', 'run-1')
+
+      expect(path.key).toBe('video/video-123/runs/run-1/prints/segment_001')
+      expect(path.context).toBe(StorageContext.VIDEO_RUNS)
+      expect(builder.parse(path.fullPath)?.resourceId).toBe(
+        'run-1/prints/segment_001',
+      )
+    })
+  })
+
+  describe('videoArchive', () => {
+    it('should build path for the frames zip by default', () => {
+      const path = builder.videoArchive('video-123')
+
+      expect(path.key).toBe('video/video-123/archive/frames.zip')
+      expect(path.context).toBe(StorageContext.VIDEO_ARCHIVE)
+      expect(path.resourceId).toBe('frames.zip')
+    })
+
+    it('should build path for the zip of a run', () => {
+      const path = builder.videoArchive('video-123', undefined, 'run-1')
+
+      expect(path.key).toBe('video/video-123/runs/run-1/archive/frames.zip')
+    })
+
+    it('should be parseable', () => {
+      const path = builder.videoArchive('video-123')
+
+      expect(builder.parse(path.fullPath)?.context).toBe(
+        StorageContext.VIDEO_ARCHIVE,
+      )
+    })
+  })
+
+  describe('framesManifest', () => {
+    it('should build path for the manifest of the video', () => {
+      const path = builder.framesManifest('video-123')
+
+      expect(path.key).toBe('video/video-123/prints/manifest.json')
+      expect(path.context).toBe(StorageContext.VIDEO_PRINTS)
+    })
+
+    it('should build path for the manifest of a segment of a run', () => {
+      const path = builder.framesManifest('video-123', 'run-1', 'segment_002')
+
+      expect(path.key).toBe(
+        'video/video-123/runs/run-1/prints/segment_002/manifest.json',
+      )
+    })
   })
 
   describe('parse', () => {
@@ -170,5 +221,7 @@ describe('StorageContext', () => {
     expect(StorageContext.VIDEO_FILE).toBe('file')
     expect(StorageContext.VIDEO_PARTS).toBe('parts')
     expect(StorageContext.VIDEO_PRINTS).toBe('prints')
+    expect(StorageContext.VIDEO_ARCHIVE).toBe('archive')
+    expect(StorageContext.VIDEO_RUNS).toBe('runs')
   })
 })
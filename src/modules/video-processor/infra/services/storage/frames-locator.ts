@@ -0,0 +1,47 @@
+import type {
+  FramesLocation,
+  FramesLocator,
+} from '@modules/video-processor/domain/services/frames-locator.interface'
+import {
+  createStoragePathBuilder,
+  type StoragePathBuilder,
+} from './storage-path-builder'
+
+export type FramesLocatorConfig = {
+  outputBucket: string
+  publicEndpoint: string
+}
+
+/**
+ * Resolves where the print worker uploads the frames of a video
+ * (`{outputBucket}/video/{videoId}/prints/`, or
+ * `{outputBucket}/video/{videoId}/runs/{runId}/prints/` for a reprocess run).
+ */
+export class StorageFramesLocator implements FramesLocator {
+  constructor(
+    private readonly config: FramesLocatorConfig,
+    private readonly pathBuilder: StoragePathBuilder = createStoragePathBuilder(),
+  ) {}
+
+  locate(videoId: string, runId?: string): FramesLocation {
+    const prefix = this.pathBuilder.videoPrint(videoId, '', runId).key
+
+    return {
+      bucket: this.config.outputBucket,
+      prefix,
+      url: `${this.config.publicEndpoint}/${this.config.outputBucket}/${prefix}`,
+      archiveKey: this.pathBuilder.videoArchive(videoId, undefined, runId).key,
+      manifestKey: this.pathBuilder.framesManifest(videoId, runId).key,
+    }
+  }
+}
+
+export function createFramesLocator(): StorageFramesLocator {
+  return new StorageFramesLocator({
+    outputBucket: process.env.S3_OUTPUT_BUCKET ?? 'fiapx-video-frames',
+    publicEndpoint:
+      process.env.AWS_PUBLIC_ENDPOINT ??
+      process.env.AWS_ENDPOINT_URL ??
+      'http://localhost:4566',
+  })
+}
@@ -1,9 +1,17 @@
 export {
   StoragePathBuilder,
   StorageContext,
+  FRAMES_ARCHIVE_FILENAME,
+  FRAMES_MANIFEST_FILENAME,
   createStoragePathBuilder,
   type StorageConfig,
   type StoragePath,
   type ParsedStoragePath,
   type StorageContextType,
 } from './storage-path-builder'
+export { createS3Client } from './s3-client'
+export {
+  StorageFramesLocator,
+  createFramesLocator,
+  type FramesLocatorConfig,
+} from './frames-locator'
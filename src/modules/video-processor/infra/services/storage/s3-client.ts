@@ -0,0 +1,29 @@
+import { S3Client } from '@aws-sdk/client-s3'
+
+/**
+ * S3 client on the internal endpoint (LocalStack in development), shared by
+ * the API services and the workers.
+ */
+export function createS3Client(): S3Client {
+  const endpoint = Bun.env.AWS_ENDPOINT_URL ?? Bun.env.AWS_ENDPOINT ?? undefined
+
+  // When explicit credentials are provided (e.g. LocalStack), use them.
+  // Otherwise let the AWS SDK resolve credentials automatically
+  // (IRSA / node instance profile on EKS).
+  const credentials =
+    Bun.env.AWS_ACCESS_KEY_ID && Bun.env.AWS_SECRET_ACCESS_KEY
+      ? {
+          accessKeyId: Bun.env.AWS_ACCESS_KEY_ID,
+          secretAccessKey: Bun.env.AWS_SECRET_ACCESS_KEY,
+        }
+      : undefined
+
+  return new S3Client({
+    region: Bun.env.AWS_REGION ?? 'us-east-1',
+    ...(endpoint && { endpoint }),
+    forcePathStyle: true,
+    ...(credentials && { credentials }),
+    requestChecksumCalculation: 'WHEN_REQUIRED',
+    responseChecksumValidation: 'WHEN_REQUIRED',
+  })
+}
@@ -2,8 +2,13 @@ export const StorageContext = {
   VIDEO_FILE: 'file',
   VIDEO_PARTS: 'parts',
   VIDEO_PRINTS: 'prints',
+  VIDEO_ARCHIVE: 'archive',
+  VIDEO_RUNS: 'runs',
 } as const
 
+export const FRAMES_ARCHIVE_FILENAME = 'frames.zip'
+export const FRAMES_MANIFEST_FILENAME = 'manifest.json'
+
 export type StorageContextType =
   (typeof StorageContext)[keyof typeof StorageContext]
 
@@ -34,6 +39,8 @@ const VALID_CONTEXTS: StorageContextType[] = [
   StorageContext.VIDEO_FILE,
   StorageContext.VIDEO_PARTS,
   StorageContext.VIDEO_PRINTS,
+  StorageContext.VIDEO_ARCHIVE,
+  StorageContext.VIDEO_RUNS,
 ]
 
 export class StoragePathBuilder {
@@ -51,8 +58,49 @@ export class StoragePathBuilder {
     return this.build(videoId, StorageContext.VIDEO_PARTS, partId)
   }
 
-  videoPrint(videoId: string, printId: string): StoragePath {
-    return this.build(videoId, StorageContext.VIDEO_PRINTS, printId)
+  /**
+   * Frames of a reprocess run (`runId`) go to `video/{id}/runs/{runId}/prints/`,
+   * next to the ones of the earlier runs.
+   */
+  videoPrint(videoId: string, printId: string, runId?: string): StoragePath {
+    return this.buildForRun(
+      videoId,
+      StorageContext.VIDEO_PRINTS,
+      printId,
+      runId,
+    )
+  }
+
+  /**
+   * Timestamps and checksums of the frames: `prints/manifest.json` for the
+   * whole video, `prints/{segmentId}/manifest.json` for one segment.
+   */
+  framesManifest(
+    videoId: string,
+    runId?: string,
+    segmentId?: string,
+  ): StoragePath {
+    return this.videoPrint(
+      videoId,
+      segmentId
+        ? `${segmentId}/${FRAMES_MANIFEST_FILENAME}`
+        : FRAMES_MANIFEST_FILENAME,
+      runId,
+    )
+  }
+
+  /** Zip with every extracted frame, built once the video is processed */
+  videoArchive(
+    videoId: string,
+    filename: string = FRAMES_ARCHIVE_FILENAME,
+    runId?: string,
+  ): StoragePath {
+    return this.buildForRun(
+      videoId,
+      StorageContext.VIDEO_ARCHIVE,
+      filename,
+      runId,
+    )
   }
 
   parse(fullPath: string): ParsedStoragePath | null {
@@ -86,6 +134,20 @@ export class StoragePathBuilder {
     return parsed?.videoId ?? null
   }
 
+  private buildForRun(
+    videoId: string,
+    context: StorageContextType,
+    resourceId: string,
+    runId?: string,
+  ): StoragePath {
+    if (!runId) return this.build(videoId, context, resourceId)
+    return this.build(
+      videoId,
+      StorageContext.VIDEO_RUNS,
+      `${runId}/${context}/${resourceId}`,
+    )
+  }
+
   private build(
     videoId: string,
     context: StorageContextType,
@@ -11,14 +11,22 @@ export type VideoStatus =
   | 'PRINTING'
   | 'COMPLETED'
   | 'FAILED'
+  | 'CANCELLED'
 
 export type PartStatus = 'pending' | 'uploaded' | 'failed'
 
+export type VideoSegmentStatus =
+  | 'PENDING'
+  | 'PROCESSING'
+  | 'COMPLETED'
+  | 'FAILED'
+
 // Tabela: video
 // Query: SELECT * FROM video WHERE video_id = ?
 export type VideoTable = {
   video_id: string
   user_id: string
+  user_email?: string
   status: VideoStatus
   total_size: number
   duration: number
@@ -29,11 +37,33 @@ export type VideoTable = {
   third_party_video_id: string
   object_key: string
   bucket_name: string
-  failure_reason?: string
+  failure_reason?: string | null
   created_at: Date
   updated_at: Date
   total_segments?: number
+  segment_duration_ms?: number | null
   processed_segments?: number
+  processed_segment_numbers?: number[] | null
+  run_id?: string | null
+  run_frame_interval?: number | null
+  run_started_at?: Date | null
+  profile_mode?: string | null
+  profile_frame_interval?: number | null
+  profile_fps?: number | null
+  profile_scene_threshold?: number | null
+  profile_min_frames?: number | null
+  profile_max_frames?: number | null
+  profile_format?: string | null
+  profile_max_width?: number | null
+  profile_max_height?: number | null
+  profile_quality?: number | null
+  probe_container?: string | null
+  probe_video_codec?: string | null
+  probe_audio_codec?: string | null
+  probe_width?: number | null
+  probe_height?: number | null
+  probe_fps?: number | null
+  probed_at?: Date | null
 }
 
 // Tabela: video_by_user (materialização)
@@ -45,6 +75,13 @@ export type VideoByUserTable = {
   status: VideoStatus
 }
 
+// Tabela: video_pending_upload (uploads em andamento)
+// Query: SELECT video_id FROM video_pending_upload (varredura paginada)
+export type VideoPendingUploadTable = {
+  video_id: string
+  created_at: Date
+}
+
 // Tabela: video_parts
 // Query: SELECT * FROM video_parts WHERE video_id = ?
 // third_party_video_part_id armazena o identificador do provedor (ex: ETag do S3)
@@ -75,3 +112,42 @@ export type VideoByObjectKeyTable = {
   bucket_name: string
   video_id: string
 }
+
+// Tabela: video_status_history (auditoria das transições de status)
+// Query: SELECT * FROM video_status_history WHERE video_id = ?
+export type VideoStatusHistoryTable = {
+  video_id: string
+  changed_at: Date
+  entry_id: string
+  from_status: VideoStatus
+  to_status: VideoStatus
+  correlation_id?: string | null
+  source: string
+  reason?: string | null
+}
+
+// Tabela: video_processing_run (uma linha por reprocessamento)
+// Query: SELECT * FROM video_processing_run WHERE video_id = ?
+export type VideoProcessingRunTable = {
+  video_id: string
+  started_at: Date
+  run_id: string
+  previous_status: VideoStatus
+  frame_interval?: number | null
+  correlation_id?: string | null
+}
+
+// Tabela: video_segments (um registro por segmento enviado à fila de prints)
+// Query: SELECT * FROM video_segments WHERE video_id = ? [AND segment_number = ?]
+export type VideoSegmentsTable = {
+  video_id: string
+  segment_number: number
+  start_time: number
+  end_time: number
+  status: VideoSegmentStatus
+  attempts: number
+  frame_count?: number | null
+  last_error?: string | null
+  created_at: Date
+  updated_at: Date
+}
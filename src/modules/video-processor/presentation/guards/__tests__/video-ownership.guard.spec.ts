@@ -0,0 +1,91 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'bun:test'
+import { SignJWT } from 'jose'
+import { BaseElysia } from '@core/libs/elysia'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import { InMemoryVideoRepository } from '@modules/video-processor/__tests__/factories/in-memory-video.repository'
+import { VideoFactory } from '@modules/video-processor/__tests__/factories/video.factory'
+import { createVideoOwnershipGuard } from '../video-ownership.guard'
+
+const SECRET = 'guard-test-secret-with-enough-entropy'
+const OWNER_ID = '11111111-1111-4111-8111-111111111111'
+const OTHER_ID = '22222222-2222-4222-8222-222222222222'
+
+function signToken(subject: string) {
+  return new SignJWT({})
+    .setProtectedHeader({ alg: 'HS256' })
+    .setSubject(subject)
+    .setExpirationTime('5m')
+    .sign(new TextEncoder().encode(SECRET))
+}
+
+describe('videoOwnershipGuard', () => {
+  let repository: InMemoryVideoRepository
+  let app: ReturnType<typeof createApp>
+
+  function createApp() {
+    return BaseElysia.createAuthenticated({ prefix: 'videos' })
+      .use(createVideoOwnershipGuard(() => repository))
+      .get('/', ({ user }) => ({ userId: user.id }))
+      .get('/:id', ({ params }) => ({ videoId: params.id }))
+  }
+
+  async function request(path: string, subject?: string) {
+    const headers: Record<string, string> = {}
+    if (subject) headers.authorization = `Bearer ${await signToken(subject)}`
+    return app.handle(new Request(`http://localhost${path}`, { headers }))
+  }
+
+  beforeAll(() => {
+    process.env.AUTH_JWT_SECRET = SECRET
+  })
+
+  beforeEach(() => {
+    repository = new InMemoryVideoRepository()
+    app = createApp()
+  })
+
+  it('should reject requests without a bearer token', async () => {
+    const response = await request('/videos')
+
+    expect(response.status).toBe(401)
+  })
+
+  it('should let authenticated users through routes without an id', async () => {
+    const response = await request('/videos', OTHER_ID)
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ userId: OTHER_ID })
+  })
+
+  it('should allow the owner to access the video', async () => {
+    const video = VideoFactory.create({
+      userId: UniqueEntityID.create(OWNER_ID),
+    })
+    await repository.createVideo(video)
+
+    const response = await request(`/videos/${video.id.value}`, OWNER_ID)
+
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ videoId: video.id.value })
+  })
+
+  it('should answer 404 when the video belongs to another user', async () => {
+    const video = VideoFactory.create({
+      userId: UniqueEntityID.create(OWNER_ID),
+    })
+    await repository.createVideo(video)
+
+    const response = await request(`/videos/${video.id.value}`, OTHER_ID)
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should answer 404 when the video does not exist', async () => {
+    const response = await request(
+      `/videos/${UniqueEntityID.create().value}`,
+      OWNER_ID,
+    )
+
+    expect(response.status).toBe(404)
+  })
+})
@@ -0,0 +1,49 @@
+import { BaseElysia } from '@core/libs/elysia'
+import type { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+
+type VideoRepositoryFactory = (
+  logger: AbstractLoggerService,
+) => Pick<VideoRepository, 'findById'>
+
+/**
+ * Rejects requests to `/:id/*` routes for videos the authenticated user does
+ * not own. Answers 404 (not 403) so that video ids of other users cannot be
+ * probed.
+ */
+export function createVideoOwnershipGuard(
+  repositoryFactory: VideoRepositoryFactory = (logger) =>
+    new VideoRepositoryImpl(logger),
+) {
+  return BaseElysia.createAuthenticated({
+    name: 'video-ownership',
+  }).onBeforeHandle(
+    { as: 'scoped' },
+    async ({ params, user, logger, status }) => {
+      const videoId = (params as Record<string, string> | undefined)?.id
+      if (!videoId) return
+
+      const videoResult = await repositoryFactory(logger).findById(videoId)
+
+      if (videoResult.isFailure) {
+        return status(500, { error: 'Failed to load video' })
+      }
+
+      const video = videoResult.value
+      if (!video || video.userId.value !== user.id) {
+        logger.warn('Video access denied', {
+          event: 'video.ownership.denied',
+          resource: 'VideoOwnershipGuard',
+          message: video ? 'Video owned by another user' : 'Video not found',
+          status: 'failure',
+          'video.id': videoId,
+          'user.id': user.id,
+        })
+        return status(404, { error: `Video not found: ${videoId}` })
+      }
+    },
+  )
+}
+
+export const videoOwnershipGuard = createVideoOwnershipGuard()
@@ -0,0 +1,81 @@
+import { InvalidStatusTransitionError } from '@core/errors/invalid-status-transition.error'
+import { BaseElysia } from '@core/libs/elysia'
+import { CassandraOutboxRepository } from '@modules/messaging/outbox'
+import { CancelUploadUseCase } from '@modules/video-processor/application/cancel-upload.use-case'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { UploadVideoParts } from '@modules/video-processor/infra/services/aws/s3/upload-video-parts'
+import { videoLiveEvents } from '@modules/video-processor/infra/services/live-events/in-memory-video-live-events'
+import { StatusMap, t } from 'elysia'
+
+export const cancelUploadRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).delete(
+  '/:id/upload',
+  async ({ params, logger, set, tracingContext }) => {
+    const { id: videoId } = params
+    const { correlationId, traceId } = tracingContext
+
+    const useCase = new CancelUploadUseCase(
+      new VideoRepositoryImpl(logger),
+      new UploadVideoParts(logger),
+      new CassandraOutboxRepository(logger),
+      videoLiveEvents,
+    )
+
+    const result = await useCase.execute({ videoId, correlationId, traceId })
+
+    if (result.isFailure) {
+      set.status =
+        result.error instanceof InvalidStatusTransitionError
+          ? StatusMap.Conflict
+          : StatusMap['Bad Request']
+      return { error: result.error.message }
+    }
+
+    if (!result.value.uploadAborted && result.value.cancelled) {
+      logger.warn('Multipart upload was not aborted', {
+        event: 'video.upload.cancel',
+        resource: 'CancelUploadRoute',
+        message: 'S3 rejected the multipart upload abort',
+        status: 'failure',
+        'video.id': videoId,
+      })
+    }
+
+    return {
+      message: 'Upload cancelled successfully',
+      videoId,
+      status: result.value.status,
+      cancelled: result.value.cancelled,
+    }
+  },
+  {
+    detail: {
+      tags: ['Video Processor'],
+      summary: 'Cancel upload',
+      description:
+        'Cancels an upload that was not completed yet: aborts the S3 multipart upload and moves the video to CANCELLED. Cancelling an already cancelled video is a no-op.',
+    },
+    params: t.Object({
+      id: t.String({ description: 'Video ID' }),
+    }),
+    response: {
+      200: t.Object({
+        message: t.String(),
+        videoId: t.String(),
+        status: t.String({ description: 'New video status (CANCELLED)' }),
+        cancelled: t.Boolean({
+          description: 'False when the video was already cancelled',
+        }),
+      }),
+      400: t.Object({
+        error: t.String(),
+      }),
+      409: t.Object({
+        error: t.String({
+          description: 'Upload already completed or video is processing',
+        }),
+      }),
+    },
+  },
+)
@@ -1,23 +1,26 @@
-import { DefaultEventBridge } from '@core/events/event-bridge'
 import { BaseElysia } from '@core/libs/elysia'
+import { CassandraOutboxRepository } from '@modules/messaging/outbox'
 import { CompleteUploadUseCase } from '@modules/video-processor/application/complete-upload.use-case'
 import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
 import { UploadVideoParts } from '@modules/video-processor/infra/services/aws/s3/upload-video-parts'
+import { videoLiveEvents } from '@modules/video-processor/infra/services/live-events/in-memory-video-live-events'
 import { ReconcileUploadService } from '@modules/video-processor/domain/services/reconcile-upload.service'
 import { StatusMap, t } from 'elysia'
 
-export const completeUploadRoute = BaseElysia.create({ prefix: '' }).post(
+export const completeUploadRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).post(
   '/:id/complete',
   async ({ params, logger, set, tracingContext }) => {
     const { id: videoId } = params
     const { correlationId, traceId } = tracingContext
 
     const videoRepository = new VideoRepositoryImpl(logger)
-    const eventBridge = new DefaultEventBridge(logger)
     const reconcileService = new ReconcileUploadService(
       logger,
       videoRepository,
-      eventBridge,
+      new CassandraOutboxRepository(logger),
+      videoLiveEvents,
     )
 
     const useCase = new CompleteUploadUseCase(
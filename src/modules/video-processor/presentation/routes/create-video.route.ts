@@ -4,16 +4,19 @@ import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories
 import { UploadVideoParts } from '@modules/video-processor/infra/services/aws/s3/upload-video-parts'
 import { StatusMap, t } from 'elysia'
 
-export const createVideoRoute = BaseElysia.create({ prefix: '' }).post(
+export const createVideoRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).post(
   '/',
-  async ({ body, logger, set }) => {
+  async ({ body, user, logger, set }) => {
     logger.log('Creating video', {
       totalSize: body.totalSize,
       duration: body.duration,
       filename: body.filename,
       extension: body.extension,
+      processingProfile: body.processingProfile,
     })
-    const { totalSize, duration, filename, extension } = body
+    const { totalSize, duration, filename, extension, processingProfile } = body
 
     const useCase = new CreateVideoUseCase(
       new VideoRepositoryImpl(logger),
@@ -22,10 +25,13 @@ export const createVideoRoute = BaseElysia.create({ prefix: '' }).post(
     )
 
     const result = await useCase.execute({
+      userId: user.id,
+      userEmail: user.email,
       totalSize,
       duration,
       filename,
       extension,
+      processingProfile,
     })
 
     if (result.isFailure) {
@@ -47,6 +53,7 @@ export const createVideoRoute = BaseElysia.create({ prefix: '' }).post(
       urls: result.value.urls,
       videoPath,
       status: result.value.video.status.value,
+      processingProfile: result.value.video.processingProfile.toJSON(),
     }
   },
   {
@@ -67,6 +74,70 @@ export const createVideoRoute = BaseElysia.create({ prefix: '' }).post(
       extension: t.String({
         description: 'Video extension (mp4, mov, avi, mkv, webm)',
       }),
+      processingProfile: t.Optional(
+        t.Object(
+          {
+            mode: t.Optional(
+              t.String({
+                description:
+                  'interval (default) samples at a fixed rate; scene keeps the frames where the picture changes',
+              }),
+            ),
+            frameInterval: t.Optional(
+              t.Number({
+                description:
+                  'Seconds between extracted frames (up to 10). Exclusive with fps',
+              }),
+            ),
+            fps: t.Optional(
+              t.Number({
+                description:
+                  'Frames extracted per second (up to 30). Exclusive with frameInterval',
+              }),
+            ),
+            sceneThreshold: t.Optional(
+              t.Number({
+                description:
+                  'Scene mode: change between frames (0-1) that counts as a new scene. Defaults to 0.3',
+              }),
+            ),
+            minFrames: t.Optional(
+              t.Number({
+                description:
+                  'Scene mode: evenly spaced frames are taken from segments with fewer scenes',
+              }),
+            ),
+            maxFrames: t.Optional(
+              t.Number({
+                description:
+                  'Scene mode: at most this many frames per segment, spread over it',
+              }),
+            ),
+            format: t.Optional(
+              t.String({ description: 'Frame format (jpg, png, webp)' }),
+            ),
+            maxWidth: t.Optional(
+              t.Number({
+                description: 'Frames wider than this are scaled down',
+              }),
+            ),
+            maxHeight: t.Optional(
+              t.Number({
+                description: 'Frames taller than this are scaled down',
+              }),
+            ),
+            quality: t.Optional(
+              t.Number({
+                description: 'Encoding quality from 1 to 100 (jpg and webp)',
+              }),
+            ),
+          },
+          {
+            description:
+              'How frames are extracted. Defaults to one jpg per second at the source resolution',
+          },
+        ),
+      ),
     }),
     response: {
       200: t.Object({
@@ -78,6 +149,18 @@ export const createVideoRoute = BaseElysia.create({ prefix: '' }).post(
         }),
         videoPath: t.String({ description: 'Video path in S3' }),
         status: t.String({ description: 'Current video status' }),
+        processingProfile: t.Object({
+          mode: t.Optional(t.String()),
+          frameInterval: t.Optional(t.Number()),
+          fps: t.Optional(t.Number()),
+          sceneThreshold: t.Optional(t.Number()),
+          minFrames: t.Optional(t.Number()),
+          maxFrames: t.Optional(t.Number()),
+          format: t.String(),
+          maxWidth: t.Optional(t.Number()),
+          maxHeight: t.Optional(t.Number()),
+          quality: t.Optional(t.Number()),
+        }),
       }),
       422: t.Object({
         message: t.String(),
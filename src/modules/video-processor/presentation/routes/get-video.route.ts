@@ -0,0 +1,135 @@
+import { BaseElysia } from '@core/libs/elysia'
+import { GetVideoUseCase } from '@modules/video-processor/application/get-video.use-case'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { S3FramesDownloadService } from '@modules/video-processor/infra/services/aws/s3/frames-download'
+import { createFramesLocator } from '@modules/video-processor/infra/services/storage'
+import { StatusMap, t } from 'elysia'
+
+export const getVideoRoute = BaseElysia.createAuthenticated({ prefix: '' }).get(
+  '/:id',
+  async ({ params, logger, set }) => {
+    const { id: videoId } = params
+
+    const useCase = new GetVideoUseCase(
+      new VideoRepositoryImpl(logger),
+      createFramesLocator(),
+      new S3FramesDownloadService(logger),
+    )
+
+    const result = await useCase.execute({ videoId })
+
+    if (result.isFailure) {
+      set.status = StatusMap['Not Found']
+      return { error: result.error.message }
+    }
+
+    const video = result.value
+
+    return {
+      videoId: video.videoId,
+      status: video.status,
+      metadata: video.metadata,
+      failureReason: video.failureReason,
+      processing: video.processing,
+      processingProfile: video.processingProfile,
+      frames: video.frames && {
+        ...video.frames,
+        archive: {
+          url: video.frames.archive.url,
+          expiresAt: video.frames.archive.expiresAt.toISOString(),
+        },
+        manifest: {
+          url: video.frames.manifest.url,
+          expiresAt: video.frames.manifest.expiresAt.toISOString(),
+        },
+      },
+      createdAt: video.createdAt.toISOString(),
+      updatedAt: video.updatedAt.toISOString(),
+    }
+  },
+  {
+    detail: {
+      tags: ['Video Processor'],
+      summary: 'Get video details',
+      description:
+        'Returns the current lifecycle state of a video: status, metadata, processing progress and, once COMPLETED, where its frames are stored and a presigned URL to the frames zip',
+    },
+    params: t.Object({
+      id: t.String({ description: 'Video ID' }),
+    }),
+    response: {
+      200: t.Object({
+        videoId: t.String(),
+        status: t.String({ description: 'Current video status' }),
+        metadata: t.Object({
+          filename: t.String(),
+          extension: t.String(),
+          totalSize: t.Number({ description: 'Total video size in bytes' }),
+          durationMs: t.Number({ description: 'Duration in milliseconds' }),
+          probe: t.Optional(
+            t.Object(
+              {
+                durationMs: t.Number(),
+                container: t.String(),
+                videoCodec: t.String(),
+                audioCodec: t.Optional(t.String()),
+                width: t.Number(),
+                height: t.Number(),
+                fps: t.Number(),
+              },
+              { description: 'What ffprobe read from the uploaded file' },
+            ),
+          ),
+        }),
+        failureReason: t.Optional(t.String()),
+        processing: t.Object({
+          total: t.Number({ description: 'Total segments' }),
+          processed: t.Number({ description: 'Processed segments' }),
+          percentage: t.Number(),
+        }),
+        processingProfile: t.Object(
+          {
+            mode: t.Optional(t.String()),
+            frameInterval: t.Optional(t.Number()),
+            fps: t.Optional(t.Number()),
+            sceneThreshold: t.Optional(t.Number()),
+            minFrames: t.Optional(t.Number()),
+            maxFrames: t.Optional(t.Number()),
+            format: t.String(),
+            maxWidth: t.Optional(t.Number()),
+            maxHeight: t.Optional(t.Number()),
+            quality: t.Optional(t.Number()),
+          },
+          { description: 'How the frames of the latest run are extracted' },
+        ),
+        frames: t.Optional(
+          t.Object({
+            bucket: t.String(),
+            prefix: t.String({ description: 'Frames key prefix in S3' }),
+            url: t.String({ description: 'Frames location URL' }),
+            archiveKey: t.String({ description: 'Frames zip key in S3' }),
+            archive: t.Object({
+              url: t.String({ description: 'Presigned URL to the frames zip' }),
+              expiresAt: t.String(),
+            }),
+            manifestKey: t.String({
+              description:
+                'Frames manifest (timestamps and checksums) key in S3',
+            }),
+            manifest: t.Object({
+              url: t.String({
+                description: 'Presigned URL to the frames manifest',
+              }),
+              expiresAt: t.String(),
+            }),
+          }),
+        ),
+        createdAt: t.String(),
+        updatedAt: t.String(),
+      }),
+      404: t.Object({
+        error: t.String(),
+      }),
+    },
+  },
+)
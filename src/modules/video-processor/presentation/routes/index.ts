@@ -2,18 +2,42 @@ import { BaseElysia } from '@core/libs/elysia'
 import { createVideoRoute } from './create-video.route'
 import { reportPartRoute } from './report-part.route'
 import { progressRoute } from './progress.route'
+import { getVideoRoute } from './get-video.route'
+import { listFramesRoute } from './list-frames.route'
+import { videoEventsRoute } from './video-events.route'
+import { videoHistoryRoute } from './video-history.route'
+import { listSegmentsRoute } from './list-segments.route'
+import { retrySegmentRoute } from './retry-segment.route'
+import { reprocessVideoRoute } from './reprocess-video.route'
+import { listVideosRoute } from './list-videos.route'
 import { completeUploadRoute } from './complete-upload.route'
+import { cancelUploadRoute } from './cancel-upload.route'
 import { uploadUrlsRoute } from './upload-urls.route'
 import { simulateRoutes } from './simulate'
+import { videoOwnershipGuard } from '../guards/video-ownership.guard'
 
 // S3 events flow via EventBridge → SNS → SQS → CompleteMultipartConsumer (see ADR 010/014).
 // The ReconcileUploadService provides idempotent processing for both
 // the API endpoint (POST /complete) and the SQS consumer.
 
-export const videoProcessorRoutes = BaseElysia.create({ prefix: 'videos' })
+// Every route requires a JWT; routes with an `:id` param are also restricted
+// to the video owner by videoOwnershipGuard (registered before the routes).
+export const videoProcessorRoutes = BaseElysia.createAuthenticated({
+  prefix: 'videos',
+})
+  .use(videoOwnershipGuard)
   .use(createVideoRoute)
+  .use(listVideosRoute)
   .use(uploadUrlsRoute)
   .use(reportPartRoute)
   .use(progressRoute)
   .use(completeUploadRoute)
+  .use(cancelUploadRoute)
   .use(simulateRoutes)
+  .use(listFramesRoute)
+  .use(videoEventsRoute)
+  .use(videoHistoryRoute)
+  .use(listSegmentsRoute)
+  .use(retrySegmentRoute)
+  .use(reprocessVideoRoute)
+  .use(getVideoRoute)
@@ -0,0 +1,115 @@
+import { BaseElysia } from '@core/libs/elysia'
+import { InvalidCursorError } from '@core/errors/invalid-cursor.error'
+import { NotFoundError } from '@core/errors/not-found.error'
+import {
+  ListVideoFramesUseCase,
+  DEFAULT_FRAMES_PAGE_SIZE,
+  MAX_FRAMES_PAGE_SIZE,
+} from '@modules/video-processor/application/list-video-frames.use-case'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { VideoSegmentRepositoryImpl } from '@modules/video-processor/infra/repositories/video-segment-repository-impl'
+import { S3FramesDownloadService } from '@modules/video-processor/infra/services/aws/s3/frames-download'
+import { StatusMap, t } from 'elysia'
+
+// Segment length of the orchestrator before it recorded the one it planned
+const SEGMENT_DURATION_MS = 10_000
+
+export const listFramesRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).get(
+  '/:id/frames',
+  async ({ params, query, logger, set }) => {
+    const useCase = new ListVideoFramesUseCase(
+      new VideoRepositoryImpl(logger),
+      new VideoSegmentRepositoryImpl(logger),
+      new S3FramesDownloadService(logger),
+      { segmentDurationMs: SEGMENT_DURATION_MS },
+    )
+
+    const result = await useCase.execute({
+      videoId: params.id,
+      pageSize: query.pageSize,
+      cursor: query.cursor,
+    })
+
+    if (result.isFailure) {
+      if (result.error instanceof InvalidCursorError) {
+        set.status = StatusMap['Bad Request']
+        return { error: result.error.message }
+      }
+      if (result.error instanceof NotFoundError) {
+        set.status = StatusMap['Not Found']
+        return { error: result.error.message }
+      }
+      set.status = StatusMap['Internal Server Error']
+      return { error: result.error.message }
+    }
+
+    return {
+      segments: result.value.segments.map((segment) => ({
+        ...segment,
+        frames: segment.frames.map((frame) => ({
+          ...frame,
+          expiresAt: frame.expiresAt.toISOString(),
+        })),
+      })),
+      nextCursor: result.value.nextCursor,
+    }
+  },
+  {
+    detail: {
+      tags: ['Video Processor'],
+      summary: 'List video frames',
+      description:
+        'Lists the extracted frames grouped by segment, each with its timestamp in the video and a short-lived presigned download URL. Pass `nextCursor` back as `cursor` to fetch the next page.',
+    },
+    params: t.Object({
+      id: t.String({ description: 'Video ID' }),
+    }),
+    query: t.Object({
+      pageSize: t.Optional(
+        t.Numeric({
+          minimum: 1,
+          maximum: MAX_FRAMES_PAGE_SIZE,
+          default: DEFAULT_FRAMES_PAGE_SIZE,
+        }),
+      ),
+      cursor: t.Optional(
+        t.String({ description: 'Opaque cursor from a previous page' }),
+      ),
+    }),
+    response: {
+      200: t.Object({
+        segments: t.Array(
+          t.Object({
+            segmentNumber: t.Number(),
+            startTimeMs: t.Number({
+              description: 'Segment start in the video, in milliseconds',
+            }),
+            frames: t.Array(
+              t.Object({
+                frameNumber: t.Number(),
+                key: t.String({ description: 'Frame key in S3' }),
+                timestampMs: t.Number({
+                  description: 'Frame position in the video, in milliseconds',
+                }),
+                url: t.String({ description: 'Presigned download URL' }),
+                expiresAt: t.String(),
+              }),
+            ),
+          }),
+        ),
+        nextCursor: t.Optional(t.String()),
+      }),
+      400: t.Object({
+        error: t.String(),
+      }),
+      404: t.Object({
+        error: t.String(),
+      }),
+      500: t.Object({
+        error: t.String(),
+      }),
+    },
+  },
+)
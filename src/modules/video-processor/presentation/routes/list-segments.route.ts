@@ -0,0 +1,72 @@
+import { BaseElysia } from '@core/libs/elysia'
+import { NotFoundError } from '@core/errors/not-found.error'
+import { ListVideoSegmentsUseCase } from '@modules/video-processor/application/list-video-segments.use-case'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { VideoSegmentRepositoryImpl } from '@modules/video-processor/infra/repositories/video-segment-repository-impl'
+import { StatusMap, t } from 'elysia'
+
+export const listSegmentsRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).get(
+  '/:id/segments',
+  async ({ params, logger, set }) => {
+    const useCase = new ListVideoSegmentsUseCase(
+      new VideoRepositoryImpl(logger),
+      new VideoSegmentRepositoryImpl(logger),
+    )
+
+    const result = await useCase.execute({ videoId: params.id })
+
+    if (result.isFailure) {
+      set.status =
+        result.error instanceof NotFoundError
+          ? StatusMap['Not Found']
+          : StatusMap['Internal Server Error']
+      return { error: result.error.message }
+    }
+
+    return {
+      ...result.value,
+      segments: result.value.segments.map((segment) => ({
+        ...segment,
+        updatedAt: segment.updatedAt.toISOString(),
+      })),
+    }
+  },
+  {
+    detail: {
+      tags: ['Video Processor'],
+      summary: 'List video segments',
+      description:
+        'State of each segment sent to the print workers: its range in the video, status (PENDING, PROCESSING, COMPLETED or FAILED), attempts, extracted frames and last error. FAILED segments can be retried with `POST /videos/:id/segments/:n/retry`.',
+    },
+    params: t.Object({
+      id: t.String({ description: 'Video ID' }),
+    }),
+    response: {
+      200: t.Object({
+        videoId: t.String(),
+        status: t.String({ description: 'Current video status' }),
+        totalSegments: t.Number(),
+        segments: t.Array(
+          t.Object({
+            segmentNumber: t.Number(),
+            startTime: t.Number({ description: 'In seconds' }),
+            endTime: t.Number({ description: 'In seconds' }),
+            status: t.String(),
+            attempts: t.Number(),
+            frameCount: t.Optional(t.Number()),
+            lastError: t.Optional(t.String()),
+            updatedAt: t.String(),
+          }),
+        ),
+      }),
+      404: t.Object({
+        error: t.String(),
+      }),
+      500: t.Object({
+        error: t.String(),
+      }),
+    },
+  },
+)
@@ -0,0 +1,98 @@
+import { BaseElysia } from '@core/libs/elysia'
+import { InvalidCursorError } from '@core/errors/invalid-cursor.error'
+import {
+  ListVideosUseCase,
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from '@modules/video-processor/application/list-videos.use-case'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { StatusMap, t } from 'elysia'
+
+export const listVideosRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).get(
+  '/',
+  async ({ query, user, logger, set }) => {
+    const useCase = new ListVideosUseCase(new VideoRepositoryImpl(logger))
+
+    const result = await useCase.execute({
+      userId: user.id,
+      pageSize: query.pageSize,
+      cursor: query.cursor,
+      status: query.status,
+    })
+
+    if (result.isFailure) {
+      if (result.error instanceof InvalidCursorError) {
+        set.status = StatusMap['Bad Request']
+        return { error: result.error.message }
+      }
+      set.status = StatusMap['Internal Server Error']
+      return { error: result.error.message }
+    }
+
+    return {
+      items: result.value.items.map((video) => ({
+        ...video,
+        createdAt: video.createdAt.toISOString(),
+        updatedAt: video.updatedAt.toISOString(),
+      })),
+      nextCursor: result.value.nextCursor,
+    }
+  },
+  {
+    detail: {
+      tags: ['Video Processor'],
+      summary: 'List user videos',
+      description:
+        'Lists the videos of the authenticated user, newest first. Pass `nextCursor` back as `cursor` to fetch the next page. When filtering by status a page may hold fewer items than `pageSize`; keep paging while `nextCursor` is present.',
+    },
+    query: t.Object({
+      pageSize: t.Optional(
+        t.Numeric({
+          minimum: 1,
+          maximum: MAX_PAGE_SIZE,
+          default: DEFAULT_PAGE_SIZE,
+        }),
+      ),
+      cursor: t.Optional(
+        t.String({ description: 'Opaque cursor from a previous page' }),
+      ),
+      status: t.Optional(
+        t.Union([
+          t.Literal('CREATED'),
+          t.Literal('UPLOADING'),
+          t.Literal('UPLOADED'),
+          t.Literal('PROCESSING'),
+          t.Literal('SPLITTING'),
+          t.Literal('PRINTING'),
+          t.Literal('COMPLETED'),
+          t.Literal('FAILED'),
+          t.Literal('CANCELLED'),
+        ]),
+      ),
+    }),
+    response: {
+      200: t.Object({
+        items: t.Array(
+          t.Object({
+            videoId: t.String(),
+            status: t.String(),
+            filename: t.String(),
+            extension: t.String(),
+            durationMs: t.Number(),
+            createdAt: t.String(),
+            updatedAt: t.String(),
+          }),
+        ),
+        nextCursor: t.Optional(t.String()),
+      }),
+      400: t.Object({
+        error: t.String(),
+      }),
+      500: t.Object({
+        error: t.String(),
+      }),
+    },
+  },
+)
@@ -3,7 +3,7 @@ import { GetUploadProgressUseCase } from '@modules/video-processor/application/g
 import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
 import { StatusMap, t } from 'elysia'
 
-export const progressRoute = BaseElysia.create({ prefix: '' }).get(
+export const progressRoute = BaseElysia.createAuthenticated({ prefix: '' }).get(
   '/:id/progress',
   async ({ params, logger, set }) => {
     const { id: videoId } = params
@@ -1,15 +1,21 @@
 import { BaseElysia } from '@core/libs/elysia'
 import { ReportPartUploadUseCase } from '@modules/video-processor/application/report-part-upload.use-case'
 import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { videoLiveEvents } from '@modules/video-processor/infra/services/live-events/in-memory-video-live-events'
 import { StatusMap, t } from 'elysia'
 
-export const reportPartRoute = BaseElysia.create({ prefix: '' }).post(
+export const reportPartRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).post(
   '/:id/parts/:partNumber',
   async ({ params, body, logger, set }) => {
     const { id: videoId, partNumber } = params
     const { etag } = body
 
-    const useCase = new ReportPartUploadUseCase(new VideoRepositoryImpl(logger))
+    const useCase = new ReportPartUploadUseCase(
+      new VideoRepositoryImpl(logger),
+      videoLiveEvents,
+    )
 
     const result = await useCase.execute({
       videoId,
@@ -0,0 +1,92 @@
+import { BaseElysia } from '@core/libs/elysia'
+import { InvalidProcessingProfileError } from '@core/errors/invalid-processing-profile.error'
+import { InvalidStatusTransitionError } from '@core/errors/invalid-status-transition.error'
+import { NotFoundError } from '@core/errors/not-found.error'
+import { ReprocessVideoUseCase } from '@modules/video-processor/application/reprocess-video.use-case'
+import { MAX_FRAME_INTERVAL_SECONDS } from '@modules/video-processor/domain/value-objects/processing-profile.vo'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { VideoSegmentRepositoryImpl } from '@modules/video-processor/infra/repositories/video-segment-repository-impl'
+import { StatusMap, t } from 'elysia'
+
+export const reprocessVideoRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).post(
+  '/:id/reprocess',
+  async ({ params, body, logger, set, tracingContext }) => {
+    const { correlationId, traceId } = tracingContext
+
+    const useCase = new ReprocessVideoUseCase(
+      new VideoRepositoryImpl(logger),
+      new VideoSegmentRepositoryImpl(logger),
+    )
+
+    const result = await useCase.execute({
+      videoId: params.id,
+      frameInterval: body.frameInterval,
+      correlationId,
+      traceId,
+    })
+
+    if (result.isFailure) {
+      if (result.error instanceof NotFoundError) {
+        set.status = StatusMap['Not Found']
+      } else if (result.error instanceof InvalidStatusTransitionError) {
+        set.status = StatusMap.Conflict
+      } else if (result.error instanceof InvalidProcessingProfileError) {
+        set.status = StatusMap['Unprocessable Content']
+      } else {
+        set.status = StatusMap['Internal Server Error']
+      }
+      return { error: result.error.message }
+    }
+
+    return result.value
+  },
+  {
+    detail: {
+      tags: ['Video Processor'],
+      summary: 'Reprocess a video',
+      description:
+        'Starts a new processing run of a COMPLETED or FAILED video from its original upload. The run writes its frames under its own prefix (`video/{id}/runs/{runId}/`), so the frames of earlier runs are kept; the video endpoints then show the latest run.',
+    },
+    params: t.Object({
+      id: t.String({ description: 'Video ID' }),
+    }),
+    body: t.Object({
+      frameInterval: t.Optional(
+        t.Number({
+          exclusiveMinimum: 0,
+          maximum: MAX_FRAME_INTERVAL_SECONDS,
+          description:
+            'Seconds between extracted frames. Defaults to the processing profile of the video',
+        }),
+      ),
+    }),
+    response: {
+      200: t.Object({
+        videoId: t.String(),
+        runId: t.String({ description: 'Processing run started' }),
+        status: t.String({ description: 'New video status (PROCESSING)' }),
+        previousStatus: t.String(),
+        frameInterval: t.Optional(t.Number()),
+      }),
+      404: t.Object({
+        error: t.String(),
+      }),
+      409: t.Object({
+        error: t.String({
+          description:
+            'Video is not COMPLETED or FAILED, or segments of its last run are still being printed',
+        }),
+      }),
+      422: t.Object({
+        error: t.String({
+          description: 'frameInterval does not fit the processing profile',
+        }),
+      }),
+      500: t.Object({
+        error: t.String(),
+      }),
+    },
+  },
+)
@@ -0,0 +1,93 @@
+import { BaseElysia } from '@core/libs/elysia'
+import { InvalidStatusTransitionError } from '@core/errors/invalid-status-transition.error'
+import { NotFoundError } from '@core/errors/not-found.error'
+import type { SegmentMessage } from '@core/messaging/schemas'
+import { createSQSPublisher } from '@modules/messaging/sqs'
+import { RetrySegmentUseCase } from '@modules/video-processor/application/retry-segment.use-case'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { VideoSegmentRepositoryImpl } from '@modules/video-processor/infra/repositories/video-segment-repository-impl'
+import { UploadVideoParts } from '@modules/video-processor/infra/services/aws/s3/upload-video-parts'
+import { SqsSegmentPrintQueue } from '@modules/video-processor/infra/services/sqs-segment-print-queue'
+import { StatusMap, t } from 'elysia'
+
+export const retrySegmentRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).post(
+  '/:id/segments/:n/retry',
+  async ({ params, logger, set, tracingContext }) => {
+    const { correlationId, traceId } = tracingContext
+
+    const useCase = new RetrySegmentUseCase(
+      new VideoRepositoryImpl(logger),
+      new VideoSegmentRepositoryImpl(logger),
+      new SqsSegmentPrintQueue(
+        createSQSPublisher<SegmentMessage>(
+          {
+            queueUrl:
+              process.env.PRINT_QUEUE_URL ??
+              'http://localhost:4566/000000000000/print-queue',
+            source: 'fiapx.video',
+          },
+          logger,
+        ),
+        new UploadVideoParts(logger),
+      ),
+    )
+
+    const result = await useCase.execute({
+      videoId: params.id,
+      segmentNumber: params.n,
+      correlationId,
+      traceId,
+    })
+
+    if (result.isFailure) {
+      if (result.error instanceof NotFoundError) {
+        set.status = StatusMap['Not Found']
+      } else if (result.error instanceof InvalidStatusTransitionError) {
+        set.status = StatusMap.Conflict
+      } else {
+        set.status = StatusMap['Internal Server Error']
+      }
+      return { error: result.error.message }
+    }
+
+    return result.value
+  },
+  {
+    detail: {
+      tags: ['Video Processor'],
+      summary: 'Retry a failed segment',
+      description:
+        'Publishes a FAILED segment to the print queue again. A video FAILED by the segment goes back to PRINTING and completes once every segment is processed. Retrying a segment that a concurrent request already requeued is a no-op.',
+    },
+    params: t.Object({
+      id: t.String({ description: 'Video ID' }),
+      n: t.Numeric({ minimum: 1, description: 'Segment number' }),
+    }),
+    response: {
+      200: t.Object({
+        videoId: t.String(),
+        segmentNumber: t.Number(),
+        segmentStatus: t.String({
+          description: 'New segment status (PENDING)',
+        }),
+        videoStatus: t.String({ description: 'New video status' }),
+        requeued: t.Boolean({
+          description: 'False when the segment was already requeued',
+        }),
+      }),
+      404: t.Object({
+        error: t.String(),
+      }),
+      409: t.Object({
+        error: t.String({
+          description: 'Segment is not FAILED or video is not being printed',
+        }),
+      }),
+      500: t.Object({
+        error: t.String(),
+      }),
+    },
+  },
+)
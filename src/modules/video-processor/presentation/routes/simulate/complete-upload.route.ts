@@ -2,7 +2,7 @@ import { BaseElysia } from '@core/libs/elysia'
 import { UploadVideoParts } from '@modules/video-processor/infra/services/aws/s3/upload-video-parts'
 import { StatusMap, t } from 'elysia'
 
-export const simulateCompleteUploadRoute = BaseElysia.create({
+export const simulateCompleteUploadRoute = BaseElysia.createAuthenticated({
   prefix: '',
 }).post(
   '/complete-upload',
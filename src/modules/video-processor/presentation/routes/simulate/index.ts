@@ -2,6 +2,8 @@ import { BaseElysia } from '@core/libs/elysia'
 import { simulateUploadPartRoute } from './upload-part.route'
 import { simulateCompleteUploadRoute } from './complete-upload.route'
 
-export const simulateRoutes = BaseElysia.create({ prefix: 'simulate' })
+export const simulateRoutes = BaseElysia.createAuthenticated({
+  prefix: 'simulate',
+})
   .use(simulateUploadPartRoute)
   .use(simulateCompleteUploadRoute)
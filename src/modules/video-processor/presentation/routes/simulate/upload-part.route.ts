@@ -2,7 +2,9 @@ import { BaseElysia } from '@core/libs/elysia'
 import { toInternalUrl } from '@modules/video-processor/infra/services/aws/s3/base-s3'
 import { StatusMap, t } from 'elysia'
 
-export const simulateUploadPartRoute = BaseElysia.create({ prefix: '' }).post(
+export const simulateUploadPartRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).post(
   '/upload-part',
   async ({ body, logger, set }) => {
     const { file, presignedUrl, partNumber: partNumberStr } = body
@@ -4,7 +4,9 @@ import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories
 import { UploadVideoParts } from '@modules/video-processor/infra/services/aws/s3/upload-video-parts'
 import { StatusMap, t } from 'elysia'
 
-export const uploadUrlsRoute = BaseElysia.create({ prefix: '' }).get(
+export const uploadUrlsRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).get(
   '/:id/upload-urls',
   async ({ params, logger, set }) => {
     logger.log('Starting upload URLs video', { videoId: params.id })
@@ -0,0 +1,91 @@
+import { BaseElysia } from '@core/libs/elysia'
+import { NotFoundError } from '@core/errors/not-found.error'
+import {
+  WatchVideoEventsUseCase,
+  type VideoStreamEvent,
+} from '@modules/video-processor/application/watch-video-events.use-case'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { videoLiveEvents } from '@modules/video-processor/infra/services/live-events/in-memory-video-live-events'
+import { StatusMap, sse, t } from 'elysia'
+
+const DEFAULT_RESYNC_INTERVAL_MS = 5_000
+// Bun closes connections idle for 10s by default
+const HEARTBEAT_INTERVAL_MS = 5_000
+
+/**
+ * Formats the events as SSE messages (`event:` is the event type) and sends a
+ * heartbeat while the video is quiet, so the connection is not closed as idle.
+ */
+async function* toServerSentEvents(events: AsyncGenerator<VideoStreamEvent>) {
+  let pending = events.next()
+
+  try {
+    while (true) {
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const heartbeat = new Promise<'heartbeat'>((resolve) => {
+        timer = setTimeout(() => resolve('heartbeat'), HEARTBEAT_INTERVAL_MS)
+      })
+
+      const next = await Promise.race([pending, heartbeat])
+      clearTimeout(timer)
+
+      if (next === 'heartbeat') {
+        yield sse({
+          event: 'heartbeat',
+          data: { timestamp: new Date().toISOString() },
+        })
+        continue
+      }
+      if (next.done) return
+
+      yield sse({ event: next.value.type, data: next.value })
+      pending = events.next()
+    }
+  } finally {
+    // Resolves once the request signal wakes the stream up
+    void events.return(undefined)
+  }
+}
+
+export const videoEventsRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).get(
+  '/:id/events',
+  async ({ params, request, logger, set }) => {
+    const useCase = new WatchVideoEventsUseCase(
+      new VideoRepositoryImpl(logger),
+      videoLiveEvents,
+      {
+        resyncIntervalMs:
+          Number(process.env.VIDEO_EVENTS_RESYNC_INTERVAL_MS) ||
+          DEFAULT_RESYNC_INTERVAL_MS,
+      },
+    )
+
+    const result = await useCase.execute({
+      videoId: params.id,
+      signal: request.signal,
+    })
+
+    if (result.isFailure) {
+      set.status =
+        result.error instanceof NotFoundError
+          ? StatusMap['Not Found']
+          : StatusMap['Internal Server Error']
+      return { error: result.error.message }
+    }
+
+    return toServerSentEvents(result.value)
+  },
+  {
+    detail: {
+      tags: ['Video Processor'],
+      summary: 'Stream video events',
+      description:
+        'Server-sent events with the progress of a video. The first event is a `snapshot` of the current state, followed by `part-reported`, `status-changed` and `segment-processed` as they happen (`heartbeat` keeps the connection alive). The stream ends after the status-changed event of a terminal status (COMPLETED, FAILED or CANCELLED).',
+    },
+    params: t.Object({
+      id: t.String({ description: 'Video ID' }),
+    }),
+  },
+)
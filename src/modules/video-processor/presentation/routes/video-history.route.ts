@@ -0,0 +1,63 @@
+import { BaseElysia } from '@core/libs/elysia'
+import { GetVideoHistoryUseCase } from '@modules/video-processor/application/get-video-history.use-case'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { StatusMap, t } from 'elysia'
+
+export const videoHistoryRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).get(
+  '/:id/history',
+  async ({ params, logger, set }) => {
+    const useCase = new GetVideoHistoryUseCase(new VideoRepositoryImpl(logger))
+
+    const result = await useCase.execute({ videoId: params.id })
+
+    if (result.isFailure) {
+      set.status = StatusMap['Not Found']
+      return { error: result.error.message }
+    }
+
+    return {
+      videoId: result.value.videoId,
+      status: result.value.status,
+      failureReason: result.value.failureReason,
+      history: result.value.history.map((entry) => ({
+        ...entry,
+        changedAt: entry.changedAt.toISOString(),
+      })),
+    }
+  },
+  {
+    detail: {
+      tags: ['Video Processor'],
+      summary: 'Get video status history',
+      description:
+        'Timeline of the status transitions of a video, oldest first. Each entry has the previous and new status, when it happened, the component that applied it (`source`), the correlationId of the request or message and, for failures, the reason.',
+    },
+    params: t.Object({
+      id: t.String({ description: 'Video ID' }),
+    }),
+    response: {
+      200: t.Object({
+        videoId: t.String(),
+        status: t.String({ description: 'Current video status' }),
+        failureReason: t.Optional(t.String()),
+        history: t.Array(
+          t.Object({
+            from: t.String(),
+            to: t.String(),
+            changedAt: t.String(),
+            correlationId: t.Optional(t.String()),
+            source: t.String({
+              description: 'Component that applied the transition',
+            }),
+            reason: t.Optional(t.String()),
+          }),
+        ),
+      }),
+      404: t.Object({
+        error: t.String(),
+      }),
+    },
+  },
+)
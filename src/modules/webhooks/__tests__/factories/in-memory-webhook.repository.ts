@@ -0,0 +1,93 @@
+import { Result } from '@core/domain/result'
+import { InvalidCursorError } from '@core/errors/invalid-cursor.error'
+import type { Webhook } from '@modules/webhooks/domain/entities/webhook'
+import type { WebhookDelivery } from '@modules/webhooks/domain/entities/webhook-delivery'
+import type {
+  FindDeliveriesOptions,
+  WebhookDeliveryPage,
+  WebhookRepository,
+} from '@modules/webhooks/domain/repositories/webhook.repository'
+
+export class InMemoryWebhookRepository implements WebhookRepository {
+  public webhooks: Webhook[] = []
+  public deliveries: WebhookDelivery[] = []
+  public deadLetters: WebhookDelivery[] = []
+
+  async createWebhook(webhook: Webhook): Promise<Result<void, Error>> {
+    this.webhooks.push(webhook)
+    return Result.ok(undefined)
+  }
+
+  async findById(webhookId: string): Promise<Result<Webhook | null, Error>> {
+    const webhook = this.webhooks.find((w) => w.id.value === webhookId)
+    return Result.ok(webhook ?? null)
+  }
+
+  async findByUser(userId: string): Promise<Result<Webhook[], Error>> {
+    return Result.ok(
+      this.webhooks
+        .filter((w) => w.userId.value === userId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()),
+    )
+  }
+
+  async createDelivery(
+    delivery: WebhookDelivery,
+  ): Promise<Result<void, Error>> {
+    this.deliveries.push(delivery)
+    return Result.ok(undefined)
+  }
+
+  async updateDelivery(
+    delivery: WebhookDelivery,
+  ): Promise<Result<void, Error>> {
+    const index = this.deliveries.findIndex(
+      (d) => d.id.value === delivery.id.value,
+    )
+    if (index !== -1) {
+      this.deliveries[index] = delivery
+    }
+    return Result.ok(undefined)
+  }
+
+  async findDeliveryById(
+    deliveryId: string,
+  ): Promise<Result<WebhookDelivery | null, Error>> {
+    const delivery = this.deliveries.find((d) => d.id.value === deliveryId)
+    return Result.ok(delivery ?? null)
+  }
+
+  /** The cursor is an opaque offset over the deliveries (newest first) */
+  async findDeliveries(
+    webhookId: string,
+    options: FindDeliveriesOptions,
+  ): Promise<Result<WebhookDeliveryPage, Error>> {
+    let offset = 0
+    if (options.cursor) {
+      offset = Number(Buffer.from(options.cursor, 'base64url').toString())
+      if (!Number.isInteger(offset) || offset <= 0) {
+        return Result.fail(InvalidCursorError.create())
+      }
+    }
+
+    const deliveries = this.deliveries
+      .filter((d) => d.webhookId.value === webhookId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+
+    const end = offset + options.pageSize
+    return Result.ok({
+      items: deliveries.slice(offset, end),
+      nextCursor:
+        end < deliveries.length
+          ? Buffer.from(String(end)).toString('base64url')
+          : undefined,
+    })
+  }
+
+  async createDeadLetter(
+    delivery: WebhookDelivery,
+  ): Promise<Result<void, Error>> {
+    this.deadLetters.push(delivery)
+    return Result.ok(undefined)
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import { InvalidCursorError } from '@core/errors/invalid-cursor.error'
+import { NotFoundError } from '@core/errors/not-found.error'
+import { ListWebhookDeliveriesUseCase } from '@modules/webhooks/application/list-webhook-deliveries.use-case'
+import { RegisterWebhookUseCase } from '@modules/webhooks/application/register-webhook.use-case'
+import type { Webhook } from '@modules/webhooks/domain/entities/webhook'
+import { WebhookDelivery } from '@modules/webhooks/domain/entities/webhook-delivery'
+import { InMemoryWebhookRepository } from './factories/in-memory-webhook.repository'
+
+describe('ListWebhookDeliveriesUseCase', () => {
+  const userId = UniqueEntityID.create().value
+  let repository: InMemoryWebhookRepository
+  let useCase: ListWebhookDeliveriesUseCase
+  let webhook: Webhook
+
+  beforeEach(async () => {
+    repository = new InMemoryWebhookRepository()
+    useCase = new ListWebhookDeliveriesUseCase(repository)
+
+    const registered = await new RegisterWebhookUseCase(repository).execute({
+      userId,
+      url: 'https://example.com/hooks',
+      secret: 'a-secret-of-16-chars',
+    })
+    webhook = registered.value
+  })
+
+  function addDelivery(createdAt: Date) {
+    const delivery = WebhookDelivery.createFromDatabase({
+      id: UniqueEntityID.create(),
+      webhookId: webhook.id,
+      videoId: 'video-1',
+      event: 'COMPLETED',
+      messageId: 'msg-1',
+      payload: '{}',
+      status: 'PENDING',
+      attempts: 0,
+      createdAt,
+      updatedAt: createdAt,
+    })
+    repository.deliveries.push(delivery)
+    return delivery
+  }
+
+  it('should list deliveries newest first, page by page', async () => {
+    const older = addDelivery(new Date('2026-01-01T00:00:00Z'))
+    const newer = addDelivery(new Date('2026-01-02T00:00:00Z'))
+
+    const first = await useCase.execute({
+      userId,
+      webhookId: webhook.id.value,
+      pageSize: 1,
+    })
+    expect(first.isSuccess).toBe(true)
+    expect(first.value.items).toEqual([
+      expect.objectContaining({
+        deliveryId: newer.id.value,
+        videoId: 'video-1',
+        status: 'PENDING',
+        attempts: 0,
+      }),
+    ])
+
+    const second = await useCase.execute({
+      userId,
+      webhookId: webhook.id.value,
+      pageSize: 1,
+      cursor: first.value.nextCursor,
+    })
+    expect(second.value.items.map((item) => item.deliveryId)).toEqual([
+      older.id.value,
+    ])
+    expect(second.value.nextCursor).toBeUndefined()
+  })
+
+  it('should report webhooks of other users as not found', async () => {
+    const result = await useCase.execute({
+      userId: UniqueEntityID.create().value,
+      webhookId: webhook.id.value,
+    })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(NotFoundError)
+  })
+
+  it('should reject invalid cursors', async () => {
+    const result = await useCase.execute({
+      userId,
+      webhookId: webhook.id.value,
+      cursor: 'bad',
+    })
+
+    expect(result.error).toBeInstanceOf(InvalidCursorError)
+  })
+})
@@ -0,0 +1,88 @@
+import { Result } from '@core/domain/result'
+import { NotFoundError } from '@core/errors/not-found.error'
+import type { WebhookEvent } from '@modules/webhooks/domain/entities/webhook'
+import type { WebhookDeliveryStatus } from '@modules/webhooks/domain/entities/webhook-delivery'
+import type { WebhookRepository } from '@modules/webhooks/domain/repositories/webhook.repository'
+
+export const DEFAULT_DELIVERIES_PAGE_SIZE = 20
+export const MAX_DELIVERIES_PAGE_SIZE = 100
+
+export type ListWebhookDeliveriesParams = {
+  userId: string
+  webhookId: string
+  pageSize?: number
+  cursor?: string
+}
+
+export type WebhookDeliverySummary = {
+  deliveryId: string
+  videoId: string
+  event: WebhookEvent
+  status: WebhookDeliveryStatus
+  attempts: number
+  lastStatusCode?: number
+  lastError?: string
+  nextAttemptAt?: Date
+  deliveredAt?: Date
+  createdAt: Date
+}
+
+export type ListWebhookDeliveriesResult = {
+  items: WebhookDeliverySummary[]
+  nextCursor?: string
+}
+
+/**
+ * ListWebhookDeliveriesUseCase - Audit trail of a webhook, newest first.
+ *
+ * Webhooks of other users are reported as not found, so their ids cannot be
+ * probed.
+ */
+export class ListWebhookDeliveriesUseCase {
+  constructor(
+    private readonly webhookRepository: Pick<
+      WebhookRepository,
+      'findById' | 'findDeliveries'
+    >,
+  ) {}
+
+  async execute(
+    params: ListWebhookDeliveriesParams,
+  ): Promise<Result<ListWebhookDeliveriesResult, Error>> {
+    const { userId, webhookId, cursor } = params
+    const pageSize = Math.min(
+      Math.max(params.pageSize ?? DEFAULT_DELIVERIES_PAGE_SIZE, 1),
+      MAX_DELIVERIES_PAGE_SIZE,
+    )
+
+    const webhookResult = await this.webhookRepository.findById(webhookId)
+    if (webhookResult.isFailure) return Result.fail(webhookResult.error)
+
+    const webhook = webhookResult.value
+    if (!webhook || webhook.userId.value !== userId) {
+      return Result.fail(NotFoundError.create('Webhook', webhookId))
+    }
+
+    const pageResult = await this.webhookRepository.findDeliveries(webhookId, {
+      pageSize,
+      cursor,
+    })
+    if (pageResult.isFailure) return Result.fail(pageResult.error)
+
+    return Result.ok({
+      items: pageResult.value.items.map((delivery) => ({
+        deliveryId: delivery.id.value,
+        videoId: delivery.videoId,
+        event: delivery.event,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        lastStatusCode: delivery.lastStatusCode,
+        lastError: delivery.lastError,
+        nextAttemptAt: delivery.nextAttemptAt,
+        deliveredAt: delivery.deliveredAt,
+        createdAt: delivery.createdAt,
+      })),
+      nextCursor: pageResult.value.nextCursor,
+    })
+  }
+}
@@ -0,0 +1,13 @@
+import type { Result } from '@core/domain/result'
+import type { Webhook } from '@modules/webhooks/domain/entities/webhook'
+import type { WebhookRepository } from '@modules/webhooks/domain/repositories/webhook.repository'
+
+export class ListWebhooksUseCase {
+  constructor(
+    private readonly webhookRepository: Pick<WebhookRepository, 'findByUser'>,
+  ) {}
+
+  async execute(userId: string): Promise<Result<Webhook[], Error>> {
+    return this.webhookRepository.findByUser(userId)
+  }
+}
@@ -0,0 +1,46 @@
+import { Result } from '@core/domain/result'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import {
+  Webhook,
+  type CreateWebhookOptions,
+  type WebhookEvent,
+} from '@modules/webhooks/domain/entities/webhook'
+import type { WebhookRepository } from '@modules/webhooks/domain/repositories/webhook.repository'
+
+export type RegisterWebhookParams = {
+  userId: string
+  url: string
+  secret: string
+  events?: WebhookEvent[]
+}
+
+export class RegisterWebhookUseCase {
+  constructor(
+    private readonly webhookRepository: Pick<
+      WebhookRepository,
+      'createWebhook'
+    >,
+    private readonly options: CreateWebhookOptions = {},
+  ) {}
+
+  async execute(
+    params: RegisterWebhookParams,
+  ): Promise<Result<Webhook, Error>> {
+    const webhookResult = Webhook.create(
+      {
+        userId: UniqueEntityID.create(params.userId),
+        url: params.url,
+        secret: params.secret,
+        events: params.events ?? [],
+      },
+      this.options,
+    )
+    if (webhookResult.isFailure) return Result.fail(webhookResult.error)
+
+    const webhook = webhookResult.value
+    const created = await this.webhookRepository.createWebhook(webhook)
+    if (created.isFailure) return Result.fail(created.error)
+
+    return Result.ok(webhook)
+  }
+}
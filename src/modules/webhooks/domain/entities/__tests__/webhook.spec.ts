@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'bun:test'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import { Webhook, type WebhookEvent } from '../webhook'
+import { WebhookDelivery } from '../webhook-delivery'
+
+const userId = UniqueEntityID.create()
+
+function createWebhook(
+  overrides: Partial<Parameters<typeof Webhook.create>[0]> = {},
+) {
+  return Webhook.create({
+    userId,
+    url: 'https://example.com/hooks',
+    secret: 'a-secret-of-16-chars',
+    events: [],
+    ...overrides,
+  })
+}
+
+describe('Webhook', () => {
+  it('should create a webhook', () => {
+    const result = createWebhook({ events: ['COMPLETED', 'COMPLETED'] })
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.userId).toBe(userId)
+    expect(result.value.events).toEqual(['COMPLETED'])
+  })
+
+  it.each([
+    ['not a url'],
+    ['ftp://example.com/hooks'],
+    ['http://example.com/hooks'],
+    ['https://localhost/hooks'],
+    ['https://127.0.0.1/hooks'],
+    ['https://2130706433/hooks'],
+    ['https://169.254.169.254/latest/meta-data'],
+    ['https://10.0.0.5/hooks'],
+    ['https://192.168.1.10/hooks'],
+    ['https://[::1]/hooks'],
+    ['https://[::ffff:10.0.0.5]/hooks'],
+    ['https://[fd00::1]/hooks'],
+  ])('should reject the url %s', (url) => {
+    const result = createWebhook({ url })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toContain(url)
+  })
+
+  it('should accept public addresses', () => {
+    expect(
+      createWebhook({ url: 'https://93.184.215.14/hooks' }).isSuccess,
+    ).toBe(true)
+    expect(
+      createWebhook({ url: 'https://[2606:4700::1111]/hooks' }).isSuccess,
+    ).toBe(true)
+  })
+
+  it('should accept plain http only when allowed', () => {
+    const result = Webhook.create(
+      {
+        userId,
+        url: 'http://example.com/hooks',
+        secret: 'a-secret-of-16-chars',
+        events: [],
+      },
+      { allowHttp: true },
+    )
+
+    expect(result.isSuccess).toBe(true)
+  })
+
+  it('should reject short secrets', () => {
+    const result = createWebhook({ secret: 'short' })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toContain('at least 16 characters')
+  })
+
+  it('should reject unknown events', () => {
+    const result = createWebhook({
+      events: ['COMPLETED', 'CREATED' as WebhookEvent],
+    })
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toBe('Unknown webhook events: CREATED')
+  })
+
+  it('should subscribe to every status when no event is given', () => {
+    const webhook = createWebhook().value
+
+    expect(webhook.subscribesTo('UPLOADED')).toBe(true)
+    expect(webhook.subscribesTo('FAILED')).toBe(true)
+  })
+
+  it('should subscribe only to the given events', () => {
+    const webhook = createWebhook({ events: ['COMPLETED', 'FAILED'] }).value
+
+    expect(webhook.subscribesTo('COMPLETED')).toBe(true)
+    expect(webhook.subscribesTo('PRINTING')).toBe(false)
+  })
+})
+
+describe('WebhookDelivery', () => {
+  function createDelivery() {
+    return WebhookDelivery.create({
+      webhookId: UniqueEntityID.create(),
+      videoId: 'video-1',
+      event: 'COMPLETED',
+      messageId: 'msg-1',
+      payload: '{}',
+    })
+  }
+
+  it('should start pending without attempts', () => {
+    const delivery = createDelivery()
+
+    expect(delivery.status).toBe('PENDING')
+    expect(delivery.attempts).toBe(0)
+    expect(delivery.isFinished()).toBe(false)
+  })
+
+  it('should count attempts until delivered', () => {
+    const delivery = createDelivery()
+    const nextAttemptAt = new Date('2026-01-01T00:00:30Z')
+
+    delivery.scheduleRetry(
+      { statusCode: 503, error: 'HTTP 503' },
+      nextAttemptAt,
+    )
+    expect(delivery.status).toBe('RETRYING')
+    expect(delivery.nextAttemptAt).toBe(nextAttemptAt)
+
+    delivery.markDelivered(204)
+    expect(delivery.status).toBe('DELIVERED')
+    expect(delivery.attempts).toBe(2)
+    expect(delivery.lastStatusCode).toBe(204)
+    expect(delivery.lastError).toBeUndefined()
+    expect(delivery.nextAttemptAt).toBeUndefined()
+    expect(delivery.deliveredAt).toBeInstanceOf(Date)
+    expect(delivery.isFinished()).toBe(true)
+  })
+
+  it('should keep the last failure when dead-lettered', () => {
+    const delivery = createDelivery()
+
+    delivery.markDeadLettered({ error: 'timeout' })
+
+    expect(delivery.status).toBe('DEAD_LETTERED')
+    expect(delivery.attempts).toBe(1)
+    expect(delivery.lastStatusCode).toBeUndefined()
+    expect(delivery.lastError).toBe('timeout')
+    expect(delivery.isFinished()).toBe(true)
+  })
+})
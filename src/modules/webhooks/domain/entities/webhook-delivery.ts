@@ -0,0 +1,141 @@
+import { DefaultEntity } from '@core/domain/entity/default-entity'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import type { WebhookEvent } from '@modules/webhooks/domain/entities/webhook'
+
+export type WebhookDeliveryStatus =
+  | 'PENDING'
+  | 'DELIVERED'
+  | 'RETRYING'
+  | 'DEAD_LETTERED'
+
+export type WebhookDeliveryFailure = {
+  /** Absent when no response was received (timeout, DNS, connection refused) */
+  statusCode?: number
+  error: string
+}
+
+export type CreateWebhookDeliveryParams = {
+  webhookId: UniqueEntityID
+  videoId: string
+  event: WebhookEvent
+  /** messageId of the envelope, stable across duplicated fan-outs */
+  messageId: string
+  /** Request body, kept as sent so every attempt carries the same bytes */
+  payload: string
+}
+
+export type WebhookDeliveryFromDatabaseParams = CreateWebhookDeliveryParams & {
+  id: UniqueEntityID
+  status: WebhookDeliveryStatus
+  attempts: number
+  lastStatusCode?: number
+  lastError?: string
+  nextAttemptAt?: Date
+  deliveredAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+/**
+ * WebhookDelivery - One event sent (or being sent) to one webhook.
+ *
+ * The id is a UUIDv7, so deliveries of a webhook sort by creation time.
+ */
+export class WebhookDelivery extends DefaultEntity {
+  readonly webhookId: UniqueEntityID
+  readonly videoId: string
+  readonly event: WebhookEvent
+  readonly messageId: string
+  readonly payload: string
+  private _status: WebhookDeliveryStatus
+  private _attempts: number
+  private _lastStatusCode: number | undefined
+  private _lastError: string | undefined
+  private _nextAttemptAt: Date | undefined
+  private _deliveredAt: Date | undefined
+
+  private constructor(
+    params: CreateWebhookDeliveryParams &
+      Partial<WebhookDeliveryFromDatabaseParams>,
+  ) {
+    super(params.id ?? UniqueEntityID.create(), {
+      createdAt: params.createdAt,
+      updatedAt: params.updatedAt,
+    })
+    this.webhookId = params.webhookId
+    this.videoId = params.videoId
+    this.event = params.event
+    this.messageId = params.messageId
+    this.payload = params.payload
+    this._status = params.status ?? 'PENDING'
+    this._attempts = params.attempts ?? 0
+    this._lastStatusCode = params.lastStatusCode
+    this._lastError = params.lastError
+    this._nextAttemptAt = params.nextAttemptAt
+    this._deliveredAt = params.deliveredAt
+  }
+
+  static create(params: CreateWebhookDeliveryParams): WebhookDelivery {
+    return new WebhookDelivery(params)
+  }
+
+  static createFromDatabase(
+    params: WebhookDeliveryFromDatabaseParams,
+  ): WebhookDelivery {
+    return new WebhookDelivery(params)
+  }
+
+  get status(): WebhookDeliveryStatus {
+    return this._status
+  }
+
+  get attempts(): number {
+    return this._attempts
+  }
+
+  get lastStatusCode(): number | undefined {
+    return this._lastStatusCode
+  }
+
+  get lastError(): string | undefined {
+    return this._lastError
+  }
+
+  get nextAttemptAt(): Date | undefined {
+    return this._nextAttemptAt
+  }
+
+  get deliveredAt(): Date | undefined {
+    return this._deliveredAt
+  }
+
+  /** DELIVERED and DEAD_LETTERED deliveries are never attempted again */
+  isFinished(): boolean {
+    return this._status === 'DELIVERED' || this._status === 'DEAD_LETTERED'
+  }
+
+  markDelivered(statusCode: number, deliveredAt: Date = new Date()): void {
+    this._attempts += 1
+    this._status = 'DELIVERED'
+    this._lastStatusCode = statusCode
+    this._lastError = undefined
+    this._nextAttemptAt = undefined
+    this._deliveredAt = deliveredAt
+  }
+
+  scheduleRetry(failure: WebhookDeliveryFailure, nextAttemptAt: Date): void {
+    this._attempts += 1
+    this._status = 'RETRYING'
+    this._lastStatusCode = failure.statusCode
+    this._lastError = failure.error
+    this._nextAttemptAt = nextAttemptAt
+  }
+
+  markDeadLettered(failure: WebhookDeliveryFailure): void {
+    this._attempts += 1
+    this._status = 'DEAD_LETTERED'
+    this._lastStatusCode = failure.statusCode
+    this._lastError = failure.error
+    this._nextAttemptAt = undefined
+  }
+}
@@ -0,0 +1,115 @@
+import { DefaultEntity } from '@core/domain/entity/default-entity'
+import { Result } from '@core/domain/result'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import {
+  VideoStatusEnum,
+  type VideoStatusChangedEventPayload,
+} from '@core/messaging/schemas'
+import { isPublicHost } from '@modules/webhooks/domain/services/webhook-target'
+
+/** Statuses emitted as `Video Status Changed`, which webhooks can filter on */
+export type WebhookEvent = VideoStatusChangedEventPayload['status']
+
+export const WEBHOOK_EVENTS: readonly WebhookEvent[] = VideoStatusEnum.options
+
+export const MIN_WEBHOOK_SECRET_LENGTH = 16
+
+export type CreateWebhookParams = {
+  userId: UniqueEntityID
+  url: string
+  secret: string
+  /** Empty means every status */
+  events: WebhookEvent[]
+}
+
+export type CreateWebhookOptions = {
+  /** Accepts plain http endpoints, for local development only */
+  allowHttp?: boolean
+}
+
+export type WebhookFromDatabaseParams = CreateWebhookParams & {
+  id: UniqueEntityID
+  createdAt: Date
+  updatedAt: Date
+}
+
+export class Webhook extends DefaultEntity {
+  readonly userId: UniqueEntityID
+  readonly url: string
+  readonly secret: string
+  readonly events: WebhookEvent[]
+
+  private constructor(
+    params: CreateWebhookParams & {
+      id?: UniqueEntityID
+      createdAt?: Date
+      updatedAt?: Date
+    },
+  ) {
+    super(params.id ?? UniqueEntityID.create(), {
+      createdAt: params.createdAt,
+      updatedAt: params.updatedAt,
+    })
+    this.userId = params.userId
+    this.url = params.url
+    this.secret = params.secret
+    this.events = params.events
+  }
+
+  static create(
+    params: CreateWebhookParams,
+    options: CreateWebhookOptions = {},
+  ): Result<Webhook, Error> {
+    let url: URL
+    try {
+      url = new URL(params.url)
+    } catch {
+      return Result.fail(new Error(`Invalid webhook URL: ${params.url}`))
+    }
+    if (options.allowHttp) {
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        return Result.fail(
+          new Error(`Webhook URL must use http or https: ${params.url}`),
+        )
+      }
+    } else if (url.protocol !== 'https:') {
+      return Result.fail(new Error(`Webhook URL must use https: ${params.url}`))
+    }
+    if (!isPublicHost(url.hostname)) {
+      return Result.fail(
+        new Error(
+          `Webhook URL must not target a private or loopback address: ${params.url}`,
+        ),
+      )
+    }
+
+    if (params.secret.length < MIN_WEBHOOK_SECRET_LENGTH) {
+      return Result.fail(
+        new Error(
+          `Webhook secret must have at least ${MIN_WEBHOOK_SECRET_LENGTH} characters`,
+        ),
+      )
+    }
+
+    const unknown = params.events.filter(
+      (event) => !WEBHOOK_EVENTS.includes(event),
+    )
+    if (unknown.length > 0) {
+      return Result.fail(
+        new Error(`Unknown webhook events: ${unknown.join(', ')}`),
+      )
+    }
+
+    return Result.ok(
+      new Webhook({ ...params, events: [...new Set(params.events)] }),
+    )
+  }
+
+  static createFromDatabase(params: WebhookFromDatabaseParams): Webhook {
+    return new Webhook(params)
+  }
+
+  subscribesTo(event: WebhookEvent): boolean {
+    return this.events.length === 0 || this.events.includes(event)
+  }
+}
@@ -0,0 +1,40 @@
+import { Result } from '@core/domain/result'
+import type { Webhook } from '@modules/webhooks/domain/entities/webhook'
+import type { WebhookDelivery } from '@modules/webhooks/domain/entities/webhook-delivery'
+
+export type FindDeliveriesOptions = {
+  pageSize: number
+  /** Opaque cursor returned by a previous page (`nextCursor`) */
+  cursor?: string
+}
+
+export type WebhookDeliveryPage = {
+  items: WebhookDelivery[]
+  /** Absent on the last page */
+  nextCursor?: string
+}
+
+export interface WebhookRepository {
+  createWebhook(webhook: Webhook): Promise<Result<void, Error>>
+  findById(webhookId: string): Promise<Result<Webhook | null, Error>>
+  /** Lists every webhook of a user, newest first */
+  findByUser(userId: string): Promise<Result<Webhook[], Error>>
+
+  createDelivery(delivery: WebhookDelivery): Promise<Result<void, Error>>
+  updateDelivery(delivery: WebhookDelivery): Promise<Result<void, Error>>
+  findDeliveryById(
+    deliveryId: string,
+  ): Promise<Result<WebhookDelivery | null, Error>>
+
+  /**
+   * Lists the deliveries of a webhook, newest first.
+   * Fails with InvalidCursorError when the cursor cannot be decoded.
+   */
+  findDeliveries(
+    webhookId: string,
+    options: FindDeliveriesOptions,
+  ): Promise<Result<WebhookDeliveryPage, Error>>
+
+  /** Keeps a copy of a delivery that exhausted its attempts */
+  createDeadLetter(delivery: WebhookDelivery): Promise<Result<void, Error>>
+}
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test'
+import { createHmac } from 'node:crypto'
+import { Result } from '@core/domain/result'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import { LoggerStub } from '@core/libs/logging/__tests__/logger.stub'
+import { Webhook } from '@modules/webhooks/domain/entities/webhook'
+import { WebhookDelivery } from '@modules/webhooks/domain/entities/webhook-delivery'
+import { InMemoryWebhookRepository } from '@modules/webhooks/__tests__/factories/in-memory-webhook.repository'
+import type { WebhookDeliveryQueue } from '../webhook-delivery-queue.interface'
+import type { WebhookHostResolver } from '../webhook-target'
+import {
+  WebhookDeliveryService,
+  retryDelaySeconds,
+  type WebhookHttpClient,
+} from '../webhook-delivery.service'
+
+const SECRET = 'a-secret-of-16-chars'
+const PAYLOAD =
+  '{"metadata":{"messageId":"msg-1"},"payload":{"videoId":"video-1"}}'
+
+describe('retryDelaySeconds', () => {
+  it('should double the delay on each attempt up to the SQS limit', () => {
+    expect([1, 2, 3, 4, 5, 6].map((n) => retryDelaySeconds(n, 30))).toEqual([
+      30, 60, 120, 240, 480, 900,
+    ])
+  })
+})
+
+describe('WebhookDeliveryService', () => {
+  let repository: InMemoryWebhookRepository
+  let queue: { enqueue: ReturnType<typeof mock> }
+  let httpClient: ReturnType<typeof mock<WebhookHttpClient>>
+  let resolveHost: ReturnType<typeof mock<WebhookHostResolver>>
+  let webhook: Webhook
+  let delivery: WebhookDelivery
+  let service: WebhookDeliveryService
+
+  beforeEach(() => {
+    repository = new InMemoryWebhookRepository()
+    queue = { enqueue: mock(async () => Result.ok(undefined)) }
+    httpClient = mock<WebhookHttpClient>(
+      async () => new Response(null, { status: 204 }),
+    )
+    resolveHost = mock<WebhookHostResolver>(async () => ['93.184.215.14'])
+
+    webhook = Webhook.create({
+      userId: UniqueEntityID.create(),
+      url: 'https://example.com/hooks',
+      secret: SECRET,
+      events: [],
+    }).value
+    delivery = WebhookDelivery.create({
+      webhookId: webhook.id,
+      videoId: 'video-1',
+      event: 'COMPLETED',
+      messageId: 'msg-1',
+      payload: PAYLOAD,
+    })
+    repository.webhooks.push(webhook)
+    repository.deliveries.push(delivery)
+
+    service = new WebhookDeliveryService(
+      new LoggerStub(),
+      repository,
+      queue as WebhookDeliveryQueue,
+      { maxAttempts: 3, baseDelaySeconds: 30, timeoutMs: 1_000 },
+      httpClient,
+      resolveHost,
+    )
+  })
+
+  const attempt = () =>
+    service.deliver({
+      webhookId: webhook.id.value,
+      deliveryId: delivery.id.value,
+    })
+
+  it('should POST the signed envelope and mark the delivery delivered', async () => {
+    const result = await attempt()
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.status).toBe('DELIVERED')
+    expect(result.value.lastStatusCode).toBe(204)
+    expect(queue.enqueue).not.toHaveBeenCalled()
+
+    const [url, init] = httpClient.mock.calls[0]
+    const headers = init.headers as Record<string, string>
+    expect(url).toBe('https://example.com/hooks')
+    expect(init.method).toBe('POST')
+    expect(init.body).toBe(PAYLOAD)
+    expect(headers['X-Fiapx-Delivery']).toBe(delivery.id.value)
+    expect(headers['X-Fiapx-Event']).toBe('COMPLETED')
+    expect(headers['X-Fiapx-Event-Id']).toBe('msg-1')
+
+    const [, t, v1] =
+      headers['X-Fiapx-Signature'].match(/^t=(\d+),v1=([0-9a-f]+)$/) ?? []
+    expect(v1).toBe(
+      createHmac('sha256', SECRET).update(`${t}.${PAYLOAD}`).digest('hex'),
+    )
+  })
+
+  it('should schedule a retry with backoff on a non-2xx answer', async () => {
+    httpClient.mockResolvedValueOnce(new Response('nope', { status: 503 }))
+
+    const result = await attempt()
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.status).toBe('RETRYING')
+    expect(result.value.attempts).toBe(1)
+    expect(result.value.lastStatusCode).toBe(503)
+    expect(result.value.lastError).toBe('Endpoint answered HTTP 503')
+    expect(queue.enqueue).toHaveBeenCalledWith(
+      { webhookId: webhook.id.value, deliveryId: delivery.id.value },
+      30,
+    )
+  })
+
+  it('should retry when the endpoint cannot be reached', async () => {
+    delivery.scheduleRetry({ error: 'HTTP 500' }, new Date())
+    httpClient.mockRejectedValueOnce(new Error('Connection refused'))
+
+    const result = await attempt()
+
+    expect(result.value.status).toBe('RETRYING')
+    expect(result.value.lastStatusCode).toBeUndefined()
+    expect(result.value.lastError).toBe('Connection refused')
+    expect(queue.enqueue.mock.calls[0][1]).toBe(60)
+  })
+
+  it('should dead-letter the delivery on the last attempt', async () => {
+    delivery.scheduleRetry({ error: 'HTTP 500' }, new Date())
+    delivery.scheduleRetry({ error: 'HTTP 500' }, new Date())
+    httpClient.mockResolvedValueOnce(new Response(null, { status: 500 }))
+
+    const result = await attempt()
+
+    expect(result.value.status).toBe('DEAD_LETTERED')
+    expect(result.value.attempts).toBe(3)
+    expect(repository.deadLetters).toEqual([delivery])
+    expect(queue.enqueue).not.toHaveBeenCalled()
+  })
+
+  it('should skip deliveries that are already finished', async () => {
+    delivery.markDelivered(200)
+
+    const result = await attempt()
+
+    expect(result.isSuccess).toBe(true)
+    expect(httpClient).not.toHaveBeenCalled()
+  })
+
+  it('should not retry when the delivery does not exist', async () => {
+    repository.deliveries = []
+
+    const result = await attempt()
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(NonRetryableError)
+  })
+
+  it('should fail (and let SQS retry) when the retry cannot be queued', async () => {
+    httpClient.mockResolvedValueOnce(new Response(null, { status: 500 }))
+    queue.enqueue.mockResolvedValueOnce(Result.fail(new Error('SQS down')))
+
+    const result = await attempt()
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toBe('SQS down')
+  })
+  it.each([
+    ['169.254.169.254'],
+    ['10.0.0.5'],
+    ['::1'],
+  ])('should dead-letter without calling a host that resolves to %s', async (address) => {
+    resolveHost.mockResolvedValueOnce(['93.184.215.14', address])
+
+    const result = await attempt()
+
+    expect(resolveHost).toHaveBeenCalledWith('example.com')
+    expect(httpClient).not.toHaveBeenCalled()
+    expect(result.value.status).toBe('DEAD_LETTERED')
+    expect(result.value.lastError).toContain(address)
+    expect(queue.enqueue).not.toHaveBeenCalled()
+  })
+
+  it('should leave a host that does not resolve to the POST', async () => {
+    resolveHost.mockRejectedValueOnce(new Error('ENOTFOUND'))
+    httpClient.mockRejectedValueOnce(new Error('Unable to connect'))
+
+    const result = await attempt()
+
+    expect(httpClient).toHaveBeenCalled()
+    expect(result.value.status).toBe('RETRYING')
+  })
+})
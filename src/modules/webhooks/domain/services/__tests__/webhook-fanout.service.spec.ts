@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test'
+import { Result } from '@core/domain/result'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import { LoggerStub } from '@core/libs/logging/__tests__/logger.stub'
+import { EnvelopeFactory } from '@core/messaging'
+import { InMemoryVideoRepository } from '@modules/video-processor/__tests__/factories/in-memory-video.repository'
+import { VideoFactory } from '@modules/video-processor/__tests__/factories/video.factory'
+import type { Video } from '@modules/video-processor/domain/entities/video'
+import {
+  Webhook,
+  type WebhookEvent,
+} from '@modules/webhooks/domain/entities/webhook'
+import { InMemoryWebhookRepository } from '@modules/webhooks/__tests__/factories/in-memory-webhook.repository'
+import type { WebhookDeliveryQueue } from '../webhook-delivery-queue.interface'
+import {
+  WebhookFanoutService,
+  type VideoStatusChangedEnvelope,
+} from '../webhook-fanout.service'
+
+describe('WebhookFanoutService', () => {
+  let videoRepository: InMemoryVideoRepository
+  let webhookRepository: InMemoryWebhookRepository
+  let queue: { enqueue: ReturnType<typeof mock> }
+  let service: WebhookFanoutService
+  let video: Video
+
+  beforeEach(() => {
+    videoRepository = new InMemoryVideoRepository()
+    webhookRepository = new InMemoryWebhookRepository()
+    queue = { enqueue: mock(async () => Result.ok(undefined)) }
+    service = new WebhookFanoutService(
+      new LoggerStub(),
+      videoRepository,
+      webhookRepository,
+      queue as WebhookDeliveryQueue,
+    )
+
+    video = VideoFactory.create()
+    videoRepository.items.push(video)
+  })
+
+  function registerWebhook(events: WebhookEvent[], userId = video.userId) {
+    const webhook = Webhook.create({
+      userId,
+      url: 'https://example.com/hooks',
+      secret: 'a-secret-of-16-chars',
+      events,
+    }).value
+    webhookRepository.webhooks.push(webhook)
+    return webhook
+  }
+
+  function envelope(
+    status: WebhookEvent,
+    videoId = video.id.value,
+  ): VideoStatusChangedEnvelope {
+    return new EnvelopeFactory().createEnvelope(
+      { videoId, status, downloadUrl: 'https://example.com/frames.zip' },
+      {
+        correlationId: 'corr-1',
+        eventType: 'Video Status Changed',
+        source: 'fiapx.video',
+      },
+    )
+  }
+
+  it('should create and queue a delivery per subscribed webhook', async () => {
+    const all = registerWebhook([])
+    const completed = registerWebhook(['COMPLETED'])
+    registerWebhook(['FAILED'])
+    const event = envelope('COMPLETED')
+
+    const result = await service.fanOut(event)
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value).toBe(2)
+    expect(
+      webhookRepository.deliveries.map((d) => d.webhookId.value).sort(),
+    ).toEqual([all.id.value, completed.id.value].sort())
+
+    const [delivery] = webhookRepository.deliveries
+    expect(delivery.status).toBe('PENDING')
+    expect(delivery.videoId).toBe(video.id.value)
+    expect(delivery.event).toBe('COMPLETED')
+    expect(delivery.messageId).toBe(event.metadata.messageId)
+    expect(JSON.parse(delivery.payload)).toEqual(event)
+    expect(queue.enqueue).toHaveBeenCalledWith({
+      webhookId: delivery.webhookId.value,
+      deliveryId: delivery.id.value,
+    })
+  })
+
+  it('should ignore webhooks of other users', async () => {
+    registerWebhook([], VideoFactory.create().userId)
+
+    const result = await service.fanOut(envelope('COMPLETED'))
+
+    expect(result.value).toBe(0)
+    expect(queue.enqueue).not.toHaveBeenCalled()
+  })
+
+  it('should not retry when the video does not exist', async () => {
+    const result = await service.fanOut(envelope('COMPLETED', 'missing'))
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(NonRetryableError)
+  })
+
+  it('should fail when a delivery cannot be queued', async () => {
+    registerWebhook([])
+    queue.enqueue.mockResolvedValueOnce(Result.fail(new Error('SQS down')))
+
+    const result = await service.fanOut(envelope('FAILED'))
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toBe('SQS down')
+  })
+})
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'bun:test'
+import { createHmac } from 'node:crypto'
+import { signWebhookPayload } from '../webhook-signature'
+
+describe('signWebhookPayload', () => {
+  const body = '{"payload":{"videoId":"video-1"}}'
+  const timestamp = new Date('2026-01-01T00:00:00.900Z')
+
+  it('should sign the timestamp and body with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', 'a-secret-of-16-chars')
+      .update(`1767225600.${body}`)
+      .digest('hex')
+
+    expect(signWebhookPayload('a-secret-of-16-chars', body, timestamp)).toBe(
+      `t=1767225600,v1=${expected}`,
+    )
+  })
+
+  it('should change with the secret', () => {
+    expect(
+      signWebhookPayload('a-secret-of-16-chars', body, timestamp),
+    ).not.toBe(signWebhookPayload('another-secret-16ch', body, timestamp))
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'bun:test'
+import { isPublicAddress, isPublicHost } from '../webhook-target'
+
+describe('isPublicAddress', () => {
+  it.each([
+    ['0.0.0.0'],
+    ['10.1.2.3'],
+    ['100.64.0.1'],
+    ['127.0.0.1'],
+    ['169.254.169.254'],
+    ['172.16.0.1'],
+    ['172.31.255.255'],
+    ['192.168.0.1'],
+    ['224.0.0.1'],
+    ['255.255.255.255'],
+    ['::'],
+    ['::1'],
+    ['::ffff:127.0.0.1'],
+    ['::ffff:a9fe:a9fe'],
+    ['64:ff9b::a00:1'],
+    ['fc00::1'],
+    ['fd12:3456::1'],
+    ['fe80::1%eth0'],
+    ['ff02::1'],
+    ['not-an-ip'],
+  ])('should reject %s', (address) => {
+    expect(isPublicAddress(address)).toBe(false)
+  })
+
+  it.each([
+    ['8.8.8.8'],
+    ['172.32.0.1'],
+    ['93.184.215.14'],
+    ['::ffff:8.8.8.8'],
+    ['2606:4700:4700::1111'],
+    ['2001:4860:4860:0:0:0:0:8888'],
+  ])('should accept %s', (address) => {
+    expect(isPublicAddress(address)).toBe(true)
+  })
+})
+
+describe('isPublicHost', () => {
+  it('should reject localhost names and private literals', () => {
+    expect(isPublicHost('localhost')).toBe(false)
+    expect(isPublicHost('api.localhost')).toBe(false)
+    expect(isPublicHost('[::1]')).toBe(false)
+    expect(isPublicHost('10.0.0.1')).toBe(false)
+  })
+
+  it('should leave other names to be checked once resolved', () => {
+    expect(isPublicHost('example.com')).toBe(true)
+    expect(isPublicHost('[2606:4700::1111]')).toBe(true)
+  })
+})
@@ -0,0 +1,14 @@
+import { Result } from '@core/domain/result'
+
+export type WebhookDeliveryAttempt = {
+  webhookId: string
+  deliveryId: string
+}
+
+export interface WebhookDeliveryQueue {
+  /** Schedules an attempt, optionally after `delaySeconds` (max 900) */
+  enqueue(
+    attempt: WebhookDeliveryAttempt,
+    delaySeconds?: number,
+  ): Promise<Result<void, Error>>
+}
@@ -0,0 +1,252 @@
+import { Result } from '@core/domain/result'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import { msToNs } from '@core/libs/logging/log-event'
+import type { Webhook } from '@modules/webhooks/domain/entities/webhook'
+import type {
+  WebhookDelivery,
+  WebhookDeliveryFailure,
+} from '@modules/webhooks/domain/entities/webhook-delivery'
+import type { WebhookRepository } from '@modules/webhooks/domain/repositories/webhook.repository'
+import type {
+  WebhookDeliveryAttempt,
+  WebhookDeliveryQueue,
+} from '@modules/webhooks/domain/services/webhook-delivery-queue.interface'
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  signWebhookPayload,
+} from '@modules/webhooks/domain/services/webhook-signature'
+import {
+  isPublicAddress,
+  lookupHost,
+  type WebhookHostResolver,
+} from '@modules/webhooks/domain/services/webhook-target'
+
+const resource = 'WebhookDeliveryService'
+
+/** Upper bound of SQS DelaySeconds */
+export const MAX_RETRY_DELAY_SECONDS = 900
+
+export type WebhookHttpClient = (
+  url: string,
+  init: RequestInit,
+) => Promise<Response>
+
+export type WebhookDeliveryOptions = {
+  /** Attempts (including the first) before the delivery is dead-lettered */
+  maxAttempts: number
+  /** Delay before the first retry, doubled on each following one */
+  baseDelaySeconds: number
+  timeoutMs: number
+}
+
+/** Delay before the attempt that follows the `attempt`-th failure */
+export function retryDelaySeconds(
+  attempt: number,
+  baseDelaySeconds: number,
+): number {
+  return Math.min(
+    baseDelaySeconds * 2 ** (attempt - 1),
+    MAX_RETRY_DELAY_SECONDS,
+  )
+}
+
+/**
+ * WebhookDeliveryService - Performs one attempt of a webhook delivery.
+ *
+ * POSTs the stored envelope signed with the webhook secret. A 2xx answer marks
+ * the delivery DELIVERED; anything else (including timeouts) schedules the next
+ * attempt with exponential backoff through the delivery queue, until
+ * `maxAttempts` is reached and the delivery is dead-lettered.
+ *
+ * Before each attempt the host is resolved again, and an endpoint that now
+ * resolves to a private or loopback address is dead-lettered without being
+ * called (the name may have been pointed there after registration).
+ *
+ * Finished deliveries are skipped, so a redelivered queue message is harmless.
+ */
+export class WebhookDeliveryService {
+  constructor(
+    private readonly logger: AbstractLoggerService,
+    private readonly webhookRepository: WebhookRepository,
+    private readonly deliveryQueue: WebhookDeliveryQueue,
+    private readonly options: WebhookDeliveryOptions,
+    private readonly httpClient: WebhookHttpClient = fetch,
+    private readonly resolveHost: WebhookHostResolver = lookupHost,
+  ) {}
+
+  async deliver(
+    attempt: WebhookDeliveryAttempt,
+  ): Promise<Result<WebhookDelivery, Error>> {
+    const { webhookId, deliveryId } = attempt
+
+    const deliveryResult =
+      await this.webhookRepository.findDeliveryById(deliveryId)
+    if (deliveryResult.isFailure) return Result.fail(deliveryResult.error)
+    const delivery = deliveryResult.value
+    if (!delivery) {
+      return Result.fail(
+        new NonRetryableError(`Webhook delivery not found: ${deliveryId}`),
+      )
+    }
+    if (delivery.isFinished()) return Result.ok(delivery)
+
+    const webhookResult = await this.webhookRepository.findById(webhookId)
+    if (webhookResult.isFailure) return Result.fail(webhookResult.error)
+    const webhook = webhookResult.value
+    if (!webhook) {
+      return Result.fail(
+        new NonRetryableError(`Webhook not found: ${webhookId}`),
+      )
+    }
+
+    const startTime = performance.now()
+    const blocked = await this.blockedTarget(webhook)
+    const failure = blocked ?? (await this.post(webhook, delivery))
+    const duration = msToNs(performance.now() - startTime)
+
+    if (!failure) {
+      const updated = await this.webhookRepository.updateDelivery(delivery)
+      if (updated.isFailure) return Result.fail(updated.error)
+
+      this.logger.log('Webhook delivered', {
+        event: 'webhook.delivery.attempted',
+        resource,
+        message: 'Webhook delivered',
+        status: 'success',
+        duration,
+        'webhook.id': webhookId,
+        'webhook.deliveryId': deliveryId,
+        'webhook.attempt': delivery.attempts,
+        'http.statusCode': delivery.lastStatusCode,
+      })
+      return Result.ok(delivery)
+    }
+
+    this.logger.warn('Webhook delivery attempt failed', {
+      event: 'webhook.delivery.attempted',
+      resource,
+      message: failure.error,
+      status: 'failure',
+      duration,
+      'webhook.id': webhookId,
+      'webhook.deliveryId': deliveryId,
+      'webhook.attempt': delivery.attempts + 1,
+      'http.statusCode': failure.statusCode,
+    })
+
+    if (blocked || delivery.attempts + 1 >= this.options.maxAttempts) {
+      return this.deadLetter(delivery, failure)
+    }
+    return this.scheduleRetry(delivery, failure)
+  }
+
+  /**
+   * Returns the failure when the host resolves to a non-public address. A name
+   * that does not resolve is left to the POST, which fails and is retried.
+   */
+  private async blockedTarget(
+    webhook: Webhook,
+  ): Promise<WebhookDeliveryFailure | undefined> {
+    const { hostname } = new URL(webhook.url)
+    const addresses = await this.resolveHost(hostname).catch((): string[] => [])
+    const blocked = addresses.find((address) => !isPublicAddress(address))
+    if (blocked === undefined) return undefined
+
+    return {
+      error: `Webhook host ${hostname} resolves to a non-public address (${blocked})`,
+    }
+  }
+
+  /** Returns undefined on success (and marks the delivery as delivered) */
+  private async post(
+    webhook: Webhook,
+    delivery: WebhookDelivery,
+  ): Promise<WebhookDeliveryFailure | undefined> {
+    try {
+      const response = await this.httpClient(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'fiapx-webhooks/1.0',
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            webhook.secret,
+            delivery.payload,
+          ),
+          'X-Fiapx-Delivery': delivery.id.value,
+          'X-Fiapx-Event': delivery.event,
+          'X-Fiapx-Event-Id': delivery.messageId,
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+        redirect: 'manual',
+      })
+      // The body is never read; release the connection
+      await response.body?.cancel().catch(() => undefined)
+
+      if (response.ok) {
+        delivery.markDelivered(response.status)
+        return undefined
+      }
+      return {
+        statusCode: response.status,
+        error: `Endpoint answered HTTP ${response.status}`,
+      }
+    } catch (error) {
+      return {
+        error: error instanceof Error ? error.message : String(error),
+      }
+    }
+  }
+
+  private async scheduleRetry(
+    delivery: WebhookDelivery,
+    failure: WebhookDeliveryFailure,
+  ): Promise<Result<WebhookDelivery, Error>> {
+    const delaySeconds = retryDelaySeconds(
+      delivery.attempts + 1,
+      this.options.baseDelaySeconds,
+    )
+    delivery.scheduleRetry(failure, new Date(Date.now() + delaySeconds * 1000))
+
+    const updated = await this.webhookRepository.updateDelivery(delivery)
+    if (updated.isFailure) return Result.fail(updated.error)
+
+    const enqueued = await this.deliveryQueue.enqueue(
+      {
+        webhookId: delivery.webhookId.value,
+        deliveryId: delivery.id.value,
+      },
+      delaySeconds,
+    )
+    if (enqueued.isFailure) return Result.fail(enqueued.error)
+
+    return Result.ok(delivery)
+  }
+
+  private async deadLetter(
+    delivery: WebhookDelivery,
+    failure: WebhookDeliveryFailure,
+  ): Promise<Result<WebhookDelivery, Error>> {
+    delivery.markDeadLettered(failure)
+
+    const deadLettered = await this.webhookRepository.createDeadLetter(delivery)
+    if (deadLettered.isFailure) return Result.fail(deadLettered.error)
+
+    const updated = await this.webhookRepository.updateDelivery(delivery)
+    if (updated.isFailure) return Result.fail(updated.error)
+
+    this.logger.error('Webhook delivery dead-lettered', {
+      event: 'webhook.delivery.dead_lettered',
+      resource,
+      message: `Delivery gave up after ${delivery.attempts} attempts`,
+      status: 'failure',
+      error: { message: failure.error, kind: 'WebhookDeliveryError' },
+      'webhook.id': delivery.webhookId.value,
+      'webhook.deliveryId': delivery.id.value,
+      'video.id': delivery.videoId,
+    })
+
+    return Result.ok(delivery)
+  }
+}
@@ -0,0 +1,92 @@
+import { Result } from '@core/domain/result'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import { msToNs } from '@core/libs/logging/log-event'
+import type { MessageEnvelope } from '@core/messaging'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type { WebhookEvent } from '@modules/webhooks/domain/entities/webhook'
+import { WebhookDelivery } from '@modules/webhooks/domain/entities/webhook-delivery'
+import type { WebhookRepository } from '@modules/webhooks/domain/repositories/webhook.repository'
+import type { WebhookDeliveryQueue } from '@modules/webhooks/domain/services/webhook-delivery-queue.interface'
+
+const resource = 'WebhookFanoutService'
+
+export type VideoStatusChangedEnvelope = MessageEnvelope<
+  { videoId: string; status: WebhookEvent } & Record<string, unknown>
+>
+
+/**
+ * WebhookFanoutService - Turns a `Video Status Changed` envelope into one
+ * delivery per webhook of the video owner subscribed to the status.
+ *
+ * Each delivery is stored as PENDING and its first attempt is queued. A failure
+ * halfway is retried by SQS, so a webhook may receive the same event twice;
+ * receivers deduplicate on the `X-Fiapx-Event-Id` header.
+ */
+export class WebhookFanoutService {
+  constructor(
+    private readonly logger: AbstractLoggerService,
+    private readonly videoRepository: Pick<VideoRepository, 'findById'>,
+    private readonly webhookRepository: Pick<
+      WebhookRepository,
+      'findByUser' | 'createDelivery'
+    >,
+    private readonly deliveryQueue: WebhookDeliveryQueue,
+  ) {}
+
+  /** Returns the number of deliveries created */
+  async fanOut(
+    envelope: VideoStatusChangedEnvelope,
+  ): Promise<Result<number, Error>> {
+    const startTime = performance.now()
+    const { videoId, status } = envelope.payload
+
+    const videoResult = await this.videoRepository.findById(videoId)
+    if (videoResult.isFailure) return Result.fail(videoResult.error)
+    if (!videoResult.value) {
+      return Result.fail(new NonRetryableError(`Video not found: ${videoId}`))
+    }
+
+    const userId = videoResult.value.userId.value
+    const webhooksResult = await this.webhookRepository.findByUser(userId)
+    if (webhooksResult.isFailure) return Result.fail(webhooksResult.error)
+
+    const webhooks = webhooksResult.value.filter((webhook) =>
+      webhook.subscribesTo(status),
+    )
+    const payload = JSON.stringify(envelope)
+
+    for (const webhook of webhooks) {
+      const delivery = WebhookDelivery.create({
+        webhookId: webhook.id,
+        videoId,
+        event: status,
+        messageId: envelope.metadata.messageId,
+        payload,
+      })
+
+      const created = await this.webhookRepository.createDelivery(delivery)
+      if (created.isFailure) return Result.fail(created.error)
+
+      const enqueued = await this.deliveryQueue.enqueue({
+        webhookId: webhook.id.value,
+        deliveryId: delivery.id.value,
+      })
+      if (enqueued.isFailure) return Result.fail(enqueued.error)
+    }
+
+    this.logger.log('Webhook deliveries created', {
+      event: 'webhook.fanout.completed',
+      resource,
+      message: `Created ${webhooks.length} webhook deliveries`,
+      status: 'success',
+      duration: msToNs(performance.now() - startTime),
+      'video.id': videoId,
+      'video.status': status,
+      'user.id': userId,
+      deliveries: webhooks.length,
+    })
+
+    return Result.ok(webhooks.length)
+  }
+}
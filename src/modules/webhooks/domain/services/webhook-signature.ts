@@ -0,0 +1,18 @@
+import { createHmac } from 'node:crypto'
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Fiapx-Signature'
+
+/**
+ * Signs a webhook body as `t=<unix seconds>,v1=<hex HMAC-SHA256>`, where the
+ * HMAC covers `<t>.<body>`. Receivers recompute it with their secret and
+ * reject old timestamps to prevent replays.
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: Date = new Date(),
+): string {
+  const t = Math.floor(timestamp.getTime() / 1000)
+  const v1 = createHmac('sha256', secret).update(`${t}.${body}`).digest('hex')
+  return `t=${t},v1=${v1}`
+}
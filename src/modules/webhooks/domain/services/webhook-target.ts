@@ -0,0 +1,118 @@
+import { lookup } from 'node:dns/promises'
+import { isIP } from 'node:net'
+
+/** Resolves a webhook host to every address it may be reached at */
+export type WebhookHostResolver = (hostname: string) => Promise<string[]>
+
+/**
+ * IPv4 ranges a webhook must not reach: the API and the workers run next to
+ * the database, the queues and the cloud metadata endpoint (169.254.169.254).
+ */
+const NON_PUBLIC_IPV4: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+]
+
+function ipv4ToNumber(address: string): number {
+  return address
+    .split('.')
+    .reduce((value, octet) => value * 256 + Number(octet), 0)
+}
+
+function isPublicIPv4(address: string): boolean {
+  const value = ipv4ToNumber(address)
+  return NON_PUBLIC_IPV4.every(([base, prefix]) => {
+    const size = 2 ** (32 - prefix)
+    return Math.floor(value / size) !== Math.floor(ipv4ToNumber(base) / size)
+  })
+}
+
+/** The eight 16-bit groups of an IPv6 address, `::` and embedded IPv4 expanded */
+function ipv6Groups(address: string): number[] {
+  let expanded = address.split('%')[0] ?? address
+  const embedded = expanded.match(/(\d+\.\d+\.\d+\.\d+)$/)?.[1]
+  if (embedded) {
+    const value = ipv4ToNumber(embedded)
+    const high = Math.floor(value / 0x10000).toString(16)
+    const low = (value % 0x10000).toString(16)
+    expanded = `${expanded.slice(0, -embedded.length)}${high}:${low}`
+  }
+
+  const [head, tail] = expanded.split('::')
+  const left = head ? head.split(':') : []
+  const right = tail ? tail.split(':') : []
+  const zeros = Array<string>(8 - left.length - right.length).fill('0')
+  return [...left, ...zeros, ...right].map((group) =>
+    Number.parseInt(group, 16),
+  )
+}
+
+function isPublicIPv6(address: string): boolean {
+  const groups = ipv6Groups(address)
+  const [first = 0] = groups
+  const prefixIsZero = groups.slice(0, 5).every((group) => group === 0)
+
+  // :: and ::1
+  if (prefixIsZero && groups[5] === 0 && groups[6] === 0) {
+    return (groups[7] ?? 0) > 1
+  }
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) carry an IPv4 address
+  const mapped = prefixIsZero && groups[5] === 0xffff
+  const nat64 =
+    first === 0x64 &&
+    groups[1] === 0xff9b &&
+    groups.slice(2, 6).every((group) => group === 0)
+  if (mapped || nat64) {
+    const high = groups[6] ?? 0
+    const low = groups[7] ?? 0
+    return isPublicIPv4(
+      [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.'),
+    )
+  }
+
+  return (
+    (first & 0xfe00) !== 0xfc00 && // unique local
+    (first & 0xffc0) !== 0xfe80 && // link-local
+    (first & 0xffc0) !== 0xfec0 && // site-local
+    (first & 0xff00) !== 0xff00 // multicast
+  )
+}
+
+/** False for loopback, private, link-local, multicast and reserved addresses */
+export function isPublicAddress(address: string): boolean {
+  switch (isIP(address)) {
+    case 4:
+      return isPublicIPv4(address)
+    case 6:
+      return isPublicIPv6(address)
+    default:
+      return false
+  }
+}
+
+/**
+ * Checks the host of a webhook URL without resolving it: IP literals and
+ * `localhost` are rejected right away, other names once resolved.
+ */
+export function isPublicHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase()
+  if (host === 'localhost' || host.endsWith('.localhost')) return false
+  return isIP(host) === 0 || isPublicAddress(host)
+}
+
+export async function lookupHost(hostname: string): Promise<string[]> {
+  const addresses = await lookup(hostname.replace(/^\[(.*)\]$/, '$1'), {
+    all: true,
+    verbatim: true,
+  })
+  return addresses.map(({ address }) => address)
+}
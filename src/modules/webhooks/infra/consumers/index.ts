@@ -0,0 +1,115 @@
+import { logger } from '@modules/logging'
+import type { AbstractSQSConsumer } from '@modules/messaging/sqs'
+import { createSQSPublisher } from '@modules/messaging/sqs'
+import type {
+  WebhookDeliveryAttemptMessage,
+  WebhookVideoStatusChangedMessage,
+} from '@core/messaging/schemas'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { WebhookFanoutService } from '@modules/webhooks/domain/services/webhook-fanout.service'
+import { WebhookDeliveryService } from '@modules/webhooks/domain/services/webhook-delivery.service'
+import type { WebhookDeliveryAttempt } from '@modules/webhooks/domain/services/webhook-delivery-queue.interface'
+import { WebhookRepositoryImpl } from '@modules/webhooks/infra/repositories/webhook-repository-impl'
+import { SqsWebhookDeliveryQueue } from '@modules/webhooks/infra/services/sqs-webhook-delivery-queue'
+import { createWebhookFanoutConsumer } from './webhook-fanout.consumer'
+import { createWebhookDeliveryConsumer } from './webhook-delivery.consumer'
+
+const DEFAULT_MAX_ATTEMPTS = 6
+const DEFAULT_RETRY_BASE_DELAY_SECONDS = 30
+const DEFAULT_TIMEOUT_MS = 10_000
+
+let fanoutConsumerInstance: AbstractSQSConsumer<WebhookVideoStatusChangedMessage> | null =
+  null
+let deliveryConsumerInstance: AbstractSQSConsumer<WebhookDeliveryAttemptMessage> | null =
+  null
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export function startWebhookConsumers(): void {
+  const fanoutQueueUrl = process.env.WEBHOOK_QUEUE_URL
+  const deliveryQueueUrl = process.env.WEBHOOK_DELIVERY_QUEUE_URL
+
+  if (!fanoutQueueUrl || !deliveryQueueUrl) {
+    logger.warn(
+      'WEBHOOK_QUEUE_URL or WEBHOOK_DELIVERY_QUEUE_URL not set, skipping webhook consumers',
+    )
+    return
+  }
+
+  const webhookRepository = new WebhookRepositoryImpl(logger)
+  const deliveryQueue = new SqsWebhookDeliveryQueue(
+    createSQSPublisher<WebhookDeliveryAttempt>(
+      { queueUrl: deliveryQueueUrl, source: 'fiapx.webhooks' },
+      logger,
+    ),
+  )
+
+  const fanoutService = new WebhookFanoutService(
+    logger,
+    new VideoRepositoryImpl(logger),
+    webhookRepository,
+    deliveryQueue,
+  )
+  const deliveryService = new WebhookDeliveryService(
+    logger,
+    webhookRepository,
+    deliveryQueue,
+    {
+      maxAttempts: numberFromEnv('WEBHOOK_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS),
+      baseDelaySeconds: numberFromEnv(
+        'WEBHOOK_RETRY_BASE_DELAY_SECONDS',
+        DEFAULT_RETRY_BASE_DELAY_SECONDS,
+      ),
+      timeoutMs: numberFromEnv('WEBHOOK_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+    },
+  )
+
+  fanoutConsumerInstance = createWebhookFanoutConsumer(
+    logger,
+    fanoutService,
+    fanoutQueueUrl,
+  )
+  deliveryConsumerInstance = createWebhookDeliveryConsumer(
+    logger,
+    deliveryService,
+    deliveryQueueUrl,
+  )
+
+  fanoutConsumerInstance.start()
+  deliveryConsumerInstance.start()
+  logger.log('Webhook consumers started', {
+    event: 'sqs.consumer.started',
+    resource: 'WebhookConsumers',
+    message: 'WebhookFanoutConsumer and WebhookDeliveryConsumer started',
+    'sqs.queueUrl': fanoutQueueUrl,
+    'sqs.deliveryQueueUrl': deliveryQueueUrl,
+  })
+}
+
+export function stopWebhookConsumers(): void {
+  if (fanoutConsumerInstance) {
+    fanoutConsumerInstance.stop()
+  }
+  if (deliveryConsumerInstance) {
+    deliveryConsumerInstance.stop()
+  }
+  if (fanoutConsumerInstance || deliveryConsumerInstance) {
+    logger.log('Webhook consumers stopped', {
+      event: 'sqs.consumer.stopped',
+      resource: 'WebhookConsumers',
+      message: 'Webhook consumers stopped',
+    })
+  }
+}
+
+export {
+  createWebhookFanoutConsumer,
+  WebhookFanoutMessageHandler,
+} from './webhook-fanout.consumer'
+export {
+  createWebhookDeliveryConsumer,
+  WebhookDeliveryMessageHandler,
+} from './webhook-delivery.consumer'
@@ -0,0 +1,60 @@
+import type { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import type { MessageHandler, MessageContext } from '@core/messaging'
+import {
+  WebhookDeliveryAttemptSchema,
+  type WebhookDeliveryAttemptMessage,
+} from '@core/messaging/schemas'
+import {
+  createSQSConsumer,
+  type AbstractSQSConsumer,
+} from '@modules/messaging/sqs'
+import { Result } from '@core/domain/result'
+import type { WebhookDeliveryService } from '@modules/webhooks/domain/services/webhook-delivery.service'
+
+/**
+ * Consumes delivery attempts queued by the fan-out (first attempt) and by
+ * WebhookDeliveryService itself (delayed retries).
+ */
+export class WebhookDeliveryMessageHandler
+  implements MessageHandler<WebhookDeliveryAttemptMessage>
+{
+  constructor(private readonly deliveryService: WebhookDeliveryService) {}
+
+  parse(rawPayload: unknown): Result<WebhookDeliveryAttemptMessage, Error> {
+    const result = WebhookDeliveryAttemptSchema.safeParse(rawPayload)
+    if (!result.success) {
+      return Result.fail(new Error(result.error.message))
+    }
+    return Result.ok(result.data)
+  }
+
+  async handle(
+    attempt: WebhookDeliveryAttemptMessage,
+    _context: MessageContext,
+  ): Promise<Result<void, Error>> {
+    const result = await this.deliveryService.deliver(attempt)
+
+    if (result.isFailure) {
+      return Result.fail(result.error)
+    }
+
+    return Result.ok()
+  }
+}
+
+export function createWebhookDeliveryConsumer(
+  logger: AbstractLoggerService,
+  deliveryService: WebhookDeliveryService,
+  queueUrl?: string,
+): AbstractSQSConsumer<WebhookDeliveryAttemptMessage> {
+  const messageHandler = new WebhookDeliveryMessageHandler(deliveryService)
+
+  return createSQSConsumer<WebhookDeliveryAttemptMessage>(
+    {
+      queueUrl: queueUrl ?? process.env.WEBHOOK_DELIVERY_QUEUE_URL ?? '',
+      region: process.env.AWS_REGION ?? 'us-east-1',
+    },
+    logger,
+    messageHandler,
+  )
+}
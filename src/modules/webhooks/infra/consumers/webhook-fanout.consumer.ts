@@ -0,0 +1,64 @@
+import type { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import type { MessageHandler, MessageContext } from '@core/messaging'
+import {
+  WebhookVideoStatusChangedMessageSchema,
+  type WebhookVideoStatusChangedMessage,
+} from '@core/messaging/schemas'
+import {
+  createSQSConsumer,
+  type AbstractSQSConsumer,
+} from '@modules/messaging/sqs'
+import { Result } from '@core/domain/result'
+import type { WebhookFanoutService } from '@modules/webhooks/domain/services/webhook-fanout.service'
+
+/**
+ * Consumes every `Video Status Changed` event (EventBridge → SNS → SQS) and
+ * rebuilds the envelope emitted by EnvelopeFactory, which is what webhooks
+ * receive.
+ */
+export class WebhookFanoutMessageHandler
+  implements MessageHandler<WebhookVideoStatusChangedMessage>
+{
+  constructor(private readonly fanoutService: WebhookFanoutService) {}
+
+  parse(rawPayload: unknown): Result<WebhookVideoStatusChangedMessage, Error> {
+    const result = WebhookVideoStatusChangedMessageSchema.safeParse(rawPayload)
+    if (!result.success) {
+      return Result.fail(new Error(result.error.message))
+    }
+    return Result.ok(result.data)
+  }
+
+  async handle(
+    event: WebhookVideoStatusChangedMessage,
+    context: MessageContext,
+  ): Promise<Result<void, Error>> {
+    const result = await this.fanoutService.fanOut({
+      metadata: context.metadata,
+      payload: event.detail,
+    })
+
+    if (result.isFailure) {
+      return Result.fail(result.error)
+    }
+
+    return Result.ok()
+  }
+}
+
+export function createWebhookFanoutConsumer(
+  logger: AbstractLoggerService,
+  fanoutService: WebhookFanoutService,
+  queueUrl?: string,
+): AbstractSQSConsumer<WebhookVideoStatusChangedMessage> {
+  const messageHandler = new WebhookFanoutMessageHandler(fanoutService)
+
+  return createSQSConsumer<WebhookVideoStatusChangedMessage>(
+    {
+      queueUrl: queueUrl ?? process.env.WEBHOOK_QUEUE_URL ?? '',
+      region: process.env.AWS_REGION ?? 'us-east-1',
+    },
+    logger,
+    messageHandler,
+  )
+}
@@ -0,0 +1,274 @@
+import { Result } from '@core/domain/result'
+import { DataSource } from '@core/libs/database/datasource'
+import { DefaultDatabase } from '@core/libs/database/default-cassabdra.database'
+import { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import {
+  decodePageCursor,
+  encodePageCursor,
+} from '@core/libs/database/page-cursor'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import { Webhook } from '@modules/webhooks/domain/entities/webhook'
+import { WebhookDelivery } from '@modules/webhooks/domain/entities/webhook-delivery'
+import type {
+  FindDeliveriesOptions,
+  WebhookDeliveryPage,
+  WebhookRepository,
+} from '@modules/webhooks/domain/repositories/webhook.repository'
+import type {
+  WebhookTable,
+  WebhookByUserTable,
+  WebhookDeliveryTable,
+  WebhookDeliveryByWebhookTable,
+  WebhookDeadLetterTable,
+} from '../tables'
+
+export class WebhookRepositoryImpl
+  extends DefaultDatabase
+  implements WebhookRepository
+{
+  constructor(logger: AbstractLoggerService) {
+    super(DataSource.getInstance(logger), logger)
+  }
+
+  async createWebhook(webhook: Webhook): Promise<Result<void, Error>> {
+    this.logger.log('Creating webhook', { webhookId: webhook.id.value })
+
+    const webhookResult = await this.insert<WebhookTable>({
+      table: 'webhook',
+      data: {
+        webhook_id: webhook.id.value,
+        user_id: webhook.userId.value,
+        url: webhook.url,
+        secret: webhook.secret,
+        events: webhook.events,
+        created_at: webhook.createdAt,
+        updated_at: webhook.updatedAt,
+      },
+    })
+    if (webhookResult.isFailure) return Result.fail(webhookResult.error)
+
+    const byUserResult = await this.insert<WebhookByUserTable>({
+      table: 'webhook_by_user',
+      data: {
+        user_id: webhook.userId.value,
+        created_at: webhook.createdAt,
+        webhook_id: webhook.id.value,
+      },
+    })
+    return byUserResult.isSuccess
+      ? Result.ok(undefined)
+      : Result.fail(byUserResult.error)
+  }
+
+  async findById(webhookId: string): Promise<Result<Webhook | null, Error>> {
+    this.logger.log('Finding webhook by ID', { webhookId })
+
+    const rowsResult = await this.select<WebhookTable>({
+      table: 'webhook',
+      where: { webhook_id: webhookId },
+    })
+    if (rowsResult.isFailure) return Result.fail(rowsResult.error)
+
+    const row = rowsResult.value[0]
+    return Result.ok(row ? this.mapWebhookRowToEntity(row) : null)
+  }
+
+  async findByUser(userId: string): Promise<Result<Webhook[], Error>> {
+    this.logger.log('Finding webhooks by user', { userId })
+
+    const lookupResult = await this.select<WebhookByUserTable>({
+      table: 'webhook_by_user',
+      where: { user_id: userId },
+      columns: ['webhook_id'],
+    })
+    if (lookupResult.isFailure) return Result.fail(lookupResult.error)
+
+    const webhooks = await Promise.all(
+      lookupResult.value.map((row) => this.findById(String(row.webhook_id))),
+    )
+
+    const items: Webhook[] = []
+    for (const webhookResult of webhooks) {
+      if (webhookResult.isFailure) return Result.fail(webhookResult.error)
+      if (webhookResult.value) items.push(webhookResult.value)
+    }
+    return Result.ok(items)
+  }
+
+  async createDelivery(
+    delivery: WebhookDelivery,
+  ): Promise<Result<void, Error>> {
+    this.logger.log('Creating webhook delivery', {
+      deliveryId: delivery.id.value,
+      webhookId: delivery.webhookId.value,
+    })
+
+    const deliveryResult = await this.insert<WebhookDeliveryTable>({
+      table: 'webhook_delivery',
+      data: {
+        delivery_id: delivery.id.value,
+        webhook_id: delivery.webhookId.value,
+        video_id: delivery.videoId,
+        event: delivery.event,
+        message_id: delivery.messageId,
+        payload: delivery.payload,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        created_at: delivery.createdAt,
+        updated_at: delivery.updatedAt,
+      },
+    })
+    if (deliveryResult.isFailure) return Result.fail(deliveryResult.error)
+
+    const byWebhookResult = await this.insert<WebhookDeliveryByWebhookTable>({
+      table: 'webhook_delivery_by_webhook',
+      data: {
+        webhook_id: delivery.webhookId.value,
+        created_at: delivery.createdAt,
+        delivery_id: delivery.id.value,
+      },
+    })
+    return byWebhookResult.isSuccess
+      ? Result.ok(undefined)
+      : Result.fail(byWebhookResult.error)
+  }
+
+  async updateDelivery(
+    delivery: WebhookDelivery,
+  ): Promise<Result<void, Error>> {
+    this.logger.log('Updating webhook delivery', {
+      deliveryId: delivery.id.value,
+      status: delivery.status,
+    })
+
+    // null clears the columns left over from a previous attempt
+    const result = await this.update<WebhookDeliveryTable>({
+      table: 'webhook_delivery',
+      data: {
+        status: delivery.status,
+        attempts: delivery.attempts,
+        last_status_code: delivery.lastStatusCode ?? null,
+        last_error: delivery.lastError ?? null,
+        next_attempt_at: delivery.nextAttemptAt ?? null,
+        delivered_at: delivery.deliveredAt ?? null,
+        updated_at: new Date(),
+      },
+      where: { delivery_id: delivery.id.value },
+    })
+    return result.isSuccess ? Result.ok(undefined) : Result.fail(result.error)
+  }
+
+  async findDeliveryById(
+    deliveryId: string,
+  ): Promise<Result<WebhookDelivery | null, Error>> {
+    this.logger.log('Finding webhook delivery by ID', { deliveryId })
+
+    const rowsResult = await this.select<WebhookDeliveryTable>({
+      table: 'webhook_delivery',
+      where: { delivery_id: deliveryId },
+    })
+    if (rowsResult.isFailure) return Result.fail(rowsResult.error)
+
+    const row = rowsResult.value[0]
+    return Result.ok(row ? this.mapDeliveryRowToEntity(row) : null)
+  }
+
+  async findDeliveries(
+    webhookId: string,
+    options: FindDeliveriesOptions,
+  ): Promise<Result<WebhookDeliveryPage, Error>> {
+    this.logger.log('Finding webhook deliveries', { webhookId, options })
+
+    let pageState: string | undefined
+    if (options.cursor) {
+      const cursorResult = decodePageCursor(options.cursor)
+      if (cursorResult.isFailure) return Result.fail(cursorResult.error)
+      pageState = cursorResult.value
+    }
+
+    const pageResult = await this.selectPage<WebhookDeliveryByWebhookTable>(
+      {
+        table: 'webhook_delivery_by_webhook',
+        where: { webhook_id: webhookId },
+        columns: ['delivery_id'],
+      },
+      { fetchSize: options.pageSize, pageState },
+    )
+    if (pageResult.isFailure) return Result.fail(pageResult.error)
+
+    const deliveries = await Promise.all(
+      pageResult.value.rows.map((row) =>
+        this.findDeliveryById(String(row.delivery_id)),
+      ),
+    )
+
+    const items: WebhookDelivery[] = []
+    for (const deliveryResult of deliveries) {
+      if (deliveryResult.isFailure) return Result.fail(deliveryResult.error)
+      if (deliveryResult.value) items.push(deliveryResult.value)
+    }
+
+    const nextPageState = pageResult.value.pageState
+
+    return Result.ok({
+      items,
+      nextCursor: nextPageState ? encodePageCursor(nextPageState) : undefined,
+    })
+  }
+
+  async createDeadLetter(
+    delivery: WebhookDelivery,
+  ): Promise<Result<void, Error>> {
+    this.logger.log('Creating webhook dead letter', {
+      deliveryId: delivery.id.value,
+      webhookId: delivery.webhookId.value,
+    })
+
+    const result = await this.insert<WebhookDeadLetterTable>({
+      table: 'webhook_dead_letter',
+      data: {
+        webhook_id: delivery.webhookId.value,
+        dead_lettered_at: new Date(),
+        delivery_id: delivery.id.value,
+        video_id: delivery.videoId,
+        event: delivery.event,
+        payload: delivery.payload,
+        attempts: delivery.attempts,
+        last_status_code: delivery.lastStatusCode,
+        last_error: delivery.lastError,
+      },
+    })
+    return result.isSuccess ? Result.ok(undefined) : Result.fail(result.error)
+  }
+
+  private mapWebhookRowToEntity(row: WebhookTable): Webhook {
+    return Webhook.createFromDatabase({
+      id: UniqueEntityID.create(String(row.webhook_id)),
+      userId: UniqueEntityID.create(String(row.user_id)),
+      url: row.url,
+      secret: row.secret,
+      events: row.events ?? [],
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    })
+  }
+
+  private mapDeliveryRowToEntity(row: WebhookDeliveryTable): WebhookDelivery {
+    return WebhookDelivery.createFromDatabase({
+      id: UniqueEntityID.create(String(row.delivery_id)),
+      webhookId: UniqueEntityID.create(String(row.webhook_id)),
+      videoId: String(row.video_id),
+      event: row.event,
+      messageId: row.message_id,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts ?? 0,
+      lastStatusCode: row.last_status_code ?? undefined,
+      lastError: row.last_error ?? undefined,
+      nextAttemptAt: row.next_attempt_at ?? undefined,
+      deliveredAt: row.delivered_at ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    })
+  }
+}
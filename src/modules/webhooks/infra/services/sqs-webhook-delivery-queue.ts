@@ -0,0 +1,31 @@
+import { Result } from '@core/domain/result'
+import { CorrelationStore } from '@core/libs/context'
+import { WEBHOOK_EVENT_TYPES } from '@core/messaging/schemas'
+import type { AbstractSQSPublisher } from '@modules/messaging/sqs'
+import type {
+  WebhookDeliveryAttempt,
+  WebhookDeliveryQueue,
+} from '@modules/webhooks/domain/services/webhook-delivery-queue.interface'
+
+/** Publishes delivery attempts to the webhook delivery queue */
+export class SqsWebhookDeliveryQueue implements WebhookDeliveryQueue {
+  constructor(
+    private readonly publisher: Pick<
+      AbstractSQSPublisher<WebhookDeliveryAttempt>,
+      'publish'
+    >,
+  ) {}
+
+  enqueue(
+    attempt: WebhookDeliveryAttempt,
+    delaySeconds?: number,
+  ): Promise<Result<void, Error>> {
+    return this.publisher.publish(attempt, {
+      eventType: WEBHOOK_EVENT_TYPES.DELIVERY_ATTEMPT,
+      correlationId: CorrelationStore.correlationId ?? crypto.randomUUID(),
+      traceId: CorrelationStore.traceId,
+      spanId: CorrelationStore.spanId,
+      delaySeconds,
+    })
+  }
+}
@@ -0,0 +1,68 @@
+// CASSANDRA TABLE TYPES - Query-First Design
+// Gerado a partir de docker-compose/init-schema.cql
+
+import type { WebhookEvent } from '@modules/webhooks/domain/entities/webhook'
+import type { WebhookDeliveryStatus } from '@modules/webhooks/domain/entities/webhook-delivery'
+
+// Tabela: webhook
+// Query: SELECT * FROM webhook WHERE webhook_id = ?
+// events vazio (null no Cassandra) significa todos os status
+export type WebhookTable = {
+  webhook_id: string
+  user_id: string
+  url: string
+  secret: string
+  events: WebhookEvent[] | null
+  created_at: Date
+  updated_at: Date
+}
+
+// Tabela: webhook_by_user (materialização)
+// Query: SELECT webhook_id FROM webhook_by_user WHERE user_id = ?
+export type WebhookByUserTable = {
+  user_id: string
+  created_at: Date
+  webhook_id: string
+}
+
+// Tabela: webhook_delivery
+// Query: SELECT * FROM webhook_delivery WHERE delivery_id = ?
+// payload guarda o corpo enviado (envelope JSON) para as novas tentativas
+export type WebhookDeliveryTable = {
+  delivery_id: string
+  webhook_id: string
+  video_id: string
+  event: WebhookEvent
+  message_id: string
+  payload: string
+  status: WebhookDeliveryStatus
+  attempts: number
+  last_status_code?: number | null
+  last_error?: string | null
+  next_attempt_at?: Date | null
+  delivered_at?: Date | null
+  created_at: Date
+  updated_at: Date
+}
+
+// Tabela: webhook_delivery_by_webhook (auditoria paginada)
+// Query: SELECT delivery_id FROM webhook_delivery_by_webhook WHERE webhook_id = ?
+export type WebhookDeliveryByWebhookTable = {
+  webhook_id: string
+  created_at: Date
+  delivery_id: string
+}
+
+// Tabela: webhook_dead_letter (entregas que esgotaram as tentativas)
+// Query: SELECT * FROM webhook_dead_letter WHERE webhook_id = ?
+export type WebhookDeadLetterTable = {
+  webhook_id: string
+  dead_lettered_at: Date
+  delivery_id: string
+  video_id: string
+  event: WebhookEvent
+  payload: string
+  attempts: number
+  last_status_code?: number | null
+  last_error?: string | null
+}
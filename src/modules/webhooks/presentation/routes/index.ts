@@ -0,0 +1,13 @@
+import { BaseElysia } from '@core/libs/elysia'
+import { registerWebhookRoute } from './register-webhook.route'
+import { listWebhooksRoute } from './list-webhooks.route'
+import { listDeliveriesRoute } from './list-deliveries.route'
+
+// Deliveries are produced by the webhook consumers (see infra/consumers):
+// Video Status Changed → webhook-queue → fan-out → webhook-delivery-queue → POST.
+export const webhookRoutes = BaseElysia.createAuthenticated({
+  prefix: 'webhooks',
+})
+  .use(registerWebhookRoute)
+  .use(listWebhooksRoute)
+  .use(listDeliveriesRoute)
@@ -0,0 +1,102 @@
+import { BaseElysia } from '@core/libs/elysia'
+import { InvalidCursorError } from '@core/errors/invalid-cursor.error'
+import { NotFoundError } from '@core/errors/not-found.error'
+import {
+  ListWebhookDeliveriesUseCase,
+  DEFAULT_DELIVERIES_PAGE_SIZE,
+  MAX_DELIVERIES_PAGE_SIZE,
+} from '@modules/webhooks/application/list-webhook-deliveries.use-case'
+import { WebhookRepositoryImpl } from '@modules/webhooks/infra/repositories/webhook-repository-impl'
+import { StatusMap, t } from 'elysia'
+
+export const listDeliveriesRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).get(
+  '/:id/deliveries',
+  async ({ params, query, user, logger, set }) => {
+    const useCase = new ListWebhookDeliveriesUseCase(
+      new WebhookRepositoryImpl(logger),
+    )
+
+    const result = await useCase.execute({
+      userId: user.id,
+      webhookId: params.id,
+      pageSize: query.pageSize,
+      cursor: query.cursor,
+    })
+
+    if (result.isFailure) {
+      if (result.error instanceof NotFoundError) {
+        set.status = StatusMap['Not Found']
+        return { error: result.error.message }
+      }
+      if (result.error instanceof InvalidCursorError) {
+        set.status = StatusMap['Bad Request']
+        return { error: result.error.message }
+      }
+      set.status = StatusMap['Internal Server Error']
+      return { error: result.error.message }
+    }
+
+    return {
+      items: result.value.items.map((delivery) => ({
+        ...delivery,
+        nextAttemptAt: delivery.nextAttemptAt?.toISOString(),
+        deliveredAt: delivery.deliveredAt?.toISOString(),
+        createdAt: delivery.createdAt.toISOString(),
+      })),
+      nextCursor: result.value.nextCursor,
+    }
+  },
+  {
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'List webhook deliveries',
+      description:
+        'Audit trail of a webhook, newest first: one entry per event sent with its status (PENDING, RETRYING, DELIVERED or DEAD_LETTERED), attempts and last error. Pass `nextCursor` back as `cursor` to fetch the next page.',
+    },
+    params: t.Object({
+      id: t.String({ description: 'Webhook ID' }),
+    }),
+    query: t.Object({
+      pageSize: t.Optional(
+        t.Numeric({
+          minimum: 1,
+          maximum: MAX_DELIVERIES_PAGE_SIZE,
+          default: DEFAULT_DELIVERIES_PAGE_SIZE,
+        }),
+      ),
+      cursor: t.Optional(
+        t.String({ description: 'Opaque cursor from a previous page' }),
+      ),
+    }),
+    response: {
+      200: t.Object({
+        items: t.Array(
+          t.Object({
+            deliveryId: t.String(),
+            videoId: t.String(),
+            event: t.String(),
+            status: t.String(),
+            attempts: t.Number(),
+            lastStatusCode: t.Optional(t.Number()),
+            lastError: t.Optional(t.String()),
+            nextAttemptAt: t.Optional(t.String()),
+            deliveredAt: t.Optional(t.String()),
+            createdAt: t.String(),
+          }),
+        ),
+        nextCursor: t.Optional(t.String()),
+      }),
+      400: t.Object({
+        error: t.String(),
+      }),
+      404: t.Object({
+        error: t.String(),
+      }),
+      500: t.Object({
+        error: t.String(),
+      }),
+    },
+  },
+)
@@ -0,0 +1,52 @@
+import { BaseElysia } from '@core/libs/elysia'
+import { ListWebhooksUseCase } from '@modules/webhooks/application/list-webhooks.use-case'
+import { WebhookRepositoryImpl } from '@modules/webhooks/infra/repositories/webhook-repository-impl'
+import { StatusMap, t } from 'elysia'
+
+export const listWebhooksRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).get(
+  '/',
+  async ({ user, logger, set }) => {
+    const useCase = new ListWebhooksUseCase(new WebhookRepositoryImpl(logger))
+
+    const result = await useCase.execute(user.id)
+
+    if (result.isFailure) {
+      set.status = StatusMap['Internal Server Error']
+      return { error: result.error.message }
+    }
+
+    return {
+      items: result.value.map((webhook) => ({
+        webhookId: webhook.id.value,
+        url: webhook.url,
+        events: webhook.events,
+        createdAt: webhook.createdAt.toISOString(),
+      })),
+    }
+  },
+  {
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'List webhooks',
+      description:
+        'Lists the webhooks of the authenticated user, newest first. Secrets are not returned.',
+    },
+    response: {
+      200: t.Object({
+        items: t.Array(
+          t.Object({
+            webhookId: t.String(),
+            url: t.String(),
+            events: t.Array(t.String()),
+            createdAt: t.String(),
+          }),
+        ),
+      }),
+      500: t.Object({
+        error: t.String(),
+      }),
+    },
+  },
+)
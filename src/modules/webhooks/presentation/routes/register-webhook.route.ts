@@ -0,0 +1,78 @@
+import { BaseElysia } from '@core/libs/elysia'
+import { RegisterWebhookUseCase } from '@modules/webhooks/application/register-webhook.use-case'
+import { MIN_WEBHOOK_SECRET_LENGTH } from '@modules/webhooks/domain/entities/webhook'
+import { WebhookRepositoryImpl } from '@modules/webhooks/infra/repositories/webhook-repository-impl'
+import { StatusMap, t } from 'elysia'
+
+export const registerWebhookRoute = BaseElysia.createAuthenticated({
+  prefix: '',
+}).post(
+  '/',
+  async ({ body, user, logger, set }) => {
+    const useCase = new RegisterWebhookUseCase(
+      new WebhookRepositoryImpl(logger),
+      { allowHttp: Bun.env.NODE_ENV === 'development' },
+    )
+
+    const result = await useCase.execute({
+      userId: user.id,
+      url: body.url,
+      secret: body.secret,
+      events: body.events,
+    })
+
+    if (result.isFailure) {
+      set.status = StatusMap['Unprocessable Content']
+      return { error: result.error.message }
+    }
+
+    const webhook = result.value
+    set.status = StatusMap.Created
+    return {
+      webhookId: webhook.id.value,
+      url: webhook.url,
+      events: webhook.events,
+      createdAt: webhook.createdAt.toISOString(),
+    }
+  },
+  {
+    detail: {
+      tags: ['Webhooks'],
+      summary: 'Register webhook',
+      description:
+        'Registers an https endpoint (plain http only in development; private and loopback addresses are rejected) that receives a signed POST with the `Video Status Changed` envelope whenever one of your videos reaches a status in `events` (all statuses when empty). Each request carries `X-Fiapx-Signature: t=<unix>,v1=<hex HMAC-SHA256 of "<t>.<body>" with the secret>`, `X-Fiapx-Delivery` and `X-Fiapx-Event-Id` (stable across retries of the same event). The secret is never returned.',
+    },
+    body: t.Object({
+      url: t.String({ format: 'uri', description: 'https endpoint' }),
+      secret: t.String({
+        minLength: MIN_WEBHOOK_SECRET_LENGTH,
+        description: 'Shared secret used to sign the requests',
+      }),
+      events: t.Optional(
+        t.Array(
+          t.Union([
+            t.Literal('UPLOADED'),
+            t.Literal('PROCESSING'),
+            t.Literal('SPLITTING'),
+            t.Literal('PRINTING'),
+            t.Literal('COMPLETED'),
+            t.Literal('FAILED'),
+            t.Literal('CANCELLED'),
+          ]),
+          { description: 'Statuses to be notified about (default: all)' },
+        ),
+      ),
+    }),
+    response: {
+      201: t.Object({
+        webhookId: t.String(),
+        url: t.String(),
+        events: t.Array(t.String()),
+        createdAt: t.String(),
+      }),
+      422: t.Object({
+        error: t.String(),
+      }),
+    },
+  },
+)
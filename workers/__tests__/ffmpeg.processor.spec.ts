@@ -1,8 +1,19 @@
-import { existsSync } from 'node:fs'
+import { existsSync, readdirSync } from 'node:fs'
 import { join } from 'node:path'
 import { describe, expect, it, beforeEach, afterEach } from 'bun:test'
-import { FFmpegProcessor } from '@workers/processors/ffmpeg.processor'
+import { S3Client } from '@aws-sdk/client-s3'
+import {
+  FFmpegProcessor,
+  frameEncoderArgs,
+  frameFilters,
+  gridTimestampMs,
+  parseFrameInfo,
+  sceneFrameName,
+  segmentGrid,
+  selectEvenly,
+} from '@workers/processors/ffmpeg.processor'
 import type { VideoProcessorService } from '@workers/abstractions'
+import { S3FramesUploader } from '@workers/adapters/s3-frames-uploader'
 
 const fixturePath = join(import.meta.dir, 'fixtures', 'fake-video.mp4')
 const hasVideoFixture = existsSync(fixturePath)
@@ -21,7 +32,16 @@ describe('FFmpegProcessor', () => {
   const videoId = 'test-video-123'
 
   beforeEach(() => {
-    processor = new FFmpegProcessor(videoId)
+    processor = new FFmpegProcessor(
+      videoId,
+      new S3FramesUploader(
+        new S3Client({
+          region: 'us-east-1',
+          endpoint: 'http://localstack:4566',
+          credentials: { accessKeyId: 'test', secretAccessKey: 'test' },
+        }),
+      ),
+    )
   })
 
   afterEach(async () => {
@@ -39,6 +59,51 @@ describe('FFmpegProcessor', () => {
     })
   })
 
+  const boundaries = [0, 3.5, 8.2, 12]
+  const segments = boundaries
+    .slice(0, -1)
+    .map((start, i) => [start, boundaries[i + 1]] as const)
+
+  describe('segmentGrid', () => {
+    it('should keep every grid point in exactly one of adjacent segments', () => {
+      const timestamps = segments.flatMap(([start, end]) => {
+        const grid = segmentGrid(
+          { frameInterval: 1, format: 'jpg' },
+          start,
+          end,
+        )
+        if (!grid) return []
+
+        // What fps outputs: one frame per point until FFmpeg stops reading
+        const count = Math.floor(grid.readUntil - grid.firstFrameTime) + 1
+        return Array.from({ length: count }, (_, index) =>
+          gridTimestampMs(grid, index, { seconds: index }),
+        ).filter((timestampMs) => timestampMs < grid.endMs)
+      })
+
+      expect(timestamps).toEqual(
+        Array.from({ length: 12 }, (_, second) => second * 1000),
+      )
+    })
+
+    it('should read one interval past the end of the segment', () => {
+      expect(
+        segmentGrid({ frameInterval: 1, format: 'jpg' }, 3.5, 8.2),
+      ).toEqual({
+        firstFrameTime: 4,
+        readUntil: 9.2,
+        endMs: 9000,
+        secondsBetweenFrames: 1,
+      })
+    })
+
+    it('should have no grid when no point falls in the segment', () => {
+      expect(
+        segmentGrid({ frameInterval: 2, format: 'jpg' }, 10.2, 11.8),
+      ).toBeUndefined()
+    })
+  })
+
   describe('setup', () => {
     it('should create work directory', async () => {
       await processor.setup()
@@ -58,36 +123,96 @@ describe('FFmpegProcessor', () => {
       'should return success Result with frames from url',
       async () => {
         await processor.setup()
-        const result = await processor.extractFramesFromUrl(
-          fixturePath,
-          0,
-          3,
-          1,
-        )
+        const result = await processor.extractFramesFromUrl(fixturePath, 0, 3, {
+          frameInterval: 1,
+          format: 'jpg',
+        })
 
         expect(result.isSuccess).toBe(true)
         expect(result.value.count).toBeGreaterThanOrEqual(3)
         expect(existsSync(result.value.outputDir)).toBe(true)
+        expect(result.value.frames).toHaveLength(result.value.count)
+        expect(result.value.frames[1]).toMatchObject({
+          file: 'frame_0002.jpg',
+          timestampMs: 1000,
+          sha256: expect.stringMatching(/^[0-9a-f]{64}$/),
+        })
       },
     )
 
     it.skipIf(!hasVideoFixture || !hasFFmpeg)(
       'should extract 6 frames with lower frameInterval',
+      async () => {
+        await processor.setup()
+        const result = await processor.extractFramesFromUrl(fixturePath, 0, 3, {
+          frameInterval: 0.5,
+          format: 'jpg',
+        })
+
+        expect(result.isSuccess).toBe(true)
+        expect(result.value.count).toBeGreaterThanOrEqual(6)
+        expect(existsSync(result.value.outputDir)).toBe(true)
+      },
+    )
+
+    it.skipIf(!hasVideoFixture || !hasFFmpeg)(
+      'should sample on the grid of the video when the segment starts between frames',
       async () => {
         await processor.setup()
         const result = await processor.extractFramesFromUrl(
           fixturePath,
-          0,
+          0.4,
           3,
-          0.5,
+          { frameInterval: 1, format: 'jpg' },
         )
 
         expect(result.isSuccess).toBe(true)
-        expect(result.value.count).toBeGreaterThanOrEqual(6)
-        expect(existsSync(result.value.outputDir)).toBe(true)
+        expect(result.value.frames[0].timestampMs).toBe(1000)
       },
     )
 
+    it.skipIf(!hasVideoFixture || !hasFFmpeg)(
+      'should extract contiguous frames from segments with unaligned boundaries',
+      async () => {
+        await processor.setup()
+        const timestamps: number[] = []
+        for (const [start, end] of [
+          [0, 0.7],
+          [0.7, 1.6],
+          [1.6, 3],
+        ]) {
+          const result = await processor.extractFramesFromUrl(
+            fixturePath,
+            start,
+            end,
+            { frameInterval: 0.5, format: 'jpg' },
+          )
+          expect(result.isSuccess).toBe(true)
+          timestamps.push(...result.value.frames.map((f) => f.timestampMs))
+          expect(readdirSync(result.value.outputDir)).toHaveLength(
+            result.value.count,
+          )
+          await processor.cleanup()
+          await processor.setup()
+        }
+
+        expect(timestamps).toEqual([0, 500, 1000, 1500, 2000, 2500])
+      },
+    )
+
+    it('should return no frames when no grid point falls in the segment', async () => {
+      await processor.setup()
+      const result = await processor.extractFramesFromUrl(
+        '/non/existent/file.mp4',
+        10.2,
+        11.8,
+        { frameInterval: 2, format: 'jpg' },
+      )
+
+      expect(result.isSuccess).toBe(true)
+      expect(result.value.frames).toEqual([])
+    })
+
     it.skipIf(!hasFFmpeg)(
       'should return failure Result when input file does not exist',
       async () => {
@@ -96,7 +221,7 @@ describe('FFmpegProcessor', () => {
           '/non/existent/file.mp4',
           0,
           10,
-          1,
+          { frameInterval: 1, format: 'jpg' },
         )
 
         expect(result.isFailure).toBe(true)
@@ -112,7 +237,7 @@ describe('FFmpegProcessor', () => {
           'not-a-valid-url',
           0,
           10,
-          1,
+          { frameInterval: 1, format: 'jpg' },
         )
 
         expect(result.isFailure).toBe(true)
@@ -121,6 +246,130 @@ describe('FFmpegProcessor', () => {
     )
   })
 
+  describe('frameFilters', () => {
+    it('should sample one frame every interval', () => {
+      expect(frameFilters({ frameInterval: 0.5, format: 'jpg' })).toBe(
+        'fps=1/0.5',
+      )
+    })
+
+    it('should sample at the requested fps', () => {
+      expect(frameFilters({ fps: 5, format: 'jpg' })).toBe('fps=5')
+    })
+
+    it('should scale down to the maximum width keeping the aspect ratio', () => {
+      expect(
+        frameFilters({ frameInterval: 1, format: 'jpg', maxWidth: 640 }),
+      ).toBe('fps=1/1,scale=w=min(iw\\,640):h=-2')
+    })
+
+    it('should fit frames into the maximum width and height', () => {
+      expect(
+        frameFilters({
+          frameInterval: 1,
+          format: 'jpg',
+          maxWidth: 640,
+          maxHeight: 360,
+        }),
+      ).toBe(
+        'fps=1/1,scale=w=min(iw\\,640):h=min(ih\\,360):force_original_aspect_ratio=decrease',
+      )
+    })
+  })
+
+  describe('scene mode', () => {
+    it('should select the scene changes', () => {
+      expect(
+        frameFilters({
+          mode: 'scene',
+          sceneThreshold: 0.4,
+          format: 'jpg',
+          maxHeight: 360,
+        }),
+      ).toBe('select=gt(scene\\,0.4),scale=w=-2:h=min(ih\\,360)')
+    })
+
+    it('should read the timestamps and sizes logged by showinfo', () => {
+      const stderr = [
+        '[Parsed_showinfo_1 @ 0x1] config in time_base: 1/12800',
+        '[Parsed_showinfo_1 @ 0x1] n:   0 pts:      0 pts_time:0       duration:512 fmt:yuv420p sar:1/1 s:640x360 i:P',
+        '[Parsed_showinfo_1 @ 0x1] n:   1 pts:  52736 pts_time:4.12    duration:512',
+        'frame=    2 fps=0.0 q=-0.0 Lsize=N/A time=00:00:04.16',
+      ].join('\n')
+
+      expect(parseFrameInfo(stderr)).toEqual([
+        { seconds: 0, width: 640, height: 360 },
+        { seconds: 4.12 },
+      ])
+    })
+
+    it('should keep frames spread over the segment', () => {
+      const items = [1, 2, 3, 4, 5, 6, 7, 8, 9]
+
+      expect(selectEvenly(items, 3)).toEqual([1, 5, 9])
+      expect(selectEvenly(items, 1)).toEqual([1])
+      expect(selectEvenly(items, 20)).toBe(items)
+      expect(selectEvenly(items)).toBe(items)
+    })
+
+    it('should name frames after their position in the video', () => {
+      expect(sceneFrameName(3, 12480, 'png')).toBe('frame_0003_12480ms.png')
+    })
+
+    it.skipIf(!hasVideoFixture || !hasFFmpeg)(
+      'should name the extracted frames after their timestamps',
+      async () => {
+        await processor.setup()
+        const result = await processor.extractFramesFromUrl(fixturePath, 2, 5, {
+          mode: 'scene',
+          sceneThreshold: 0.3,
+          minFrames: 2,
+          maxFrames: 4,
+          format: 'jpg',
+        })
+
+        expect(result.isSuccess).toBe(true)
+        expect(result.value.count).toBeGreaterThanOrEqual(2)
+        expect(result.value.count).toBeLessThanOrEqual(4)
+        const names = readdirSync(result.value.outputDir).sort()
+        expect(names).toHaveLength(result.value.count)
+        for (const name of names) {
+          const [, ms] = /^frame_\d{4}_(\d+)ms\.jpg$/.exec(name) ?? []
+          expect(Number(ms)).toBeGreaterThanOrEqual(2000)
+          expect(Number(ms)).toBeLessThanOrEqual(5000)
+        }
+      },
+    )
+  })
+
+  describe('frameEncoderArgs', () => {
+    it('should keep the best JPEG quality by default', () => {
+      expect(frameEncoderArgs({ frameInterval: 1, format: 'jpg' })).toEqual([
+        '-q:v',
+        '2',
+      ])
+    })
+
+    it('should map quality to the JPEG scale', () => {
+      expect(
+        frameEncoderArgs({ frameInterval: 1, format: 'jpg', quality: 100 }),
+      ).toEqual(['-q:v', '2'])
+      expect(
+        frameEncoderArgs({ frameInterval: 1, format: 'jpg', quality: 1 }),
+      ).toEqual(['-q:v', '31'])
+    })
+
+    it('should encode webp with the requested quality', () => {
+      expect(
+        frameEncoderArgs({ frameInterval: 1, format: 'webp', quality: 60 }),
+      ).toEqual(['-c:v', 'libwebp', '-quality', '60'])
+    })
+
+    it('should add no options for lossless png', () => {
+      expect(frameEncoderArgs({ frameInterval: 1, format: 'png' })).toEqual([])
+    })
+  })
+
   describe('uploadDir', () => {
     it('should return failure Result when directory does not exist', async () => {
       const result = await processor.uploadDir(
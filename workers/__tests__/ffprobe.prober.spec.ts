@@ -0,0 +1,146 @@
+import { existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, expect, it } from 'bun:test'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import {
+  FFprobeProber,
+  parseKeyframes,
+  parseProbe,
+} from '@workers/processors/ffprobe.prober'
+
+const fixturePath = join(import.meta.dir, 'fixtures', 'fake-video.mp4')
+const hasVideoFixture = existsSync(fixturePath)
+
+const hasFFprobe = (() => {
+  try {
+    const proc = Bun.spawnSync(['which', 'ffprobe'])
+    return proc.exitCode === 0
+  } catch {
+    return false
+  }
+})()
+
+const H264_STREAM = {
+  codec_type: 'video',
+  codec_name: 'h264',
+  width: 1920,
+  height: 1080,
+  avg_frame_rate: '30000/1001',
+  r_frame_rate: '30000/1001',
+}
+
+describe('FFprobeProber', () => {
+  describe('parseProbe', () => {
+    it('should read duration, container and streams', () => {
+      const result = parseProbe({
+        format: {
+          format_name: 'mov,mp4,m4a,3gp,3g2,mj2',
+          duration: '42.480000',
+        },
+        streams: [H264_STREAM, { codec_type: 'audio', codec_name: 'aac' }],
+      })
+
+      expect(result.isSuccess).toBe(true)
+      expect(result.value).toEqual({
+        durationMs: 42480,
+        container: 'mov,mp4,m4a,3gp,3g2,mj2',
+        videoCodec: 'h264',
+        audioCodec: 'aac',
+        width: 1920,
+        height: 1080,
+        fps: 29.97,
+      })
+    })
+
+    it('should fall back to the stream duration and frame rate', () => {
+      const result = parseProbe({
+        format: { format_name: 'matroska,webm' },
+        streams: [
+          {
+            ...H264_STREAM,
+            codec_name: 'vp9',
+            avg_frame_rate: '0/0',
+            r_frame_rate: '25/1',
+            duration: '10.5',
+          },
+        ],
+      })
+
+      expect(result.value).toMatchObject({
+        durationMs: 10500,
+        videoCodec: 'vp9',
+        fps: 25,
+      })
+      expect(result.value.audioCodec).toBeUndefined()
+    })
+
+    it.each([
+      [
+        'no video stream',
+        {
+          format: { duration: '3' },
+          streams: [{ codec_type: 'audio', codec_name: 'mp3' }],
+        },
+      ],
+      [
+        'unknown duration',
+        { format: { duration: 'N/A' }, streams: [H264_STREAM] },
+      ],
+      [
+        'unknown frame rate',
+        {
+          format: { duration: '3' },
+          streams: [
+            { ...H264_STREAM, avg_frame_rate: '0/0', r_frame_rate: '0/0' },
+          ],
+        },
+      ],
+    ])('should fail with NonRetryableError on %s', (reason, output) => {
+      const result = parseProbe(output)
+
+      expect(result.isFailure).toBe(true)
+      expect(NonRetryableError.isNonRetryable(result.error)).toBe(true)
+      expect(result.error.message).toBe(`Not a decodable video: ${reason}`)
+    })
+  })
+
+  describe('parseKeyframes', () => {
+    it('should keep the packets flagged as keyframes, in time order', () => {
+      const csv = [
+        '4.170000,K__',
+        '0.000000,K__',
+        '0.033333,___',
+        'N/A,K__',
+        '8.341667,K_D',
+        '',
+      ].join('\n')
+
+      expect(parseKeyframes(csv)).toEqual([0, 4.17, 8.341667])
+    })
+  })
+
+  describe('probe', () => {
+    it.skipIf(!hasVideoFixture || !hasFFprobe)(
+      'should probe the fixture video',
+      async () => {
+        const result = await new FFprobeProber().probe(fixturePath)
+
+        expect(result.isSuccess).toBe(true)
+        expect(result.value.durationMs).toBeGreaterThan(0)
+        expect(result.value.width).toBeGreaterThan(0)
+      },
+    )
+
+    it.skipIf(!hasFFprobe)(
+      'should fail with NonRetryableError for a file that is not a video',
+      async () => {
+        const result = await new FFprobeProber().probe(
+          join(import.meta.dir, 'fixtures', 'README.md'),
+        )
+
+        expect(result.isFailure).toBe(true)
+        expect(NonRetryableError.isNonRetryable(result.error)).toBe(true)
+      },
+    )
+  })
+})
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test'
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { FileDropEmailSender } from '@workers/adapters'
+
+describe('FileDropEmailSender', () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fiapx-emails-'))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it('should write each message as an .eml file', async () => {
+    const outbox = join(directory, 'outbox')
+    const sender = new FileDropEmailSender({
+      directory: outbox,
+      from: 'FIAP X <noreply@fiapx.local>',
+    })
+
+    const result = await sender.send({
+      to: 'user@example.com',
+      subject: 'Seu video esta pronto!',
+      html: '<p>Pronto</p>',
+      text: 'Pronto',
+    })
+
+    expect(result.isSuccess).toBe(true)
+    const files = await readdir(outbox)
+    expect(files).toHaveLength(1)
+    expect(files[0]).toEndWith('.eml')
+    expect(files[0]).toContain('user@example.com')
+
+    const content = await readFile(join(outbox, files[0] as string), 'utf8')
+    expect(content).toContain('From: FIAP X <noreply@fiapx.local>')
+    expect(content).toContain('Subject: Seu video esta pronto!')
+    expect(content).toContain(Buffer.from('Pronto').toString('base64'))
+  })
+
+  it('should fail when the directory cannot be created', async () => {
+    const sender = new FileDropEmailSender({
+      directory: '/dev/null/emails',
+      from: 'noreply@fiapx.local',
+    })
+
+    const result = await sender.send({
+      to: 'user@example.com',
+      subject: 'x',
+      html: 'x',
+      text: 'x',
+    })
+
+    expect(result.isFailure).toBe(true)
+  })
+})
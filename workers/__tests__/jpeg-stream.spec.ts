@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'bun:test'
+import { jpegLength, splitJpegStream } from '@workers/processors/jpeg-stream'
+
+/** Minimal JPEG whose table and image data hold bytes that look like markers */
+function jpeg(fill: string): Uint8Array {
+  const hex = [
+    'ffd8', // start of image
+    `ffdb0005ffd9${fill}`, // table holding the bytes of an end of image
+    'ffda00040100', // scan header
+    `${fill}ff0034ffd056ffff`, // byte stuffing, restart marker, fill bytes
+    'ffd9', // end of image
+  ].join('')
+  return new Uint8Array(Buffer.from(hex, 'hex'))
+}
+
+function streamOf(bytes: Uint8Array, chunkSize: number) {
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += chunkSize) {
+        controller.enqueue(bytes.slice(i, i + chunkSize))
+      }
+      controller.close()
+    },
+  })
+}
+
+async function collect(stream: ReadableStream<Uint8Array>) {
+  const frames: Uint8Array[] = []
+  for await (const frame of splitJpegStream(stream)) frames.push(frame)
+  return frames
+}
+
+describe('jpegLength', () => {
+  it('should find the end of image after the entropy-coded data', () => {
+    const frame = jpeg('12')
+
+    expect(jpegLength(frame)).toBe(frame.length)
+  })
+
+  it('should wait for the rest of an incomplete frame', () => {
+    const frame = jpeg('12')
+
+    for (let length = 0; length < frame.length; length++) {
+      expect(jpegLength(frame.subarray(0, length))).toBeUndefined()
+    }
+  })
+
+  it('should reject a stream that does not start with a JPEG', () => {
+    expect(() => jpegLength(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toThrow(
+      'Not a JPEG stream',
+    )
+  })
+})
+
+describe('splitJpegStream', () => {
+  it.each([
+    1, 3, 64,
+  ])('should yield every frame when read %i bytes at a time', async (chunkSize) => {
+    const frames = [jpeg('01'), jpeg('02'), jpeg('03')]
+    const bytes = new Uint8Array(frames.reduce((n, f) => n + f.length, 0))
+    let offset = 0
+    for (const frame of frames) {
+      bytes.set(frame, offset)
+      offset += frame.length
+    }
+
+    expect(await collect(streamOf(bytes, chunkSize))).toEqual(frames)
+  })
+
+  it('should fail when the stream ends in the middle of a frame', async () => {
+    const truncated = jpeg('01').subarray(0, 10)
+
+    await expect(collect(streamOf(truncated, 4))).rejects.toThrow(
+      'JPEG stream ended in the middle of a frame (10 bytes)',
+    )
+  })
+})
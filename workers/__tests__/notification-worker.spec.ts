@@ -0,0 +1,241 @@
+import { describe, expect, it, mock } from 'bun:test'
+import { context } from '@opentelemetry/api'
+import { PinoLoggerService } from '@core/libs/logging/pino-logger'
+import type { MessageContext } from '@core/messaging'
+import type { VideoNotificationMessage } from '@core/messaging/schemas'
+import type { VideoStatus } from '@core/abstractions/messaging'
+import { Result } from '@core/domain/result'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import type {
+  EmailMessage,
+  EmailSender,
+  NotificationLedger,
+} from '@workers/abstractions'
+import { NotificationEventHandler } from '@workers/notification-worker'
+
+type FakeLedger = NotificationLedger & { claimed: Set<string> }
+
+function createLedger(): FakeLedger {
+  const claimed = new Set<string>()
+  return {
+    claimed,
+    claim: mock((videoId: string, status: VideoStatus, runId = '') => {
+      const key = `${videoId}:${runId}:${status}`
+      if (claimed.has(key)) return Promise.resolve(Result.ok(false))
+      claimed.add(key)
+      return Promise.resolve(Result.ok(true))
+    }),
+    release: mock((videoId: string, status: VideoStatus, runId = '') => {
+      claimed.delete(`${videoId}:${runId}:${status}`)
+      return Promise.resolve(Result.ok(undefined))
+    }),
+  }
+}
+
+type FakeSender = EmailSender & { sent: EmailMessage[] }
+
+function createSender(
+  send: () => Promise<Result<void, Error>> = () =>
+    Promise.resolve(Result.ok(undefined)),
+): FakeSender {
+  const sent: EmailMessage[] = []
+  return {
+    sent,
+    send: mock((message: EmailMessage) => {
+      sent.push(message)
+      return send()
+    }),
+  }
+}
+
+function createTestHandler(sender = createSender(), ledger = createLedger()) {
+  const handler = new NotificationEventHandler({
+    logger: new PinoLoggerService({ suppressConsole: true }, context.active()),
+    emailSender: sender,
+    ledger,
+  })
+  return { handler, sender, ledger }
+}
+
+function createEvent(
+  detail: Partial<VideoNotificationMessage['detail']> = {},
+): VideoNotificationMessage {
+  return {
+    detail: {
+      videoId: 'video-123',
+      status: 'COMPLETED',
+      userEmail: 'user@example.com',
+      videoName: 'meu-video.mp4',
+      downloadUrl: 'https://cdn.example.com/frames.zip',
+      ...detail,
+    },
+  }
+}
+
+const messageContext: MessageContext = {
+  metadata: {
+    messageId: 'msg-123',
+    correlationId: 'corr-123',
+    traceId: 'trace-123',
+    spanId: 'span-123',
+    source: 'fiapx.video',
+    eventType: 'Video Status Changed',
+    version: '1.0',
+    timestamp: new Date().toISOString(),
+    retryCount: 0,
+    maxRetries: 3,
+  },
+  messageId: 'sqs-msg-123',
+}
+
+describe('NotificationEventHandler', () => {
+  describe('parse', () => {
+    it('should accept status events without correlationId', () => {
+      const { handler } = createTestHandler()
+
+      const result = handler.parse({
+        detail: { videoId: 'video-123', status: 'FAILED' },
+      })
+
+      expect(result.isSuccess).toBe(true)
+    })
+
+    it('should reject events without videoId', () => {
+      const { handler } = createTestHandler()
+
+      const result = handler.parse({ detail: { status: 'COMPLETED' } })
+
+      expect(result.isFailure).toBe(true)
+    })
+  })
+
+  describe('handle', () => {
+    it('should email the owner when the video is completed', async () => {
+      const { handler, sender } = createTestHandler()
+
+      const result = await handler.handle(createEvent(), messageContext)
+
+      expect(result.isSuccess).toBe(true)
+      expect(sender.sent).toHaveLength(1)
+      expect(sender.sent[0]?.to).toBe('user@example.com')
+      expect(sender.sent[0]?.subject).toBe('Seu vídeo está pronto!')
+      expect(sender.sent[0]?.text).toContain(
+        'https://cdn.example.com/frames.zip',
+      )
+    })
+
+    it('should email the failure reason when the video failed', async () => {
+      const { handler, sender } = createTestHandler()
+
+      await handler.handle(
+        createEvent({ status: 'FAILED', errorReason: 'upload_expired' }),
+        messageContext,
+      )
+
+      expect(sender.sent[0]?.subject).toBe('Erro ao processar seu vídeo')
+      expect(sender.sent[0]?.text).toContain('Motivo: upload_expired')
+    })
+
+    it('should ignore intermediate statuses', async () => {
+      const { handler, sender, ledger } = createTestHandler()
+
+      const result = await handler.handle(
+        createEvent({ status: 'PROCESSING' }),
+        messageContext,
+      )
+
+      expect(result.isSuccess).toBe(true)
+      expect(sender.sent).toHaveLength(0)
+      expect(ledger.claim).not.toHaveBeenCalled()
+    })
+
+    it('should skip events without userEmail', async () => {
+      const { handler, sender } = createTestHandler()
+
+      const result = await handler.handle(
+        createEvent({ userEmail: undefined }),
+        messageContext,
+      )
+
+      expect(result.isSuccess).toBe(true)
+      expect(sender.sent).toHaveLength(0)
+    })
+
+    it('should not send twice for the same video and status', async () => {
+      const { handler, sender } = createTestHandler()
+
+      await handler.handle(createEvent(), messageContext)
+      const second = await handler.handle(createEvent(), messageContext)
+      await handler.handle(createEvent({ status: 'FAILED' }), messageContext)
+
+      expect(second.isSuccess).toBe(true)
+      expect(sender.sent.map((message) => message.subject)).toEqual([
+        'Seu vídeo está pronto!',
+        'Erro ao processar seu vídeo',
+      ])
+    })
+
+    it('should notify every run of a reprocessed video', async () => {
+      const { handler, sender, ledger } = createTestHandler()
+
+      await handler.handle(createEvent(), messageContext)
+      await handler.handle(createEvent({ runId: 'run-2' }), messageContext)
+      await handler.handle(createEvent({ runId: 'run-2' }), messageContext)
+
+      expect(sender.sent).toHaveLength(2)
+      expect(ledger.claim).toHaveBeenLastCalledWith(
+        'video-123',
+        'COMPLETED',
+        'run-2',
+      )
+    })
+
+    it('should release the claim and retry when sending fails', async () => {
+      let attempts = 0
+      const sender = createSender(() => {
+        attempts += 1
+        return Promise.resolve(
+          attempts === 1
+            ? Result.fail(new Error('connection reset'))
+            : Result.ok(undefined),
+        )
+      })
+      const { handler, ledger } = createTestHandler(sender)
+
+      const first = await handler.handle(createEvent(), messageContext)
+      expect(first.isFailure).toBe(true)
+      expect(first.error).not.toBeInstanceOf(NonRetryableError)
+      expect(ledger.claimed.size).toBe(0)
+
+      const retry = await handler.handle(createEvent(), messageContext)
+      expect(retry.isSuccess).toBe(true)
+      expect(sender.sent).toHaveLength(2)
+    })
+
+    it('should pass permanent rejections through as NonRetryableError', async () => {
+      const sender = createSender(() =>
+        Promise.resolve(Result.fail(new NonRetryableError('mailbox unknown'))),
+      )
+      const { handler } = createTestHandler(sender)
+
+      const result = await handler.handle(createEvent(), messageContext)
+
+      expect(result.isFailure).toBe(true)
+      expect(result.error).toBeInstanceOf(NonRetryableError)
+    })
+
+    it('should retry when the ledger is unavailable', async () => {
+      const ledger = createLedger()
+      ledger.claim = mock(() =>
+        Promise.resolve(Result.fail<boolean, Error>(new Error('timeout'))),
+      )
+      const { handler, sender } = createTestHandler(undefined, ledger)
+
+      const result = await handler.handle(createEvent(), messageContext)
+
+      expect(result.isFailure).toBe(true)
+      expect(result.error).not.toBeInstanceOf(NonRetryableError)
+      expect(sender.sent).toHaveLength(0)
+    })
+  })
+})
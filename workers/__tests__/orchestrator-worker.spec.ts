@@ -1,4 +1,4 @@
-import { describe, expect, it, mock } from 'bun:test'
+import { describe, expect, it, mock, spyOn } from 'bun:test'
 import { context } from '@opentelemetry/api'
 import { PinoLoggerService } from '@core/libs/logging/pino-logger'
 import type { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
@@ -13,6 +13,9 @@ import type {
   VideoStatusChangedEvent,
 } from '@core/abstractions/messaging'
 import type { AbstractSQSPublisher } from '@modules/messaging/sqs'
+import type { VideoSegment } from '@modules/video-processor/domain/entities/video-segment'
+import type { VideoProbe } from '@modules/video-processor/domain/value-objects/video-metadata.vo'
+import type { VideoProber } from '@workers/abstractions'
 
 // Mock S3 presigned URL generation (requires AWS credentials unavailable in CI)
 mock.module('@workers/s3-presign.service', () => ({
@@ -25,7 +28,11 @@ import {
   VideoEventHandler,
   type OrchestratorWorkerDeps,
 } from '@workers/orchestrator-worker'
-import { calculateTimeRanges, getTotalSegments } from '@workers/time-range'
+import {
+  calculateTimeRanges,
+  getTotalSegments,
+  SegmentPlanner,
+} from '@workers/time-range'
 
 function createMockLogger(): AbstractLoggerService {
   return new PinoLoggerService({ suppressConsole: true }, context.active())
@@ -63,6 +70,79 @@ function createMockPublisher(): MockPublisher {
   > as MockPublisher
 }
 
+type MockVideoRepository = OrchestratorWorkerDeps['videoRepository'] & {
+  totalSegments: Map<string, number>
+  probes: Map<string, VideoProbe>
+}
+
+function createMockVideoRepository(): MockVideoRepository {
+  const totalSegments = new Map<string, number>()
+  const segmentDurations = new Map<string, number | undefined>()
+  const probes = new Map<string, VideoProbe>()
+  return {
+    totalSegments,
+    segmentDurations,
+    probes,
+    updateTotalSegments: mock(
+      (videoId: string, total: number, segmentDurationMs?: number) => {
+        totalSegments.set(videoId, total)
+        segmentDurations.set(videoId, segmentDurationMs)
+        return Promise.resolve(Result.ok(undefined))
+      },
+    ),
+    saveProbe: mock((videoId: string, probe: VideoProbe) => {
+      probes.set(videoId, probe)
+      return Promise.resolve(Result.ok(undefined))
+    }),
+  }
+}
+
+function createMockProber(
+  durationMs = 30000,
+  keyframeTimes: number[] = [],
+): VideoProber {
+  return {
+    probe: mock(() =>
+      Promise.resolve(
+        Result.ok({
+          durationMs,
+          container: 'mov,mp4,m4a,3gp,3g2,mj2',
+          videoCodec: 'h264',
+          audioCodec: 'aac',
+          width: 1280,
+          height: 720,
+          fps: 30,
+        }),
+      ),
+    ),
+    keyframes: mock(() => Promise.resolve(Result.ok(keyframeTimes))),
+  }
+}
+
+type MockSegmentRepository = OrchestratorWorkerDeps['segmentRepository'] & {
+  segments: VideoSegment[]
+}
+
+function createMockSegmentRepository(): MockSegmentRepository {
+  const segments: VideoSegment[] = []
+  return {
+    segments,
+    createSegments: mock((created: VideoSegment[]) => {
+      segments.push(...created)
+      return Promise.resolve(Result.ok(undefined))
+    }),
+  }
+}
+
+/** Plans segments of `segmentDurationMs` whatever the video duration */
+function createFixedPlanner(segmentDurationMs: number): SegmentPlanner {
+  return new SegmentPlanner({
+    targetSegments: 1,
+    minSegmentDurationMs: segmentDurationMs,
+    maxSegmentDurationMs: segmentDurationMs,
+  })
+}
+
 function createTestPathBuilder(): StoragePathBuilder {
   return new StoragePathBuilder({
     videoBucket: 'test-bucket',
@@ -78,9 +158,14 @@ function createTestHandler(deps: Partial<OrchestratorWorkerDeps> = {}) {
   const fullDeps: OrchestratorWorkerDeps = {
     logger,
     eventEmitter,
+    videoRepository: deps.videoRepository ?? createMockVideoRepository(),
+    segmentRepository: deps.segmentRepository ?? createMockSegmentRepository(),
     printQueuePublisher:
       (deps.printQueuePublisher as AbstractSQSPublisher<SegmentMessage>) ??
       publisher,
+    prober: deps.prober ?? createMockProber(),
+    segmentPlanner: deps.segmentPlanner ?? createFixedPlanner(10_000),
+    alignToKeyframes: deps.alignToKeyframes,
     pathBuilder: deps.pathBuilder ?? createTestPathBuilder(),
   }
 
@@ -294,6 +379,37 @@ describe('VideoEventHandler', () => {
       expect(messages[0].totalSegments).toBe(3)
     })
 
+    it('should carry the run and its profile to every segment', async () => {
+      const publisher = createMockPublisher()
+      const { handler } = createTestHandler({
+        printQueuePublisher: publisher,
+        prober: createMockProber(20000),
+      })
+      const event: VideoEvent = {
+        detail: {
+          videoId: 'video-123',
+          videoPath: 'test-bucket/video/video-123/file/video.mp4',
+          duration: 20000,
+          runId: 'run-2',
+          processingProfile: { frameInterval: 0.5, format: 'png' },
+        },
+      }
+
+      const result = await handler.handle(event, createContext('corr-123'))
+
+      expect(result.isSuccess).toBe(true)
+      expect(publisher.publishedMessages[0]).toEqual([
+        expect.objectContaining({
+          runId: 'run-2',
+          processingProfile: { frameInterval: 0.5, format: 'png' },
+        }),
+        expect.objectContaining({
+          runId: 'run-2',
+          processingProfile: { frameInterval: 0.5, format: 'png' },
+        }),
+      ])
+    })
+
     it('should emit SPLITTING on arrival and PRINTING after publishing', async () => {
       const eventEmitter = createMockEventEmitter()
       const { handler } = createTestHandler({ eventEmitter })
@@ -331,6 +447,383 @@ describe('VideoEventHandler', () => {
       })
     })
 
+    it('should slice segments from the probed duration, not the declared one', async () => {
+      const videoRepository = createMockVideoRepository()
+      const publisher = createMockPublisher()
+      const prober = createMockProber(42000)
+      const { handler } = createTestHandler({
+        videoRepository,
+        printQueuePublisher: publisher,
+        prober,
+      })
+      const event: VideoEvent = {
+        detail: {
+          videoId: 'video-123',
+          videoPath: 'test-bucket/video/video-123/file/video.mp4',
+          duration: 20000,
+        },
+      }
+
+      const result = await handler.handle(event, createContext('corr-123'))
+
+      expect(result.isSuccess).toBe(true)
+      expect(prober.probe).toHaveBeenCalledWith(
+        'https://mock-presigned-url.s3.amazonaws.com/video.mp4',
+      )
+      expect(videoRepository.probes.get('video-123')).toMatchObject({
+        durationMs: 42000,
+        videoCodec: 'h264',
+        width: 1280,
+        height: 720,
+      })
+      expect(videoRepository.totalSegments.get('video-123')).toBe(5)
+      expect(publisher.publishedMessages[0].at(-1)).toMatchObject({
+        segmentNumber: 5,
+        startTime: 40,
+        endTime: 42,
+      })
+    })
+
+    it('should snap segment boundaries to keyframes when enabled', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      const publisher = createMockPublisher()
+      const prober = createMockProber(25000, [0, 4.17, 8.34, 12.51, 20.85])
+      const { handler } = createTestHandler({
+        segmentRepository,
+        printQueuePublisher: publisher,
+        prober,
+        alignToKeyframes: true,
+      })
+      const event: VideoEvent = {
+        detail: {
+          videoId: 'video-123',
+          videoPath: 'test-bucket/video/video-123/file/video.mp4',
+          duration: 25000,
+        },
+      }
+
+      const result = await handler.handle(event, createContext('corr-123'))
+
+      expect(result.isSuccess).toBe(true)
+      expect(prober.keyframes).toHaveBeenCalledWith(
+        'https://mock-presigned-url.s3.amazonaws.com/video.mp4',
+      )
+      expect(
+        publisher.publishedMessages[0].map(({ startTime, endTime }) => [
+          startTime,
+          endTime,
+        ]),
+      ).toEqual([
+        [0, 8.34],
+        [8.34, 20.85],
+        [20.85, 25],
+      ])
+      expect(
+        segmentRepository.segments.map((segment) => segment.startTime),
+      ).toEqual([0, 8.34, 20.85])
+    })
+
+    it('should keep fixed segments when keyframes cannot be read', async () => {
+      const publisher = createMockPublisher()
+      const prober = createMockProber(25000)
+      prober.keyframes = mock(() =>
+        Promise.resolve(Result.fail(new Error('FFprobe failed'))),
+      )
+      const { handler, logger } = createTestHandler({
+        printQueuePublisher: publisher,
+        prober,
+        alignToKeyframes: true,
+      })
+      const event: VideoEvent = {
+        detail: {
+          videoId: 'video-123',
+          videoPath: 'test-bucket/video/video-123/file/video.mp4',
+          duration: 25000,
+        },
+      }
+
+      const warn = spyOn(logger, 'warn')
+
+      const result = await handler.handle(event, createContext('corr-123'))
+
+      expect(result.isSuccess).toBe(true)
+      expect(
+        publisher.publishedMessages[0].map((message) => message.startTime),
+      ).toEqual([0, 10, 20])
+      expect(warn).toHaveBeenCalledWith(
+        'video.processing.keyframes_failed',
+        expect.objectContaining({ error: 'FFprobe failed' }),
+      )
+    })
+
+    it('should not read keyframes unless enabled', async () => {
+      const prober = createMockProber()
+      const { handler } = createTestHandler({ prober })
+      const event: VideoEvent = {
+        detail: {
+          videoId: 'video-123',
+          videoPath: 'test-bucket/video/video-123/file/video.mp4',
+          duration: 30000,
+        },
+      }
+
+      await handler.handle(event, createContext('corr-123'))
+
+      expect(prober.keyframes).not.toHaveBeenCalled()
+    })
+
+    it('should emit FAILED and return NonRetryableError when the file is not a decodable video', async () => {
+      const eventEmitter = createMockEventEmitter()
+      const publisher = createMockPublisher()
+      const { handler } = createTestHandler({
+        eventEmitter,
+        printQueuePublisher: publisher,
+        prober: {
+          ...createMockProber(),
+          probe: mock(() =>
+            Promise.resolve(
+              Result.fail(
+                new NonRetryableError('Not a decodable video: no video stream'),
+              ),
+            ),
+          ),
+        },
+      })
+      const event: VideoEvent = {
+        detail: {
+          videoId: 'video-123',
+          videoPath: 'test-bucket/video/video-123/file/video.mp4',
+          duration: 30000,
+        },
+      }
+
+      const result = await handler.handle(event, createContext('corr-123'))
+
+      expect(result.isFailure).toBe(true)
+      expect(NonRetryableError.isNonRetryable(result.error)).toBe(true)
+      expect(eventEmitter.emittedEvents).toHaveLength(1)
+      expect(eventEmitter.emittedEvents[0]).toMatchObject({
+        status: 'FAILED',
+        errorReason: 'Not a decodable video: no video stream',
+      })
+      expect(publisher.publishBatch).not.toHaveBeenCalled()
+    })
+
+    it('should retry without failing the video when probing fails', async () => {
+      const eventEmitter = createMockEventEmitter()
+      const { handler } = createTestHandler({
+        eventEmitter,
+        prober: {
+          ...createMockProber(),
+          probe: mock(() =>
+            Promise.resolve(
+              Result.fail(new Error('FFprobe failed with exit code 1')),
+            ),
+          ),
+        },
+      })
+      const event: VideoEvent = {
+        detail: {
+          videoId: 'video-123',
+          videoPath: 'test-bucket/video/video-123/file/video.mp4',
+          duration: 30000,
+        },
+      }
+
+      const result = await handler.handle(event, createContext('corr-123'))
+
+      expect(result.isFailure).toBe(true)
+      expect(NonRetryableError.isNonRetryable(result.error)).toBe(false)
+      expect(eventEmitter.emittedEvents).toHaveLength(0)
+    })
+
+    it('should not split the video when the probe cannot be persisted', async () => {
+      const videoRepository = createMockVideoRepository()
+      videoRepository.saveProbe = mock(() =>
+        Promise.resolve(Result.fail(new Error('Cassandra unavailable'))),
+      )
+      const eventEmitter = createMockEventEmitter()
+      const { handler } = createTestHandler({ videoRepository, eventEmitter })
+      const event: VideoEvent = {
+        detail: {
+          videoId: 'video-123',
+          videoPath: 'test-bucket/video/video-123/file/video.mp4',
+          duration: 30000,
+        },
+      }
+
+      const result = await handler.handle(event, createContext('corr-123'))
+
+      expect(result.isFailure).toBe(true)
+      expect(NonRetryableError.isNonRetryable(result.error)).toBe(false)
+      expect(result.error.message).toContain('Failed to persist probe')
+      expect(eventEmitter.emittedEvents).toHaveLength(0)
+      expect(videoRepository.totalSegments.size).toBe(0)
+    })
+
+    it('should persist total segments before publishing', async () => {
+      const videoRepository = createMockVideoRepository()
+      const publisher = createMockPublisher()
+      const { handler } = createTestHandler({
+        videoRepository,
+        printQueuePublisher: publisher,
+      })
+      const event: VideoEvent = {
+        detail: {
+          videoId: 'video-123',
+          videoPath: 'test-bucket/video/video-123/file/video.mp4',
+          duration: 30000,
+        },
+      }
+
+      const result = await handler.handle(event, createContext('corr-123'))
+
+      expect(result.isSuccess).toBe(true)
+      expect(videoRepository.totalSegments.get('video-123')).toBe(3)
+      expect(videoRepository.segmentDurations.get('video-123')).toBe(10_000)
+    })
+
+    it('should size segments with the segment planner', async () => {
+      const videoRepository = createMockVideoRepository()
+      const publisher = createMockPublisher()
+      const { handler } = createTestHandler({
+        videoRepository,
+        printQueuePublisher: publisher,
+        prober: createMockProber(120_000),
+        segmentPlanner: new SegmentPlanner({
+          targetSegments: 4,
+          minSegmentDurationMs: 5_000,
+          maxSegmentDurationMs: 60_000,
+        }),
+      })
+      const event: VideoEvent = {
+        detail: {
+          videoId: 'video-123',
+          videoPath: 'test-bucket/video/video-123/file/video.mp4',
+          duration: 120_000,
+        },
+      }
+
+      const result = await handler.handle(event, createContext('corr-123'))
+
+      expect(result.isSuccess).toBe(true)
+      expect(videoRepository.totalSegments.get('video-123')).toBe(4)
+      expect(videoRepository.segmentDurations.get('video-123')).toBe(30_000)
+      expect(
+        publisher.publishedMessages[0].map((message) => [
+          message.startTime,
+          message.totalSegments,
+        ]),
+      ).toEqual([
+        [0, 4],
+        [30, 4],
+        [60, 4],
+        [90, 4],
+      ])
+    })
+
+    it('should not publish segments when persisting total segments fails', async () => {
+      const videoRepository = createMockVideoRepository()
+      videoRepository.updateTotalSegments = mock(() =>
+        Promise.resolve(Result.fail(new Error('Cassandra unavailable'))),
+      )
+      const publisher = createMockPublisher()
+      const { handler } = createTestHandler({
+        videoRepository,
+        printQueuePublisher: publisher,
+      })
+      const event: VideoEvent = {
+        detail: {
+          videoId: 'video-123',
+          videoPath: 'test-bucket/video/video-123/file/video.mp4',
+          duration: 30000,
+        },
+      }
+
+      const result = await handler.handle(event, createContext('corr-123'))
+
+      expect(result.isFailure).toBe(true)
+      expect(NonRetryableError.isNonRetryable(result.error)).toBe(false)
+      expect(result.error.message).toContain('Failed to persist total segments')
+      expect(publisher.publishBatch).not.toHaveBeenCalled()
+    })
+
+    it('should track every segment as PENDING before publishing', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      const { handler } = createTestHandler({
+        segmentRepository,
+        prober: createMockProber(25000),
+      })
+      const event: VideoEvent = {
+        detail: {
+          videoId: 'video-123',
+          videoPath: 'test-bucket/video/video-123/file/video.mp4',
+          duration: 25000,
+        },
+      }
+
+      const result = await handler.handle(event, createContext('corr-123'))
+
+      expect(result.isSuccess).toBe(true)
+      expect(
+        segmentRepository.segments.map((segment) => ({
+          videoId: segment.videoId,
+          segmentNumber: segment.segmentNumber,
+          startTime: segment.startTime,
+          endTime: segment.endTime,
+          status: segment.status,
+        })),
+      ).toEqual([
+        {
+          videoId: 'video-123',
+          segmentNumber: 1,
+          startTime: 0,
+          endTime: 10,
+          status: 'PENDING',
+        },
+        {
+          videoId: 'video-123',
+          segmentNumber: 2,
+          startTime: 10,
+          endTime: 20,
+          status: 'PENDING',
+        },
+        {
+          videoId: 'video-123',
+          segmentNumber: 3,
+          startTime: 20,
+          endTime: 25,
+          status: 'PENDING',
+        },
+      ])
+    })
+
+    it('should not publish segments when tracking them fails', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      segmentRepository.createSegments = mock(() =>
+        Promise.resolve(Result.fail(new Error('Cassandra unavailable'))),
+      )
+      const publisher = createMockPublisher()
+      const { handler } = createTestHandler({
+        segmentRepository,
+        printQueuePublisher: publisher,
+      })
+      const event: VideoEvent = {
+        detail: {
+          videoId: 'video-123',
+          videoPath: 'test-bucket/video/video-123/file/video.mp4',
+          duration: 30000,
+        },
+      }
+
+      const result = await handler.handle(event, createContext('corr-123'))
+
+      expect(result.isFailure).toBe(true)
+      expect(NonRetryableError.isNonRetryable(result.error)).toBe(false)
+      expect(result.error.message).toContain('Failed to persist segments')
+      expect(publisher.publishBatch).not.toHaveBeenCalled()
+    })
+
     it('should return failure when publishBatch fails', async () => {
       const publisher = createMockPublisher()
       publisher.publishBatch = mock(() =>
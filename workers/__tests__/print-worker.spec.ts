@@ -7,11 +7,25 @@ import type { MessageContext } from '@core/messaging'
 import type { SegmentMessage } from '@core/messaging/schemas'
 import { Result } from '@core/domain/result'
 import { NonRetryableError } from '@core/errors/non-retryable.error'
+import { UniqueEntityID } from '@core/domain/value-objects/unique-entity-id.vo'
+import { Video } from '@modules/video-processor/domain/entities/video'
+import { VideoSegment } from '@modules/video-processor/domain/entities/video-segment'
+import { MegabytesValueObject } from '@modules/video-processor/domain/value-objects/megabytes.vo'
+import { VideoMetadataVO } from '@modules/video-processor/domain/value-objects/video-metadata.vo'
+import {
+  VideoStatusVO,
+  type VideoStatus,
+} from '@modules/video-processor/domain/value-objects/video-status.vo'
 import type {
   EventBusEmitter,
   VideoStatusChangedEvent,
 } from '@core/abstractions/messaging'
-import type { VideoProcessorService } from '@workers/abstractions'
+import type {
+  ExtractedFrame,
+  FramesArchiver,
+  FramesManifestStore,
+  VideoProcessorService,
+} from '@workers/abstractions'
 import {
   SegmentEventHandler,
   type PrintWorkerDeps,
@@ -27,22 +41,51 @@ type SegmentEventHandlerTestable = SegmentEventHandler & {
     videoId: string,
     segmentNumber: number,
     totalSegments: number,
-    correlationId: string,
-  ): boolean
+  ): Promise<Result<boolean, Error>>
 }
 
 function createMockLogger(): AbstractLoggerService {
   return new PinoLoggerService({ suppressConsole: true }, context.active())
 }
 
+const EXTRACTED_FRAMES: ExtractedFrame[] = Array.from(
+  { length: 10 },
+  (_, i) => ({
+    file: `frame_${String(i + 1).padStart(4, '0')}.jpg`,
+    timestampMs: i * 1000,
+    size: 2048,
+    width: 640,
+    height: 360,
+    sha256: 'a'.repeat(64),
+  }),
+)
+
 function createMockProcessor(): VideoProcessorService {
   return {
     setup: mock(() => Promise.resolve()),
     cleanup: mock(() => Promise.resolve()),
     extractFramesFromUrl: mock(() =>
-      Promise.resolve(Result.ok({ outputDir: '/tmp/frames', count: 10 })),
+      Promise.resolve(
+        Result.ok({
+          outputDir: '/tmp/frames',
+          count: 10,
+          frames: EXTRACTED_FRAMES,
+        }),
+      ),
+    ),
+    uploadDir: mock((_localDir: string, _bucket: string, prefix: string) =>
+      Promise.resolve(
+        Result.ok(
+          EXTRACTED_FRAMES.map((frame) => ({
+            file: frame.file,
+            key: `${prefix}/${frame.file}`,
+            size: frame.size,
+            contentType: 'image/jpeg',
+            sha256: frame.sha256,
+          })),
+        ),
+      ),
     ),
-    uploadDir: mock(() => Promise.resolve(Result.ok(undefined))),
   }
 }
 
@@ -59,6 +102,111 @@ function createMockEventEmitter(): EventBusEmitter & {
   }
 }
 
+/** The video row the worker reads: PRINTING, in `runId` when reprocessed */
+function createStoredVideo(
+  options: { runId?: string; status?: VideoStatus } = {},
+): Video {
+  return Video.createFromDatabase({
+    id: UniqueEntityID.create('video-123'),
+    userId: UniqueEntityID.create(),
+    metadata: VideoMetadataVO.create({
+      totalSize: MegabytesValueObject.create(50).value,
+      durationMs: 60000,
+      filename: 'test-video',
+      extension: 'mp4',
+    }),
+    status: VideoStatusVO.create(options.status ?? 'PRINTING'),
+    parts: [],
+    currentRun: options.runId
+      ? { runId: options.runId, startedAt: new Date() }
+      : undefined,
+  })
+}
+
+/**
+ * Simulates the processed_segments counter. `alreadyProcessed` is the count
+ * persisted by other workers before this handler runs.
+ */
+function createMockVideoRepository(
+  alreadyProcessed = 0,
+  video: Video = createStoredVideo(),
+): PrintWorkerDeps['videoRepository'] {
+  let processed = alreadyProcessed
+  const counted = new Set<number>()
+  return {
+    findById: mock(() => Promise.resolve(Result.ok(video))),
+    incrementProcessedSegments: mock(
+      (_videoId: string, segmentNumber: number) => {
+        if (counted.has(segmentNumber)) {
+          return Promise.resolve(
+            Result.ok({ processedSegments: processed, counted: false }),
+          )
+        }
+        counted.add(segmentNumber)
+        processed += 1
+        return Promise.resolve(
+          Result.ok({ processedSegments: processed, counted: true }),
+        )
+      },
+    ),
+  }
+}
+
+type MockSegmentRepository = PrintWorkerDeps['segmentRepository'] & {
+  /** Status of the segment after each write */
+  writes: string[]
+  stored: Map<number, VideoSegment>
+}
+
+function createMockSegmentRepository(): MockSegmentRepository {
+  const writes: string[] = []
+  const stored = new Map<number, VideoSegment>()
+  return {
+    writes,
+    stored,
+    findSegment: mock((_videoId: string, segmentNumber: number) =>
+      Promise.resolve(Result.ok(stored.get(segmentNumber) ?? null)),
+    ),
+    updateSegment: mock((segment: VideoSegment) => {
+      writes.push(segment.status)
+      stored.set(segment.segmentNumber, segment)
+      return Promise.resolve(Result.ok(undefined))
+    }),
+  }
+}
+
+const ARCHIVE_URL =
+  'http://localhost:4566/test-bucket/video/video-123/archive/frames.zip?X-Amz-Signature=abc'
+
+function createMockFramesArchiver(): FramesArchiver {
+  return {
+    archive: mock((videoId: string) =>
+      Promise.resolve(
+        Result.ok({
+          bucket: 'test-bucket',
+          key: `video/${videoId}/archive/frames.zip`,
+          frameCount: 100,
+          downloadUrl: ARCHIVE_URL,
+        }),
+      ),
+    ),
+  }
+}
+
+function createMockFramesManifest(): FramesManifestStore {
+  return {
+    saveSegment: mock(() => Promise.resolve(Result.ok(undefined))),
+    merge: mock((videoId: string) =>
+      Promise.resolve(
+        Result.ok({
+          key: `video/${videoId}/prints/manifest.json`,
+          frameCount: 100,
+        }),
+      ),
+    ),
+  }
+}
+
 function createTestPathBuilder(): StoragePathBuilder {
   return new StoragePathBuilder({
     videoBucket: 'test-bucket',
@@ -74,10 +222,13 @@ function createTestHandler(deps: Partial<PrintWorkerDeps> = {}) {
   const fullDeps: PrintWorkerDeps = {
     logger,
     eventEmitter,
+    videoRepository: deps.videoRepository ?? createMockVideoRepository(),
+    segmentRepository: deps.segmentRepository ?? createMockSegmentRepository(),
     processorFactory: deps.processorFactory ?? (() => processor),
+    framesArchiver: deps.framesArchiver ?? createMockFramesArchiver(),
+    framesManifest: deps.framesManifest ?? createMockFramesManifest(),
     pathBuilder: deps.pathBuilder ?? createTestPathBuilder(),
     outputBucket: deps.outputBucket ?? 'test-bucket',
-    frameInterval: deps.frameInterval ?? 1,
   }
 
   const handler = new SegmentEventHandler(fullDeps)
@@ -195,46 +346,78 @@ describe('SegmentEventHandler', () => {
   })
 
   describe('checkAndUpdateProgress', () => {
-    it('should return true when segment is the last one', () => {
-      const { handler } = createTestHandler()
+    it('should return true when the increment reaches totalSegments', async () => {
+      const { handler } = createTestHandler({
+        videoRepository: createMockVideoRepository(9),
+      })
       const testable = handler as SegmentEventHandlerTestable
 
-      const result = testable.checkAndUpdateProgress(
-        'video-123',
-        10,
-        10,
-        'corr-123',
-      )
+      const result = await testable.checkAndUpdateProgress('video-123', 4, 10)
 
-      expect(result).toBe(true)
+      expect(result.isSuccess).toBe(true)
+      expect(result.value).toBe(true)
     })
 
-    it('should return false when segment is not the last one', () => {
-      const { handler } = createTestHandler()
+    it('should return false for the last segment number when others are pending', async () => {
+      const { handler } = createTestHandler({
+        videoRepository: createMockVideoRepository(5),
+      })
       const testable = handler as SegmentEventHandlerTestable
 
-      const result = testable.checkAndUpdateProgress(
-        'video-123',
-        5,
-        10,
-        'corr-123',
-      )
+      const result = await testable.checkAndUpdateProgress('video-123', 10, 10)
+
+      expect(result.isSuccess).toBe(true)
+      expect(result.value).toBe(false)
+    })
+
+    it('should not count again a segment already counted', async () => {
+      const { handler } = createTestHandler({
+        videoRepository: createMockVideoRepository(8),
+      })
+      const testable = handler as SegmentEventHandlerTestable
+
+      await testable.checkAndUpdateProgress('video-123', 4, 10)
+      const result = await testable.checkAndUpdateProgress('video-123', 4, 10)
+
+      expect(result.isSuccess).toBe(true)
+      expect(result.value).toBe(false)
+    })
+
+    it('should report the video done again for a counted segment, so packaging resumes', async () => {
+      const { handler } = createTestHandler({
+        videoRepository: createMockVideoRepository(9),
+      })
+      const testable = handler as SegmentEventHandlerTestable
+
+      await testable.checkAndUpdateProgress('video-123', 4, 10)
+      const result = await testable.checkAndUpdateProgress('video-123', 4, 10)
 
-      expect(result).toBe(false)
+      expect(result.value).toBe(true)
     })
 
-    it('should return true for single segment video', () => {
+    it('should return true for single segment video', async () => {
       const { handler } = createTestHandler()
       const testable = handler as SegmentEventHandlerTestable
 
-      const result = testable.checkAndUpdateProgress(
-        'video-123',
-        1,
-        1,
-        'corr-123',
-      )
+      const result = await testable.checkAndUpdateProgress('video-123', 1, 1)
 
-      expect(result).toBe(true)
+      expect(result.value).toBe(true)
+    })
+
+    it('should return failure when the increment fails', async () => {
+      const { handler } = createTestHandler({
+        videoRepository: {
+          findById: mock(() => Promise.resolve(Result.ok(createStoredVideo()))),
+          incrementProcessedSegments: mock(() =>
+            Promise.resolve(Result.fail(new Error('Cassandra timeout'))),
+          ),
+        },
+      })
+      const testable = handler as SegmentEventHandlerTestable
+
+      const result = await testable.checkAndUpdateProgress('video-123', 1, 10)
+
+      expect(result.isFailure).toBe(true)
     })
   })
 
@@ -262,15 +445,19 @@ describe('SegmentEventHandler', () => {
         'https://s3.amazonaws.com/bucket/video.mp4',
         0,
         10,
-        1,
+        { frameInterval: 1, format: 'jpg' },
+        { bucket: 'test-bucket', prefix: 'video/video-123/prints/segment_001' },
       )
       expect(processor.uploadDir).toHaveBeenCalled()
       expect(processor.cleanup).toHaveBeenCalled()
     })
 
-    it('should emit COMPLETED event when last segment is processed', async () => {
+    it('should emit COMPLETED event when the final segment is counted', async () => {
       const eventEmitter = createMockEventEmitter()
-      const { handler } = createTestHandler({ eventEmitter })
+      const { handler } = createTestHandler({
+        eventEmitter,
+        videoRepository: createMockVideoRepository(9),
+      })
 
       const message: SegmentMessage = {
         videoId: 'video-123',
@@ -296,6 +483,394 @@ describe('SegmentEventHandler', () => {
       })
     })
 
+    it('should tag the status event with the run of the segment', async () => {
+      const eventEmitter = createMockEventEmitter()
+      const { handler } = createTestHandler({
+        videoRepository: createMockVideoRepository(
+          0,
+          createStoredVideo({ runId: 'run-2' }),
+        ),
+        eventEmitter,
+      })
+
+      await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 1,
+          totalSegments: 1,
+          startTime: 0,
+          endTime: 10,
+          runId: 'run-2',
+        },
+        createContext('corr-123'),
+      )
+
+      expect(eventEmitter.emittedEvents[0]).toMatchObject({
+        status: 'COMPLETED',
+        runId: 'run-2',
+      })
+    })
+
+    it('should tag FAILED with the run when packaging a reprocess run fails', async () => {
+      const eventEmitter = createMockEventEmitter()
+      const { handler } = createTestHandler({
+        videoRepository: createMockVideoRepository(
+          0,
+          createStoredVideo({ runId: 'run-2' }),
+        ),
+        eventEmitter,
+        framesArchiver: {
+          archive: mock(() =>
+            Promise.resolve(
+              Result.fail(new NonRetryableError('Prints prefix not found')),
+            ),
+          ),
+        },
+      })
+
+      const result = await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 1,
+          totalSegments: 1,
+          startTime: 0,
+          endTime: 10,
+          runId: 'run-2',
+        },
+        createContext('corr-123'),
+      )
+
+      expect(result.isFailure).toBe(true)
+      expect(eventEmitter.emittedEvents).toEqual([
+        expect.objectContaining({ status: 'FAILED', runId: 'run-2' }),
+      ])
+    })
+
+    it.each([
+      ['a message of an earlier run', 'run-1', 'run-2'],
+      ['a message of the first run after a reprocess', undefined, 'run-2'],
+    ])('should drop %s without processing or counting it', async (_, messageRunId, currentRunId) => {
+      const eventEmitter = createMockEventEmitter()
+      const processor = createMockProcessor()
+      const segmentRepository = createMockSegmentRepository()
+      const videoRepository = createMockVideoRepository(
+        9,
+        createStoredVideo({ runId: currentRunId }),
+      )
+      const { handler } = createTestHandler({
+        eventEmitter,
+        segmentRepository,
+        videoRepository,
+        processorFactory: () => processor,
+      })
+
+      const result = await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 10,
+          totalSegments: 10,
+          startTime: 90,
+          endTime: 100,
+          runId: messageRunId,
+        },
+        createContext('corr-123'),
+      )
+
+      expect(result.isSuccess).toBe(true)
+      expect(processor.extractFramesFromUrl).not.toHaveBeenCalled()
+      expect(videoRepository.incrementProcessedSegments).not.toHaveBeenCalled()
+      expect(segmentRepository.writes).toEqual([])
+      expect(eventEmitter.emittedEvents).toHaveLength(0)
+    })
+
+    it('should fail without retry when the video does not exist', async () => {
+      const { handler } = createTestHandler({
+        videoRepository: {
+          findById: mock(() => Promise.resolve(Result.ok(null))),
+          incrementProcessedSegments: mock(),
+        },
+      })
+
+      const result = await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 1,
+          totalSegments: 1,
+          startTime: 0,
+          endTime: 10,
+        },
+        createContext('corr-123'),
+      )
+
+      expect(NonRetryableError.isNonRetryable(result.error)).toBe(true)
+    })
+
+    it('should package the frames and expose the archive URL on COMPLETED', async () => {
+      const eventEmitter = createMockEventEmitter()
+      const framesArchiver = createMockFramesArchiver()
+      const { handler } = createTestHandler({
+        eventEmitter,
+        framesArchiver,
+        videoRepository: createMockVideoRepository(9),
+      })
+
+      const result = await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 10,
+          totalSegments: 10,
+          startTime: 90,
+          endTime: 100,
+        },
+        createContext('corr-123'),
+      )
+
+      expect(result.isSuccess).toBe(true)
+      expect(framesArchiver.archive).toHaveBeenCalledWith(
+        'video-123',
+        undefined,
+      )
+      expect(eventEmitter.emittedEvents[0]).toMatchObject({
+        status: 'COMPLETED',
+        downloadUrl: ARCHIVE_URL,
+      })
+    })
+
+    it('should not package frames before the final segment is counted', async () => {
+      const framesArchiver = createMockFramesArchiver()
+      const { handler } = createTestHandler({ framesArchiver })
+
+      await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 5,
+          totalSegments: 10,
+          startTime: 40,
+          endTime: 50,
+        },
+        createContext('corr-123'),
+      )
+
+      expect(framesArchiver.archive).not.toHaveBeenCalled()
+    })
+
+    it('should return a retryable failure without FAILED when packaging fails transiently', async () => {
+      const eventEmitter = createMockEventEmitter()
+      const processor = createMockProcessor()
+      const { handler } = createTestHandler({
+        eventEmitter,
+        processorFactory: () => processor,
+        videoRepository: createMockVideoRepository(0),
+        framesArchiver: {
+          archive: mock(() =>
+            Promise.resolve(Result.fail(new Error('Upload timed out'))),
+          ),
+        },
+      })
+
+      const result = await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 1,
+          totalSegments: 1,
+          startTime: 0,
+          endTime: 10,
+        },
+        createContext('corr-123'),
+      )
+
+      expect(result.isFailure).toBe(true)
+      expect(NonRetryableError.isNonRetryable(result.error)).toBe(false)
+      expect(result.error.message).toBe(
+        'Failed to package frames: Upload timed out',
+      )
+      expect(eventEmitter.emittedEvents).toHaveLength(0)
+      expect(processor.cleanup).toHaveBeenCalled()
+    })
+
+    it('should emit FAILED and return NonRetryableError when packaging fails for good', async () => {
+      const eventEmitter = createMockEventEmitter()
+      const { handler } = createTestHandler({
+        eventEmitter,
+        framesArchiver: {
+          archive: mock(() =>
+            Promise.resolve(
+              Result.fail(new NonRetryableError('Zip exceeds the size limit')),
+            ),
+          ),
+        },
+      })
+
+      const result = await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 1,
+          totalSegments: 1,
+          startTime: 0,
+          endTime: 10,
+        },
+        createContext('corr-123'),
+      )
+
+      expect(NonRetryableError.isNonRetryable(result.error)).toBe(true)
+      expect(eventEmitter.emittedEvents).toEqual([
+        expect.objectContaining({
+          status: 'FAILED',
+          errorReason: 'Failed to package frames: Zip exceeds the size limit',
+        }),
+      ])
+    })
+
+    it('should save the manifest of the segment frames', async () => {
+      const framesManifest = createMockFramesManifest()
+      const { handler } = createTestHandler({
+        videoRepository: createMockVideoRepository(
+          0,
+          createStoredVideo({ runId: 'run-2' }),
+        ),
+        framesManifest,
+      })
+
+      await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 3,
+          totalSegments: 10,
+          startTime: 20,
+          endTime: 30,
+          runId: 'run-2',
+        },
+        createContext('corr-123'),
+      )
+
+      const [manifest] = (framesManifest.saveSegment as ReturnType<typeof mock>)
+        .mock.calls[0]
+      expect(manifest).toMatchObject({
+        videoId: 'video-123',
+        runId: 'run-2',
+        segmentNumber: 3,
+        startTime: 20,
+        endTime: 30,
+      })
+      expect(manifest.frames).toHaveLength(10)
+      expect(manifest.frames[1]).toEqual({
+        path: 'segment_003/frame_0002.jpg',
+        segmentNumber: 3,
+        frameNumber: 2,
+        timestampMs: 1000,
+        size: 2048,
+        width: 640,
+        height: 360,
+        sha256: 'a'.repeat(64),
+      })
+      expect(framesManifest.merge).not.toHaveBeenCalled()
+    })
+
+    it('should merge the frames manifest when the final segment is counted', async () => {
+      const framesManifest = createMockFramesManifest()
+      const { handler } = createTestHandler({
+        framesManifest,
+        videoRepository: createMockVideoRepository(
+          9,
+          createStoredVideo({ runId: 'run-2' }),
+        ),
+      })
+
+      const result = await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 10,
+          totalSegments: 10,
+          startTime: 90,
+          endTime: 100,
+          runId: 'run-2',
+        },
+        createContext('corr-123'),
+      )
+
+      expect(result.isSuccess).toBe(true)
+      expect(framesManifest.merge).toHaveBeenCalledWith('video-123', 'run-2')
+    })
+
+    it('should return retryable failure without counting the segment when its manifest cannot be saved', async () => {
+      const eventEmitter = createMockEventEmitter()
+      const videoRepository = createMockVideoRepository(0)
+      const { handler } = createTestHandler({
+        eventEmitter,
+        videoRepository,
+        framesManifest: {
+          ...createMockFramesManifest(),
+          saveSegment: mock(() =>
+            Promise.resolve(Result.fail(new Error('Connection reset'))),
+          ),
+        },
+      })
+
+      const result = await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 1,
+          totalSegments: 1,
+          startTime: 0,
+          endTime: 10,
+        },
+        createContext('corr-123'),
+      )
+
+      expect(result.isFailure).toBe(true)
+      expect(NonRetryableError.isNonRetryable(result.error)).toBe(false)
+      expect(videoRepository.incrementProcessedSegments).not.toHaveBeenCalled()
+      expect(eventEmitter.emittedEvents).toHaveLength(0)
+    })
+
+    it('should emit FAILED and not package the frames when a segment manifest is missing', async () => {
+      const eventEmitter = createMockEventEmitter()
+      const framesArchiver = createMockFramesArchiver()
+      const { handler } = createTestHandler({
+        eventEmitter,
+        framesArchiver,
+        framesManifest: {
+          ...createMockFramesManifest(),
+          merge: mock(() =>
+            Promise.resolve(
+              Result.fail(new Error('Segment manifest not found')),
+            ),
+          ),
+        },
+      })
+
+      const result = await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 1,
+          totalSegments: 1,
+          startTime: 0,
+          endTime: 10,
+        },
+        createContext('corr-123'),
+      )
+
+      expect(NonRetryableError.isNonRetryable(result.error)).toBe(true)
+      expect(framesArchiver.archive).not.toHaveBeenCalled()
+      expect(eventEmitter.emittedEvents[0]).toMatchObject({
+        status: 'FAILED',
+        errorReason:
+          'Failed to merge frames manifest: Segment manifest not found',
+      })
+    })
+
     it('should NOT emit event for non-last segments', async () => {
       const eventEmitter = createMockEventEmitter()
       const { handler } = createTestHandler({ eventEmitter })
@@ -315,6 +890,69 @@ describe('SegmentEventHandler', () => {
       expect(eventEmitter.emittedEvents).toHaveLength(0)
     })
 
+    it('should emit COMPLETED once when segments finish out of order', async () => {
+      const eventEmitter = createMockEventEmitter()
+      const { handler } = createTestHandler({ eventEmitter })
+      const baseMessage = {
+        videoId: 'video-123',
+        presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+        totalSegments: 3,
+      }
+
+      for (const segmentNumber of [3, 1, 2]) {
+        const result = await handler.handle(
+          {
+            ...baseMessage,
+            segmentNumber,
+            startTime: (segmentNumber - 1) * 10,
+            endTime: segmentNumber * 10,
+          },
+          createContext('corr-123'),
+        )
+        expect(result.isSuccess).toBe(true)
+
+        // Last segment number finished first: the video is not done yet
+        if (segmentNumber === 3) {
+          expect(eventEmitter.emittedEvents).toHaveLength(0)
+        }
+      }
+
+      expect(eventEmitter.emittedEvents).toHaveLength(1)
+      expect(eventEmitter.emittedEvents[0].status).toBe('COMPLETED')
+    })
+
+    it('should return retryable failure when progress cannot be persisted', async () => {
+      const eventEmitter = createMockEventEmitter()
+      const processor = createMockProcessor()
+      const { handler } = createTestHandler({
+        eventEmitter,
+        processorFactory: () => processor,
+        videoRepository: {
+          findById: mock(() => Promise.resolve(Result.ok(createStoredVideo()))),
+          incrementProcessedSegments: mock(() =>
+            Promise.resolve(Result.fail(new Error('Cassandra timeout'))),
+          ),
+        },
+      })
+
+      const result = await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 1,
+          totalSegments: 1,
+          startTime: 0,
+          endTime: 10,
+        },
+        createContext('corr-123'),
+      )
+
+      expect(result.isFailure).toBe(true)
+      expect(NonRetryableError.isNonRetryable(result.error)).toBe(false)
+      expect(eventEmitter.emittedEvents).toHaveLength(0)
+      expect(processor.cleanup).toHaveBeenCalled()
+    })
+
     it('should cleanup and return failure when extractFramesFromUrl fails', async () => {
       const processor = createMockProcessor()
       processor.extractFramesFromUrl = mock(() =>
@@ -408,7 +1046,10 @@ describe('SegmentEventHandler', () => {
 
     it('should use SQS messageId as correlationId when metadata is null', async () => {
       const eventEmitter = createMockEventEmitter()
-      const { handler } = createTestHandler({ eventEmitter })
+      const { handler } = createTestHandler({
+        eventEmitter,
+        videoRepository: createMockVideoRepository(9),
+      })
 
       const message: SegmentMessage = {
         videoId: 'video-123',
@@ -474,6 +1115,91 @@ describe('SegmentEventHandler', () => {
       )
     })
 
+    it('should write the frames of a reprocess run under its prefix', async () => {
+      const processor = createMockProcessor()
+      const framesArchiver = createMockFramesArchiver()
+      const { handler } = createTestHandler({
+        processorFactory: () => processor,
+        framesArchiver,
+        videoRepository: createMockVideoRepository(
+          9,
+          createStoredVideo({ runId: 'run-2' }),
+        ),
+      })
+
+      await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 10,
+          totalSegments: 10,
+          startTime: 90,
+          endTime: 100,
+          runId: 'run-2',
+          processingProfile: { frameInterval: 0.5, format: 'jpg' },
+        },
+        createContext('corr-123'),
+      )
+
+      expect(processor.extractFramesFromUrl).toHaveBeenCalledWith(
+        'https://s3.amazonaws.com/bucket/video.mp4',
+        90,
+        100,
+        { frameInterval: 0.5, format: 'jpg' },
+        {
+          bucket: 'test-bucket',
+          prefix: 'video/video-123/runs/run-2/prints/segment_010',
+        },
+      )
+      expect(processor.uploadDir).toHaveBeenCalledWith(
+        '/tmp/frames',
+        'test-bucket',
+        'video/video-123/runs/run-2/prints/segment_010',
+        'frame_*.jpg',
+      )
+      expect(framesArchiver.archive).toHaveBeenCalledWith('video-123', 'run-2')
+    })
+
+    it('should extract and upload frames in the format of the profile', async () => {
+      const processor = createMockProcessor()
+      const { handler } = createTestHandler({
+        processorFactory: () => processor,
+      })
+      const processingProfile = {
+        fps: 2,
+        format: 'webp' as const,
+        maxWidth: 640,
+        quality: 80,
+      }
+
+      await handler.handle(
+        {
+          videoId: 'video-123',
+          presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+          segmentNumber: 1,
+          totalSegments: 10,
+          startTime: 0,
+          endTime: 10,
+          processingProfile,
+        },
+        createContext('corr-123'),
+      )
+
+      expect(processor.extractFramesFromUrl).toHaveBeenCalledWith(
+        'https://s3.amazonaws.com/bucket/video.mp4',
+        0,
+        10,
+        processingProfile,
+        { bucket: 'test-bucket', prefix: 'video/video-123/prints/segment_001' },
+      )
+      expect(processor.uploadDir).toHaveBeenCalledWith(
+        '/tmp/frames',
+        'test-bucket',
+        'video/video-123/prints/segment_001',
+        'frame_*.webp',
+      )
+    })
+
     it('should cleanup and return failure when uploadDir fails', async () => {
       const processor = createMockProcessor()
       processor.uploadDir = mock(() =>
@@ -499,4 +1225,270 @@ describe('SegmentEventHandler', () => {
       expect(processor.cleanup).toHaveBeenCalled()
     })
   })
+  describe('segment tracking', () => {
+    const message: SegmentMessage = {
+      videoId: 'video-123',
+      presignedUrl: 'https://s3.amazonaws.com/bucket/video.mp4',
+      segmentNumber: 2,
+      totalSegments: 10,
+      startTime: 10,
+      endTime: 20,
+    }
+
+    it('should mark the segment PROCESSING, then COMPLETED with its frame count', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      const { handler } = createTestHandler({ segmentRepository })
+
+      const result = await handler.handle(message, createContext('corr-123'))
+
+      expect(result.isSuccess).toBe(true)
+      expect(segmentRepository.writes).toEqual(['PROCESSING', 'COMPLETED'])
+      const segment = segmentRepository.stored.get(2)
+      expect(segment?.attempts).toBe(1)
+      expect(segment?.frameCount).toBe(10)
+      expect(segment?.startTime).toBe(10)
+      expect(segment?.endTime).toBe(20)
+    })
+
+    it('should count and list only the frames the uploader stored', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      const framesManifest = createMockFramesManifest()
+      const processor = createMockProcessor()
+      processor.uploadDir = mock(() =>
+        Promise.resolve(
+          Result.ok(
+            EXTRACTED_FRAMES.slice(0, 9).map((frame) => ({
+              file: frame.file,
+              key: `video/video-123/prints/segment_002/${frame.file}`,
+              size: frame.size,
+              contentType: 'image/jpeg',
+              sha256: frame.sha256,
+            })),
+          ),
+        ),
+      )
+      const { handler } = createTestHandler({
+        segmentRepository,
+        framesManifest,
+        processorFactory: () => processor,
+      })
+
+      await handler.handle(message, createContext('corr-123'))
+
+      expect(segmentRepository.stored.get(2)?.frameCount).toBe(9)
+      const [manifest] = (framesManifest.saveSegment as ReturnType<typeof mock>)
+        .mock.calls[0]
+      expect(manifest.frames).toHaveLength(9)
+    })
+
+    it('should count the attempts of a tracked segment', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      const tracked = VideoSegment.create({
+        videoId: 'video-123',
+        segmentNumber: 2,
+        startTime: 10,
+        endTime: 20,
+      })
+      tracked.startProcessing()
+      tracked.markFailed('NoSuchKey')
+      tracked.retry()
+      segmentRepository.stored.set(2, tracked)
+      const { handler } = createTestHandler({ segmentRepository })
+
+      await handler.handle(message, createContext('corr-123'))
+
+      expect(segmentRepository.stored.get(2)?.attempts).toBe(2)
+      expect(segmentRepository.stored.get(2)?.status).toBe('COMPLETED')
+    })
+
+    function givenCompletedSegment(
+      segmentRepository: MockSegmentRepository,
+    ): void {
+      const completed = VideoSegment.create({
+        videoId: 'video-123',
+        segmentNumber: 2,
+        startTime: 10,
+        endTime: 20,
+      })
+      completed.startProcessing()
+      completed.markCompleted(10)
+      segmentRepository.stored.set(2, completed)
+    }
+
+    it('should skip a redelivered segment that already completed', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      givenCompletedSegment(segmentRepository)
+      const processor = createMockProcessor()
+      const eventEmitter = createMockEventEmitter()
+      const videoRepository = createMockVideoRepository()
+      await videoRepository.incrementProcessedSegments('video-123', 2)
+      const { handler } = createTestHandler({
+        segmentRepository,
+        videoRepository,
+        eventEmitter,
+        processorFactory: () => processor,
+      })
+
+      const result = await handler.handle(message, createContext('corr-123'))
+
+      expect(result.isSuccess).toBe(true)
+      expect(processor.extractFramesFromUrl).not.toHaveBeenCalled()
+      expect(segmentRepository.writes).toEqual([])
+      expect(eventEmitter.emittedEvents).toHaveLength(0)
+    })
+
+    it('should package the video when the redelivered segment was the last one counted', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      givenCompletedSegment(segmentRepository)
+      const processor = createMockProcessor()
+      const eventEmitter = createMockEventEmitter()
+      const framesArchiver = createMockFramesArchiver()
+      // The delivery that counted it died before packaging
+      const videoRepository = createMockVideoRepository(9)
+      await videoRepository.incrementProcessedSegments('video-123', 2)
+      const { handler } = createTestHandler({
+        segmentRepository,
+        videoRepository,
+        eventEmitter,
+        framesArchiver,
+        processorFactory: () => processor,
+      })
+
+      const result = await handler.handle(message, createContext('corr-123'))
+
+      expect(result.isSuccess).toBe(true)
+      expect(processor.extractFramesFromUrl).not.toHaveBeenCalled()
+      expect(framesArchiver.archive).toHaveBeenCalled()
+      expect(eventEmitter.emittedEvents).toEqual([
+        expect.objectContaining({ status: 'COMPLETED' }),
+      ])
+    })
+
+    it('should mark the segment FAILED on non-retryable errors', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      const processor = createMockProcessor()
+      processor.extractFramesFromUrl = mock(() =>
+        Promise.resolve(
+          Result.fail(new Error('NoSuchKey: The specified key does not exist')),
+        ),
+      )
+      const { handler } = createTestHandler({
+        segmentRepository,
+        processorFactory: () => processor,
+      })
+
+      await handler.handle(message, createContext('corr-123'))
+
+      expect(segmentRepository.writes).toEqual(['PROCESSING', 'FAILED'])
+      expect(segmentRepository.stored.get(2)?.lastError).toBe(
+        'NoSuchKey: The specified key does not exist',
+      )
+    })
+
+    it('should put the segment back to PENDING on retryable errors', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      const processor = createMockProcessor()
+      processor.extractFramesFromUrl = mock(() =>
+        Promise.resolve(Result.fail(new Error('Connection timeout'))),
+      )
+      const { handler } = createTestHandler({
+        segmentRepository,
+        processorFactory: () => processor,
+      })
+
+      await handler.handle(message, createContext('corr-123'))
+
+      expect(segmentRepository.writes).toEqual(['PROCESSING', 'PENDING'])
+      expect(segmentRepository.stored.get(2)?.lastError).toBe(
+        'Connection timeout',
+      )
+    })
+
+    it('should not package a COMPLETED video again for a redelivered segment', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      givenCompletedSegment(segmentRepository)
+      const eventEmitter = createMockEventEmitter()
+      const framesArchiver = createMockFramesArchiver()
+      const videoRepository = createMockVideoRepository(
+        9,
+        createStoredVideo({ status: 'COMPLETED' }),
+      )
+      await videoRepository.incrementProcessedSegments('video-123', 2)
+      const { handler } = createTestHandler({
+        segmentRepository,
+        videoRepository,
+        eventEmitter,
+        framesArchiver,
+      })
+
+      const result = await handler.handle(message, createContext('corr-123'))
+
+      expect(result.isSuccess).toBe(true)
+      expect(framesArchiver.archive).not.toHaveBeenCalled()
+      expect(eventEmitter.emittedEvents).toHaveLength(0)
+    })
+
+    it('should keep the segment COMPLETED when packaging fails', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      const { handler } = createTestHandler({
+        segmentRepository,
+        videoRepository: createMockVideoRepository(9),
+        framesArchiver: {
+          archive: mock(() =>
+            Promise.resolve(Result.fail(new Error('Upload timed out'))),
+          ),
+        },
+      })
+
+      const result = await handler.handle(message, createContext('corr-123'))
+
+      expect(NonRetryableError.isNonRetryable(result.error)).toBe(false)
+      expect(segmentRepository.writes).toEqual(['PROCESSING', 'COMPLETED'])
+    })
+
+    it('should package the video on the retry of a transient packaging failure', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      const eventEmitter = createMockEventEmitter()
+      const archive = mock(createMockFramesArchiver().archive)
+      archive.mockResolvedValueOnce(
+        Result.fail(new Error('Service Unavailable')),
+      )
+      const { handler } = createTestHandler({
+        segmentRepository,
+        eventEmitter,
+        videoRepository: createMockVideoRepository(9),
+        framesArchiver: { archive },
+      })
+
+      const first = await handler.handle(message, createContext('corr-123'))
+      const retried = await handler.handle(message, createContext('corr-123'))
+
+      expect(first.isFailure).toBe(true)
+      expect(retried.isSuccess).toBe(true)
+      expect(archive).toHaveBeenCalledTimes(2)
+      expect(eventEmitter.emittedEvents).toEqual([
+        expect.objectContaining({ status: 'COMPLETED' }),
+      ])
+    })
+
+    it('should process the segment when tracking is unavailable', async () => {
+      const segmentRepository = createMockSegmentRepository()
+      segmentRepository.findSegment = mock(() =>
+        Promise.resolve(Result.fail(new Error('Cassandra unavailable'))),
+      )
+      segmentRepository.updateSegment = mock(() =>
+        Promise.resolve(Result.fail(new Error('Cassandra unavailable'))),
+      )
+      const processor = createMockProcessor()
+      const { handler } = createTestHandler({
+        segmentRepository,
+        processorFactory: () => processor,
+      })
+
+      const result = await handler.handle(message, createContext('corr-123'))
+
+      expect(result.isSuccess).toBe(true)
+      expect(processor.uploadDir).toHaveBeenCalled()
+    })
+  })
 })
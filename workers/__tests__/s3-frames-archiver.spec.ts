@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { mockClient } from 'aws-sdk-client-mock'
+import {
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  type GetObjectCommandOutput,
+} from '@aws-sdk/client-s3'
+import { unzipSync } from 'fflate'
+import { StoragePathBuilder } from '@modules/video-processor/infra/services/storage'
+import { S3FramesArchiver } from '@workers/adapters/s3-frames-archiver'
+
+const s3Mock = mockClient(S3Client)
+
+function objectBody(content: string): GetObjectCommandOutput['Body'] {
+  const bytes = new TextEncoder().encode(content)
+  return {
+    transformToWebStream: () => new Response(bytes).body,
+  } as unknown as GetObjectCommandOutput['Body']
+}
+
+function createArchiver(publicEndpoint?: string) {
+  return new S3FramesArchiver(
+    new S3Client({
+      region: 'us-east-1',
+      endpoint: 'http://localstack:4566',
+      forcePathStyle: true,
+      credentials: { accessKeyId: 'test', secretAccessKey: 'test' },
+    }),
+    {
+      outputBucket: 'frames-bucket',
+      pathBuilder: new StoragePathBuilder({
+        videoBucket: 'test-bucket',
+        region: 'us-east-1',
+      }),
+      urlExpiresIn: 3600,
+      publicEndpoint,
+      internalEndpoint: 'http://localstack:4566',
+    },
+  )
+}
+
+describe('S3FramesArchiver', () => {
+  beforeEach(() => {
+    s3Mock.reset()
+  })
+
+  function mockFrames(keys: string[]) {
+    s3Mock.on(ListObjectsV2Command).resolves({
+      Contents: keys.map((Key) => ({ Key })),
+    })
+    for (const key of keys) {
+      s3Mock
+        .on(GetObjectCommand, { Key: key })
+        .resolves({ Body: objectBody(`content of ${key}`) })
+    }
+    s3Mock.on(PutObjectCommand).resolves({})
+  }
+
+  async function uploadedZip(): Promise<Record<string, string>> {
+    const [call] = s3Mock.commandCalls(PutObjectCommand)
+    const body = call.args[0].input.Body as Uint8Array
+    const entries = unzipSync(new Uint8Array(body))
+    return Object.fromEntries(
+      Object.entries(entries).map(([name, data]) => [
+        name,
+        new TextDecoder().decode(data),
+      ]),
+    )
+  }
+
+  it('should zip every frame of every segment', async () => {
+    const prefix = 'video/video-1/prints/'
+    mockFrames([
+      `${prefix}segment_002/frame_0001.jpg`,
+      `${prefix}segment_001/frame_0001.jpg`,
+      `${prefix}segment_001/frame_0002.jpg`,
+    ])
+
+    const result = await createArchiver().archive('video-1')
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.frameCount).toBe(3)
+    expect(await uploadedZip()).toEqual({
+      'segment_001/frame_0001.jpg': `content of ${prefix}segment_001/frame_0001.jpg`,
+      'segment_001/frame_0002.jpg': `content of ${prefix}segment_001/frame_0002.jpg`,
+      'segment_002/frame_0001.jpg': `content of ${prefix}segment_002/frame_0001.jpg`,
+    })
+  })
+
+  it('should zip scene frames and other formats under their own names', async () => {
+    const prefix = 'video/video-1/prints/'
+    mockFrames([
+      `${prefix}segment_001/frame_0001_1480ms.webp`,
+      `${prefix}segment_001/frame_0002.png`,
+    ])
+
+    const result = await createArchiver().archive('video-1')
+
+    expect(result.value.frameCount).toBe(2)
+    expect(Object.keys(await uploadedZip())).toEqual([
+      'segment_001/frame_0001_1480ms.webp',
+      'segment_001/frame_0002.png',
+    ])
+  })
+
+  it('should upload the zip under the archive context', async () => {
+    mockFrames(['video/video-1/prints/segment_001/frame_0001.jpg'])
+
+    const result = await createArchiver().archive('video-1')
+
+    const [call] = s3Mock.commandCalls(PutObjectCommand)
+    expect(call.args[0].input).toMatchObject({
+      Bucket: 'frames-bucket',
+      Key: 'video/video-1/archive/frames.zip',
+      ContentType: 'application/zip',
+    })
+    expect(result.value).toMatchObject({
+      bucket: 'frames-bucket',
+      key: 'video/video-1/archive/frames.zip',
+    })
+  })
+
+  it('should ignore objects that are not frames', async () => {
+    mockFrames([
+      'video/video-1/prints/segment_001/frame_0001.jpg',
+      'video/video-1/prints/segment_001/ffmpeg.log',
+    ])
+
+    const result = await createArchiver().archive('video-1')
+
+    expect(result.value.frameCount).toBe(1)
+    expect(s3Mock.commandCalls(GetObjectCommand)).toHaveLength(1)
+  })
+
+  it('should return a presigned URL on the public endpoint', async () => {
+    mockFrames(['video/video-1/prints/segment_001/frame_0001.jpg'])
+
+    const result = await createArchiver('http://localhost:4566').archive(
+      'video-1',
+    )
+
+    const url = new URL(result.value.downloadUrl)
+    expect(url.origin).toBe('http://localhost:4566')
+    expect(url.pathname).toBe('/frames-bucket/video/video-1/archive/frames.zip')
+    expect(url.searchParams.get('X-Amz-Expires')).toBe('3600')
+  })
+
+  it('should fail when the video has no frames', async () => {
+    mockFrames([])
+
+    const result = await createArchiver().archive('video-1')
+
+    expect(result.isFailure).toBe(true)
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0)
+  })
+
+  it('should fail when a frame cannot be read', async () => {
+    mockFrames(['video/video-1/prints/segment_001/frame_0001.jpg'])
+    s3Mock.on(GetObjectCommand).rejects(new Error('Access Denied'))
+
+    const result = await createArchiver().archive('video-1')
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toContain('Access Denied')
+  })
+})
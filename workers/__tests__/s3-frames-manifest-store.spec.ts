@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach } from 'bun:test'
+import { mockClient } from 'aws-sdk-client-mock'
+import {
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  type GetObjectCommandOutput,
+} from '@aws-sdk/client-s3'
+import { StoragePathBuilder } from '@modules/video-processor/infra/services/storage'
+import type {
+  FrameManifestEntry,
+  SegmentFramesManifest,
+} from '@workers/abstractions'
+import { S3FramesManifestStore } from '@workers/adapters/s3-frames-manifest-store'
+
+const s3Mock = mockClient(S3Client)
+
+function objectBody(content: string): GetObjectCommandOutput['Body'] {
+  const bytes = new TextEncoder().encode(content)
+  return {
+    transformToWebStream: () => new Response(bytes).body,
+  } as unknown as GetObjectCommandOutput['Body']
+}
+
+function createStore() {
+  return new S3FramesManifestStore(
+    new S3Client({
+      region: 'us-east-1',
+      endpoint: 'http://localstack:4566',
+      forcePathStyle: true,
+      credentials: { accessKeyId: 'test', secretAccessKey: 'test' },
+    }),
+    {
+      outputBucket: 'frames-bucket',
+      pathBuilder: new StoragePathBuilder({
+        videoBucket: 'test-bucket',
+        region: 'us-east-1',
+      }),
+    },
+  )
+}
+
+function frame(segmentNumber: number, frameNumber: number): FrameManifestEntry {
+  const segmentDir = `segment_${String(segmentNumber).padStart(3, '0')}`
+  return {
+    path: `${segmentDir}/frame_${String(frameNumber).padStart(4, '0')}.jpg`,
+    segmentNumber,
+    frameNumber,
+    timestampMs: ((segmentNumber - 1) * 10 + frameNumber - 1) * 1000,
+    size: 1024,
+    width: 640,
+    height: 360,
+    sha256: 'b'.repeat(64),
+  }
+}
+
+function segmentManifest(
+  segmentNumber: number,
+  frameCount: number,
+): SegmentFramesManifest {
+  return {
+    videoId: 'video-1',
+    segmentNumber,
+    startTime: (segmentNumber - 1) * 10,
+    endTime: segmentNumber * 10,
+    frames: Array.from({ length: frameCount }, (_, i) =>
+      frame(segmentNumber, i + 1),
+    ),
+  }
+}
+
+describe('S3FramesManifestStore', () => {
+  beforeEach(() => {
+    s3Mock.reset()
+  })
+
+  function mockSegmentManifests(
+    prefix: string,
+    manifests: SegmentFramesManifest[],
+  ) {
+    const keys = manifests.map(
+      (manifest) =>
+        `${prefix}segment_${String(manifest.segmentNumber).padStart(3, '0')}/manifest.json`,
+    )
+    s3Mock.on(ListObjectsV2Command).resolves({
+      Contents: [
+        ...keys,
+        `${prefix}segment_001/frame_0001.jpg`,
+        `${prefix}manifest.json`,
+      ].map((Key) => ({ Key })),
+    })
+    manifests.forEach((manifest, i) => {
+      s3Mock
+        .on(GetObjectCommand, { Key: keys[i] })
+        .resolves({ Body: objectBody(JSON.stringify(manifest)) })
+    })
+    s3Mock.on(PutObjectCommand).resolves({})
+  }
+
+  function uploadedJson(): Record<string, unknown> {
+    const [call] = s3Mock.commandCalls(PutObjectCommand)
+    return JSON.parse(call.args[0].input.Body as string)
+  }
+
+  describe('saveSegment', () => {
+    it('should write the manifest next to the segment frames', async () => {
+      s3Mock.on(PutObjectCommand).resolves({})
+      const manifest = { ...segmentManifest(2, 1), runId: 'run-2' }
+
+      const result = await createStore().saveSegment(manifest)
+
+      expect(result.isSuccess).toBe(true)
+      const [call] = s3Mock.commandCalls(PutObjectCommand)
+      expect(call.args[0].input).toMatchObject({
+        Bucket: 'frames-bucket',
+        Key: 'video/video-1/runs/run-2/prints/segment_002/manifest.json',
+        ContentType: 'application/json',
+      })
+      expect(uploadedJson()).toEqual(manifest)
+    })
+
+    it('should return failure when the upload fails', async () => {
+      s3Mock.on(PutObjectCommand).rejects(new Error('Access Denied'))
+
+      const result = await createStore().saveSegment(segmentManifest(1, 1))
+
+      expect(result.isFailure).toBe(true)
+      expect(result.error.message).toBe('Access Denied')
+    })
+  })
+
+  describe('merge', () => {
+    it('should merge the segment manifests in segment order', async () => {
+      mockSegmentManifests('video/video-1/prints/', [
+        segmentManifest(2, 1),
+        segmentManifest(1, 2),
+      ])
+
+      const result = await createStore().merge('video-1')
+
+      expect(result.isSuccess).toBe(true)
+      expect(result.value).toEqual({
+        key: 'video/video-1/prints/manifest.json',
+        frameCount: 3,
+      })
+      expect(s3Mock.commandCalls(GetObjectCommand)).toHaveLength(2)
+      expect(uploadedJson()).toMatchObject({
+        videoId: 'video-1',
+        segmentCount: 2,
+        frameCount: 3,
+        frames: [frame(1, 1), frame(1, 2), frame(2, 1)],
+      })
+      expect(uploadedJson().generatedAt).toBeString()
+    })
+
+    it('should merge the manifests of a reprocess run under its prefix', async () => {
+      const prefix = 'video/video-1/runs/run-2/prints/'
+      mockSegmentManifests(prefix, [segmentManifest(1, 1)])
+
+      const result = await createStore().merge('video-1', 'run-2')
+
+      expect(result.value.key).toBe(`${prefix}manifest.json`)
+      const [list] = s3Mock.commandCalls(ListObjectsV2Command)
+      expect(list.args[0].input).toMatchObject({
+        Bucket: 'frames-bucket',
+        Prefix: prefix,
+      })
+      expect(uploadedJson()).toMatchObject({ runId: 'run-2' })
+    })
+
+    it('should fail when no segment manifest was written', async () => {
+      s3Mock.on(ListObjectsV2Command).resolves({ Contents: [] })
+
+      const result = await createStore().merge('video-1')
+
+      expect(result.isFailure).toBe(true)
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0)
+    })
+  })
+})
@@ -0,0 +1,151 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test'
+import { mockClient } from 'aws-sdk-client-mock'
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3'
+import {
+  FramesUploadError,
+  S3FramesUploader,
+} from '@workers/adapters/s3-frames-uploader'
+
+const s3Mock = mockClient(S3Client)
+
+function createUploader(concurrency = 2) {
+  return new S3FramesUploader(
+    new S3Client({
+      region: 'us-east-1',
+      endpoint: 'http://localstack:4566',
+      forcePathStyle: true,
+      credentials: { accessKeyId: 'test', secretAccessKey: 'test' },
+    }),
+    { concurrency, maxAttempts: 3, retryDelayMs: 0 },
+  )
+}
+
+function sha256(content: string, encoding: 'hex' | 'base64') {
+  return new Bun.CryptoHasher('sha256').update(content).digest(encoding)
+}
+
+describe('S3FramesUploader', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    s3Mock.reset()
+    dir = await mkdtemp(join(tmpdir(), 'frames-'))
+    await writeFile(join(dir, 'frame_0001.jpg'), 'first')
+    await writeFile(join(dir, 'frame_0002.jpg'), 'second')
+    await writeFile(join(dir, 'frame_0003.jpg'), 'third')
+    await writeFile(join(dir, 'manifest.json'), '{}')
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should upload the matching files with content type and checksum', async () => {
+    s3Mock.on(PutObjectCommand).resolves({})
+
+    const result = await createUploader().uploadDir(
+      dir,
+      'frames-bucket',
+      'video/video-1/prints/segment_001',
+      'frame_*.jpg',
+    )
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value.map((object) => object.key)).toEqual([
+      'video/video-1/prints/segment_001/frame_0001.jpg',
+      'video/video-1/prints/segment_001/frame_0002.jpg',
+      'video/video-1/prints/segment_001/frame_0003.jpg',
+    ])
+    expect(result.value[0]).toEqual({
+      file: 'frame_0001.jpg',
+      key: 'video/video-1/prints/segment_001/frame_0001.jpg',
+      size: 5,
+      contentType: 'image/jpeg',
+      sha256: sha256('first', 'hex'),
+    })
+
+    const calls = s3Mock.commandCalls(PutObjectCommand)
+    expect(calls).toHaveLength(3)
+    const first = calls.find((call) =>
+      call.args[0].input.Key?.endsWith('frame_0001.jpg'),
+    )
+    expect(first?.args[0].input).toMatchObject({
+      Bucket: 'frames-bucket',
+      ContentType: 'image/jpeg',
+      ChecksumSHA256: sha256('first', 'base64'),
+    })
+  })
+
+  it('should retry a file whose upload failed', async () => {
+    s3Mock
+      .on(PutObjectCommand)
+      .rejectsOnce(new Error('socket hang up'))
+      .resolves({})
+
+    const result = await createUploader(1).uploadDir(
+      dir,
+      'frames-bucket',
+      'prefix',
+      'frame_*.jpg',
+    )
+
+    expect(result.isSuccess).toBe(true)
+    expect(result.value).toHaveLength(3)
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(4)
+  })
+
+  it('should report every file that could not be uploaded', async () => {
+    s3Mock.on(PutObjectCommand).resolves({})
+    s3Mock
+      .on(PutObjectCommand, { Key: 'prefix/frame_0002.jpg' })
+      .rejects(new Error('Access Denied'))
+
+    const result = await createUploader().uploadDir(
+      dir,
+      'frames-bucket',
+      'prefix/',
+      'frame_*.jpg',
+    )
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(FramesUploadError)
+    expect((result.error as FramesUploadError).failures).toEqual([
+      { file: 'frame_0002.jpg', error: expect.any(Error) },
+    ])
+    expect(result.error.message).toBe(
+      'S3 upload failed for 1 of 3 files: frame_0002.jpg (Access Denied)',
+    )
+    expect(
+      s3Mock
+        .commandCalls(PutObjectCommand)
+        .filter((call) => call.args[0].input.Key === 'prefix/frame_0002.jpg'),
+    ).toHaveLength(3)
+  })
+
+  it('should return no objects when no file matches', async () => {
+    const result = await createUploader().uploadDir(
+      dir,
+      'frames-bucket',
+      'prefix',
+      'frame_*.png',
+    )
+
+    expect(result.value).toEqual([])
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0)
+  })
+
+  it('should fail when the directory does not exist', async () => {
+    const result = await createUploader().uploadDir(
+      '/non/existent/dir',
+      'frames-bucket',
+      'prefix',
+      '*.jpg',
+    )
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toContain('S3 upload failed')
+  })
+})
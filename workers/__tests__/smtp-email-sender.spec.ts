@@ -0,0 +1,211 @@
+import { afterEach, describe, expect, it } from 'bun:test'
+import { createServer, type AddressInfo, type Server } from 'node:net'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import { SmtpEmailSender } from '@workers/adapters'
+import type { EmailMessage } from '@workers/abstractions'
+
+type FakeSmtpServer = {
+  port: number
+  commands: string[]
+  messages: string[]
+  close: () => Promise<void>
+}
+
+/**
+ * Minimal SMTP server: answers every command with success unless the verb
+ * (EHLO, MAIL, RCPT...) has an override, and records what it received.
+ */
+async function startFakeSmtpServer(
+  overrides: Record<string, string> = {},
+  options: { greet?: boolean } = {},
+): Promise<FakeSmtpServer> {
+  const commands: string[] = []
+  const messages: string[] = []
+
+  const server: Server = createServer((socket) => {
+    socket.setEncoding('utf8')
+    const reply = (line: string) => socket.write(`${line}\r\n`)
+    let buffer = ''
+    let data: string | null = null
+
+    if (options.greet !== false) reply('220 fake.smtp ESMTP')
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk
+
+      let newline = buffer.indexOf('\r\n')
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline)
+        buffer = buffer.slice(newline + 2)
+        newline = buffer.indexOf('\r\n')
+
+        if (data !== null) {
+          if (line === '.') {
+            messages.push(data)
+            data = null
+            reply('250 2.0.0 queued')
+          } else {
+            data += `${line}\r\n`
+          }
+          continue
+        }
+
+        commands.push(line)
+        const verb = line.split(/[ :]/)[0]?.toUpperCase() ?? ''
+        const override = overrides[verb]
+        if (override) {
+          reply(override)
+          continue
+        }
+
+        switch (verb) {
+          case 'EHLO':
+            reply('250-fake.smtp')
+            reply('250 AUTH PLAIN')
+            break
+          case 'AUTH':
+            reply('235 2.7.0 authenticated')
+            break
+          case 'DATA':
+            data = ''
+            reply('354 end with <CRLF>.<CRLF>')
+            break
+          case 'QUIT':
+            reply('221 bye')
+            socket.end()
+            break
+          default:
+            reply('250 ok')
+        }
+      }
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+  return {
+    port: (server.address() as AddressInfo).port,
+    commands,
+    messages,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  }
+}
+
+const message: EmailMessage = {
+  to: 'user@example.com',
+  subject: 'Seu vídeo está pronto!',
+  html: '<p>Pronto</p>',
+  text: 'Pronto',
+}
+
+describe('SmtpEmailSender', () => {
+  let server: FakeSmtpServer | undefined
+
+  afterEach(async () => {
+    await server?.close()
+    server = undefined
+  })
+
+  it('should deliver the message through the SMTP dialogue', async () => {
+    server = await startFakeSmtpServer()
+    const sender = new SmtpEmailSender({
+      host: '127.0.0.1',
+      port: server.port,
+      from: 'FIAP X <noreply@fiapx.local>',
+      user: 'fiapx',
+      password: 'secret',
+    })
+
+    const result = await sender.send(message)
+
+    expect(result.isSuccess).toBe(true)
+    expect(server.commands).toEqual([
+      'EHLO localhost',
+      `AUTH PLAIN ${Buffer.from('\0fiapx\0secret').toString('base64')}`,
+      'MAIL FROM:<noreply@fiapx.local>',
+      'RCPT TO:<user@example.com>',
+      'DATA',
+      'QUIT',
+    ])
+    expect(server.messages).toHaveLength(1)
+    expect(server.messages[0]).toContain('To: user@example.com')
+    expect(server.messages[0]).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`,
+    )
+  })
+
+  it('should skip AUTH when no user is configured', async () => {
+    server = await startFakeSmtpServer()
+    const sender = new SmtpEmailSender({
+      host: '127.0.0.1',
+      port: server.port,
+      from: 'noreply@fiapx.local',
+    })
+
+    await sender.send(message)
+
+    expect(server.commands.some((line) => line.startsWith('AUTH'))).toBe(false)
+  })
+
+  it('should fail with NonRetryableError on a permanent rejection', async () => {
+    server = await startFakeSmtpServer({ RCPT: '550 5.1.1 no such user' })
+    const sender = new SmtpEmailSender({
+      host: '127.0.0.1',
+      port: server.port,
+      from: 'noreply@fiapx.local',
+    })
+
+    const result = await sender.send(message)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).toBeInstanceOf(NonRetryableError)
+    expect(result.error.message).toContain('550 5.1.1 no such user')
+  })
+
+  it('should fail with a retryable error on a transient rejection', async () => {
+    server = await startFakeSmtpServer({ MAIL: '451 4.3.0 try again later' })
+    const sender = new SmtpEmailSender({
+      host: '127.0.0.1',
+      port: server.port,
+      from: 'noreply@fiapx.local',
+    })
+
+    const result = await sender.send(message)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).not.toBeInstanceOf(NonRetryableError)
+  })
+
+  it('should fail when the server does not answer in time', async () => {
+    server = await startFakeSmtpServer({}, { greet: false })
+    const sender = new SmtpEmailSender({
+      host: '127.0.0.1',
+      port: server.port,
+      from: 'noreply@fiapx.local',
+      timeoutMs: 50,
+    })
+
+    const result = await sender.send(message)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error.message).toContain('did not answer in 50ms')
+  })
+
+  it('should fail when the server is unreachable', async () => {
+    server = await startFakeSmtpServer()
+    const port = server.port
+    await server.close()
+    server = undefined
+
+    const sender = new SmtpEmailSender({
+      host: '127.0.0.1',
+      port,
+      from: 'noreply@fiapx.local',
+    })
+
+    const result = await sender.send(message)
+
+    expect(result.isFailure).toBe(true)
+    expect(result.error).not.toBeInstanceOf(NonRetryableError)
+  })
+})
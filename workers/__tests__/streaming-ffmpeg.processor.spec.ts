@@ -0,0 +1,215 @@
+import { existsSync } from 'node:fs'
+import { join } from 'node:path'
+import { afterEach, describe, expect, it, mock, spyOn } from 'bun:test'
+import { Result } from '@core/domain/result'
+import type { FramesUploader, UploadedObject } from '@workers/abstractions'
+import { StreamingFFmpegProcessor } from '@workers/processors/streaming-ffmpeg.processor'
+
+const fixturePath = join(import.meta.dir, 'fixtures', 'fake-video.mp4')
+const hasVideoFixture = existsSync(fixturePath)
+
+const hasFFmpeg = (() => {
+  try {
+    const proc = Bun.spawnSync(['which', 'ffmpeg'])
+    return proc.exitCode === 0
+  } catch {
+    return false
+  }
+})()
+
+const DESTINATION = {
+  bucket: 'frames-bucket',
+  prefix: 'video/video-1/prints/segment_001',
+}
+
+function createMockUploader() {
+  return {
+    uploadDir: mock(() => Promise.resolve(Result.ok([]))),
+    uploadObject: mock(
+      (body: Uint8Array, _bucket: string, key: string, contentType: string) =>
+        Promise.resolve(
+          Result.ok<UploadedObject>({
+            file: key.split('/').at(-1) ?? key,
+            key,
+            size: body.byteLength,
+            contentType,
+            sha256: new Bun.CryptoHasher('sha256').update(body).digest('hex'),
+          }),
+        ),
+    ),
+  } satisfies FramesUploader
+}
+
+/** Stands in for FFmpeg: one tiny JPEG and one showinfo line per second */
+function fakeFFmpeg(frames: number) {
+  const jpeg = new Uint8Array([0xff, 0xd8, 0xff, 0xd9])
+  const stdout = new Uint8Array(jpeg.length * frames)
+  for (let i = 0; i < frames; i++) stdout.set(jpeg, i * jpeg.length)
+  const stderr = Array.from(
+    { length: frames },
+    (_, i) =>
+      `[Parsed_showinfo_1 @ 0x1] n:${i} pts:${i} pts_time:${i} s:640x360\n`,
+  ).join('')
+
+  return {
+    stdout: new Response(stdout).body,
+    stderr: new Response(stderr).body,
+    exited: Promise.resolve(0),
+    exitCode: 0,
+    kill: mock(() => {}),
+  } as unknown as ReturnType<typeof Bun.spawn>
+}
+
+describe('StreamingFFmpegProcessor', () => {
+  afterEach(() => {
+    mock.restore()
+  })
+
+  describe('supports', () => {
+    it.each([
+      [{ frameInterval: 1, format: 'jpg' as const }, true],
+      [{ fps: 4, format: 'jpg' as const }, true],
+      [{ mode: 'scene' as const, format: 'jpg' as const }, false],
+      [{ frameInterval: 1, format: 'png' as const }, false],
+    ])('should tell whether %o can be streamed', (profile, expected) => {
+      expect(StreamingFFmpegProcessor.supports(profile)).toBe(expected)
+    })
+  })
+
+  describe('extractFramesFromUrl', () => {
+    it('should refuse the profiles it cannot stream', async () => {
+      const uploader = createMockUploader()
+      const processor = new StreamingFFmpegProcessor(uploader)
+
+      const result = await processor.extractFramesFromUrl(
+        fixturePath,
+        0,
+        10,
+        { mode: 'scene', format: 'jpg' },
+        DESTINATION,
+      )
+
+      expect(result.isFailure).toBe(true)
+      expect(uploader.uploadObject).not.toHaveBeenCalled()
+    })
+
+    it('should return no frames when no grid point falls in the segment', async () => {
+      const processor = new StreamingFFmpegProcessor(createMockUploader())
+
+      const result = await processor.extractFramesFromUrl(
+        '/non/existent/file.mp4',
+        10.2,
+        11.8,
+        { frameInterval: 2, format: 'jpg' },
+        DESTINATION,
+      )
+
+      expect(result.value).toEqual({
+        outputDir: 's3://frames-bucket/video/video-1/prints/segment_001',
+        count: 0,
+        frames: [],
+      })
+    })
+
+    it('should read past the segment and drop the frames beyond it', async () => {
+      const spawn = spyOn(Bun, 'spawn').mockReturnValue(fakeFFmpeg(6))
+      const uploader = createMockUploader()
+      const processor = new StreamingFFmpegProcessor(uploader, 2)
+
+      const result = await processor.extractFramesFromUrl(
+        'https://bucket/video.mp4',
+        3.5,
+        8.2,
+        { frameInterval: 1, format: 'jpg' },
+        DESTINATION,
+      )
+
+      const args = spawn.mock.calls[0][0] as string[]
+      expect(args.slice(1, 5)).toEqual(['-ss', '4', '-to', '9.2'])
+      expect(result.value.frames.map((frame) => frame.timestampMs)).toEqual([
+        4000, 5000, 6000, 7000, 8000,
+      ])
+      expect(result.value.frames[0]).toMatchObject({
+        file: 'frame_0001.jpg',
+        width: 640,
+        height: 360,
+      })
+      expect(uploader.uploadObject).toHaveBeenCalledTimes(5)
+      expect((await processor.uploadDir()).value).toHaveLength(5)
+    })
+
+    it.skipIf(!hasVideoFixture || !hasFFmpeg)(
+      'should extract contiguous frames from segments with unaligned boundaries',
+      async () => {
+        const processor = new StreamingFFmpegProcessor(createMockUploader())
+        const timestamps: number[] = []
+        for (const [start, end] of [
+          [0, 0.7],
+          [0.7, 1.6],
+          [1.6, 3],
+        ]) {
+          const result = await processor.extractFramesFromUrl(
+            fixturePath,
+            start,
+            end,
+            { frameInterval: 0.5, format: 'jpg' },
+            DESTINATION,
+          )
+          expect(result.isSuccess).toBe(true)
+          timestamps.push(...result.value.frames.map((f) => f.timestampMs))
+        }
+
+        expect(timestamps).toEqual([0, 500, 1000, 1500, 2000, 2500])
+      },
+    )
+
+    it.skipIf(!hasVideoFixture || !hasFFmpeg)(
+      'should upload every frame as it is produced',
+      async () => {
+        const uploader = createMockUploader()
+        const processor = new StreamingFFmpegProcessor(uploader, 2)
+
+        const result = await processor.extractFramesFromUrl(
+          fixturePath,
+          0,
+          3,
+          { frameInterval: 1, format: 'jpg' },
+          DESTINATION,
+        )
+
+        expect(result.isSuccess).toBe(true)
+        expect(result.value.count).toBeGreaterThanOrEqual(3)
+        expect(result.value.frames[1]).toMatchObject({
+          file: 'frame_0002.jpg',
+          timestampMs: 1000,
+        })
+        expect(uploader.uploadObject).toHaveBeenCalledTimes(result.value.count)
+        expect((await processor.uploadDir()).value).toHaveLength(
+          result.value.count,
+        )
+      },
+    )
+
+    it.skipIf(!hasVideoFixture || !hasFFmpeg)(
+      'should stop at the first frame that cannot be uploaded',
+      async () => {
+        const uploader = createMockUploader()
+        uploader.uploadObject.mockImplementation(() =>
+          Promise.resolve(Result.fail(new Error('Access Denied'))),
+        )
+        const processor = new StreamingFFmpegProcessor(uploader)
+
+        const result = await processor.extractFramesFromUrl(
+          fixturePath,
+          0,
+          3,
+          { frameInterval: 1, format: 'jpg' },
+          DESTINATION,
+        )
+
+        expect(result.isFailure).toBe(true)
+        expect(result.error.message).toContain('S3 upload failed')
+      },
+    )
+  })
+})
@@ -1,5 +1,11 @@
 import { describe, expect, it } from 'bun:test'
-import { calculateTimeRanges, getTotalSegments } from '@workers/time-range'
+import {
+  alignToKeyframes,
+  calculateTimeRanges,
+  DEFAULT_SEGMENT_PLANNER_CONFIG,
+  getTotalSegments,
+  SegmentPlanner,
+} from '@workers/time-range'
 
 /**
  * Time range tests use milliseconds for input (duration, segmentDuration)
@@ -108,3 +114,115 @@ describe('getTotalSegments', () => {
     expect(getTotalSegments(120000, 10000)).toBe(12)
   })
 })
+
+describe('SegmentPlanner', () => {
+  const planner = new SegmentPlanner({
+    targetSegments: 10,
+    minSegmentDurationMs: 5_000,
+    maxSegmentDurationMs: 60_000,
+  })
+
+  it.each([
+    ['short clip', 15_000, 5_000, 3],
+    ['two minute video', 120_000, 12_000, 10],
+    ['odd duration', 95_500, 10_000, 10],
+    ['three hour video', 10_800_000, 60_000, 180],
+  ])('should plan a %s', (_, durationMs, segmentDurationMs, totalSegments) => {
+    const plan = planner.plan(durationMs)
+
+    expect(plan.segmentDurationMs).toBe(segmentDurationMs)
+    expect(plan.totalSegments).toBe(totalSegments)
+    expect(plan.ranges).toHaveLength(totalSegments)
+    expect(plan.ranges.at(-1)?.endTime).toBe(durationMs / 1000)
+  })
+
+  it('should plan nothing for an empty video', () => {
+    expect(planner.plan(0)).toMatchObject({ totalSegments: 0, ranges: [] })
+  })
+
+  it('should reject a minimum above the maximum', () => {
+    expect(
+      () =>
+        new SegmentPlanner({
+          targetSegments: 10,
+          minSegmentDurationMs: 30_000,
+          maxSegmentDurationMs: 10_000,
+        }),
+    ).toThrow()
+  })
+
+  describe('fromEnv', () => {
+    it('should read the bounds from the environment', () => {
+      const plan = SegmentPlanner.fromEnv({
+        SEGMENT_TARGET_COUNT: '4',
+        SEGMENT_MIN_DURATION_MS: '1000',
+        SEGMENT_MAX_DURATION_MS: '10000',
+      }).plan(20_000)
+
+      expect(plan.segmentDurationMs).toBe(5_000)
+    })
+
+    it('should fall back to the defaults', () => {
+      const plan = SegmentPlanner.fromEnv({
+        SEGMENT_TARGET_COUNT: 'many',
+      }).plan(10_800_000)
+
+      expect(plan.segmentDurationMs).toBe(
+        DEFAULT_SEGMENT_PLANNER_CONFIG.maxSegmentDurationMs,
+      )
+    })
+  })
+})
+
+describe('alignToKeyframes', () => {
+  const keyframes = [0, 4.17, 8.34, 12.51, 16.68, 20.85, 25.02]
+
+  it('should move every boundary to the nearest keyframe', () => {
+    const ranges = alignToKeyframes(calculateTimeRanges(30000), keyframes)
+
+    expect(ranges).toEqual([
+      { segmentNumber: 1, startTime: 0, endTime: 8.34 },
+      { segmentNumber: 2, startTime: 8.34, endTime: 20.85 },
+      { segmentNumber: 3, startTime: 20.85, endTime: 30 },
+    ])
+  })
+
+  it('should keep a boundary without a keyframe close enough', () => {
+    const ranges = alignToKeyframes(calculateTimeRanges(30000), [0, 9.9, 28])
+
+    expect(ranges.map((range) => range.endTime)).toEqual([9.9, 20, 30])
+  })
+
+  it('should honor the maximum shift', () => {
+    const ranges = alignToKeyframes(calculateTimeRanges(30000), keyframes, 1)
+
+    expect(ranges.map((range) => range.endTime)).toEqual([10, 20.85, 30])
+  })
+
+  it('should never move a boundary onto the start or end of the video', () => {
+    const ranges = alignToKeyframes(calculateTimeRanges(12000), [0, 12])
+
+    expect(ranges).toEqual(calculateTimeRanges(12000))
+  })
+
+  it('should keep the ranges contiguous and cover the whole video', () => {
+    const ranges = alignToKeyframes(
+      calculateTimeRanges(95000),
+      [0, 2, 9.5, 10.2, 10.4, 21, 33, 47, 52, 61, 70, 79.9, 88],
+    )
+
+    expect(ranges).toHaveLength(10)
+    expect(ranges[0].startTime).toBe(0)
+    expect(ranges[9].endTime).toBe(95)
+    for (let i = 1; i < ranges.length; i++) {
+      expect(ranges[i].startTime).toBe(ranges[i - 1].endTime)
+      expect(ranges[i].endTime).toBeGreaterThan(ranges[i].startTime)
+    }
+  })
+
+  it('should return the ranges as they are without keyframes', () => {
+    const ranges = calculateTimeRanges(30000)
+
+    expect(alignToKeyframes(ranges, [])).toBe(ranges)
+  })
+})
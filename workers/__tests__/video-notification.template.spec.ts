@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'bun:test'
+import { renderVideoNotification } from '@workers/templates/video-notification.template'
+
+describe('renderVideoNotification', () => {
+  it('should link the download when the video is completed', () => {
+    const email = renderVideoNotification({
+      status: 'COMPLETED',
+      email: 'user@example.com',
+      videoName: 'ferias.mp4',
+      downloadUrl: 'https://cdn.example.com/frames.zip?a=1&b=2',
+    })
+
+    expect(email.subject).toBe('Seu vídeo está pronto!')
+    expect(email.html).toContain('<strong>ferias.mp4</strong>')
+    expect(email.html).toContain(
+      'href="https://cdn.example.com/frames.zip?a=1&amp;b=2"',
+    )
+    expect(email.text).toContain(
+      'Download: https://cdn.example.com/frames.zip?a=1&b=2',
+    )
+  })
+
+  it('should include the reason when the video failed', () => {
+    const email = renderVideoNotification({
+      status: 'FAILED',
+      email: 'user@example.com',
+      videoName: 'ferias.mp4',
+      errorReason: 'upload_expired',
+    })
+
+    expect(email.subject).toBe('Erro ao processar seu vídeo')
+    expect(email.html).toContain('Motivo: upload_expired')
+    expect(email.text).toBe(
+      'Olá user@example.com, houve um erro ao processar ferias.mp4. Motivo: upload_expired',
+    )
+  })
+
+  it('should escape HTML in user provided values', () => {
+    const email = renderVideoNotification({
+      status: 'FAILED',
+      email: 'user@example.com',
+      videoName: '<script>alert(1)</script>.mp4',
+    })
+
+    expect(email.html).not.toContain('<script>')
+    expect(email.html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;.mp4')
+    expect(email.html).toContain('Motivo: erro desconhecido')
+  })
+})
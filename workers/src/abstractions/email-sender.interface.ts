@@ -0,0 +1,16 @@
+import { Result } from '@core/domain/result'
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface EmailSender {
+  /**
+   * Fails with NonRetryableError when the message is rejected for good
+   * (e.g. unknown mailbox); other failures are worth retrying.
+   */
+  send(message: EmailMessage): Promise<Result<void, Error>>
+}
@@ -0,0 +1,20 @@
+import { Result } from '@core/domain/result'
+
+export interface FramesArchive {
+  bucket: string
+  key: string
+  frameCount: number
+  /** Presigned URL reachable by the user */
+  downloadUrl: string
+}
+
+export interface FramesArchiver {
+  /**
+   * Packages every extracted frame of the video into a single zip. With a
+   * `runId`, packages the frames of that reprocess run instead.
+   */
+  archive(
+    videoId: string,
+    runId?: string,
+  ): Promise<Result<FramesArchive, Error>>
+}
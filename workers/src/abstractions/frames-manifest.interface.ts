@@ -0,0 +1,51 @@
+import { Result } from '@core/domain/result'
+
+export interface FrameManifestEntry {
+  /** Relative to the prints prefix: `segment_001/frame_0001.jpg` */
+  path: string
+  segmentNumber: number
+  /** 1-based position of the frame inside its segment */
+  frameNumber: number
+  /** Position in the video, in milliseconds */
+  timestampMs: number
+  /** Bytes */
+  size: number
+  width?: number
+  height?: number
+  sha256: string
+}
+
+/** Written by the print worker next to the frames of each segment */
+export interface SegmentFramesManifest {
+  videoId: string
+  runId?: string
+  segmentNumber: number
+  /** Seconds */
+  startTime: number
+  /** Seconds */
+  endTime: number
+  frames: FrameManifestEntry[]
+}
+
+/** Every segment manifest of a video, merged once the last one is counted */
+export interface FramesManifest {
+  videoId: string
+  runId?: string
+  generatedAt: string
+  segmentCount: number
+  frameCount: number
+  /** Ordered by segment, then frame */
+  frames: FrameManifestEntry[]
+}
+
+export interface FramesManifestStore {
+  saveSegment(manifest: SegmentFramesManifest): Promise<Result<void, Error>>
+  /**
+   * Merges the segment manifests of the video (or of its reprocess run) into
+   * a single `prints/manifest.json`.
+   */
+  merge(
+    videoId: string,
+    runId?: string,
+  ): Promise<Result<{ key: string; frameCount: number }, Error>>
+}
@@ -0,0 +1,32 @@
+import { Result } from '@core/domain/result'
+
+export interface UploadedObject {
+  /** File name inside the uploaded directory */
+  file: string
+  key: string
+  /** Bytes */
+  size: number
+  contentType: string
+  /** Hex SHA-256 of the content, also verified by S3 on upload */
+  sha256: string
+}
+
+export interface FramesUploader {
+  /**
+   * Uploads the files of `localDir` whose names match the glob `pattern`
+   * under `prefix`. Fails when any file could not be uploaded.
+   */
+  uploadDir(
+    localDir: string,
+    bucket: string,
+    prefix: string,
+    pattern: string,
+  ): Promise<Result<UploadedObject[], Error>>
+  /** Uploads one frame held in memory, with the same retries and checksum */
+  uploadObject(
+    body: Uint8Array,
+    bucket: string,
+    key: string,
+    contentType: string,
+  ): Promise<Result<UploadedObject, Error>>
+}
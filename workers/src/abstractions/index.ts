@@ -1,4 +1,23 @@
 export type {
   VideoProcessorService,
   ExtractFramesResult,
+  ExtractedFrame,
+  FramesDestination,
 } from './video-processor.interface'
+export type {
+  FramesArchiver,
+  FramesArchive,
+} from './frames-archiver.interface'
+export type {
+  FramesManifestStore,
+  FrameManifestEntry,
+  SegmentFramesManifest,
+  FramesManifest,
+} from './frames-manifest.interface'
+export type {
+  FramesUploader,
+  UploadedObject,
+} from './frames-uploader.interface'
+export type { VideoProber } from './video-prober.interface'
+export type { EmailSender, EmailMessage } from './email-sender.interface'
+export type { NotificationLedger } from './notification-ledger.interface'
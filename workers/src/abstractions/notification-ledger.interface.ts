@@ -0,0 +1,24 @@
+import { Result } from '@core/domain/result'
+import type { VideoStatus } from '@core/abstractions/messaging'
+
+/**
+ * Records which (video, run, status) notifications were already sent. The
+ * upload's own run has no `runId`; every reprocess run is notified again.
+ */
+export interface NotificationLedger {
+  /**
+   * Atomically reserves the notification. Resolves false when it was already
+   * reserved, in which case it must not be sent again.
+   */
+  claim(
+    videoId: string,
+    status: VideoStatus,
+    runId?: string,
+  ): Promise<Result<boolean, Error>>
+  /** Drops a reservation whose email could not be sent, so a retry can send it */
+  release(
+    videoId: string,
+    status: VideoStatus,
+    runId?: string,
+  ): Promise<Result<void, Error>>
+}
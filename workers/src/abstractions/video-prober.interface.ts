@@ -0,0 +1,12 @@
+import { Result } from '@core/domain/result'
+import type { VideoProbe } from '@modules/video-processor/domain/value-objects/video-metadata.vo'
+
+export interface VideoProber {
+  /**
+   * Reads duration, container and streams of the video at `inputUrl`.
+   * Fails with NonRetryableError when the file is not a decodable video.
+   */
+  probe(inputUrl: string): Promise<Result<VideoProbe, Error>>
+  /** Timestamps of the keyframes of the video stream, in seconds, ascending */
+  keyframes(inputUrl: string): Promise<Result<number[], Error>>
+}
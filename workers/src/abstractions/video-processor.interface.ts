@@ -1,8 +1,31 @@
 import { Result } from '@core/domain/result'
+import type { ProcessingProfile } from '@modules/video-processor/domain/value-objects/processing-profile.vo'
+import type { UploadedObject } from './frames-uploader.interface'
+
+export interface ExtractedFrame {
+  /** File name inside `outputDir` */
+  file: string
+  /** Position in the video, in milliseconds */
+  timestampMs: number
+  /** Bytes */
+  size: number
+  width?: number
+  height?: number
+  sha256: string
+}
+
+/** Where the frames of the segment end up in the output bucket */
+export interface FramesDestination {
+  bucket: string
+  prefix: string
+}
 
 export interface ExtractFramesResult {
+  /** Directory holding the frames, or the destination when streamed to S3 */
   outputDir: string
   count: number
+  /** In extraction order */
+  frames: ExtractedFrame[]
 }
 
 export interface VideoProcessorService {
@@ -12,12 +35,13 @@ export interface VideoProcessorService {
     inputUrl: string,
     startTime: number,
     endTime: number,
-    frameInterval: number,
+    profile: ProcessingProfile,
+    destination: FramesDestination,
   ): Promise<Result<ExtractFramesResult, Error>>
   uploadDir(
     localDir: string,
     bucket: string,
     prefix: string,
     pattern: string,
-  ): Promise<Result<void, Error>>
+  ): Promise<Result<UploadedObject[], Error>>
 }
@@ -0,0 +1,51 @@
+import { Result } from '@core/domain/result'
+import type { VideoStatus } from '@core/abstractions/messaging'
+import { DataSource } from '@core/libs/database/datasource'
+import { DefaultDatabase } from '@core/libs/database/default-cassabdra.database'
+import type { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import type { NotificationLedger } from '../abstractions'
+
+/** `run_id` of the upload's own run: key columns cannot be null */
+const UPLOAD_RUN = ''
+
+/**
+ * CassandraNotificationLedger - Claims notifications in `video_notification`
+ * with a lightweight transaction (INSERT ... IF NOT EXISTS), so concurrent
+ * deliveries of the same event race on the row and only one of them wins.
+ */
+export class CassandraNotificationLedger
+  extends DefaultDatabase
+  implements NotificationLedger
+{
+  constructor(logger: AbstractLoggerService) {
+    super(DataSource.getInstance(logger), logger)
+  }
+
+  async claim(
+    videoId: string,
+    status: VideoStatus,
+    runId?: string,
+  ): Promise<Result<boolean, Error>> {
+    const result = await this.datasource.execute(
+      'INSERT INTO video_notification (video_id, run_id, status, sent_at) VALUES (?, ?, ?, ?) IF NOT EXISTS',
+      [videoId, runId ?? UPLOAD_RUN, status, new Date()],
+    )
+    if (result.isFailure) return Result.fail(result.error)
+
+    return Result.ok(result.value.rows[0]?.['[applied]'] === true)
+  }
+
+  async release(
+    videoId: string,
+    status: VideoStatus,
+    runId?: string,
+  ): Promise<Result<void, Error>> {
+    const result = await this.datasource.execute(
+      'DELETE FROM video_notification WHERE video_id = ? AND run_id = ? AND status = ? IF EXISTS',
+      [videoId, runId ?? UPLOAD_RUN, status],
+    )
+    if (result.isFailure) return Result.fail(result.error)
+
+    return Result.ok(undefined)
+  }
+}
@@ -44,6 +44,7 @@ export class EventBridgeEmitter implements EventBusEmitter {
         duration: event.duration,
         downloadUrl: event.downloadUrl,
         errorReason: event.errorReason,
+        runId: event.runId,
         timestamp: event.timestamp ?? new Date().toISOString(),
       },
       {
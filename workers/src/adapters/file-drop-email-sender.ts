@@ -0,0 +1,37 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { Result } from '@core/domain/result'
+import type { EmailMessage, EmailSender } from '../abstractions'
+import { buildMimeMessage } from './mime-message'
+
+export interface FileDropEmailSenderConfig {
+  /** Created on the first message if missing */
+  directory: string
+  from: string
+}
+
+/**
+ * FileDropEmailSender - Writes each email as a `.eml` file instead of sending
+ * it, for local runs without an SMTP server. The files open in any mail client.
+ */
+export class FileDropEmailSender implements EmailSender {
+  constructor(private readonly config: FileDropEmailSenderConfig) {}
+
+  async send(message: EmailMessage): Promise<Result<void, Error>> {
+    const recipient = message.to.replace(/[^\w.@-]/g, '_')
+    const filename = `${Date.now()}-${recipient}-${crypto.randomUUID().slice(0, 8)}.eml`
+
+    try {
+      await mkdir(this.config.directory, { recursive: true })
+      await writeFile(
+        join(this.config.directory, filename),
+        buildMimeMessage(this.config.from, message),
+      )
+      return Result.ok(undefined)
+    } catch (error) {
+      return Result.fail(
+        error instanceof Error ? error : new Error(String(error)),
+      )
+    }
+  }
+}
@@ -1 +1,24 @@
 export { EventBridgeEmitter } from './eventbridge-emitter'
+export {
+  S3FramesArchiver,
+  type S3FramesArchiverConfig,
+} from './s3-frames-archiver'
+export {
+  S3FramesManifestStore,
+  type S3FramesManifestStoreConfig,
+} from './s3-frames-manifest-store'
+export {
+  S3FramesUploader,
+  FramesUploadError,
+  type S3FramesUploaderConfig,
+} from './s3-frames-uploader'
+export { CassandraNotificationLedger } from './cassandra-notification-ledger'
+export {
+  FileDropEmailSender,
+  type FileDropEmailSenderConfig,
+} from './file-drop-email-sender'
+export { buildMimeMessage } from './mime-message'
+export {
+  SmtpEmailSender,
+  type SmtpEmailSenderConfig,
+} from './smtp-email-sender'
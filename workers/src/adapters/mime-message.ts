@@ -0,0 +1,52 @@
+import type { EmailMessage } from '../abstractions'
+
+const CRLF = '\r\n'
+
+/** RFC 2047 encoded-word, so subjects may carry accents */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+/** Base64 body wrapped at 76 columns: no line-length or dot-stuffing concerns */
+function encodeBody(value: string): string {
+  const encoded = Buffer.from(value, 'utf8').toString('base64')
+  return encoded.match(/.{1,76}/g)?.join(CRLF) ?? ''
+}
+
+/**
+ * Builds an RFC 5322 message (multipart/alternative with text and HTML) ready
+ * to be sent over SMTP DATA or saved as a `.eml` file.
+ */
+export function buildMimeMessage(
+  from: string,
+  message: EmailMessage,
+  date: Date = new Date(),
+): string {
+  const boundary = `fiapx-${crypto.randomUUID()}`
+  const domain = from.split('@')[1] ?? 'localhost'
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    '',
+  ].join(CRLF)
+}
@@ -0,0 +1,163 @@
+import {
+  GetObjectCommand,
+  paginateListObjectsV2,
+  type S3Client,
+} from '@aws-sdk/client-s3'
+import { Upload } from '@aws-sdk/lib-storage'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { Zip, ZipPassThrough } from 'fflate'
+import { Result } from '@core/domain/result'
+import type { StoragePathBuilder } from '@modules/video-processor/infra/services/storage'
+import type { FramesArchive, FramesArchiver } from '../abstractions'
+
+/** `.../prints/segment_001/frame_0001.jpg` → `segment_001/frame_0001.jpg` */
+const FRAME_KEY_PATTERN =
+  /(segment_\d+\/frame_\d+(?:_\d+ms)?\.(?:jpg|png|webp))$/
+
+export interface S3FramesArchiverConfig {
+  outputBucket: string
+  pathBuilder: StoragePathBuilder
+  /** Lifetime of the presigned download URL, in seconds */
+  urlExpiresIn: number
+  /** Endpoint used by the client to reach S3, when it differs from the SDK's */
+  publicEndpoint?: string
+  internalEndpoint?: string
+}
+
+/**
+ * S3FramesArchiver - Streams every `prints/segment_NNN/frame_NNNN.{ext}` object
+ * of a video (or of one of its reprocess runs) into `archive/frames.zip` in
+ * the output bucket.
+ *
+ * Frames are read one at a time and piped through the zip into a multipart
+ * upload, so memory stays bounded regardless of the number of frames. Entries
+ * are stored without compression: encoded images do not shrink any further.
+ */
+export class S3FramesArchiver implements FramesArchiver {
+  constructor(
+    private readonly s3: S3Client,
+    private readonly config: S3FramesArchiverConfig,
+  ) {}
+
+  async archive(
+    videoId: string,
+    runId?: string,
+  ): Promise<Result<FramesArchive, Error>> {
+    const { outputBucket, pathBuilder } = this.config
+    const prefix = pathBuilder.videoPrint(videoId, '', runId).key
+    const key = pathBuilder.videoArchive(videoId, undefined, runId).key
+
+    try {
+      const frameKeys = await this.listFrameKeys(prefix)
+      if (frameKeys.length === 0) {
+        return Result.fail(new Error(`No frames to archive for ${videoId}`))
+      }
+
+      const zipStream = new TransformStream<Uint8Array, Uint8Array>()
+      const upload = new Upload({
+        client: this.s3,
+        params: {
+          Bucket: outputBucket,
+          Key: key,
+          Body: zipStream.readable,
+          ContentType: 'application/zip',
+        },
+      })
+
+      await Promise.all([
+        upload.done(),
+        this.writeZip(frameKeys, zipStream.writable).catch(async (error) => {
+          await upload.abort()
+          throw error
+        }),
+      ])
+
+      const downloadUrl = await getSignedUrl(
+        this.s3,
+        new GetObjectCommand({ Bucket: outputBucket, Key: key }),
+        { expiresIn: this.config.urlExpiresIn },
+      )
+
+      return Result.ok({
+        bucket: outputBucket,
+        key,
+        frameCount: frameKeys.length,
+        downloadUrl: this.toPublicUrl(downloadUrl),
+      })
+    } catch (error) {
+      return Result.fail(
+        error instanceof Error ? error : new Error(String(error)),
+      )
+    }
+  }
+
+  private async listFrameKeys(prefix: string): Promise<string[]> {
+    const keys: string[] = []
+    const pages = paginateListObjectsV2(
+      { client: this.s3 },
+      { Bucket: this.config.outputBucket, Prefix: prefix },
+    )
+
+    for await (const page of pages) {
+      for (const object of page.Contents ?? []) {
+        if (object.Key && FRAME_KEY_PATTERN.test(object.Key)) {
+          keys.push(object.Key)
+        }
+      }
+    }
+
+    return keys.sort()
+  }
+
+  private async writeZip(
+    frameKeys: string[],
+    output: WritableStream<Uint8Array>,
+  ): Promise<void> {
+    const writer = output.getWriter()
+    const state: { zipError?: Error } = {}
+
+    const zip = new Zip((error, chunk, final) => {
+      if (error) {
+        state.zipError = error
+        return
+      }
+      // Write errors surface through writer.ready / upload.done()
+      writer.write(chunk).catch(() => {})
+      if (final) writer.close().catch(() => {})
+    })
+
+    for (const frameKey of frameKeys) {
+      const entryName = frameKey.match(FRAME_KEY_PATTERN)?.[1] ?? frameKey
+      const entry = new ZipPassThrough(entryName)
+      zip.add(entry)
+
+      const object = await this.s3.send(
+        new GetObjectCommand({
+          Bucket: this.config.outputBucket,
+          Key: frameKey,
+        }),
+      )
+      if (!object.Body) throw new Error(`Empty frame object: ${frameKey}`)
+
+      for await (const chunk of object.Body.transformToWebStream()) {
+        await writer.ready
+        entry.push(chunk)
+        if (state.zipError) throw state.zipError
+      }
+      entry.push(new Uint8Array(0), true)
+    }
+
+    zip.end()
+    await writer.ready
+    if (state.zipError) throw state.zipError
+  }
+
+  private toPublicUrl(url: string): string {
+    const { internalEndpoint, publicEndpoint } = this.config
+    if (!internalEndpoint || !publicEndpoint) return url
+    return url.replace(
+      new URL(internalEndpoint).origin,
+      new URL(publicEndpoint).origin,
+    )
+  }
+}
@@ -0,0 +1,128 @@
+import {
+  GetObjectCommand,
+  PutObjectCommand,
+  paginateListObjectsV2,
+  type S3Client,
+} from '@aws-sdk/client-s3'
+import { Result } from '@core/domain/result'
+import type { StoragePathBuilder } from '@modules/video-processor/infra/services/storage'
+import type {
+  FramesManifest,
+  FramesManifestStore,
+  SegmentFramesManifest,
+} from '../abstractions'
+
+/** `.../prints/segment_001/manifest.json` */
+const SEGMENT_MANIFEST_PATTERN = /\/segment_\d+\/manifest\.json$/
+
+export interface S3FramesManifestStoreConfig {
+  outputBucket: string
+  pathBuilder: StoragePathBuilder
+}
+
+/**
+ * S3FramesManifestStore - Keeps a `manifest.json` next to the frames of each
+ * segment and merges them into `prints/manifest.json`, so consumers of the
+ * output bucket get every frame's timestamp and checksum from a single object.
+ */
+export class S3FramesManifestStore implements FramesManifestStore {
+  constructor(
+    private readonly s3: S3Client,
+    private readonly config: S3FramesManifestStoreConfig,
+  ) {}
+
+  async saveSegment(
+    manifest: SegmentFramesManifest,
+  ): Promise<Result<void, Error>> {
+    const key = this.config.pathBuilder.framesManifest(
+      manifest.videoId,
+      manifest.runId,
+      `segment_${String(manifest.segmentNumber).padStart(3, '0')}`,
+    ).key
+
+    try {
+      await this.putJson(key, manifest)
+      return Result.ok(undefined)
+    } catch (error) {
+      return Result.fail(
+        error instanceof Error ? error : new Error(String(error)),
+      )
+    }
+  }
+
+  async merge(
+    videoId: string,
+    runId?: string,
+  ): Promise<Result<{ key: string; frameCount: number }, Error>> {
+    const { pathBuilder } = this.config
+    const prefix = pathBuilder.videoPrint(videoId, '', runId).key
+    const key = pathBuilder.framesManifest(videoId, runId).key
+
+    try {
+      const segmentKeys = await this.listSegmentManifestKeys(prefix)
+      if (segmentKeys.length === 0) {
+        return Result.fail(new Error(`No frame manifests for ${videoId}`))
+      }
+
+      const segments: SegmentFramesManifest[] = []
+      for (const segmentKey of segmentKeys) {
+        segments.push(JSON.parse(await this.getText(segmentKey)))
+      }
+      segments.sort((a, b) => a.segmentNumber - b.segmentNumber)
+
+      const frames = segments.flatMap((segment) => segment.frames)
+      const manifest: FramesManifest = {
+        videoId,
+        runId,
+        generatedAt: new Date().toISOString(),
+        segmentCount: segments.length,
+        frameCount: frames.length,
+        frames,
+      }
+      await this.putJson(key, manifest)
+
+      return Result.ok({ key, frameCount: frames.length })
+    } catch (error) {
+      return Result.fail(
+        error instanceof Error ? error : new Error(String(error)),
+      )
+    }
+  }
+
+  private async listSegmentManifestKeys(prefix: string): Promise<string[]> {
+    const keys: string[] = []
+    const pages = paginateListObjectsV2(
+      { client: this.s3 },
+      { Bucket: this.config.outputBucket, Prefix: prefix },
+    )
+
+    for await (const page of pages) {
+      for (const object of page.Contents ?? []) {
+        if (object.Key && SEGMENT_MANIFEST_PATTERN.test(object.Key)) {
+          keys.push(object.Key)
+        }
+      }
+    }
+
+    return keys
+  }
+
+  private async getText(key: string): Promise<string> {
+    const object = await this.s3.send(
+      new GetObjectCommand({ Bucket: this.config.outputBucket, Key: key }),
+    )
+    if (!object.Body) throw new Error(`Empty manifest object: ${key}`)
+    return new Response(object.Body.transformToWebStream()).text()
+  }
+
+  private async putJson(key: string, body: unknown): Promise<void> {
+    await this.s3.send(
+      new PutObjectCommand({
+        Bucket: this.config.outputBucket,
+        Key: key,
+        Body: JSON.stringify(body),
+        ContentType: 'application/json',
+      }),
+    )
+  }
+}
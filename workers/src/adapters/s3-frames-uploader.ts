@@ -0,0 +1,166 @@
+import { readdir } from 'node:fs/promises'
+import { basename, join } from 'node:path'
+import { PutObjectCommand, type S3Client } from '@aws-sdk/client-s3'
+import { Result } from '@core/domain/result'
+import type { FramesUploader, UploadedObject } from '../abstractions'
+
+export interface S3FramesUploaderConfig {
+  /** Uploads in flight at once (default 8) */
+  concurrency?: number
+  /** Attempts per file, the first one included (default 3) */
+  maxAttempts?: number
+  /** Wait before the first retry, doubled on each one (default 200ms) */
+  retryDelayMs?: number
+}
+
+export type FileUploadFailure = { file: string; error: Error }
+
+/** Names every file that could not be uploaded, with the last error of each */
+export class FramesUploadError extends Error {
+  constructor(
+    readonly failures: FileUploadFailure[],
+    total: number,
+  ) {
+    super(
+      `S3 upload failed for ${failures.length} of ${total} files: ${failures
+        .map(({ file, error }) => `${file} (${error.message})`)
+        .join(', ')}`,
+    )
+    this.name = 'FramesUploadError'
+  }
+}
+
+/**
+ * S3FramesUploader - Puts the frames of a segment into the output bucket with
+ * the SDK, a bounded number at a time.
+ *
+ * Each object carries its content type and a SHA-256 checksum that S3 checks
+ * on arrival, so a frame corrupted on the way is rejected and retried instead
+ * of being stored.
+ */
+export class S3FramesUploader implements FramesUploader {
+  private readonly concurrency: number
+  private readonly maxAttempts: number
+  private readonly retryDelayMs: number
+
+  constructor(
+    private readonly s3: S3Client,
+    config: S3FramesUploaderConfig = {},
+  ) {
+    this.concurrency = Math.max(config.concurrency ?? 8, 1)
+    this.maxAttempts = Math.max(config.maxAttempts ?? 3, 1)
+    this.retryDelayMs = config.retryDelayMs ?? 200
+  }
+
+  async uploadDir(
+    localDir: string,
+    bucket: string,
+    prefix: string,
+    pattern: string,
+  ): Promise<Result<UploadedObject[], Error>> {
+    let files: string[]
+    try {
+      const glob = new Bun.Glob(pattern)
+      files = (await readdir(localDir))
+        .filter((name) => glob.match(name))
+        .sort()
+    } catch (err) {
+      return Result.fail(
+        new Error(
+          `S3 upload failed: ${err instanceof Error ? err.message : String(err)}`,
+        ),
+      )
+    }
+
+    const uploaded: UploadedObject[] = []
+    const failures: FileUploadFailure[] = []
+    const keyPrefix = prefix.replace(/\/$/, '')
+
+    let next = 0
+    const uploadNext = async (): Promise<void> => {
+      while (next < files.length) {
+        const file = files[next++]
+        const result = await this.withRetry(async () => {
+          const local = Bun.file(join(localDir, file))
+          return this.put(
+            await local.bytes(),
+            bucket,
+            `${keyPrefix}/${file}`,
+            local.type || 'application/octet-stream',
+          )
+        })
+        if (result.isSuccess) uploaded.push(result.value)
+        else failures.push({ file, error: result.error })
+      }
+    }
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.concurrency, files.length) }, () =>
+        uploadNext(),
+      ),
+    )
+
+    if (failures.length > 0) {
+      failures.sort((a, b) => a.file.localeCompare(b.file))
+      return Result.fail(new FramesUploadError(failures, files.length))
+    }
+
+    return Result.ok(uploaded.sort((a, b) => a.file.localeCompare(b.file)))
+  }
+
+  uploadObject(
+    body: Uint8Array,
+    bucket: string,
+    key: string,
+    contentType: string,
+  ): Promise<Result<UploadedObject, Error>> {
+    return this.withRetry(() => this.put(body, bucket, key, contentType))
+  }
+
+  private async withRetry(
+    upload: () => Promise<UploadedObject>,
+  ): Promise<Result<UploadedObject, Error>> {
+    let lastError = new Error('Not uploaded')
+
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      if (attempt > 1) {
+        await Bun.sleep(this.retryDelayMs * 2 ** (attempt - 2))
+      }
+
+      try {
+        return Result.ok(await upload())
+      } catch (err) {
+        lastError = err instanceof Error ? err : new Error(String(err))
+      }
+    }
+
+    return Result.fail(lastError)
+  }
+
+  private async put(
+    bytes: Uint8Array,
+    bucket: string,
+    key: string,
+    contentType: string,
+  ): Promise<UploadedObject> {
+    const digest = new Bun.CryptoHasher('sha256').update(bytes).digest()
+
+    await this.s3.send(
+      new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: bytes,
+        ContentType: contentType,
+        ChecksumSHA256: digest.toString('base64'),
+      }),
+    )
+
+    return {
+      file: basename(key),
+      key,
+      size: bytes.byteLength,
+      contentType,
+      sha256: digest.toString('hex'),
+    }
+  }
+}
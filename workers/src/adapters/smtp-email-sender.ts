@@ -0,0 +1,235 @@
+import { connect as connectTcp, type Socket } from 'node:net'
+import { connect as connectTls } from 'node:tls'
+import { Result } from '@core/domain/result'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import type { EmailMessage, EmailSender } from '../abstractions'
+import { buildMimeMessage } from './mime-message'
+
+export interface SmtpEmailSenderConfig {
+  host: string
+  port: number
+  /** Sender, e.g. `FIAP X <noreply@fiapx.local>` */
+  from: string
+  /** Implicit TLS from the first byte (usually port 465) */
+  secure?: boolean
+  /** Upgrades a plain connection with STARTTLS (usually port 587) */
+  startTls?: boolean
+  user?: string
+  password?: string
+  timeoutMs?: number
+  /** Name announced in EHLO */
+  clientName?: string
+}
+
+type SmtpReply = { code: number; message: string }
+
+class SmtpReplyError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+  ) {
+    super(message)
+    this.name = 'SmtpReplyError'
+  }
+}
+
+/**
+ * One SMTP conversation over a socket. Replies are parsed line by line
+ * (`250-...` continues, `250 ...` ends) and handed to `read()` in order.
+ */
+class SmtpSession {
+  private buffer = ''
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiting: {
+    resolve: (reply: SmtpReply) => void
+    reject: (error: Error) => void
+  } | null = null
+  private failure: Error | null = null
+
+  constructor(
+    private socket: Socket,
+    private readonly timeoutMs: number,
+  ) {
+    this.attach(socket)
+  }
+
+  async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    if (line !== null) this.socket.write(`${line}\r\n`)
+
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      const sent = line?.split(' ')[0] ?? 'greeting'
+      throw new SmtpReplyError(
+        reply.code,
+        `SMTP ${sent} rejected: ${reply.code} ${reply.message}`,
+      )
+    }
+    return reply
+  }
+
+  async upgrade(servername: string): Promise<void> {
+    const plain = this.socket
+    plain.removeAllListeners('data')
+    plain.removeAllListeners('error')
+    plain.removeAllListeners('close')
+    plain.setTimeout(0)
+
+    const secure = connectTls({ socket: plain, servername })
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve)
+      secure.once('error', reject)
+    })
+    this.socket = secure
+    this.attach(secure)
+  }
+
+  close(): void {
+    this.socket.end()
+  }
+
+  private attach(socket: Socket): void {
+    socket.setEncoding('utf8')
+    socket.on('data', (chunk: string) => this.onData(chunk))
+    socket.on('error', (error) => this.fail(error))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+    socket.setTimeout(this.timeoutMs, () => {
+      this.fail(new Error(`SMTP server did not answer in ${this.timeoutMs}ms`))
+      socket.destroy()
+    })
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk
+
+    let newline = this.buffer.indexOf('\n')
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '')
+      this.buffer = this.buffer.slice(newline + 1)
+      this.lines.push(line.slice(4))
+
+      if (line[3] !== '-') {
+        this.deliver({
+          code: Number(line.slice(0, 3)),
+          message: this.lines.join(' '),
+        })
+        this.lines = []
+      }
+      newline = this.buffer.indexOf('\n')
+    }
+  }
+
+  private read(): Promise<SmtpReply> {
+    const queued = this.replies.shift()
+    if (queued) return Promise.resolve(queued)
+    if (this.failure) return Promise.reject(this.failure)
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+    })
+  }
+
+  private deliver(reply: SmtpReply): void {
+    const waiting = this.waiting
+    this.waiting = null
+    if (waiting) waiting.resolve(reply)
+    else this.replies.push(reply)
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return
+    this.failure = error
+
+    const waiting = this.waiting
+    this.waiting = null
+    waiting?.reject(error)
+  }
+}
+
+/**
+ * SmtpEmailSender - Sends emails through any SMTP relay (SES SMTP interface,
+ * Mailpit, Postfix...), one connection per message.
+ *
+ * Permanent rejections (5xx) fail with NonRetryableError; connection problems
+ * and transient replies (4xx) fail with a plain Error so the message is retried.
+ */
+export class SmtpEmailSender implements EmailSender {
+  private readonly timeoutMs: number
+
+  constructor(private readonly config: SmtpEmailSenderConfig) {
+    this.timeoutMs = config.timeoutMs ?? 10_000
+  }
+
+  async send(message: EmailMessage): Promise<Result<void, Error>> {
+    let session: SmtpSession | undefined
+
+    try {
+      session = new SmtpSession(await this.connect(), this.timeoutMs)
+      const clientName = this.config.clientName ?? 'localhost'
+
+      await session.command(null, [220])
+      await session.command(`EHLO ${clientName}`, [250])
+
+      if (this.config.startTls && !this.config.secure) {
+        await session.command('STARTTLS', [220])
+        await session.upgrade(this.config.host)
+        await session.command(`EHLO ${clientName}`, [250])
+      }
+
+      if (this.config.user) {
+        const credentials = Buffer.from(
+          `\0${this.config.user}\0${this.config.password ?? ''}`,
+        ).toString('base64')
+        await session.command(`AUTH PLAIN ${credentials}`, [235])
+      }
+
+      await session.command(`MAIL FROM:<${this.fromAddress()}>`, [250])
+      await session.command(`RCPT TO:<${message.to}>`, [250, 251])
+      await session.command('DATA', [354])
+
+      // Dot-stuffing: a line starting with "." would end the data early
+      const data = buildMimeMessage(this.config.from, message).replace(
+        /(^|\r\n)\./g,
+        '$1..',
+      )
+      await session.command(`${data}.`, [250])
+      await session.command('QUIT', [221]).catch(() => undefined)
+
+      return Result.ok(undefined)
+    } catch (error) {
+      if (error instanceof SmtpReplyError && error.code >= 500) {
+        return Result.fail(new NonRetryableError(error.message))
+      }
+      return Result.fail(
+        error instanceof Error ? error : new Error(String(error)),
+      )
+    } finally {
+      session?.close()
+    }
+  }
+
+  private connect(): Promise<Socket> {
+    const { host, port, secure } = this.config
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? connectTls({ host, port, servername: host })
+        : connectTcp({ host, port })
+
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', reject)
+        resolve(socket)
+      })
+      socket.once('error', reject)
+      socket.setTimeout(this.timeoutMs, () =>
+        socket.destroy(
+          new Error(`SMTP connection timed out after ${this.timeoutMs}ms`),
+        ),
+      )
+    })
+  }
+
+  private fromAddress(): string {
+    return this.config.from.match(/<([^>]+)>/)?.[1] ?? this.config.from
+  }
+}
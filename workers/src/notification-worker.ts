@@ -0,0 +1,192 @@
+import { context } from '@opentelemetry/api'
+import { PinoLoggerService } from '@core/libs/logging/pino-logger'
+import type { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
+import { createSQSConsumer } from '@modules/messaging/sqs'
+import type { MessageHandler, MessageContext } from '@core/messaging'
+import {
+  VideoNotificationMessageSchema,
+  type VideoNotificationMessage,
+} from '@core/messaging/schemas'
+import { Result } from '@core/domain/result'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+
+import type { EmailSender, NotificationLedger } from './abstractions'
+import {
+  CassandraNotificationLedger,
+  FileDropEmailSender,
+  SmtpEmailSender,
+} from './adapters'
+import {
+  renderVideoNotification,
+  type VideoNotificationStatus,
+} from './templates/video-notification.template'
+
+const NOTIFIED_STATUSES: readonly string[] = ['COMPLETED', 'FAILED']
+
+export type NotificationWorkerDeps = {
+  logger: AbstractLoggerService
+  emailSender: EmailSender
+  ledger: NotificationLedger
+}
+
+/**
+ * Emails the owner of a video when processing ends (COMPLETED or FAILED).
+ *
+ * Each (videoId, runId, status) is claimed in the ledger before sending, so
+ * SQS redeliveries and duplicated status events never produce a second email,
+ * while a reprocessed video is notified again.
+ * A failed send releases the claim and lets the message be retried.
+ */
+export class NotificationEventHandler
+  implements MessageHandler<VideoNotificationMessage>
+{
+  constructor(private readonly deps: NotificationWorkerDeps) {}
+
+  private msToNs(ms: number): number {
+    return Math.round(ms * 1_000_000)
+  }
+
+  parse(rawPayload: unknown): Result<VideoNotificationMessage, Error> {
+    const result = VideoNotificationMessageSchema.safeParse(rawPayload)
+    if (!result.success) {
+      return Result.fail(new Error(result.error.message))
+    }
+    return Result.ok(result.data)
+  }
+
+  async handle(
+    event: VideoNotificationMessage,
+    _context: MessageContext,
+  ): Promise<Result<void, Error>> {
+    const handleStartTime = performance.now()
+    const { videoId, status, userEmail, runId } = event.detail
+
+    if (!NOTIFIED_STATUSES.includes(status)) {
+      return Result.ok(undefined)
+    }
+
+    if (!userEmail) {
+      this.deps.logger.warn('notification.skipped', {
+        'video.id': videoId,
+        'video.status': status,
+        reason: 'missing_user_email',
+        component: 'notification',
+      })
+      return Result.ok(undefined)
+    }
+
+    const claimResult = await this.deps.ledger.claim(videoId, status, runId)
+    if (claimResult.isFailure) {
+      return Result.fail(
+        new Error(`Failed to claim notification: ${claimResult.error.message}`),
+      )
+    }
+
+    if (!claimResult.value) {
+      this.deps.logger.log('notification.skipped', {
+        'video.id': videoId,
+        'video.status': status,
+        reason: 'already_sent',
+        component: 'notification',
+      })
+      return Result.ok(undefined)
+    }
+
+    const content = renderVideoNotification({
+      status: status as VideoNotificationStatus,
+      email: userEmail,
+      videoName: event.detail.videoName,
+      downloadUrl: event.detail.downloadUrl,
+      errorReason: event.detail.errorReason,
+    })
+
+    const sendResult = await this.deps.emailSender.send({
+      to: userEmail,
+      ...content,
+    })
+
+    if (sendResult.isFailure) {
+      const releaseResult = await this.deps.ledger.release(
+        videoId,
+        status,
+        runId,
+      )
+      if (releaseResult.isFailure) {
+        this.deps.logger.error('notification.release_failed', {
+          'video.id': videoId,
+          'video.status': status,
+          error: {
+            message: releaseResult.error.message,
+            kind: releaseResult.error.constructor.name,
+            stack: releaseResult.error.stack,
+          },
+          component: 'notification',
+        })
+      }
+
+      if (sendResult.error instanceof NonRetryableError) {
+        return Result.fail(sendResult.error)
+      }
+      return Result.fail(
+        new Error(`Failed to send notification: ${sendResult.error.message}`),
+      )
+    }
+
+    this.deps.logger.log('notification.sent', {
+      'video.id': videoId,
+      'video.status': status,
+      duration: this.msToNs(performance.now() - handleStartTime),
+      status: 'success',
+      component: 'notification',
+    })
+
+    return Result.ok(undefined)
+  }
+}
+
+function createEmailSender(): EmailSender {
+  const from = process.env.EMAIL_FROM ?? 'FIAP X <noreply@fiapx.local>'
+
+  if (process.env.EMAIL_TRANSPORT === 'smtp') {
+    return new SmtpEmailSender({
+      host: process.env.SMTP_HOST ?? 'localhost',
+      port: Number(process.env.SMTP_PORT) || 1025,
+      secure: process.env.SMTP_SECURE === 'true',
+      startTls: process.env.SMTP_STARTTLS === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      from,
+    })
+  }
+
+  return new FileDropEmailSender({
+    directory: process.env.EMAIL_DROP_DIR ?? './tmp/emails',
+    from,
+  })
+}
+
+if (import.meta.main) {
+  const logger = new PinoLoggerService(
+    { suppressConsole: false, serviceName: 'fiap-image-notification' },
+    context.active(),
+  )
+
+  const handler = new NotificationEventHandler({
+    logger,
+    emailSender: createEmailSender(),
+    ledger: new CassandraNotificationLedger(logger),
+  })
+
+  const queueUrl =
+    process.env.SQS_QUEUE_URL ??
+    'http://localhost:4566/000000000000/notification-queue'
+
+  const consumer = createSQSConsumer<VideoNotificationMessage>(
+    { queueUrl },
+    logger,
+    handler,
+  )
+
+  logger.log('Starting Notification Worker...')
+  consumer.start()
+}
@@ -25,18 +25,33 @@ import {
 } from '@core/messaging/schemas'
 import { Result } from '@core/domain/result'
 
-import { calculateTimeRanges, getTotalSegments } from './time-range'
+import {
+  alignToKeyframes,
+  SegmentPlanner,
+  type SegmentPlan,
+} from './time-range'
 import { generatePresignedUrl } from './s3-presign.service'
 import { NonRetryableError } from '@core/errors/non-retryable.error'
 import { EventBridgeEmitter } from './adapters'
+import type { VideoProber } from './abstractions'
+import { FFprobeProber } from './processors'
 import type { EventBusEmitter } from '@core/abstractions/messaging'
-
-const DEFAULT_SEGMENT_DURATION_MS = 10_000
+import { VideoSegment } from '@modules/video-processor/domain/entities/video-segment'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type { VideoSegmentRepository } from '@modules/video-processor/domain/repositories/video-segment.repository'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { VideoSegmentRepositoryImpl } from '@modules/video-processor/infra/repositories/video-segment-repository-impl'
 
 export type OrchestratorWorkerDeps = {
   logger: AbstractLoggerService
   eventEmitter: EventBusEmitter
+  videoRepository: Pick<VideoRepository, 'updateTotalSegments' | 'saveProbe'>
+  segmentRepository: Pick<VideoSegmentRepository, 'createSegments'>
   printQueuePublisher: AbstractSQSPublisher<SegmentMessage>
+  prober: VideoProber
+  segmentPlanner: SegmentPlanner
+  /** Moves segment boundaries onto keyframes (SEGMENT_ALIGN_TO_KEYFRAMES) */
+  alignToKeyframes?: boolean
   pathBuilder?: StoragePathBuilder
 }
 
@@ -51,6 +66,35 @@ export class VideoEventHandler implements MessageHandler<VideoEvent> {
     return Math.round(ms * 1_000_000)
   }
 
+  /**
+   * Ranges sized by the segment planner, with their boundaries moved onto
+   * keyframes when `alignToKeyframes` is on. Aligning only saves decoding
+   * time, so the planned ranges are kept when the keyframes cannot be read.
+   */
+  private async planSegments(
+    videoId: string,
+    presignedUrl: string,
+    durationMs: number,
+  ): Promise<SegmentPlan> {
+    const plan = this.deps.segmentPlanner.plan(durationMs)
+    if (!this.deps.alignToKeyframes) return plan
+
+    const keyframesResult = await this.deps.prober.keyframes(presignedUrl)
+    if (keyframesResult.isFailure) {
+      this.deps.logger.warn('video.processing.keyframes_failed', {
+        'video.id': videoId,
+        error: keyframesResult.error.message,
+        component: 'orchestrator',
+      })
+      return plan
+    }
+
+    return {
+      ...plan,
+      ranges: alignToKeyframes(plan.ranges, keyframesResult.value),
+    }
+  }
+
   parse(rawPayload: unknown): Result<VideoEvent, Error> {
     const result = VideoEventSchema.safeParse(rawPayload)
     if (!result.success) {
@@ -64,7 +108,15 @@ export class VideoEventHandler implements MessageHandler<VideoEvent> {
     _context: MessageContext,
   ): Promise<Result<void, Error>> {
     const handleStartTime = performance.now()
-    const { videoId, videoPath, duration, userEmail, videoName } = event.detail
+    const {
+      videoId,
+      videoPath,
+      duration,
+      userEmail,
+      videoName,
+      runId,
+      processingProfile,
+    } = event.detail
 
     // correlationId is automatically injected by Pino mixin via CorrelationStore
     // Obtain explicit values only for downstream propagation (e.g. publishing to SQS/EventBridge)
@@ -78,6 +130,7 @@ export class VideoEventHandler implements MessageHandler<VideoEvent> {
       'video.id': videoId,
       'video.duration_ms': duration,
       'video.path': videoPath,
+      'video.run_id': runId,
       component: 'orchestrator',
     })
 
@@ -105,8 +158,55 @@ export class VideoEventHandler implements MessageHandler<VideoEvent> {
     }
 
     const s3Key = inputStoragePath.key
+    const presignedUrl = await generatePresignedUrl(inputBucket, s3Key, 7200)
 
-    // Emit SPLITTING status as soon as validation passes and processing begins
+    // The declared duration comes from the client: segments are sliced from
+    // the one read from the file
+    const probeResult = await this.deps.prober.probe(presignedUrl)
+
+    if (probeResult.isFailure) {
+      if (NonRetryableError.isNonRetryable(probeResult.error)) {
+        await this.deps.eventEmitter.emitVideoStatusChanged({
+          videoId,
+          status: 'FAILED',
+          correlationId,
+          userEmail,
+          videoName,
+          errorReason: probeResult.error.message,
+          traceId,
+          runId,
+        })
+      }
+      return Result.fail(probeResult.error)
+    }
+
+    const probe = probeResult.value
+
+    this.deps.logger.log('video.processing.probed', {
+      'video.id': videoId,
+      'video.duration_ms': probe.durationMs,
+      'video.declared_duration_ms': duration,
+      'video.container': probe.container,
+      'video.codec': probe.videoCodec,
+      'video.audio_codec': probe.audioCodec,
+      'video.width': probe.width,
+      'video.height': probe.height,
+      'video.fps': probe.fps,
+      component: 'orchestrator',
+    })
+
+    const probeSaveResult = await this.deps.videoRepository.saveProbe(
+      videoId,
+      probe,
+    )
+
+    if (probeSaveResult.isFailure) {
+      return Result.fail(
+        new Error(`Failed to persist probe: ${probeSaveResult.error.message}`),
+      )
+    }
+
+    // Emit SPLITTING status once the file is known to be a decodable video
     await this.deps.eventEmitter.emitVideoStatusChanged({
       videoId,
       status: 'SPLITTING',
@@ -114,22 +214,56 @@ export class VideoEventHandler implements MessageHandler<VideoEvent> {
       userEmail,
       videoName,
       traceId,
+      runId,
     })
 
-    const ranges = calculateTimeRanges(duration, DEFAULT_SEGMENT_DURATION_MS)
-    const totalSegments = getTotalSegments(
-      duration,
-      DEFAULT_SEGMENT_DURATION_MS,
-    )
+    const { ranges, totalSegments, segmentDurationMs } =
+      await this.planSegments(videoId, presignedUrl, probe.durationMs)
 
     this.deps.logger.log('video.processing.segments_calculated', {
       'video.id': videoId,
       'video.segments.total': totalSegments,
-      'video.duration_ms': duration,
+      'video.segments.duration_ms': segmentDurationMs,
+      'video.duration_ms': probe.durationMs,
+      'video.segments.keyframe_aligned': this.deps.alignToKeyframes === true,
       component: 'orchestrator',
     })
 
-    const presignedUrl = await generatePresignedUrl(inputBucket, s3Key, 7200)
+    // Persist before publishing so print workers can compare their count against it
+    const totalSegmentsResult =
+      await this.deps.videoRepository.updateTotalSegments(
+        videoId,
+        totalSegments,
+        segmentDurationMs,
+      )
+
+    if (totalSegmentsResult.isFailure) {
+      return Result.fail(
+        new Error(
+          `Failed to persist total segments: ${totalSegmentsResult.error.message}`,
+        ),
+      )
+    }
+
+    // Tracked as PENDING before publishing; the print worker moves them on
+    const segmentsResult = await this.deps.segmentRepository.createSegments(
+      ranges.map((range) =>
+        VideoSegment.create({
+          videoId,
+          segmentNumber: range.segmentNumber,
+          startTime: range.startTime,
+          endTime: range.endTime,
+        }),
+      ),
+    )
+
+    if (segmentsResult.isFailure) {
+      return Result.fail(
+        new Error(
+          `Failed to persist segments: ${segmentsResult.error.message}`,
+        ),
+      )
+    }
 
     const messages: SegmentMessage[] = ranges.map((range) => ({
       videoId,
@@ -140,6 +274,8 @@ export class VideoEventHandler implements MessageHandler<VideoEvent> {
       endTime: range.endTime,
       userEmail,
       videoName,
+      runId,
+      processingProfile,
     }))
 
     // Publish segment messages using the Envelope pattern via SQS publisher
@@ -171,6 +307,7 @@ export class VideoEventHandler implements MessageHandler<VideoEvent> {
       userEmail,
       videoName,
       traceId,
+      runId,
     })
 
     this.deps.logger.log('video.processing.segments_published', {
@@ -209,7 +346,12 @@ if (import.meta.main) {
   const handler = new VideoEventHandler({
     logger,
     eventEmitter: new EventBridgeEmitter(eventBridgeClient),
+    videoRepository: new VideoRepositoryImpl(logger),
+    segmentRepository: new VideoSegmentRepositoryImpl(logger),
     printQueuePublisher,
+    prober: new FFprobeProber(),
+    segmentPlanner: SegmentPlanner.fromEnv(),
+    alignToKeyframes: process.env.SEGMENT_ALIGN_TO_KEYFRAMES === 'true',
   })
 
   const queueUrl =
@@ -5,6 +5,7 @@ import type { AbstractLoggerService } from '@core/libs/logging/abstract-logger'
 import { CorrelationStore } from '@core/libs/context'
 import {
   StoragePathBuilder,
+  createS3Client,
   createStoragePathBuilder,
 } from '@modules/video-processor/infra/services/storage'
 import { createSQSConsumer } from '@modules/messaging/sqs'
@@ -16,30 +17,66 @@ import {
 import { Result } from '@core/domain/result'
 import type { EventBusEmitter } from '@core/abstractions/messaging'
 import { NonRetryableError } from '@core/errors/non-retryable.error'
-import { FFmpegProcessor } from './processors'
-import type { VideoProcessorService } from './abstractions'
-import { EventBridgeEmitter } from './adapters'
+import { VideoSegment } from '@modules/video-processor/domain/entities/video-segment'
+import {
+  type ProcessingProfile,
+  ProcessingProfileVO,
+} from '@modules/video-processor/domain/value-objects/processing-profile.vo'
+import type { VideoRepository } from '@modules/video-processor/domain/repositories/video.repository'
+import type { VideoSegmentRepository } from '@modules/video-processor/domain/repositories/video-segment.repository'
+import { VideoRepositoryImpl } from '@modules/video-processor/infra/repositories/video-repository-impl'
+import { VideoSegmentRepositoryImpl } from '@modules/video-processor/infra/repositories/video-segment-repository-impl'
+import { FFmpegProcessor, StreamingFFmpegProcessor } from './processors'
+import type {
+  FramesArchiver,
+  FramesManifestStore,
+  VideoProcessorService,
+} from './abstractions'
+import {
+  EventBridgeEmitter,
+  S3FramesArchiver,
+  S3FramesManifestStore,
+  S3FramesUploader,
+} from './adapters'
 
 export interface PrintWorkerDeps {
   logger: AbstractLoggerService
   eventEmitter: EventBusEmitter
-  processorFactory: (videoId: string) => VideoProcessorService
+  videoRepository: Pick<
+    VideoRepository,
+    'findById' | 'incrementProcessedSegments'
+  >
+  segmentRepository: Pick<
+    VideoSegmentRepository,
+    'findSegment' | 'updateSegment'
+  >
+  /** Picks the processor for the segment's profile */
+  processorFactory: (
+    videoId: string,
+    profile: ProcessingProfile,
+  ) => VideoProcessorService
+  framesArchiver: FramesArchiver
+  framesManifest: FramesManifestStore
   pathBuilder?: StoragePathBuilder
   outputBucket?: string
-  frameInterval?: number
+}
+
+/** Keeps a NonRetryableError terminal when its message gets a prefix */
+function withContext(error: Error, context: string): Error {
+  const message = `${context}: ${error.message}`
+  return NonRetryableError.isNonRetryable(error)
+    ? new NonRetryableError(message)
+    : new Error(message)
 }
 
 export class SegmentEventHandler implements MessageHandler<SegmentMessage> {
   private readonly pathBuilder: StoragePathBuilder
   private readonly outputBucket: string
-  private readonly frameInterval: number
 
   constructor(private readonly deps: PrintWorkerDeps) {
     this.pathBuilder = deps.pathBuilder ?? createStoragePathBuilder()
     this.outputBucket =
       deps.outputBucket ?? process.env.S3_OUTPUT_BUCKET ?? 'fiapx-video-frames'
-    this.frameInterval =
-      deps.frameInterval ?? parseInt(process.env.FRAME_INTERVAL ?? '1', 10)
   }
 
   /** Convert milliseconds to nanoseconds (Datadog standard) */
@@ -69,7 +106,10 @@ export class SegmentEventHandler implements MessageHandler<SegmentMessage> {
       endTime,
       userEmail,
       videoName,
+      runId,
     } = message
+    const profile =
+      message.processingProfile ?? ProcessingProfileVO.default().toJSON()
 
     // Get correlation context from AsyncLocalStorage (set by consumer)
     // Fallback to message context for backwards compatibility
@@ -88,9 +128,61 @@ export class SegmentEventHandler implements MessageHandler<SegmentMessage> {
       component: 'print-worker',
     })
 
+    const videoResult = await this.deps.videoRepository.findById(videoId)
+    if (videoResult.isFailure) return Result.fail(videoResult.error)
+    const video = videoResult.value
+    if (!video) {
+      return Result.fail(new NonRetryableError(`Video not found: ${videoId}`))
+    }
+
+    // Late or redelivered message of an earlier run: its frames go under that
+    // run's prefix, so counting it would complete the current run without them
+    const currentRunId = video.currentRun?.runId
+    if (runId !== currentRunId) {
+      this.deps.logger.log('segment.processing.skipped', {
+        'video.id': videoId,
+        'segment.number': segmentNumber,
+        'segment.run_id': runId,
+        'video.run_id': currentRunId,
+        reason: 'other_run',
+        component: 'print-worker',
+      })
+      return Result.ok(undefined)
+    }
+
+    const segment = await this.loadSegment(message)
+    // Redelivered after it finished: its frames are stored and counted, but
+    // the delivery that counted it may have died or failed before packaging
+    if (segment.isCompleted()) {
+      this.deps.logger.log('segment.processing.skipped', {
+        'video.id': videoId,
+        'segment.number': segmentNumber,
+        'segment.status': segment.status,
+        reason: 'completed',
+        component: 'print-worker',
+      })
+      // Already packaged and reported
+      if (video.status.isCompleted()) return Result.ok(undefined)
+
+      return this.resumePackaging(
+        message,
+        segment,
+        correlationId,
+        segmentStartTime,
+      )
+    }
+
+    segment.startProcessing()
+    await this.saveSegment(segment)
+
     const processor = this.deps.processorFactory(
       `${videoId}-seg${segmentNumber}`,
+      profile,
     )
+    const segmentDir = `segment_${String(segmentNumber).padStart(3, '0')}`
+    const printsPrefix = this.pathBuilder
+      .videoPrint(videoId, segmentDir, runId)
+      .key.replace(/\/$/, '')
 
     try {
       await processor.setup()
@@ -101,23 +193,24 @@ export class SegmentEventHandler implements MessageHandler<SegmentMessage> {
         presignedUrl,
         startTime,
         endTime,
-        this.frameInterval,
+        profile,
+        { bucket: this.outputBucket, prefix: printsPrefix },
       )
 
       if (extractResult.isFailure) {
         await processor.cleanup()
         return this.handleProcessingError(
           extractResult.error,
-          videoId,
-          segmentNumber,
+          segment,
           correlationId,
           segmentStartTime,
           userEmail,
           videoName,
+          runId,
         )
       }
 
-      const { outputDir, count } = extractResult.value
+      const { outputDir, count, frames } = extractResult.value
 
       this.deps.logger.log('segment.processing.frames_extracted', {
         'video.id': videoId,
@@ -128,70 +221,119 @@ export class SegmentEventHandler implements MessageHandler<SegmentMessage> {
       })
 
       const uploadStartTime = performance.now()
-      const printsPrefix = this.pathBuilder
-        .videoPrint(
-          videoId,
-          `segment_${String(segmentNumber).padStart(3, '0')}`,
-        )
-        .key.replace(/\/$/, '')
 
       const uploadResult = await processor.uploadDir(
         outputDir,
         this.outputBucket,
         printsPrefix,
-        'frame_*.jpg',
+        `frame_*.${profile.format}`,
       )
 
       if (uploadResult.isFailure) {
         await processor.cleanup()
         return this.handleProcessingError(
           uploadResult.error,
-          videoId,
-          segmentNumber,
+          segment,
           correlationId,
           segmentStartTime,
           userEmail,
           videoName,
+          runId,
         )
       }
 
+      const uploaded = uploadResult.value
+      // The manifest and the segment count only what reached the bucket
+      const uploadedFiles = new Set(uploaded.map((object) => object.file))
+      const uploadedFrames = frames.filter((frame) =>
+        uploadedFiles.has(frame.file),
+      )
+
       this.deps.logger.log('segment.processing.upload_complete', {
         'video.id': videoId,
         'segment.number': segmentNumber,
-        'frames.count': count,
+        'frames.count': uploaded.length,
+        'frames.bytes': uploaded.reduce(
+          (total, object) => total + object.size,
+          0,
+        ),
         duration: this.msToNs(performance.now() - uploadStartTime),
         component: 'print-worker',
       })
 
-      const isLastSegment = this.checkAndUpdateProgress(
+      // Written before the segment is counted: the merge of the last segment
+      // finds every manifest
+      const manifestResult = await this.deps.framesManifest.saveSegment({
+        videoId,
+        runId,
+        segmentNumber,
+        startTime,
+        endTime,
+        frames: uploadedFrames.map((frame, index) => ({
+          path: `${segmentDir}/${frame.file}`,
+          segmentNumber,
+          frameNumber: index + 1,
+          timestampMs: frame.timestampMs,
+          size: frame.size,
+          width: frame.width,
+          height: frame.height,
+          sha256: frame.sha256,
+        })),
+      })
+
+      if (manifestResult.isFailure) {
+        await processor.cleanup()
+        return this.handleProcessingError(
+          manifestResult.error,
+          segment,
+          correlationId,
+          segmentStartTime,
+          userEmail,
+          videoName,
+          runId,
+        )
+      }
+
+      const progressResult = await this.checkAndUpdateProgress(
         videoId,
         segmentNumber,
         totalSegments,
       )
 
-      if (isLastSegment) {
-        const baseUrl =
-          process.env.AWS_PUBLIC_ENDPOINT ??
-          process.env.AWS_ENDPOINT_URL ??
-          'http://localhost:4566'
-        const downloadUrl = `${baseUrl}/${this.outputBucket}/${this.pathBuilder.videoPrint(videoId, '').key}`
-
-        await this.emitStatusEvent(
-          videoId,
-          'COMPLETED',
+      if (progressResult.isFailure) {
+        await processor.cleanup()
+        return this.handleProcessingError(
+          progressResult.error,
+          segment,
           correlationId,
+          segmentStartTime,
           userEmail,
           videoName,
-          downloadUrl,
+          runId,
         )
+      }
+
+      segment.markCompleted(uploadedFrames.length)
+      await this.saveSegment(segment)
 
-        this.deps.logger.log('video.processing.complete', {
-          'video.id': videoId,
-          'video.segments.total': totalSegments,
-          duration: this.msToNs(performance.now() - segmentStartTime),
-          status: 'completed',
-          component: 'print-worker',
-        })
+      if (progressResult.value) {
+        const completeResult = await this.completeVideo(
+          message,
+          correlationId,
+          segmentStartTime,
+        )
+        if (completeResult.isFailure) {
+          await processor.cleanup()
+          return this.handleProcessingError(
+            completeResult.error,
+            segment,
+            correlationId,
+            segmentStartTime,
+            userEmail,
+            videoName,
+            runId,
+          )
+        }
       }
 
       this.deps.logger.log('segment.processing.end', {
@@ -209,25 +351,134 @@ export class SegmentEventHandler implements MessageHandler<SegmentMessage> {
       await processor.cleanup()
       return this.handleProcessingError(
         error instanceof Error ? error : new Error(String(error)),
-        videoId,
-        segmentNumber,
+        segment,
+        correlationId,
+        segmentStartTime,
+        userEmail,
+        videoName,
+        runId,
+      )
+    }
+  }
+
+  /** Packages the video when its counter is already at totalSegments */
+  private async resumePackaging(
+    message: SegmentMessage,
+    segment: VideoSegment,
+    correlationId: string,
+    segmentStartTime: number,
+  ): Promise<Result<void, Error>> {
+    const { videoId, segmentNumber, totalSegments, userEmail, videoName } =
+      message
+
+    const progressResult = await this.checkAndUpdateProgress(
+      videoId,
+      segmentNumber,
+      totalSegments,
+    )
+    if (progressResult.isFailure) return Result.fail(progressResult.error)
+    if (!progressResult.value) return Result.ok(undefined)
+
+    const completeResult = await this.completeVideo(
+      message,
+      correlationId,
+      segmentStartTime,
+    )
+    if (completeResult.isFailure) {
+      return this.handleProcessingError(
+        completeResult.error,
+        segment,
         correlationId,
         segmentStartTime,
         userEmail,
         videoName,
+        message.runId,
       )
     }
+    return Result.ok(undefined)
+  }
+
+  /**
+   * Packages every frame of the run, then reports COMPLETED. Merge and archive
+   * overwrite the same objects, so a delivery retried after a transient
+   * failure (or a crash) can package the video again.
+   */
+  private async completeVideo(
+    message: SegmentMessage,
+    correlationId: string,
+    segmentStartTime: number,
+  ): Promise<Result<void, Error>> {
+    const { videoId, totalSegments, userEmail, videoName, runId } = message
+
+    const manifestMergeResult = await this.deps.framesManifest.merge(
+      videoId,
+      runId,
+    )
+    if (manifestMergeResult.isFailure) {
+      return Result.fail(
+        withContext(
+          manifestMergeResult.error,
+          'Failed to merge frames manifest',
+        ),
+      )
+    }
+
+    this.deps.logger.log('video.processing.manifest_complete', {
+      'video.id': videoId,
+      'manifest.key': manifestMergeResult.value.key,
+      'frames.count': manifestMergeResult.value.frameCount,
+      component: 'print-worker',
+    })
+
+    const archiveStartTime = performance.now()
+    const archiveResult = await this.deps.framesArchiver.archive(videoId, runId)
+    if (archiveResult.isFailure) {
+      return Result.fail(
+        withContext(archiveResult.error, 'Failed to package frames'),
+      )
+    }
+
+    const { downloadUrl, key, frameCount } = archiveResult.value
+
+    this.deps.logger.log('video.processing.archive_complete', {
+      'video.id': videoId,
+      'archive.key': key,
+      'frames.count': frameCount,
+      duration: this.msToNs(performance.now() - archiveStartTime),
+      component: 'print-worker',
+    })
+
+    await this.emitStatusEvent(
+      videoId,
+      'COMPLETED',
+      correlationId,
+      userEmail,
+      videoName,
+      downloadUrl,
+      undefined,
+      runId,
+    )
+
+    this.deps.logger.log('video.processing.complete', {
+      'video.id': videoId,
+      'video.segments.total': totalSegments,
+      duration: this.msToNs(performance.now() - segmentStartTime),
+      status: 'completed',
+      component: 'print-worker',
+    })
+    return Result.ok(undefined)
   }
 
   private async handleProcessingError(
     error: Error,
-    videoId: string,
-    segmentNumber: number,
+    segment: VideoSegment,
     correlationId: string,
     segmentStartTime: number,
     userEmail?: string,
     videoName?: string,
+    runId?: string,
   ): Promise<Result<void, Error>> {
+    const { videoId, segmentNumber } = segment
     this.deps.logger.error('segment.processing.end', {
       'video.id': videoId,
       'segment.number': segmentNumber,
@@ -239,6 +490,16 @@ export class SegmentEventHandler implements MessageHandler<SegmentMessage> {
 
     const isNonRetryable = this.isNonRetryableError(error)
 
+    // Packaging failures come after the segment was counted: they belong to the video
+    if (segment.isProcessing()) {
+      if (isNonRetryable) {
+        segment.markFailed(error.message)
+      } else {
+        segment.release(error.message)
+      }
+      await this.saveSegment(segment)
+    }
+
     if (isNonRetryable) {
       await this.emitStatusEvent(
         videoId,
@@ -248,6 +509,7 @@ export class SegmentEventHandler implements MessageHandler<SegmentMessage> {
         videoName,
         undefined,
         error.message,
+        runId,
       )
       return Result.fail(new NonRetryableError(error.message))
     }
@@ -255,21 +517,80 @@ export class SegmentEventHandler implements MessageHandler<SegmentMessage> {
     return Result.fail(error)
   }
 
-  private checkAndUpdateProgress(
+  /** Segments published before tracking existed have no row yet */
+  private async loadSegment(message: SegmentMessage): Promise<VideoSegment> {
+    const { videoId, segmentNumber, startTime, endTime } = message
+    const result = await this.deps.segmentRepository.findSegment(
+      videoId,
+      segmentNumber,
+    )
+
+    if (result.isFailure) {
+      this.deps.logger.warn('segment.tracking.failed', {
+        'video.id': videoId,
+        'segment.number': segmentNumber,
+        error: result.error.message,
+        component: 'print-worker',
+      })
+    } else if (result.value) {
+      return result.value
+    }
+
+    return VideoSegment.create({ videoId, segmentNumber, startTime, endTime })
+  }
+
+  /** Tracking is best effort: a failed write does not fail the segment */
+  private async saveSegment(segment: VideoSegment): Promise<void> {
+    const result = await this.deps.segmentRepository.updateSegment(segment)
+    if (result.isFailure) {
+      this.deps.logger.warn('segment.tracking.failed', {
+        'video.id': segment.videoId,
+        'segment.number': segment.segmentNumber,
+        'segment.status': segment.status,
+        error: result.error.message,
+        component: 'print-worker',
+      })
+    }
+  }
+
+  /**
+   * Atomically counts this segment as processed. Segments finish out of order
+   * across workers, so the video is done only once the counter reaches
+   * totalSegments — not for whoever processes the last segment number. A
+   * segment counted by an earlier delivery is not counted again, but still
+   * reports the video done, so packaging resumes after a crash or a failure.
+   */
+  private async checkAndUpdateProgress(
     videoId: string,
     segmentNumber: number,
     totalSegments: number,
-  ): boolean {
+  ): Promise<Result<boolean, Error>> {
+    const incrementResult =
+      await this.deps.videoRepository.incrementProcessedSegments(
+        videoId,
+        segmentNumber,
+      )
+
+    if (incrementResult.isFailure) {
+      return Result.fail(incrementResult.error)
+    }
+
+    const { processedSegments, counted } = incrementResult.value
+
     this.deps.logger.log('segment.processing.progress', {
       'video.id': videoId,
       'segment.number': segmentNumber,
       'segment.total': totalSegments,
+      'segment.processed': processedSegments,
+      'segment.counted': counted,
       component: 'print-worker',
     })
-    return segmentNumber === totalSegments
+    return Result.ok(processedSegments === totalSegments)
   }
 
   private isNonRetryableError(error: Error): boolean {
+    if (error instanceof NonRetryableError) return true
+
     const nonRetryablePatterns = [
       '404',
       'does not exist',
@@ -291,6 +612,7 @@ export class SegmentEventHandler implements MessageHandler<SegmentMessage> {
     videoName?: string,
     downloadUrl?: string,
     errorReason?: string,
+    runId?: string,
   ): Promise<void> {
     await this.deps.eventEmitter.emitVideoStatusChanged({
       videoId,
@@ -300,6 +622,7 @@ export class SegmentEventHandler implements MessageHandler<SegmentMessage> {
       videoName,
       downloadUrl,
       errorReason,
+      runId,
     })
     this.deps.logger.log('video.status.changed', {
       'video.id': videoId,
@@ -320,10 +643,36 @@ if (import.meta.main) {
     endpoint: process.env.AWS_ENDPOINT_URL,
   })
 
+  const s3Client = createS3Client()
+  const uploadConcurrency =
+    Number(process.env.FRAMES_UPLOAD_CONCURRENCY) || undefined
+  const framesUploader = new S3FramesUploader(s3Client, {
+    concurrency: uploadConcurrency,
+  })
+  // `stream` skips the local frames directory for the profiles that allow it
+  const streamFrames = process.env.PRINT_FRAMES_OUTPUT === 'stream'
+
   const handler = new SegmentEventHandler({
     logger,
     eventEmitter: new EventBridgeEmitter(eventBridgeClient),
-    processorFactory: (videoId) => new FFmpegProcessor(videoId),
+    videoRepository: new VideoRepositoryImpl(logger),
+    segmentRepository: new VideoSegmentRepositoryImpl(logger),
+    processorFactory: (videoId, profile) =>
+      streamFrames && StreamingFFmpegProcessor.supports(profile)
+        ? new StreamingFFmpegProcessor(framesUploader, uploadConcurrency)
+        : new FFmpegProcessor(videoId, framesUploader),
+    framesArchiver: new S3FramesArchiver(s3Client, {
+      outputBucket: process.env.S3_OUTPUT_BUCKET ?? 'fiapx-video-frames',
+      pathBuilder: createStoragePathBuilder(),
+      urlExpiresIn:
+        Number(process.env.FRAMES_ARCHIVE_URL_EXPIRES_IN) || 7 * 24 * 60 * 60,
+      publicEndpoint: process.env.AWS_PUBLIC_ENDPOINT,
+      internalEndpoint: process.env.AWS_ENDPOINT_URL,
+    }),
+    framesManifest: new S3FramesManifestStore(s3Client, {
+      outputBucket: process.env.S3_OUTPUT_BUCKET ?? 'fiapx-video-frames',
+      pathBuilder: createStoragePathBuilder(),
+    }),
   })
 
   const queueUrl =
@@ -1,13 +1,165 @@
+import { readdir, rename, rm } from 'node:fs/promises'
+import { join } from 'node:path'
 import { Result } from '@core/domain/result'
+import {
+  type ProcessingProfile,
+  ProcessingProfileVO,
+} from '@modules/video-processor/domain/value-objects/processing-profile.vo'
 import type {
   VideoProcessorService,
+  ExtractedFrame,
   ExtractFramesResult,
+  FramesUploader,
+  UploadedObject,
 } from '../abstractions'
 
+const DEFAULT_SCENE_THRESHOLD = 0.3
+
+/**
+ * `showinfo` logs every frame with its position in the segment, in seconds,
+ * and its size (`s:640x360`)
+ */
+const SHOWINFO_FRAME =
+  /Parsed_showinfo.*?pts_time:\s*(-?[\d.]+)(?:.*?\bs:(\d+)x(\d+))?/g
+
+export type FrameInfo = { seconds: number; width?: number; height?: number }
+
+type PositionedFrame = Omit<ExtractedFrame, 'size' | 'sha256'>
+
+function samplingFilter(profile: ProcessingProfile): string {
+  if (profile.mode === 'scene') {
+    return `select=gt(scene\\,${profile.sceneThreshold ?? DEFAULT_SCENE_THRESHOLD})`
+  }
+  return profile.fps !== undefined
+    ? `fps=${profile.fps}`
+    : `fps=1/${profile.frameInterval ?? 1}`
+}
+
+/** `-vf` chain: sampling, then scaling down to the profile's maximum size */
+export function frameFilters(profile: ProcessingProfile): string {
+  const filters = [samplingFilter(profile)]
+  const { maxWidth, maxHeight } = profile
+
+  if (maxWidth !== undefined && maxHeight !== undefined) {
+    filters.push(
+      `scale=w=min(iw\\,${maxWidth}):h=min(ih\\,${maxHeight}):force_original_aspect_ratio=decrease`,
+    )
+  } else if (maxWidth !== undefined) {
+    filters.push(`scale=w=min(iw\\,${maxWidth}):h=-2`)
+  } else if (maxHeight !== undefined) {
+    filters.push(`scale=w=-2:h=min(ih\\,${maxHeight})`)
+  }
+
+  return filters.join(',')
+}
+
+/**
+ * Interval sampling of one segment on the grid of the whole video. The
+ * segment owns the grid points from its start up to the first point of the
+ * next segment. `fps` takes the frame of a point from up to half an interval
+ * after it, so FFmpeg reads one interval past the end and the frames beyond
+ * the segment are dropped: every point lands in exactly one segment, wherever
+ * the boundaries fall.
+ */
+export type SegmentGrid = {
+  /** First grid point of the segment, where FFmpeg seeks to */
+  firstFrameTime: number
+  /** Where FFmpeg stops reading, in seconds */
+  readUntil: number
+  /** First grid point of the next segment, in ms: later frames are dropped */
+  endMs: number
+  secondsBetweenFrames: number
+}
+
+/** Grid of the segment, or undefined when no grid point falls in it */
+export function segmentGrid(
+  profile: ProcessingProfile,
+  startTime: number,
+  endTime: number,
+): SegmentGrid | undefined {
+  const samplingProfile = ProcessingProfileVO.fromPersistence(profile)
+  const { secondsBetweenFrames } = samplingProfile
+  const firstFrameTime = samplingProfile.firstFrameTime(startTime)
+  const nextFrameTime = samplingProfile.firstFrameTime(endTime)
+  if (firstFrameTime >= nextFrameTime) return undefined
+
+  return {
+    firstFrameTime,
+    readUntil: endTime + secondsBetweenFrames,
+    endMs: Math.round(nextFrameTime * 1000),
+    secondsBetweenFrames,
+  }
+}
+
+/** Position in the video of the `index`th frame extracted from the segment */
+export function gridTimestampMs(
+  grid: SegmentGrid,
+  index: number,
+  info?: FrameInfo,
+): number {
+  const seconds = info?.seconds ?? index * grid.secondsBetweenFrames
+  return Math.round((grid.firstFrameTime + seconds) * 1000)
+}
+
+export function parseFrameInfo(stderr: string): FrameInfo[] {
+  return [...stderr.matchAll(SHOWINFO_FRAME)].map(
+    ([, seconds, width, height]) => ({
+      seconds: Number(seconds),
+      width: width === undefined ? undefined : Number(width),
+      height: height === undefined ? undefined : Number(height),
+    }),
+  )
+}
+
+/** Keeps `max` items spread over the whole list, always the first and last */
+export function selectEvenly<T>(items: T[], max?: number): T[] {
+  if (max === undefined || items.length <= max) return items
+  if (max === 1) return [items[0]]
+
+  return Array.from(
+    { length: max },
+    (_, i) => items[Math.round((i * (items.length - 1)) / (max - 1))],
+  )
+}
+
+/** `frame_0003_12480ms.jpg`: third frame of the segment, at 12.48s of the video */
+export function sceneFrameName(
+  frameNumber: number,
+  timestampMs: number,
+  format: string,
+): string {
+  return `frame_${String(frameNumber).padStart(4, '0')}_${timestampMs}ms.${format}`
+}
+
+/** Encoder options of the format, mapping quality 1–100 to its own scale */
+export function frameEncoderArgs(profile: ProcessingProfile): string[] {
+  const { format, quality } = profile
+
+  switch (format) {
+    case 'jpg':
+      // -q:v goes from 2 (best) to 31
+      return [
+        '-q:v',
+        String(
+          quality === undefined
+            ? 2
+            : Math.round(31 - ((quality - 1) * 29) / 99),
+        ),
+      ]
+    case 'webp':
+      return ['-c:v', 'libwebp', '-quality', String(quality ?? 75)]
+    case 'png':
+      return []
+  }
+}
+
 export class FFmpegProcessor implements VideoProcessorService {
   private workDir: string
 
-  constructor(videoId: string) {
+  constructor(
+    videoId: string,
+    private readonly uploader: FramesUploader,
+  ) {
     this.workDir = `/tmp/ffmpeg/${videoId}`
   }
 
@@ -25,30 +177,194 @@ export class FFmpegProcessor implements VideoProcessorService {
     inputUrl: string,
     startTime: number,
     endTime: number,
-    frameInterval: number,
+    profile: ProcessingProfile,
   ): Promise<Result<ExtractFramesResult, Error>> {
     const outputDir = `${this.workDir}/frames`
 
     const mkdirProc = Bun.spawn(['mkdir', '-p', outputDir])
     await mkdirProc.exited
 
+    if (profile.mode === 'scene') {
+      return this.extractSceneFrames(
+        inputUrl,
+        startTime,
+        endTime,
+        profile,
+        outputDir,
+      )
+    }
+
+    const grid = segmentGrid(profile, startTime, endTime)
+    if (!grid) return Result.ok({ outputDir, count: 0, frames: [] })
+
+    const ffmpegResult = await this.runFFmpeg(
+      inputUrl,
+      grid.firstFrameTime,
+      grid.readUntil,
+      profile,
+      outputDir,
+    )
+    if (ffmpegResult.isFailure) return Result.fail(ffmpegResult.error)
+
+    const infos = parseFrameInfo(ffmpegResult.value)
+
+    return this.describeFrames(outputDir, async () => {
+      const files = (await readdir(outputDir))
+        .filter((name) => name.endsWith(`.${profile.format}`))
+        .sort()
+
+      // Files are numbered in extraction order, like the showinfo lines
+      const frames: PositionedFrame[] = files.map((file, index) => {
+        const info = infos[index]
+        return {
+          file,
+          timestampMs: gridTimestampMs(grid, index, info),
+          width: info?.width,
+          height: info?.height,
+        }
+      })
+
+      const kept: PositionedFrame[] = []
+      for (const frame of frames) {
+        if (frame.timestampMs < grid.endMs) kept.push(frame)
+        else await rm(join(outputDir, frame.file), { force: true })
+      }
+      return kept
+    })
+  }
+
+  /**
+   * Keeps the frames where the scene changes, between `minFrames` and
+   * `maxFrames` of them, and renames each one after its position in the video.
+   */
+  private async extractSceneFrames(
+    inputUrl: string,
+    startTime: number,
+    endTime: number,
+    profile: ProcessingProfile,
+    outputDir: string,
+  ): Promise<Result<ExtractFramesResult, Error>> {
+    let ffmpegResult = await this.runFFmpeg(
+      inputUrl,
+      startTime,
+      endTime,
+      profile,
+      outputDir,
+      ['-vsync', 'vfr'],
+    )
+    if (ffmpegResult.isFailure) return Result.fail(ffmpegResult.error)
+
+    let infos = parseFrameInfo(ffmpegResult.value)
+
+    const { minFrames, maxFrames } = profile
+    if (minFrames !== undefined && infos.length < minFrames) {
+      // Too few scene changes (static footage): take evenly spaced frames
+      await rm(outputDir, { recursive: true, force: true })
+      await Bun.spawn(['mkdir', '-p', outputDir]).exited
+
+      const evenly: ProcessingProfile = {
+        ...profile,
+        mode: 'interval',
+        frameInterval: (endTime - startTime) / minFrames,
+      }
+      ffmpegResult = await this.runFFmpeg(
+        inputUrl,
+        startTime,
+        endTime,
+        evenly,
+        outputDir,
+      )
+      if (ffmpegResult.isFailure) return Result.fail(ffmpegResult.error)
+
+      infos = parseFrameInfo(ffmpegResult.value)
+    }
+
+    const frames: PositionedFrame[] = infos.map((info, index) => ({
+      file: `frame_${String(index + 1).padStart(4, '0')}.${profile.format}`,
+      timestampMs: Math.round((startTime + info.seconds) * 1000),
+      width: info.width,
+      height: info.height,
+    }))
+    const kept = selectEvenly(frames, maxFrames)
+
+    return this.describeFrames(outputDir, async () => {
+      const dropped = frames.filter((frame) => !kept.includes(frame))
+      for (const frame of dropped) {
+        await rm(join(outputDir, frame.file), { force: true })
+      }
+
+      const named: PositionedFrame[] = []
+      for (const [index, frame] of kept.entries()) {
+        const file = sceneFrameName(
+          index + 1,
+          frame.timestampMs,
+          profile.format,
+        )
+        await rename(join(outputDir, frame.file), join(outputDir, file))
+        named.push({ ...frame, file })
+      }
+      return named
+    })
+  }
+
+  /** Adds the size and checksum of each frame, as listed by `listFrames` */
+  private async describeFrames(
+    outputDir: string,
+    listFrames: () => Promise<PositionedFrame[]>,
+  ): Promise<Result<ExtractFramesResult, Error>> {
+    try {
+      const frames: ExtractedFrame[] = []
+      for (const frame of await listFrames()) {
+        const bytes = await Bun.file(join(outputDir, frame.file)).bytes()
+        frames.push({
+          ...frame,
+          size: bytes.byteLength,
+          sha256: new Bun.CryptoHasher('sha256').update(bytes).digest('hex'),
+        })
+      }
+
+      return Result.ok({ outputDir, count: frames.length, frames })
+    } catch (err) {
+      return Result.fail(
+        new Error(
+          `Failed to read extracted frames: ${err instanceof Error ? err.message : String(err)}`,
+        ),
+      )
+    }
+  }
+
+  /**
+   * Runs FFmpeg over the segment and resolves with its log (stderr), where
+   * `showinfo` describes every extracted frame
+   */
+  private async runFFmpeg(
+    inputUrl: string,
+    startTime: number,
+    endTime: number,
+    profile: ProcessingProfile,
+    outputDir: string,
+    extraArgs: string[] = [],
+  ): Promise<Result<string, Error>> {
     let proc: ReturnType<typeof Bun.spawn>
     try {
-      proc = Bun.spawn([
-        'ffmpeg',
-        '-ss',
-        String(startTime),
-        '-to',
-        String(endTime),
-        '-i',
-        inputUrl,
-        '-vf',
-        `fps=1/${frameInterval}`,
-        '-q:v',
-        '2',
-        `${outputDir}/frame_%04d.jpg`,
-        '-y',
-      ])
+      proc = Bun.spawn(
+        [
+          'ffmpeg',
+          '-ss',
+          String(startTime),
+          '-to',
+          String(endTime),
+          '-i',
+          inputUrl,
+          '-vf',
+          `${frameFilters(profile)},showinfo`,
+          ...extraArgs,
+          ...frameEncoderArgs(profile),
+          `${outputDir}/frame_%04d.${profile.format}`,
+          '-y',
+        ],
+        { stdout: 'ignore', stderr: 'pipe' },
+      )
     } catch (err) {
       return Result.fail(
         new Error(
@@ -57,61 +373,27 @@ export class FFmpegProcessor implements VideoProcessorService {
       )
     }
 
-    await proc.exited
+    // Drained while FFmpeg runs: showinfo logs a line per frame
+    const [stderr] = await Promise.all([
+      new Response(proc.stderr).text(),
+      proc.exited,
+    ])
 
     if (proc.exitCode !== 0) {
-      const stderr = await new Response(proc.stderr).text()
       return Result.fail(
         new Error(`FFmpeg failed with exit code ${proc.exitCode}: ${stderr}`),
       )
     }
 
-    const countProc = Bun.spawn([
-      'sh',
-      '-c',
-      `ls -1 "${outputDir}"/*.jpg 2>/dev/null | wc -l`,
-    ])
-    const output = await new Response(countProc.stdout).text()
-    const count = parseInt(output.trim(), 10) || 0
-
-    return Result.ok({ outputDir, count })
+    return Result.ok(stderr)
   }
 
-  async uploadDir(
+  uploadDir(
     localDir: string,
     bucket: string,
     prefix: string,
     pattern: string,
-  ): Promise<Result<void, Error>> {
-    const endpoint = process.env.AWS_ENDPOINT_URL || ''
-    const args = [
-      'aws',
-      's3',
-      'sync',
-      localDir,
-      `s3://${bucket}/${prefix}`,
-      '--exclude',
-      '*',
-      '--include',
-      pattern,
-    ]
-
-    if (endpoint) {
-      args.push('--endpoint-url', endpoint)
-    }
-
-    const proc = Bun.spawn(args)
-    await proc.exited
-
-    if (proc.exitCode !== 0) {
-      const stderr = await new Response(proc.stderr).text()
-      return Result.fail(
-        new Error(
-          `S3 upload failed with exit code ${proc.exitCode}: ${stderr}`,
-        ),
-      )
-    }
-
-    return Result.ok(undefined)
+  ): Promise<Result<UploadedObject[], Error>> {
+    return this.uploader.uploadDir(localDir, bucket, prefix, pattern)
   }
 }
@@ -0,0 +1,155 @@
+import { Result } from '@core/domain/result'
+import { NonRetryableError } from '@core/errors/non-retryable.error'
+import type { VideoProbe } from '@modules/video-processor/domain/value-objects/video-metadata.vo'
+import type { VideoProber } from '../abstractions'
+
+/** ffprobe errors meaning the file itself cannot be read, not the network */
+const UNDECODABLE_PATTERNS = [
+  'Invalid data found when processing input',
+  'moov atom not found',
+  'could not find codec parameters',
+]
+
+type FFprobeStream = {
+  codec_type?: string
+  codec_name?: string
+  width?: number
+  height?: number
+  avg_frame_rate?: string
+  r_frame_rate?: string
+  duration?: string
+}
+
+type FFprobeOutput = {
+  format?: { format_name?: string; duration?: string }
+  streams?: FFprobeStream[]
+}
+
+/** `30000/1001` → 29.97 */
+function parseFrameRate(rate?: string): number {
+  const [num, den = '1'] = (rate ?? '').split('/')
+  const fps = Number(num) / Number(den)
+  return Number.isFinite(fps) && fps > 0 ? Math.round(fps * 1000) / 1000 : 0
+}
+
+function undecodable(reason: string): Result<VideoProbe, Error> {
+  return Result.fail(new NonRetryableError(`Not a decodable video: ${reason}`))
+}
+
+/** Reads the `-show_format -show_streams` JSON of ffprobe */
+export function parseProbe(output: FFprobeOutput): Result<VideoProbe, Error> {
+  const streams = output.streams ?? []
+  const video = streams.find((stream) => stream.codec_type === 'video')
+  const audio = streams.find((stream) => stream.codec_type === 'audio')
+
+  if (!video?.codec_name) return undecodable('no video stream')
+  if (!video.width || !video.height) return undecodable('unknown resolution')
+
+  const seconds = Number(output.format?.duration ?? video.duration)
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    return undecodable('unknown duration')
+  }
+
+  const fps =
+    parseFrameRate(video.avg_frame_rate) || parseFrameRate(video.r_frame_rate)
+  if (!fps) return undecodable('unknown frame rate')
+
+  return Result.ok({
+    durationMs: Math.round(seconds * 1000),
+    container: output.format?.format_name ?? 'unknown',
+    videoCodec: video.codec_name,
+    audioCodec: audio?.codec_name,
+    width: video.width,
+    height: video.height,
+    fps,
+  })
+}
+
+/**
+ * Reads `-show_entries packet=pts_time,flags` CSV lines (`8.341667,K__`):
+ * the timestamps, in seconds, of the packets flagged as keyframes.
+ */
+export function parseKeyframes(csv: string): number[] {
+  const times: number[] = []
+  for (const line of csv.split('\n')) {
+    const [time, flags = ''] = line.trim().split(',')
+    const seconds = Number(time)
+    if (flags.startsWith('K') && time !== '' && Number.isFinite(seconds)) {
+      times.push(seconds)
+    }
+  }
+  return times.sort((a, b) => a - b)
+}
+
+export class FFprobeProber implements VideoProber {
+  async probe(inputUrl: string): Promise<Result<VideoProbe, Error>> {
+    const outputResult = await this.runFFprobe([
+      '-print_format',
+      'json',
+      '-show_format',
+      '-show_streams',
+      inputUrl,
+    ])
+    if (outputResult.isFailure) return Result.fail(outputResult.error)
+
+    try {
+      return parseProbe(JSON.parse(outputResult.value))
+    } catch {
+      return undecodable('unreadable ffprobe output')
+    }
+  }
+
+  /** Reads packet flags only: nothing is decoded */
+  async keyframes(inputUrl: string): Promise<Result<number[], Error>> {
+    const outputResult = await this.runFFprobe([
+      '-select_streams',
+      'v:0',
+      '-show_entries',
+      'packet=pts_time,flags',
+      '-of',
+      'csv=p=0',
+      inputUrl,
+    ])
+    if (outputResult.isFailure) return Result.fail(outputResult.error)
+
+    return Result.ok(parseKeyframes(outputResult.value))
+  }
+
+  /** Runs ffprobe and resolves with its output (stdout) */
+  private async runFFprobe(args: string[]): Promise<Result<string, Error>> {
+    let proc: ReturnType<typeof Bun.spawn>
+    try {
+      proc = Bun.spawn(['ffprobe', '-v', 'error', ...args], {
+        stdout: 'pipe',
+        stderr: 'pipe',
+      })
+    } catch (err) {
+      return Result.fail(
+        new Error(
+          `FFprobe failed: ${err instanceof Error ? err.message : String(err)}`,
+        ),
+      )
+    }
+
+    const [stdout, stderr] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited,
+    ])
+
+    if (proc.exitCode !== 0) {
+      const reason = stderr.trim()
+      // Anything else (expired URL, connection reset) is worth a retry
+      if (UNDECODABLE_PATTERNS.some((pattern) => reason.includes(pattern))) {
+        return Result.fail(
+          new NonRetryableError(`Not a decodable video: ${reason}`),
+        )
+      }
+      return Result.fail(
+        new Error(`FFprobe failed with exit code ${proc.exitCode}: ${reason}`),
+      )
+    }
+
+    return Result.ok(stdout)
+  }
+}
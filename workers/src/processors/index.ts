@@ -1 +1,3 @@
 export { FFmpegProcessor } from './ffmpeg.processor'
+export { StreamingFFmpegProcessor } from './streaming-ffmpeg.processor'
+export { FFprobeProber } from './ffprobe.prober'
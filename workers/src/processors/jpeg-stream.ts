@@ -0,0 +1,92 @@
+const START_OF_IMAGE = 0xd8
+const END_OF_IMAGE = 0xd9
+const START_OF_SCAN = 0xda
+
+/** Markers made of the two marker bytes only, without a length */
+function isStandalone(marker: number): boolean {
+  return marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)
+}
+
+/**
+ * Length of the JPEG at the start of `buffer`, or undefined while it is
+ * incomplete.
+ *
+ * Walks the marker segments by their lengths and, after each scan header, the
+ * entropy-coded data, where 0xFF is only ever followed by 0x00 (stuffing) or a
+ * restart marker until the next real marker. Bytes that look like an end of
+ * image inside a table or the image data are never taken for one.
+ */
+export function jpegLength(buffer: Uint8Array): number | undefined {
+  if (buffer.length < 2) return undefined
+  if (buffer[0] !== 0xff || buffer[1] !== START_OF_IMAGE) {
+    throw new Error('Not a JPEG stream: missing start of image')
+  }
+
+  let pos = 2
+  while (true) {
+    if (pos + 1 >= buffer.length) return undefined
+    if (buffer[pos] !== 0xff) {
+      throw new Error(`Not a JPEG stream: no marker at byte ${pos}`)
+    }
+
+    const marker = buffer[pos + 1]
+    if (marker === 0xff) {
+      // Fill byte before a marker
+      pos += 1
+      continue
+    }
+    if (marker === END_OF_IMAGE) return pos + 2
+    if (isStandalone(marker)) {
+      pos += 2
+      continue
+    }
+
+    if (pos + 3 >= buffer.length) return undefined
+    const segmentEnd = pos + 2 + ((buffer[pos + 2] << 8) | buffer[pos + 3])
+    if (marker !== START_OF_SCAN) {
+      pos = segmentEnd
+      continue
+    }
+
+    let next = segmentEnd
+    while (true) {
+      if (next + 1 >= buffer.length) return undefined
+      if (buffer[next] === 0xff) {
+        const byte = buffer[next + 1]
+        if (byte !== 0x00 && byte !== 0xff && !isStandalone(byte)) break
+      }
+      next += 1
+    }
+    pos = next
+  }
+}
+
+/**
+ * Splits the output of `-f image2pipe -c:v mjpeg` into one JPEG per frame,
+ * yielding each frame as soon as its last byte arrives.
+ */
+export async function* splitJpegStream(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<Uint8Array> {
+  let buffer = new Uint8Array(0)
+
+  for await (const chunk of stream) {
+    const merged = new Uint8Array(buffer.length + chunk.length)
+    merged.set(buffer)
+    merged.set(chunk, buffer.length)
+    buffer = merged
+
+    let length = jpegLength(buffer)
+    while (length !== undefined) {
+      yield buffer.slice(0, length)
+      buffer = buffer.subarray(length)
+      length = jpegLength(buffer)
+    }
+  }
+
+  if (buffer.length > 0) {
+    throw new Error(
+      `JPEG stream ended in the middle of a frame (${buffer.length} bytes)`,
+    )
+  }
+}
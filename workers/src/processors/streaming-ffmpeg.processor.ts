@@ -0,0 +1,255 @@
+import { Result } from '@core/domain/result'
+import type { ProcessingProfile } from '@modules/video-processor/domain/value-objects/processing-profile.vo'
+import type {
+  ExtractedFrame,
+  ExtractFramesResult,
+  FramesDestination,
+  FramesUploader,
+  UploadedObject,
+  VideoProcessorService,
+} from '../abstractions'
+import {
+  type FrameInfo,
+  type SegmentGrid,
+  frameEncoderArgs,
+  frameFilters,
+  gridTimestampMs,
+  parseFrameInfo,
+  segmentGrid,
+} from './ffmpeg.processor'
+import { splitJpegStream } from './jpeg-stream'
+
+const DEFAULT_CONCURRENCY = 4
+
+/** showinfo lines of FFmpeg, read while it runs */
+class FrameLog {
+  private readonly infos: FrameInfo[] = []
+  private ended = false
+  private changed!: Promise<void>
+  private notify!: () => void
+  /** Whole log, once FFmpeg closes stderr */
+  readonly text: Promise<string>
+
+  constructor(stderr: ReadableStream<Uint8Array>) {
+    this.reset()
+    this.text = this.read(stderr)
+  }
+
+  /** The `index`th frame, or undefined when FFmpeg ends without logging it */
+  async info(index: number): Promise<FrameInfo | undefined> {
+    while (this.infos.length <= index && !this.ended) await this.changed
+    return this.infos[index]
+  }
+
+  private async read(stderr: ReadableStream<Uint8Array>): Promise<string> {
+    const decoder = new TextDecoder()
+    let text = ''
+    let parsed = 0
+
+    try {
+      for await (const chunk of stderr) {
+        text += decoder.decode(chunk, { stream: true })
+        // Only whole lines: a frame is logged before it is written to stdout
+        const end = text.lastIndexOf('\n') + 1
+        if (end > parsed) {
+          this.infos.push(...parseFrameInfo(text.slice(parsed, end)))
+          parsed = end
+          this.wake()
+        }
+      }
+      text += decoder.decode()
+      this.infos.push(...parseFrameInfo(text.slice(parsed)))
+      return text
+    } finally {
+      this.ended = true
+      this.wake()
+    }
+  }
+
+  private wake(): void {
+    const notify = this.notify
+    this.reset()
+    notify()
+  }
+
+  private reset(): void {
+    this.changed = new Promise((resolve) => {
+      this.notify = resolve
+    })
+  }
+}
+
+/**
+ * StreamingFFmpegProcessor - Extracts frames without touching the disk: FFmpeg
+ * writes the JPEGs to its stdout (`image2pipe`), which is split on frame
+ * boundaries, and each frame is uploaded as soon as it is complete.
+ *
+ * At most `concurrency` uploads are in flight; while they are, stdout is not
+ * read and FFmpeg waits, so memory stays bounded whatever the fps. Scene mode
+ * picks its frames once the segment is over, so only interval JPEG profiles
+ * can be streamed (see `supports`).
+ */
+export class StreamingFFmpegProcessor implements VideoProcessorService {
+  private uploaded: UploadedObject[] = []
+
+  constructor(
+    private readonly uploader: FramesUploader,
+    private readonly concurrency = DEFAULT_CONCURRENCY,
+  ) {}
+
+  static supports(profile: ProcessingProfile): boolean {
+    return profile.mode !== 'scene' && profile.format === 'jpg'
+  }
+
+  /** Nothing to prepare: frames never reach the disk */
+  async setup(): Promise<void> {}
+
+  async cleanup(): Promise<void> {
+    this.uploaded = []
+  }
+
+  async extractFramesFromUrl(
+    inputUrl: string,
+    startTime: number,
+    endTime: number,
+    profile: ProcessingProfile,
+    destination: FramesDestination,
+  ): Promise<Result<ExtractFramesResult, Error>> {
+    if (!StreamingFFmpegProcessor.supports(profile)) {
+      return Result.fail(
+        new Error('Streaming extraction only supports interval JPEG profiles'),
+      )
+    }
+
+    const outputDir = `s3://${destination.bucket}/${destination.prefix}`
+    this.uploaded = []
+
+    const grid = segmentGrid(profile, startTime, endTime)
+    if (!grid) return Result.ok({ outputDir, count: 0, frames: [] })
+
+    let proc: ReturnType<typeof Bun.spawn>
+    try {
+      proc = Bun.spawn(
+        [
+          'ffmpeg',
+          '-ss',
+          String(grid.firstFrameTime),
+          '-to',
+          String(grid.readUntil),
+          '-i',
+          inputUrl,
+          '-vf',
+          `${frameFilters(profile)},showinfo`,
+          ...frameEncoderArgs(profile),
+          '-f',
+          'image2pipe',
+          '-c:v',
+          'mjpeg',
+          'pipe:1',
+        ],
+        { stdout: 'pipe', stderr: 'pipe' },
+      )
+    } catch (err) {
+      return Result.fail(
+        new Error(
+          `FFmpeg failed: ${err instanceof Error ? err.message : String(err)}`,
+        ),
+      )
+    }
+
+    // Drained while FFmpeg runs: showinfo logs a line per frame
+    const log = new FrameLog(proc.stderr as ReadableStream<Uint8Array>)
+    const uploadResult = await this.uploadFrames(
+      proc.stdout as ReadableStream<Uint8Array>,
+      log,
+      grid,
+      destination,
+    )
+    if (uploadResult.isFailure) {
+      // Nothing more can be stored: stop decoding
+      proc.kill()
+    }
+
+    const [stderr] = await Promise.all([log.text, proc.exited])
+
+    if (uploadResult.isFailure || proc.exitCode !== 0) this.uploaded = []
+    if (uploadResult.isFailure) return Result.fail(uploadResult.error)
+    if (proc.exitCode !== 0) {
+      return Result.fail(
+        new Error(`FFmpeg failed with exit code ${proc.exitCode}: ${stderr}`),
+      )
+    }
+
+    const frames = uploadResult.value
+    return Result.ok({ outputDir, count: frames.length, frames })
+  }
+
+  /** Frames were uploaded while they were extracted: returns them */
+  async uploadDir(): Promise<Result<UploadedObject[], Error>> {
+    return Result.ok(this.uploaded)
+  }
+
+  /**
+   * Uploads every frame of `stdout` that belongs to the segment, stopping at
+   * the first one that fails. Frames read past the segment are discarded.
+   */
+  private async uploadFrames(
+    stdout: ReadableStream<Uint8Array>,
+    log: FrameLog,
+    grid: SegmentGrid,
+    destination: FramesDestination,
+  ): Promise<Result<ExtractedFrame[], Error>> {
+    const frames: ExtractedFrame[] = []
+    const inFlight = new Set<Promise<void>>()
+    let failure: Error | undefined
+    let index = 0
+
+    try {
+      for await (const jpeg of splitJpegStream(stdout)) {
+        const info = await log.info(index)
+        const timestampMs = gridTimestampMs(grid, index, info)
+        index += 1
+        if (timestampMs >= grid.endMs) continue
+
+        const file = `frame_${String(index).padStart(4, '0')}.jpg`
+        const upload = this.uploader
+          .uploadObject(
+            jpeg,
+            destination.bucket,
+            `${destination.prefix}/${file}`,
+            'image/jpeg',
+          )
+          .then((result) => {
+            if (result.isFailure) {
+              failure ??= new Error(
+                `S3 upload failed for ${file}: ${result.error.message}`,
+              )
+              return
+            }
+            this.uploaded.push(result.value)
+            frames.push({
+              file,
+              timestampMs,
+              size: result.value.size,
+              width: info?.width,
+              height: info?.height,
+              sha256: result.value.sha256,
+            })
+          })
+        inFlight.add(upload)
+        upload.finally(() => inFlight.delete(upload))
+
+        if (inFlight.size >= this.concurrency) await Promise.race(inFlight)
+        if (failure) break
+      }
+    } catch (err) {
+      failure ??= err instanceof Error ? err : new Error(String(err))
+    }
+
+    await Promise.all(inFlight)
+    if (failure) return Result.fail(failure)
+
+    this.uploaded.sort((a, b) => a.file.localeCompare(b.file))
+    return Result.ok(frames.sort((a, b) => a.file.localeCompare(b.file)))
+  }
+}
@@ -0,0 +1,79 @@
+import type { EmailMessage } from '../abstractions'
+
+export type VideoNotificationStatus = 'COMPLETED' | 'FAILED'
+
+export type VideoNotificationTemplateData = {
+  status: VideoNotificationStatus
+  email: string
+  videoName?: string
+  downloadUrl?: string
+  errorReason?: string
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char] ?? char)
+}
+
+function layout(title: string, body: string): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="pt-BR">',
+    '<head><meta charset="UTF-8"><title>FIAP X</title></head>',
+    '<body style="font-family: Arial, sans-serif; color: #1f2933;">',
+    `<h1>${title}</h1>`,
+    body,
+    '<p style="color: #7b8794; font-size: 12px;">FIAP X - processamento de vídeos</p>',
+    '</body>',
+    '</html>',
+  ].join('\n')
+}
+
+/**
+ * Renders the email sent when a video finishes processing. Same content as
+ * the VideoConcluido / VideoFalhou SES templates, with every value escaped.
+ */
+export function renderVideoNotification(
+  data: VideoNotificationTemplateData,
+): Omit<EmailMessage, 'to'> {
+  const videoName = data.videoName ?? 'seu vídeo'
+  const greeting = `Olá ${escapeHtml(data.email)}`
+
+  if (data.status === 'COMPLETED') {
+    const download = data.downloadUrl
+      ? `<p><a href="${escapeHtml(data.downloadUrl)}">Clique aqui para download</a></p>`
+      : '<p>As imagens já estão disponíveis na plataforma.</p>'
+
+    return {
+      subject: 'Seu vídeo está pronto!',
+      html: layout(
+        greeting,
+        `<p>Seu vídeo <strong>${escapeHtml(videoName)}</strong> foi processado!</p>\n${download}`,
+      ),
+      text: [
+        `Olá ${data.email}, seu vídeo ${videoName} está pronto!`,
+        data.downloadUrl
+          ? `Download: ${data.downloadUrl}`
+          : 'As imagens já estão disponíveis na plataforma.',
+      ].join('\n'),
+    }
+  }
+
+  const reason = data.errorReason ?? 'erro desconhecido'
+
+  return {
+    subject: 'Erro ao processar seu vídeo',
+    html: layout(
+      greeting,
+      `<p>Houve um erro ao processar <strong>${escapeHtml(videoName)}</strong>.</p>\n<p>Motivo: ${escapeHtml(reason)}</p>`,
+    ),
+    text: `Olá ${data.email}, houve um erro ao processar ${videoName}. Motivo: ${reason}`,
+  }
+}
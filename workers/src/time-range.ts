@@ -59,3 +59,158 @@ export function getTotalSegments(
   }
   return Math.ceil(durationMs / segmentDurationMs)
 }
+
+export interface SegmentPlannerConfig {
+  /** Number of segments aimed at, before the length bounds apply */
+  targetSegments: number
+  minSegmentDurationMs: number
+  maxSegmentDurationMs: number
+}
+
+export interface SegmentPlan {
+  segmentDurationMs: number
+  totalSegments: number
+  ranges: TimeRange[]
+}
+
+export const DEFAULT_SEGMENT_PLANNER_CONFIG: SegmentPlannerConfig = {
+  targetSegments: 20,
+  minSegmentDurationMs: 5_000,
+  maxSegmentDurationMs: 120_000,
+}
+
+/**
+ * Picks the segment length of each video: the duration split into
+ * `targetSegments`, rounded up to whole seconds and kept within the bounds.
+ * Short clips still get a few segments and long videos no longer flood the
+ * print queue.
+ *
+ * @example
+ * // 3 hour video: 540s segments, capped at 120s
+ * new SegmentPlanner().plan(10_800_000) // 90 segments of 120s
+ */
+export class SegmentPlanner {
+  constructor(
+    private readonly config: SegmentPlannerConfig = DEFAULT_SEGMENT_PLANNER_CONFIG,
+  ) {
+    const { targetSegments, minSegmentDurationMs, maxSegmentDurationMs } =
+      config
+    if (targetSegments < 1 || minSegmentDurationMs < 1000) {
+      throw new Error(
+        'Segment planner needs at least one segment of at least 1 second',
+      )
+    }
+    if (minSegmentDurationMs > maxSegmentDurationMs) {
+      throw new Error(
+        'Minimum segment duration must not exceed the maximum segment duration',
+      )
+    }
+  }
+
+  /**
+   * Reads SEGMENT_TARGET_COUNT, SEGMENT_MIN_DURATION_MS and
+   * SEGMENT_MAX_DURATION_MS, falling back to the defaults
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): SegmentPlanner {
+    const defaults = DEFAULT_SEGMENT_PLANNER_CONFIG
+    return new SegmentPlanner({
+      targetSegments:
+        Number(env.SEGMENT_TARGET_COUNT) || defaults.targetSegments,
+      minSegmentDurationMs:
+        Number(env.SEGMENT_MIN_DURATION_MS) || defaults.minSegmentDurationMs,
+      maxSegmentDurationMs:
+        Number(env.SEGMENT_MAX_DURATION_MS) || defaults.maxSegmentDurationMs,
+    })
+  }
+
+  segmentDurationMs(durationMs: number): number {
+    const { targetSegments, minSegmentDurationMs, maxSegmentDurationMs } =
+      this.config
+    const targetMs = Math.ceil(durationMs / targetSegments / 1000) * 1000
+    return Math.min(
+      Math.max(targetMs, minSegmentDurationMs),
+      maxSegmentDurationMs,
+    )
+  }
+
+  plan(durationMs: number): SegmentPlan {
+    const segmentDurationMs = this.segmentDurationMs(durationMs)
+    const ranges = calculateTimeRanges(durationMs, segmentDurationMs)
+    return { segmentDurationMs, totalSegments: ranges.length, ranges }
+  }
+}
+
+/** Keyframe of `keyframeTimes` closest to `target`, strictly inside (after, before) */
+function nearestKeyframe(
+  keyframeTimes: number[],
+  target: number,
+  after: number,
+  before: number,
+): number | undefined {
+  let nearest: number | undefined
+  for (const time of keyframeTimes) {
+    if (time <= after || time >= before) continue
+    if (
+      nearest === undefined ||
+      Math.abs(time - target) < Math.abs(nearest - target)
+    ) {
+      nearest = time
+    }
+  }
+  return nearest
+}
+
+/**
+ * Moves the boundaries between ranges onto keyframes, so that each print
+ * worker seeks straight to a keyframe instead of decoding the GOP before its
+ * start. A boundary without a keyframe within `maxShiftSeconds` (half a
+ * segment by default) is kept where it was.
+ *
+ * The print worker samples frames on a grid of the whole video, each segment
+ * owning the grid points in [startTime, endTime), so moving boundaries never
+ * duplicates nor skips a frame.
+ *
+ * @param ranges - Ranges from `calculateTimeRanges`
+ * @param keyframeTimes - Keyframe timestamps in seconds, in any order
+ * @returns The same number of ranges, contiguous and in seconds
+ *
+ * @example
+ * // Keyframes every 4.17s: boundaries move from 10s/20s to 8.34s/20.85s
+ * alignToKeyframes(calculateTimeRanges(25000), [0, 4.17, 8.34, 12.51, 16.68, 20.85, 25.02])
+ */
+export function alignToKeyframes(
+  ranges: TimeRange[],
+  keyframeTimes: number[],
+  maxShiftSeconds?: number,
+): TimeRange[] {
+  if (ranges.length < 2 || keyframeTimes.length === 0) {
+    return ranges
+  }
+
+  const first = ranges[0]
+  const end = ranges[ranges.length - 1].endTime
+  const maxShift = maxShiftSeconds ?? (first.endTime - first.startTime) / 2
+
+  const boundaries = [first.startTime]
+  for (const range of ranges.slice(0, -1)) {
+    const previous = boundaries[boundaries.length - 1]
+    const keyframe = nearestKeyframe(
+      keyframeTimes,
+      range.endTime,
+      previous,
+      end,
+    )
+    boundaries.push(
+      keyframe !== undefined && Math.abs(keyframe - range.endTime) <= maxShift
+        ? keyframe
+        : range.endTime,
+    )
+  }
+  boundaries.push(end)
+
+  return boundaries.slice(0, -1).map((startTime, i) => ({
+    segmentNumber: i + 1,
+    startTime,
+    endTime: boundaries[i + 1],
+  }))
+}